@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { modelCatalog } from './modelCatalog';
+import { isOpenRouterKey } from './providers/openrouter';
+import { traceLog } from './traceLog';
+
+/** Providers that take a key, in the order the settings panel lists them. */
+export const KEYED_PROVIDERS = ['groq', 'openai', 'anthropic', 'gemini', 'openrouter', 'azure', 'custom'];
+
+const SECRET_PREFIX = 'prompt2code.apiKey.';
+
+/** Plain-text settings that held keys before they moved to SecretStorage. */
+const LEGACY_SETTINGS = ['apiKey', 'apiKeys', 'customEndpoint.apiKey'];
+
+/** Settings scopes a key may have been saved in (user settings, a workspace's settings.json, or a folder's). */
+const SETTING_TARGETS: ['globalValue' | 'workspaceValue' | 'workspaceFolderValue', vscode.ConfigurationTarget][] = [
+  ['globalValue', vscode.ConfigurationTarget.Global],
+  ['workspaceValue', vscode.ConfigurationTarget.Workspace],
+  ['workspaceFolderValue', vscode.ConfigurationTarget.WorkspaceFolder],
+];
+
+/** One legacy setting in one scope that held at least one key. */
+interface LegacyScope {
+  config: vscode.WorkspaceConfiguration;
+  setting: string;
+  target: vscode.ConfigurationTarget;
+}
+
+/** A key found in settings; `modelId` is set for entries of `prompt2code.apiKeys`. */
+interface LegacyKey {
+  provider: string;
+  key: string;
+  scope: LegacyScope;
+  modelId?: string;
+}
+
+/**
+ * Provider API keys, kept in VS Code SecretStorage (one secret per provider)
+ * and mirrored in memory so request paths can read them synchronously.
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, string>();
+  private secrets?: vscode.SecretStorage;
+  /** Set while a migration runs, so the settings changes it makes do not start another. */
+  private migrating = false;
+  /** Keys the last migration left in settings.json because their provider already had a different one. */
+  private leftInSettings = new Set<string>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  /**
+   * Load stored keys, follow changes made by other windows, and move any
+   * keys still in settings.json into SecretStorage.
+   */
+  async attach(secrets: vscode.SecretStorage): Promise<vscode.Disposable> {
+    this.secrets = secrets;
+    for (const provider of KEYED_PROVIDERS) {
+      const key = await secrets.get(SECRET_PREFIX + provider);
+      if (key) { this.keys.set(provider, key); }
+    }
+    const subscription = secrets.onDidChange(async (e) => {
+      if (!e.key.startsWith(SECRET_PREFIX)) { return; }
+      const provider = e.key.slice(SECRET_PREFIX.length);
+      const key = await secrets.get(e.key);
+      if (key) { this.keys.set(provider, key); } else { this.keys.delete(provider); }
+      this._onDidChange.fire();
+    });
+    await this.migrateFromSettings();
+    this._onDidChange.fire();
+    return subscription;
+  }
+
+  /** The saved key for a provider, or '' when there is none. */
+  get(provider: string): string {
+    return this.keys.get(provider) ?? '';
+  }
+
+  /** Every saved key, so logs can redact them. */
+  values(): string[] {
+    return [...this.keys.values()];
+  }
+
+  has(provider: string): boolean {
+    return !!this.get(provider);
+  }
+
+  async set(provider: string, apiKey: string): Promise<void> {
+    const key = apiKey.trim();
+    if (!key) { return this.delete(provider); }
+    this.keys.set(provider, key);
+    await this.secrets?.store(SECRET_PREFIX + provider, key);
+    this._onDidChange.fire();
+  }
+
+  async delete(provider: string): Promise<void> {
+    this.keys.delete(provider);
+    await this.secrets?.delete(SECRET_PREFIX + provider);
+    this._onDidChange.fire();
+  }
+
+  /** Whether a settings change touched one of the legacy key settings. */
+  static affectsLegacySettings(e: vscode.ConfigurationChangeEvent): boolean {
+    return LEGACY_SETTINGS.some(s => e.affectsConfiguration(`prompt2code.${s}`));
+  }
+
+  /**
+   * Copy keys from `prompt2code.apiKey`, `prompt2code.apiKeys` and
+   * `prompt2code.customEndpoint.apiKey` into SecretStorage, then remove them
+   * from every settings scope. Per-model keys are filed under their model's
+   * provider (or OpenRouter for `sk-or-` keys). On first run a key already
+   * in SecretStorage wins; a key pasted into settings later replaces it.
+   * A key that loses to a different one for the same provider stays in
+   * settings, and the user is told which models it belonged to.
+   */
+  async migrateFromSettings(replaceExisting = false): Promise<void> {
+    if (!this.secrets || this.migrating) { return; }
+    this.migrating = true;
+    try {
+      await this.moveLegacyKeys(replaceExisting);
+    } finally {
+      this.migrating = false;
+    }
+  }
+
+  private async moveLegacyKeys(replaceExisting: boolean): Promise<void> {
+    if (!this.secrets) { return; }
+    const scopes: LegacyScope[] = [];
+    const found: LegacyKey[] = [];
+
+    // Folder settings are only visible through a configuration scoped to that folder
+    const sources: [vscode.WorkspaceConfiguration, boolean][] = [
+      [vscode.workspace.getConfiguration('prompt2code'), false],
+      ...(vscode.workspace.workspaceFolders ?? []).map(f => [vscode.workspace.getConfiguration('prompt2code', f.uri), true] as [vscode.WorkspaceConfiguration, boolean]),
+    ];
+    for (const [config, folderScoped] of sources) {
+      for (const setting of LEGACY_SETTINGS) {
+        const inspected = config.inspect<unknown>(setting);
+        if (!inspected) { continue; }
+        for (const [field, target] of SETTING_TARGETS) {
+          if ((field === 'workspaceFolderValue') !== folderScoped) { continue; }
+          const value = inspected[field];
+          if (value === undefined) { continue; }
+          const scope: LegacyScope = { config, setting, target };
+          scopes.push(scope);
+          if (setting === 'apiKeys' && value && typeof value === 'object') {
+            for (const [modelId, key] of Object.entries(value as Record<string, unknown>)) {
+              if (typeof key !== 'string' || !key.trim()) { continue; }
+              found.push({ provider: isOpenRouterKey(key) ? 'openrouter' : modelCatalog.providerOf(modelId), key: key.trim(), scope, modelId });
+            }
+          } else if (typeof value === 'string' && value.trim()) {
+            // The old global key was documented as the Groq key
+            const provider = setting === 'customEndpoint.apiKey' ? 'custom' : isOpenRouterKey(value) ? 'openrouter' : 'groq';
+            found.push({ provider, key: value.trim(), scope });
+          }
+        }
+      }
+    }
+    if (!scopes.length) { return; }
+
+    const migrated: string[] = [];
+    const kept: LegacyKey[] = [];
+    for (const entry of found) {
+      const { provider, key } = entry;
+      const skip = this.has(provider) && (!replaceExisting || migrated.includes(provider) || this.leftInSettings.has(key));
+      if (skip) {
+        if (key !== this.get(provider)) { kept.push(entry); }
+        continue;
+      }
+      this.keys.set(provider, key);
+      await this.secrets.store(SECRET_PREFIX + provider, key);
+      migrated.push(provider);
+    }
+    // A key stored later in the loop may have replaced one an earlier entry lost to
+    const leftOver = kept.filter(entry => entry.key !== this.get(entry.provider));
+    const newlyLeft = leftOver.filter(entry => !this.leftInSettings.has(entry.key));
+    this.leftInSettings = new Set(leftOver.map(entry => entry.key));
+
+    for (const scope of scopes) {
+      const remaining = leftOver.filter(entry => entry.scope === scope);
+      // Rewriting a scope that lost nothing would only trigger another migration
+      if (remaining.length && remaining.length === found.filter(entry => entry.scope === scope).length) { continue; }
+      const value = remaining.length
+        ? Object.fromEntries(remaining.map(entry => [entry.modelId, entry.key]))
+        : undefined;
+      try {
+        await scope.config.update(scope.setting, value, scope.target);
+      } catch (error: any) {
+        traceLog.output.warn(`API keys: could not remove prompt2code.${scope.setting} from settings (${error.message})`);
+      }
+    }
+    traceLog.output.info(`API keys: moved ${migrated.length} key(s) from settings.json to secret storage, left ${leftOver.length}`);
+    if (migrated.length) {
+      vscode.window.showInformationMessage(
+        `Prompt2Code moved your API keys (${migrated.join(', ')}) from settings.json to VS Code's secret storage.`
+      );
+    }
+    if (newlyLeft.length) {
+      const owners = newlyLeft.map(entry => entry.modelId ? `${entry.modelId} (${entry.provider})` : `prompt2code.${entry.scope.setting} (${entry.provider})`);
+      vscode.window.showWarningMessage(
+        `Prompt2Code keeps one API key per provider, so these keys were left in settings.json: ${owners.join(', ')}. `
+        + 'Remove the ones you no longer need, or save the right key for the provider in the Settings panel.'
+      );
+    }
+    this._onDidChange.fire();
+  }
+}
+
+/** Empty until activation attaches it to the extension's secret storage. */
+export const apiKeyStore = new ApiKeyStore();
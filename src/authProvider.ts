@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as http from 'http';
 import * as crypto from 'crypto';
-import axios from 'axios';
+import { httpClient } from './httpTransport';
 
 /* ──────────────────────────────────────────────
  * Google OAuth 2.0 constants — injected at build time from .env
@@ -96,7 +96,7 @@ export class GoogleAuthProvider {
 
           // Exchange authorization code for tokens using PKCE (no client_secret needed for native apps)
           const redirectUri = `http://127.0.0.1:${boundPort}/callback`;
-          const tokenRes = await axios.post(
+          const tokenRes = await httpClient.post(
             GOOGLE_TOKEN_URL,
             (() => {
               const params = new URLSearchParams({
@@ -117,7 +117,7 @@ export class GoogleAuthProvider {
           const { access_token, refresh_token } = tokenRes.data;
 
           // Fetch user profile
-          const profileRes = await axios.get(GOOGLE_USERINFO_URL, {
+          const profileRes = await httpClient.get(GOOGLE_USERINFO_URL, {
             headers: { Authorization: `Bearer ${access_token}` },
           });
 
@@ -273,7 +273,7 @@ export class GoogleAuthProvider {
     const accessToken = await this.context.secrets.get('prompt2code.googleAccessToken');
     if (accessToken) {
       try {
-        await axios.post('https://oauth2.googleapis.com/revoke', null, {
+        await httpClient.post('https://oauth2.googleapis.com/revoke', null, {
           params: { token: accessToken },
           headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
         });
@@ -298,7 +298,7 @@ export class GoogleAuthProvider {
     }
 
     try {
-      const res = await axios.post(
+      const res = await httpClient.post(
         GOOGLE_TOKEN_URL,
         (() => {
           const params = new URLSearchParams({
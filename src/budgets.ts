@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { usageTracker } from './usageTracker';
+import { modelCatalog } from './modelCatalog';
+import { apiKeyStore } from './apiKeyStore';
+import { getProviderAdapter } from './providers/registry';
+import { isOpenRouterKey } from './providers/openrouter';
+
+/**
+ * One spending cap from `prompt2code.budgets`. A rule with a `provider`
+ * covers every model of that provider (`openrouter`: every model an
+ * OpenRouter key serves), one with a `model` only that model, and one with
+ * neither covers all usage.
+ */
+export interface BudgetRule {
+  provider?: string;
+  model?: string;
+  period: 'daily' | 'monthly';
+  /** Cap on estimated spend (USD). */
+  maxUsd?: number;
+  /** Cap on input + output tokens. */
+  maxTokens?: number;
+}
+
+/** What happens once a cap is reached. */
+export type BudgetAction = 'block' | 'downgrade';
+
+export interface BudgetConfig {
+  rules: BudgetRule[];
+  /** Fraction of a cap (0–1) at which to warn, and at which Auto starts preferring cheaper models. */
+  warnThreshold: number;
+  action: BudgetAction;
+}
+
+/** The most-used budget that applies to a model. */
+export interface BudgetStatus {
+  state: 'ok' | 'warn' | 'exceeded';
+  rule?: BudgetRule;
+  used: number;
+  limit: number;
+  unit: 'usd' | 'tokens';
+}
+
+/** Read the budget settings. */
+export function getBudgetConfig(): BudgetConfig {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  const rules = (config.get<BudgetRule[]>('budgets', []) ?? []).filter(r =>
+    r && (r.period === 'daily' || r.period === 'monthly') && ((r.maxUsd ?? 0) > 0 || (r.maxTokens ?? 0) > 0)
+  );
+  const warnThreshold = config.get<number>('budgetWarnThreshold', 0.8);
+  return {
+    rules,
+    warnThreshold: warnThreshold > 0 && warnThreshold <= 1 ? warnThreshold : 0.8,
+    action: config.get<BudgetAction>('budgetAction', 'block') === 'downgrade' ? 'downgrade' : 'block',
+  };
+}
+
+/** Thrown instead of sending a request that would spend past a cap. */
+export class BudgetExceededError extends Error {
+  constructor(readonly status: BudgetStatus) {
+    super(`💸 ${describeBudget(status)} has been reached (${formatAmount(status.used, status.unit)} of ${formatAmount(status.limit, status.unit)}). `
+      + 'Raise or remove the limit in the prompt2code.budgets setting, or wait for the next period.');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function formatAmount(value: number, unit: 'usd' | 'tokens'): string {
+  return unit === 'usd' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+}
+
+/** "The monthly budget for anthropic", "The daily budget for gpt-4o", … */
+export function describeBudget(status: BudgetStatus): string {
+  const rule = status.rule;
+  const target = rule?.model ?? rule?.provider;
+  return `The ${rule?.period ?? 'monthly'} budget${target ? ` for ${target}` : ''}`;
+}
+
+/**
+ * Whether a rule's `provider` covers a model: its own provider, or
+ * `openrouter` while the model's requests go out with an OpenRouter key.
+ */
+function providerCovers(provider: string, modelId: string): boolean {
+  const own = modelCatalog.providerOf(modelId);
+  if (own === provider) { return true; }
+  if (provider !== 'openrouter') { return false; }
+  const adapter = getProviderAdapter(own);
+  if (adapter.keyOptional || adapter.ownKeyOnly) { return false; }
+  return isOpenRouterKey(apiKeyStore.get(own) || apiKeyStore.get('openrouter'));
+}
+
+/**
+ * Check every rule that applies to a model against recorded usage and
+ * return the one closest to (or furthest past) its cap.
+ */
+export function evaluateBudget(modelId: string, config: BudgetConfig = getBudgetConfig()): BudgetStatus {
+  let worst: BudgetStatus = { state: 'ok', used: 0, limit: 0, unit: 'usd' };
+  let worstRatio = 0;
+
+  for (const rule of config.rules) {
+    if (rule.provider && !providerCovers(rule.provider, modelId)) { continue; }
+    if (rule.model && rule.model !== modelId) { continue; }
+    const totals = usageTracker.totals(rule.period, m =>
+      (!rule.model || m === rule.model) && (!rule.provider || providerCovers(rule.provider, m))
+    );
+    const limits: { used: number; limit: number; unit: 'usd' | 'tokens' }[] = [];
+    if (rule.maxUsd) { limits.push({ used: totals.costUsd, limit: rule.maxUsd, unit: 'usd' }); }
+    if (rule.maxTokens) { limits.push({ used: totals.inputTokens + totals.outputTokens, limit: rule.maxTokens, unit: 'tokens' }); }
+    for (const l of limits) {
+      const ratio = l.used / l.limit;
+      if (ratio <= worstRatio) { continue; }
+      const state = ratio >= 1 ? 'exceeded' : ratio >= config.warnThreshold ? 'warn' : 'ok';
+      worst = { state, rule, ...l };
+      worstRatio = ratio;
+    }
+  }
+  return worst;
+}
+
+/** Warnings already shown, keyed by rule and period so each shows once per day / month. */
+const warned = new Set<string>();
+
+/** Show a one-off warning when a budget crosses the warn threshold. */
+export function warnBudgetOnce(status: BudgetStatus): void {
+  if (status.state !== 'warn' || !status.rule) { return; }
+  const now = new Date();
+  const period = status.rule.period === 'daily' ? now.toDateString() : `${now.getFullYear()}-${now.getMonth()}`;
+  const key = `${JSON.stringify(status.rule)}|${status.unit}|${period}`;
+  if (warned.has(key)) { return; }
+  warned.add(key);
+  const percent = Math.round((status.used / status.limit) * 100);
+  vscode.window.showWarningMessage(
+    `Prompt2Code: ${describeBudget(status)} is ${percent}% used (${formatAmount(status.used, status.unit)} of ${formatAmount(status.limit, status.unit)}).`
+  );
+}
@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GroqClient, GroqMessage } from './groqClient';
+import { AutoTask, GroqClient, GroqMessage, ImageAttachment, ModelComparisonResult, withImages } from './groqClient';
 import { GoogleAuthProvider } from './authProvider';
 import { PromptBuilder } from './promptBuilder';
+import { usageTracker } from './usageTracker';
+import { modelCatalog } from './modelCatalog';
+import { KEYED_PROVIDERS, apiKeyStore } from './apiKeyStore';
+import { isOpenRouterKey } from './providers/openrouter';
 import {
   listWorkspaceFiles,
   createWorkspaceFile,
@@ -37,11 +41,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private checkpoints = new Map<string, { uri: vscode.Uri; content: string }>();
   private checkpointCounter = 0;
 
+  /** Aborts the in-flight AI request when the user clicks Stop. */
+  private abortController?: AbortController;
+
+  /** Models the next messages are sent to side by side; empty for a normal chat. */
+  private compareModelIds: string[] = [];
+
+  /** Shown comparisons by id; code-edit ones keep where their answers apply and their history entry. */
+  private comparisons = new Map<string, {
+    results: ModelComparisonResult[];
+    target?: { uri: vscode.Uri; range: vscode.Range; version: number };
+    historyEntry: GroqMessage;
+  }>();
+  private comparisonCounter = 0;
+
   /** Google Auth provider (injected by extension.ts). */
   private authProvider?: GoogleAuthProvider;
 
+  /** Usage-accounting session; a new one starts with every new or cleared chat. */
+  private usageSessionId = ChatViewProvider.newUsageSessionId();
+  private usageSessionTitle?: string;
+
   constructor(private readonly _extensionUri: vscode.Uri) {
-    this.groqClient = new GroqClient();
+    this.groqClient = new GroqClient('agent');
+    this.groqClient.setRateLimitListener(({ provider, waitMs }) => {
+      this._view?.webview.postMessage({ type: 'rateLimitWait', provider: GroqClient.getProviderMeta(provider).name, waitMs });
+    });
     this.promptBuilder = new PromptBuilder();
   }
 
@@ -99,6 +124,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
       })
     );
+    // Keep an open usage view live as requests complete
+    this.disposables.push(usageTracker.onDidChange(() => this.sendUsageToWebview()));
     webviewView.onDidDispose(() => {
       for (const d of this.disposables) d.dispose();
       this.disposables = [];
@@ -136,11 +163,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         case 'sendMessage':
-          await this.handleUserMessage(data.message, data.attachedFiles || [], data.localFiles || []);
+          await this.handleUserMessage(data.message, data.attachedFiles || [], data.localFiles || [], data.images || []);
           break;
 
-        case 'sendImageMessage':
-          await this.handleImageToCode(data.message, data.imageBase64, data.mimeType, data.fileName);
+        case 'stopGeneration':
+          this.abortController?.abort();
           break;
 
         case 'clearChat':
@@ -187,17 +214,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           const cp = this.checkpoints.get(data.id);
           if (!cp) { break; }
           if (data.action === 'discard') {
-            // Restore file to checkpoint content
-            try {
-              const doc = await vscode.workspace.openTextDocument(cp.uri);
-              const editor = await vscode.window.showTextDocument(doc);
-              const fullRange = new vscode.Range(
-                doc.positionAt(0),
-                doc.positionAt(doc.getText().length)
-              );
-              await editor.edit(eb => { eb.replace(fullRange, cp.content); });
+            if (await this.restoreCheckpoint(data.id)) {
               vscode.window.showInformationMessage('Restored to checkpoint');
-            } catch {
+            } else {
               vscode.window.showErrorMessage('Failed to restore checkpoint');
             }
           }
@@ -211,6 +230,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           break;
         }
 
+        case 'pickCompareModels': {
+          await this.pickCompareModels();
+          break;
+        }
+
+        case 'clearCompare': {
+          this.setCompareModels([]);
+          break;
+        }
+
+        case 'applyComparison': {
+          await this.applyComparison(data.comparisonId, data.index);
+          break;
+        }
+
         case 'setMode': {
           const mode = data.mode as ChatMode;
           if (['ask', 'agent', 'plan'].includes(mode)) {
@@ -288,48 +322,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
 
         case 'requestApiKeys': {
-          const models = GroqClient.AVAILABLE_MODELS;
-          const keys: Record<string, string> = {};
-          for (const m of models) {
-            // Use explicit per-model key only — no global fallback
-            // so models the user hasn't configured show blank in the UI
-            const k = this.groqClient.getExplicitApiKeyForModel(m.id);
-            if (k && k.trim()) {
-              const t = k.trim();
-              // Mask: show first 4 chars + bullets + last 4 chars
-              const bullets = '•'.repeat(Math.max(8, Math.min(20, t.length - 8)));
-              keys[m.id] = t.slice(0, 4) + bullets + t.slice(-4);
-            } else {
-              keys[m.id] = '';
-            }
-          }
-          this._view?.webview.postMessage({
-            type: 'apiKeysState',
-            keys,
-            activeModel: this.groqClient.getActiveModel(),
-          });
+          this.sendApiKeysToWebview();
           break;
         }
 
         case 'setApiKey': {
-          const { modelId, apiKey } = data;
-          if (!modelId || !apiKey?.trim()) {
+          const { provider, apiKey } = data;
+          if (!provider || !apiKey?.trim()) {
             this._view?.webview.postMessage({ type: 'apiKeyResult', success: false, message: 'No key provided.' });
             break;
           }
           // Save the key immediately so it is usable right away
-          const cfg = vscode.workspace.getConfiguration('prompt2code');
-          const perModelKeys = { ...cfg.get<Record<string, string>>('apiKeys', {}) };
-          perModelKeys[modelId] = apiKey.trim();
-          await cfg.update('apiKeys', perModelKeys, vscode.ConfigurationTarget.Global);
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.label ?? modelId;
+          await apiKeyStore.set(provider, apiKey);
+          const providerName = GroqClient.getProviderMeta(provider).name;
           // Acknowledge save immediately so the UI updates without waiting for network
           this._view?.webview.postMessage({
             type: 'apiKeyResult', success: true,
-            message: `API key for ${modelLabel} saved.`,
+            message: `${providerName} API key saved.`,
           });
-          // Validate in the background and show a non-blocking warning if the key looks invalid
-          this.groqClient.validateApiKey(apiKey.trim(), modelId).then(validation => {
+          // Validate in the background against one of the provider's models
+          const sampleModel = modelCatalog.list().find(m => m.provider === provider)?.id;
+          this.groqClient.validateApiKey(apiKey.trim(), sampleModel).then(validation => {
             if (!validation.valid) {
               this._view?.webview.postMessage({
                 type: 'apiKeyResult', success: true,   // keep success=true so UI stays green
@@ -340,16 +353,33 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           break;
         }
 
+        case 'requestUsage': {
+          this.sendUsageToWebview();
+          break;
+        }
+
+        case 'exportUsageCsv': {
+          await this.exportUsageCsv();
+          break;
+        }
+
+        case 'resetUsage': {
+          const choice = await vscode.window.showWarningMessage(
+            'Reset all Prompt2Code usage and cost history?',
+            { modal: true },
+            'Reset'
+          );
+          if (choice === 'Reset') { await usageTracker.reset(); }
+          break;
+        }
+
         case 'deleteApiKey': {
-          const { modelId } = data;
-          const cfg = vscode.workspace.getConfiguration('prompt2code');
-          const perModelKeys = { ...cfg.get<Record<string, string>>('apiKeys', {}) };
-          delete perModelKeys[modelId];
-          await cfg.update('apiKeys', perModelKeys, vscode.ConfigurationTarget.Global);
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.label ?? modelId;
+          const { provider } = data;
+          if (!provider) { break; }
+          await apiKeyStore.delete(provider);
           this._view?.webview.postMessage({
             type: 'apiKeyResult', success: true,
-            message: `Key for ${modelLabel} removed.`,
+            message: `${GroqClient.getProviderMeta(provider).name} API key removed.`,
           });
           break;
         }
@@ -377,6 +407,55 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /** Send each provider's key status (masked) to the settings panel. */
+  private sendApiKeysToWebview() {
+    if (!this._view) { return; }
+    const models = GroqClient.AVAILABLE_MODELS;
+    const providers = KEYED_PROVIDERS.map(id => {
+      const key = apiKeyStore.get(id);
+      const meta = GroqClient.getProviderMeta(id);
+      // Mask: show first 4 chars + bullets + last 4 chars
+      const bullets = '•'.repeat(Math.max(8, Math.min(20, key.length - 8)));
+      return {
+        id,
+        name: meta.name,
+        placeholder: meta.placeholder,
+        apiKeyUrl: meta.apiKeyUrl,
+        maskedKey: key ? key.slice(0, 4) + bullets + key.slice(-4) : '',
+        modelCount: models.filter(m => m.provider === id).length,
+      };
+    });
+    this._view.webview.postMessage({ type: 'apiKeysState', providers });
+  }
+
+  /** Send the usage summary (totals, per model / mode, top sessions) to the webview. */
+  private sendUsageToWebview() {
+    if (!this._view) { return; }
+    const summary = usageTracker.summary();
+    const labelFor = (id: string) => modelCatalog.get(id)?.label ?? id;
+    this._view.webview.postMessage({
+      type: 'usageState',
+      summary: { ...summary, byModel: summary.byModel.map(m => ({ ...m, label: labelFor(m.model) })) },
+    });
+  }
+
+  /** Ask where to save, then write the daily usage buckets as CSV. */
+  private async exportUsageCsv() {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, 'prompt2code-usage.csv') : undefined,
+      filters: { 'CSV': ['csv'] },
+      saveLabel: 'Export Usage',
+    });
+    if (!target) { return; }
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(usageTracker.toCsv(), 'utf8'));
+      vscode.window.showInformationMessage(`Usage exported to ${path.basename(target.fsPath)}`);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to export usage: ${error.message}`);
+    }
+  }
+
   /** Send available model list and currently active model to webview. */
   private sendModelListToWebview() {
     if (!this._view) { return; }
@@ -385,7 +464,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     // Attach hasKey flag so webview can group them
     const modelsWithKeyStatus = models.map(m => ({
       ...m,
-      hasKey: !!(this.groqClient.getApiKeyForModel(m.id)?.trim()),
+      hasKey: this.groqClient.hasApiKeyForModel(m.id),
     }));
     // Count how many models have keys set (for Auto label)
     const keysConfigured = modelsWithKeyStatus.filter(m => m.hasKey).length;
@@ -398,6 +477,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /** Re-send the model list (e.g. after custom endpoint models changed in settings). */
+  public refreshModelList() {
+    this.sendModelListToWebview();
+  }
+
   /** Handle model selection from the webview dropdown. */
   private async handleModelSelection(modelId: string) {
     // Auto mode — no API key needed, just set the override
@@ -413,18 +497,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       return;
     }
 
-    const modelInfo = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId);
+    const modelInfo = modelCatalog.get(modelId);
     const modelLabel = modelInfo?.label ?? modelId;
     const provider = GroqClient.getProviderForModel(modelId);
     const provMeta = GroqClient.getProviderMeta(provider);
 
-    // Check if this specific model already has a key (per-model or global fallback)
-    let apiKey = this.groqClient.getApiKeyForModel(modelId);
-
-    if (!apiKey || apiKey.trim() === '') {
-      // First time using this model — prompt for its API key
+    // Check if the model's provider already has a key (or an OpenRouter key covers it)
+    if (!this.groqClient.hasApiKeyForModel(modelId)) {
+      // First model from this provider — prompt for the provider's API key
       const enteredKey = await vscode.window.showInputBox({
-        title: `${provMeta.name} API Key for ${modelLabel}`,
+        title: `${provMeta.name} API Key`,
         prompt: `Enter your ${provMeta.name} API key to use ${modelLabel}. Get one at ${provMeta.apiKeyUrl}`,
         placeHolder: provMeta.placeholder,
         password: true,
@@ -459,16 +541,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         return;
       }
 
-      // Save the validated key for this model
-      const config = vscode.workspace.getConfiguration('prompt2code');
-      const perModelKeys = { ...config.get<Record<string, string>>('apiKeys', {}) };
-      perModelKeys[modelId] = enteredKey.trim();
-      await config.update('apiKeys', perModelKeys, vscode.ConfigurationTarget.Global);
-      apiKey = enteredKey.trim();
+      // Save the validated key for the provider — every model it serves can use it
+      const keyProvider = isOpenRouterKey(enteredKey) ? 'openrouter' : provider;
+      await apiKeyStore.set(keyProvider, enteredKey);
 
       this._view?.webview.postMessage({
         type: 'assistantMessage',
-        message: `✅ API key for ${modelLabel} validated and saved.`,
+        message: `✅ ${GroqClient.getProviderMeta(keyProvider).name} API key validated and saved.`,
       });
     }
 
@@ -591,8 +670,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   // MESSAGE HANDLING
   // ===========================
 
-  private async handleUserMessage(message: string, attachedFiles: string[] = [], localFiles: { name: string; content: string }[] = []) {
-    if (!message || !message.trim()) return;
+  private async handleUserMessage(
+    message: string,
+    attachedFiles: string[] = [],
+    localFiles: { name: string; content: string }[] = [],
+    images: ImageAttachment[] = []
+  ) {
+    message = message?.trim() ?? '';
+    if (!message && images.length === 0) return;
 
     // Gate behind Google auth
     if (this.authProvider && !(await this.authProvider.isAuthenticated())) {
@@ -603,7 +688,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       return;
     }
 
-    console.log('📨 Handling message:', message, 'mode:', this.currentMode, 'attached:', attachedFiles, 'local:', localFiles.map(f => f.name));
+    console.log('📨 Handling message:', message, 'mode:', this.currentMode, 'attached:', attachedFiles, 'local:', localFiles.map(f => f.name), 'images:', images.length);
+
+    // Screenshots of a UI to rebuild go to the image-to-code flow; any other image is part of the conversation
+    if (images.length > 0 && this.currentMode === 'agent' && this.isImageToCodeIntent(message)) {
+      await this.handleImageToCode(message, images);
+      return;
+    }
+    if (images.length > 0 && !this.announceVisionModel()) { return; }
+    if (!message) { message = images.length > 1 ? 'What do these images show?' : 'What does this image show?'; }
 
     // Prepend any locally-uploaded file contents to the message as inline context
     let enrichedMessage = message;
@@ -615,16 +708,17 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     // 1️⃣ Show user message immediately (checkpointId attached later for code-edit path)
+    const imageLabel = images.length > 0 ? `[Image: ${images.map(i => i.fileName || 'image').join(', ')}] ` : '';
     this._view?.webview.postMessage({
       type: 'userMessage',
-      message
+      message: images.length > 0 ? `🖼️ ${imageLabel}${message}` : message
     });
 
-    // 2️⃣ Save conversation (for chat mode history)
-    this.conversationHistory.push({ role: 'user', content: enrichedMessage });
+    // 2️⃣ Save conversation (for chat mode history). Images are sent with this turn only, not replayed in history
+    this.conversationHistory.push({ role: 'user', content: imageLabel + enrichedMessage });
 
     // 2.5️⃣ Quick local reply for casual chat (no LLM call)
-    const quickReply = this.getQuickReply(message);
+    const quickReply = images.length > 0 ? null : this.getQuickReply(message);
     if (quickReply) {
       this.conversationHistory.push({ role: 'assistant', content: quickReply });
       this._view?.webview.postMessage({ type: 'assistantMessage', message: quickReply });
@@ -632,47 +726,283 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     // 3️⃣ Route to the appropriate handler based on mode
+    this.abortController = new AbortController();
+    this.beginUsageTurn(message);
+    if (this.compareModelIds.length > 1) {
+      await this.handleComparison(enrichedMessage, attachedFiles, images);
+      return;
+    }
     switch (this.currentMode) {
       case 'ask':
-        await this.handleAskMode(enrichedMessage, attachedFiles);
+        await this.handleAskMode(enrichedMessage, attachedFiles, images);
         return;
       case 'plan':
-        await this.handlePlanMode(enrichedMessage, attachedFiles);
+        await this.handlePlanMode(enrichedMessage, attachedFiles, images);
         return;
       case 'agent':
       default:
-        await this.handleAgentMode(enrichedMessage, attachedFiles);
+        await this.handleAgentMode(enrichedMessage, attachedFiles, images);
+        return;
+    }
+  }
+
+  // ===========================
+  // MODEL COMPARISON — one prompt, several models side by side
+  // ===========================
+
+  /** Most models one prompt is sent to at once. */
+  private static readonly MAX_COMPARE_MODELS = 3;
+
+  /** Let the user pick the models to compare (two or three with keys); an empty pick ends comparing. */
+  private async pickCompareModels() {
+    const items = GroqClient.AVAILABLE_MODELS
+      .filter(m => this.groqClient.hasApiKeyForModel(m.id))
+      .map(m => ({
+        label: m.label,
+        description: m.id,
+        picked: this.compareModelIds.includes(m.id),
+        modelId: m.id,
+      }));
+    if (items.length < 2) {
+      vscode.window.showWarningMessage('Comparing needs API keys for at least two models.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      title: `Compare models side by side (pick 2–${ChatViewProvider.MAX_COMPARE_MODELS})`,
+      placeHolder: 'Each message goes to every picked model until you stop comparing',
+    });
+    if (!picked) { return; }
+    if (picked.length === 1 || picked.length > ChatViewProvider.MAX_COMPARE_MODELS) {
+      vscode.window.showWarningMessage(`Pick between 2 and ${ChatViewProvider.MAX_COMPARE_MODELS} models to compare.`);
+      return;
+    }
+    this.setCompareModels(picked.map(p => p.modelId));
+  }
+
+  private setCompareModels(modelIds: string[]) {
+    this.compareModelIds = modelIds;
+    this._view?.webview.postMessage({
+      type: 'compareState',
+      models: modelIds.map(id => ({ id, label: modelCatalog.get(id)?.label ?? id })),
+    });
+  }
+
+  /**
+   * Send one message to every compared model and show the answers side by
+   * side. In Agent mode a code-edit request asks each model for the edited
+   * file (or selection), and any answer can then be applied; otherwise the
+   * models answer as in Ask mode.
+   */
+  private async handleComparison(message: string, attachedFiles: string[], images: ImageAttachment[]) {
+    this._view?.webview.postMessage({ type: 'loading', isLoading: true });
+    const models = [...this.compareModelIds];
+    try {
+      const cleanMessage = stripFileReferences(message);
+      const allFileRefs = [...new Set([...extractFileReferences(message), ...attachedFiles])];
+      const referencedFilesContext = allFileRefs.length > 0 ? await readFilesAsContext(allFileRefs) : '';
+
+      const editor = this.getTargetEditor();
+      const doc = editor?.document;
+      const isCodeEdit = this.currentMode === 'agent' && images.length === 0 && !!editor && this.isCodeEditIntent(cleanMessage);
+
+      let results: ModelComparisonResult[];
+      let target: { uri: vscode.Uri; range: vscode.Range; version: number } | undefined;
+      if (isCodeEdit && editor && doc) {
+        const range = editor.selection.isEmpty
+          ? new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length))
+          : new vscode.Range(editor.selection.start, editor.selection.end);
+        target = { uri: doc.uri, range, version: doc.version };
+        const projectCtx = await gatherProjectContext({
+          languageId: doc.languageId,
+          currentFilePath: doc.uri.fsPath,
+          ...this.contextBudget(6_000),
+          maxFiles: 5,
+        });
+        const context = [referencedFilesContext, projectCtx.text].filter(Boolean).join('\n\n');
+        console.log(`⚖️ Comparing code edits: ${models.join(', ')}`);
+        results = await this.groqClient.compareCodeEdits(cleanMessage, doc.languageId, doc.getText(range), models, context || undefined, this.abortSignal);
+      } else {
+        const systemPrompt =
+          'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
+          'Your answer is shown next to other models\' answers to the same question, so answer it directly and completely.\n' +
+          '- Use minimal markdown; put code in fenced blocks.\n' +
+          '- Reference specific files, functions and line numbers when explaining code.';
+        const workspaceContext = referencedFilesContext ? `── Referenced Files ──\n${referencedFilesContext}` : '';
+        const messages = this.chatMessages(systemPrompt, workspaceContext, withImages(cleanMessage, images));
+        console.log(`⚖️ Comparing answers: ${models.join(', ')}`);
+        results = await this.groqClient.compareModels(messages, models, {
+          signal: this.abortSignal,
+          task: this.currentMode === 'plan' ? 'plan' : 'ask',
+        });
+      }
+
+      const labelOf = (id: string) => modelCatalog.get(id)?.label ?? id;
+
+      // History keeps what the user saw: every answer, or for edits a note until one is applied
+      const answered = results.filter(r => !r.error);
+      const historyEntry: GroqMessage = {
+        role: 'assistant',
+        content: target
+          ? `Compared code edits from ${answered.map(r => labelOf(r.model)).join(', ') || 'no model'} — none applied yet.`
+          : answered.map(r => `### ${labelOf(r.model)}\n${r.content}`).join('\n\n'),
+      };
+      this.conversationHistory.push(historyEntry);
+      const comparisonId = String(++this.comparisonCounter);
+      this.comparisons.set(comparisonId, { results, target, historyEntry });
+
+      this._view?.webview.postMessage({
+        type: 'comparison',
+        comparisonId,
+        codeEdit: !!target,
+        fileName: target ? path.basename(target.uri.fsPath) : undefined,
+        results: results.map(r => ({
+          ...r,
+          label: labelOf(r.model),
+          language: target ? doc?.languageId : undefined,
+        })),
+      });
+    } catch (error: any) {
+      if (GroqClient.isCancellation(error)) {
+        this._view?.webview.postMessage({ type: 'assistantMessage', message: '⏹️ Comparison stopped.' });
         return;
+      }
+      console.error('❌ Comparison error:', error);
+      this._view?.webview.postMessage({ type: 'error', message: `⚠️ Comparison failed: ${error.message}` });
+    } finally {
+      this._view?.webview.postMessage({ type: 'loading', isLoading: false });
+    }
+  }
+
+  /**
+   * Apply one model's code edit from a comparison, with a checkpoint to undo
+   * it. When the edit cannot be applied the webview is told why, and its
+   * Apply button comes back.
+   */
+  private async applyComparison(comparisonId: string, index: number) {
+    const refuse = (message: string) => {
+      this._view?.webview.postMessage({ type: 'error', message });
+      this._view?.webview.postMessage({ type: 'comparisonApplyFailed', comparisonId, index });
+    };
+    const comparison = this.comparisons.get(comparisonId);
+    const result = comparison?.results[index];
+    const target = comparison?.target;
+    if (!comparison || !target || !result || result.error) {
+      refuse('This comparison can no longer be applied — send the request again.');
+      return;
+    }
+
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(target.uri);
+    } catch (error: any) {
+      refuse(`Could not open ${path.basename(target.uri.fsPath)}: ${error.message}`);
+      return;
+    }
+    if (doc.version !== target.version) {
+      refuse(`${path.basename(target.uri.fsPath)} changed after the comparison ran — send the request again to compare fresh edits.`);
+      return;
     }
+
+    const cpId = String(++this.checkpointCounter);
+    this.checkpoints.set(cpId, { uri: doc.uri, content: doc.getText() });
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(doc.uri, target.range, result.content);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      this.checkpoints.delete(cpId);
+      refuse('Could not apply the edit.');
+      return;
+    }
+    await vscode.window.showTextDocument(doc, { preview: false });
+
+    // Applied once: the range no longer matches, so the other answers cannot be applied too
+    this.comparisons.delete(comparisonId);
+    const label = modelCatalog.get(result.model)?.label ?? result.model;
+    comparison.historyEntry.content = `Applied the code edit from ${label} to ${path.basename(target.uri.fsPath)}.`;
+
+    this._view?.webview.postMessage({ type: 'comparisonApplied', comparisonId, index });
+    this._view?.webview.postMessage({ type: 'checkpoint', id: cpId });
   }
 
   // ===========================
   // ASK MODE — Chat only, no file edits
   // ===========================
 
+  /** Signal of the current turn's AbortController, passed to every AI call. */
+  private get abortSignal(): AbortSignal | undefined {
+    return this.abortController?.signal;
+  }
+
+  /** Book the turn's AI calls against the current mode and chat session. */
+  private beginUsageTurn(message: string) {
+    if (!this.usageSessionTitle) { this.usageSessionTitle = message.trim().slice(0, 80); }
+    this.groqClient.setUsageContext({
+      mode: this.currentMode,
+      sessionId: this.usageSessionId,
+      sessionTitle: this.usageSessionTitle,
+    });
+  }
+
+  private static newUsageSessionId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /** Tell the chat the user stopped the turn (shown instead of an error). */
+  private notifyStopped() {
+    this._view?.webview.postMessage({ type: 'assistantMessage', message: '⏹️ Generation stopped.' });
+  }
+
+  /**
+   * Check a vision-capable model is available for attached images and say
+   * so in the chat when it is not the selected model. Returns false (after
+   * showing the error) when no vision model has a key.
+   */
+  private announceVisionModel(): boolean {
+    try {
+      const visionModel = this.groqClient.resolveVisionModel();
+      const activeModel = this.groqClient.getActiveModel();
+      if (!this.groqClient.isAutoMode() && visionModel !== activeModel) {
+        const label = (id: string) => modelCatalog.get(id)?.label ?? id;
+        this._view?.webview.postMessage({
+          type: 'assistantMessage',
+          message: `🖼️ ${label(activeModel)} can't read images — using ${label(visionModel)} for this message.`
+        });
+      }
+      return true;
+    } catch (error: any) {
+      this._view?.webview.postMessage({ type: 'error', message: `⚠️ ${error.message}` });
+      return false;
+    }
+  }
+
   /** Notify the webview which model was actually used (useful in Auto mode). */
   private notifyResolvedModel() {
     if (!this.groqClient.isAutoMode()) { return; }
     const resolvedId = this.groqClient.getLastResolvedModel();
     if (!resolvedId) { return; }
-    const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === resolvedId)?.label ?? resolvedId;
+    const modelLabel = modelCatalog.get(resolvedId)?.label ?? resolvedId;
+    const task = this.groqClient.getLastResolvedTask();
+    const taskLabels: Record<AutoTask, string> = {
+      inline: 'inline completion', ask: 'chat', plan: 'planning',
+      edit: 'code edit', multiFile: 'multi-file generation', vision: 'image',
+    };
     this._view?.webview.postMessage({
       type: 'autoModelResolved',
       modelId: resolvedId,
       modelLabel,
+      taskLabel: task ? taskLabels[task] : '',
     });
   }
 
-  private async handleAskMode(message: string, attachedFiles: string[] = []) {
+  private async handleAskMode(message: string, attachedFiles: string[] = [], images: ImageAttachment[] = []) {
     this._view?.webview.postMessage({ type: 'loading', isLoading: true });
 
     try {
       const activeModel = this.groqClient.getActiveModel();
       // In Auto mode, skip single-model key check — fallback handles it
       if (activeModel !== GroqClient.AUTO_MODEL_ID) {
-        const apiKey = this.groqClient.getApiKeyForModel(activeModel);
-        if (!apiKey || apiKey.trim() === '') {
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === activeModel)?.label ?? activeModel;
+        if (!this.groqClient.hasApiKeyForModel(activeModel)) {
+          const modelLabel = modelCatalog.get(activeModel)?.label ?? activeModel;
           const provMeta = GroqClient.getProviderMeta(GroqClient.getProviderForModel(activeModel));
           throw new Error(`⚠️ No API key for ${modelLabel}. Select the model from the dropdown to set its key.\n\nGet your ${provMeta.name} API key at: ${provMeta.apiKeyUrl}`);
         }
@@ -701,64 +1031,61 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
       }
 
+      let workspaceContext = '';
+
       // ── Layer 3: Codebase Retrieval (RAG) ──
       if (referencedFilesContext) {
-        contextInfo += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
+        workspaceContext += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
       }
 
       if (/(@workspace|project structure|codebase|all files)/i.test(message)) {
         const tree = await buildProjectTree();
-        contextInfo += `\n\n── Project Structure ──\n${tree}`;
+        workspaceContext += `\n\n── Project Structure ──\n${tree}`;
       }
 
-      const chatCharBudget = this.groqClient.getContextCharBudget();
       const projCtx = await gatherProjectContext({
         languageId: doc?.languageId,
         currentFilePath: doc?.uri.fsPath,
-        maxChars: Math.min(chatCharBudget, 15_000),
+        ...this.contextBudget(4_000),
         maxFiles: 5,
       });
       if (projCtx.text) {
-        contextInfo += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
-        contextInfo += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
+        workspaceContext += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
+        workspaceContext += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
       }
 
-      const messages: GroqMessage[] = [
-        {
-          role: 'system',
-          content:
-            'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
-            'You are in ASK mode. Your job is to EXPLAIN, ANSWER QUESTIONS, and provide GUIDANCE about code.\n\n' +
-            'Your goal is to help developers understand, debug, and improve code efficiently inside the editor.\n\n' +
-            'Capabilities include:\n' +
-            '- Code explanation\n' +
-            '- Bug detection\n' +
-            '- Architecture suggestions\n' +
-            '- Best practice guidance\n\n' +
-            'Always prioritize: correctness, clarity, and modern best practices.\n\n' +
-            'RULES:\n' +
-            '- Do NOT output full code rewrites or file contents.\n' +
-            '- Provide clear, concise explanations with code snippets only when helpful.\n' +
-            '- If the user asks you to change/edit/create code, remind them to switch to Agent mode.\n' +
-            '- Use minimal markdown. Keep responses focused and readable.\n' +
-            '- Mirror the user\'s tone; keep greetings short (e.g., "Hi! How can I help?").\n' +
-            '- Reference specific line numbers and function names when explaining code.\n' +
-            '- If code errors or bugs are detected, clearly explain the issue and provide a corrected implementation.\n' +
-            '- Consider the existing project structure and dependencies before providing guidance.'
-        },
-        ...this.conversationHistory.slice(0, -1),
-        { role: 'user', content: cleanMessage + contextInfo }
-      ];
+      const systemPrompt =
+        'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
+        'You are in ASK mode. Your job is to EXPLAIN, ANSWER QUESTIONS, and provide GUIDANCE about code.\n\n' +
+        'Your goal is to help developers understand, debug, and improve code efficiently inside the editor.\n\n' +
+        'Capabilities include:\n' +
+        '- Code explanation\n' +
+        '- Bug detection\n' +
+        '- Architecture suggestions\n' +
+        '- Best practice guidance\n\n' +
+        'Always prioritize: correctness, clarity, and modern best practices.\n\n' +
+        'RULES:\n' +
+        '- Do NOT output full code rewrites or file contents.\n' +
+        '- Provide clear, concise explanations with code snippets only when helpful.\n' +
+        '- If the user asks you to change/edit/create code, remind them to switch to Agent mode.\n' +
+        '- Use minimal markdown. Keep responses focused and readable.\n' +
+        '- Mirror the user\'s tone; keep greetings short (e.g., "Hi! How can I help?").\n' +
+        '- Reference specific line numbers and function names when explaining code.\n' +
+        '- If code errors or bugs are detected, clearly explain the issue and provide a corrected implementation.\n' +
+        '- Consider the existing project structure and dependencies before providing guidance.';
+
+      const messages = this.chatMessages(systemPrompt, workspaceContext, withImages(cleanMessage + contextInfo, images));
 
       console.log('🚀 Calling Groq API (ask mode)...');
-      const rawResponse = await this.groqClient.complete(messages, false);
+      const { content: rawResponse, reasoning } = await this.groqClient.completeWithReasoning(messages, this.abortSignal, 'ask');
       const response = this.sanitizeChatResponse(rawResponse);
 
       this.conversationHistory.push({ role: 'assistant', content: response });
-      this._view?.webview.postMessage({ type: 'assistantMessage', message: response });
+      this._view?.webview.postMessage({ type: 'assistantMessage', message: response, reasoning });
       this.notifyResolvedModel();
 
     } catch (err: any) {
+      if (GroqClient.isCancellation(err)) { this.notifyStopped(); return; }
       console.error('❌ Ask mode error:', err);
       this._view?.webview.postMessage({
         type: 'error',
@@ -773,15 +1100,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   // PLAN MODE — Generate step-by-step plan, then optionally execute
   // ===========================
 
-  private async handlePlanMode(message: string, attachedFiles: string[] = []) {
+  private async handlePlanMode(message: string, attachedFiles: string[] = [], images: ImageAttachment[] = []) {
     this._view?.webview.postMessage({ type: 'loading', isLoading: true });
 
     try {
       const activeModel = this.groqClient.getActiveModel();
       if (activeModel !== GroqClient.AUTO_MODEL_ID) {
-        const apiKey = this.groqClient.getApiKeyForModel(activeModel);
-        if (!apiKey || apiKey.trim() === '') {
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === activeModel)?.label ?? activeModel;
+        if (!this.groqClient.hasApiKeyForModel(activeModel)) {
+          const modelLabel = modelCatalog.get(activeModel)?.label ?? activeModel;
           const provMeta = GroqClient.getProviderMeta(GroqClient.getProviderForModel(activeModel));
           throw new Error(`⚠️ No API key for ${modelLabel}. Select the model from the dropdown to set its key.\n\nGet your ${provMeta.name} API key at: ${provMeta.apiKeyUrl}`);
         }
@@ -809,62 +1135,58 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
       }
 
+      let workspaceContext = '';
+
       // ── Layer 3: Codebase Retrieval (RAG) ──
       if (referencedFilesContext) {
-        contextInfo += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
+        workspaceContext += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
       }
 
       // Always include project tree for planning
       const tree = await buildProjectTree();
-      contextInfo += `\n\n── Project Structure ──\n${tree}`;
+      workspaceContext += `\n\n── Project Structure ──\n${tree}`;
 
-      const chatCharBudget = this.groqClient.getContextCharBudget();
       const projCtx = await gatherProjectContext({
         languageId: doc?.languageId,
         currentFilePath: doc?.uri.fsPath,
-        maxChars: Math.min(chatCharBudget, 20_000),
+        ...this.contextBudget(6_000),
         maxFiles: 8,
       });
       if (projCtx.text) {
-        contextInfo += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
-        contextInfo += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
-        contextInfo += '\nAvoid generating duplicate functionality if similar code already exists.';
-        contextInfo += '\nPrefer reusing existing utilities or components when possible.';
+        workspaceContext += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
+        workspaceContext += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
+        workspaceContext += '\nAvoid generating duplicate functionality if similar code already exists.';
+        workspaceContext += '\nPrefer reusing existing utilities or components when possible.';
       }
 
-      const messages: GroqMessage[] = [
-        {
-          role: 'system',
-          content:
-            'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
-            'You are in PLAN mode. Your job is to analyze the request and produce a clear, actionable IMPLEMENTATION PLAN.\n\n' +
-            'You operate within a developer workspace and must consider the existing project structure and dependencies before planning solutions.\n\n' +
-            'Always prioritize: correctness, clean code, modern best practices, and maintainability.\n\n' +
-            'FORMAT YOUR PLAN EXACTLY LIKE THIS:\n' +
-            '## Plan: [brief title]\n\n' +
-            '### Steps:\n' +
-            '1. **[Action]** — [File/location]: [What to do]\n' +
-            '2. **[Action]** — [File/location]: [What to do]\n' +
-            '...\n\n' +
-            '### Details:\n' +
-            '[Brief description of key implementation details, patterns to follow, and potential pitfalls]\n\n' +
-            'RULES:\n' +
-            '- Be SPECIFIC: mention exact file names, function names, line ranges when possible.\n' +
-            '- Each step should be a single, concrete action (add, modify, create, delete, move).\n' +
-            '- Order steps by dependency — what must be done first.\n' +
-            '- Include estimated scope (e.g., "~20 lines", "new file").\n' +
-            '- Mention potential risks or things to watch out for.\n' +
-            '- Do NOT generate code in plan mode — only describe what to do.\n' +
-            '- Keep it concise but thorough. Max 10 steps for most tasks.\n' +
-            '- Prefer reusing existing utilities or components when possible.\n' +
-            '- Avoid generating duplicate functionality if similar code already exists.'
-        },
-        ...this.conversationHistory.slice(0, -1),
-        { role: 'user', content: cleanMessage + contextInfo }
-      ];
+      const systemPrompt =
+        'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
+        'You are in PLAN mode. Your job is to analyze the request and produce a clear, actionable IMPLEMENTATION PLAN.\n\n' +
+        'You operate within a developer workspace and must consider the existing project structure and dependencies before planning solutions.\n\n' +
+        'Always prioritize: correctness, clean code, modern best practices, and maintainability.\n\n' +
+        'FORMAT YOUR PLAN EXACTLY LIKE THIS:\n' +
+        '## Plan: [brief title]\n\n' +
+        '### Steps:\n' +
+        '1. **[Action]** — [File/location]: [What to do]\n' +
+        '2. **[Action]** — [File/location]: [What to do]\n' +
+        '...\n\n' +
+        '### Details:\n' +
+        '[Brief description of key implementation details, patterns to follow, and potential pitfalls]\n\n' +
+        'RULES:\n' +
+        '- Be SPECIFIC: mention exact file names, function names, line ranges when possible.\n' +
+        '- Each step should be a single, concrete action (add, modify, create, delete, move).\n' +
+        '- Order steps by dependency — what must be done first.\n' +
+        '- Include estimated scope (e.g., "~20 lines", "new file").\n' +
+        '- Mention potential risks or things to watch out for.\n' +
+        '- Do NOT generate code in plan mode — only describe what to do.\n' +
+        '- Keep it concise but thorough. Max 10 steps for most tasks.\n' +
+        '- Prefer reusing existing utilities or components when possible.\n' +
+        '- Avoid generating duplicate functionality if similar code already exists.';
+
+      const messages = this.chatMessages(systemPrompt, workspaceContext, withImages(cleanMessage + contextInfo, images));
 
       console.log('🚀 Calling Groq API (plan mode)...');
-      const rawResponse = await this.groqClient.complete(messages, false);
+      const { content: rawResponse, reasoning } = await this.groqClient.completeWithReasoning(messages, this.abortSignal, 'plan');
       const response = this.sanitizeChatResponse(rawResponse);
 
       this.conversationHistory.push({ role: 'assistant', content: response });
@@ -874,10 +1196,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         type: 'planMessage',
         message: response,
         originalRequest: cleanMessage,
+        reasoning,
       });
       this.notifyResolvedModel();
 
     } catch (err: any) {
+      if (GroqClient.isCancellation(err)) { this.notifyStopped(); return; }
       console.error('❌ Plan mode error:', err);
       this._view?.webview.postMessage({
         type: 'error',
@@ -903,7 +1227,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   // AGENT MODE — Full auto (edit files, create files, chat)
   // ===========================
 
-  private async handleAgentMode(message: string, attachedFiles: string[] = []) {
+  private async handleAgentMode(message: string, attachedFiles: string[] = [], images: ImageAttachment[] = []) {
 
     // 3️⃣ Show loading
     this._view?.webview.postMessage({
@@ -915,11 +1239,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       // ⚠️ CHECK API KEY FIRST — resolves per-model key or global fallback
       const activeModel = this.groqClient.getActiveModel();
       if (activeModel !== GroqClient.AUTO_MODEL_ID) {
-        const apiKey = this.groqClient.getApiKeyForModel(activeModel);
-        console.log('🔑 API Key for', activeModel, ':', apiKey ? 'YES' : 'NO');
+        const hasKey = this.groqClient.hasApiKeyForModel(activeModel);
+        console.log('🔑 API Key for', activeModel, ':', hasKey ? 'YES' : 'NO');
 
-        if (!apiKey || apiKey.trim() === '') {
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === activeModel)?.label ?? activeModel;
+        if (!hasKey) {
+          const modelLabel = modelCatalog.get(activeModel)?.label ?? activeModel;
           const provMeta = GroqClient.getProviderMeta(GroqClient.getProviderForModel(activeModel));
           throw new Error(`⚠️ No API key for ${modelLabel}. Select the model from the dropdown to set its key.\n\nGet your ${provMeta.name} API key at: ${provMeta.apiKeyUrl}`);
         }
@@ -938,7 +1262,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
 
       // ── Detect "create file" intent ──
-      const createFileMatch = this.detectCreateFileIntent(cleanMessage);
+      // The file-writing paths send text only, so a message with images goes straight to chat
+      const textOnly = images.length === 0;
+      const createFileMatch = textOnly ? this.detectCreateFileIntent(cleanMessage) : null;
 
       if (createFileMatch) {
         await this.handleCreateFile(cleanMessage, createFileMatch, referencedFilesContext);
@@ -946,13 +1272,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
 
       // ── Detect create-and-integrate intent (new component + modify existing files) ──
-      if (this.isCreateAndIntegrateIntent(cleanMessage)) {
+      if (textOnly && this.isCreateAndIntegrateIntent(cleanMessage)) {
         await this.handleCreateAndIntegrate(cleanMessage, allFileRefs, referencedFilesContext);
         return;
       }
 
       // ── Detect multi-file / scaffold intent ──
-      if (this.isMultiFileIntent(cleanMessage)) {
+      if (textOnly && this.isMultiFileIntent(cleanMessage)) {
         await this.handleMultiFileGeneration(cleanMessage, referencedFilesContext);
         return;
       }
@@ -961,8 +1287,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       const editor = this.getTargetEditor();
       const doc = editor?.document;
       const languageId = doc?.languageId ?? 'plaintext';
-      const isCodeIntent = this.isCodeEditIntent(cleanMessage)
-        || (attachedFiles.length > 0 && !/\b(explain|what|why|how|describe|tell|show|list|help|question|ask)\b/i.test(cleanMessage));
+      const isCodeIntent = textOnly && (this.isCodeEditIntent(cleanMessage)
+        || (attachedFiles.length > 0 && !/\b(explain|what|why|how|describe|tell|show|list|help|question|ask)\b/i.test(cleanMessage)));
 
       if (isCodeIntent) {
         if (!editor || !doc) {
@@ -982,11 +1308,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         const contextParts: string[] = [];
         if (referencedFilesContext) { contextParts.push(referencedFilesContext); }
 
-        const ctxCharBudget = this.groqClient.getContextCharBudget();
         const projectCtx = await gatherProjectContext({
           languageId: target.languageId || doc.languageId,
           currentFilePath: doc.uri.fsPath,
-          maxChars: Math.min(ctxCharBudget, 40_000),
+          ...this.contextBudget(11_000),
           maxFiles: 8,
         });
         if (projectCtx.text) { contextParts.push(projectCtx.text); }
@@ -1033,14 +1358,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           const originalLen = selectedText.length;
           const updater = this.makeRangeStreamUpdater(editor, startOffset, originalLen, 150);
 
-          const newBlock = await this.groqClient.generateSectionEdit(
+          const newBlock = await this.streamWithCheckpoint(cpId, updater, () => this.groqClient.generateSectionEdit(
             cleanMessage,
             target.promptLanguage,
             selectedText,
             surroundingCtx,
             updater.onChunk,
-            contextParts.join('\n\n')
-          );
+            contextParts.join('\n\n'),
+            this.abortSignal
+          ));
 
           await updater.flush();
 
@@ -1097,14 +1423,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             const originalLen = doc.offsetAt(endPos) - startOffset;
             const updater = this.makeRangeStreamUpdater(editor, startOffset, originalLen, 150);
 
-            const newBlock = await this.groqClient.generateSectionEdit(
+            const newBlock = await this.streamWithCheckpoint(cpId, updater, () => this.groqClient.generateSectionEdit(
               cleanMessage,
               target.promptLanguage,
               selectedText,
               surroundingCtx,
               updater.onChunk,
-              contextParts.join('\n\n')
-            );
+              contextParts.join('\n\n'),
+              this.abortSignal
+            ));
 
             await updater.flush();
             // Final safety write — ensure the section was replaced correctly
@@ -1123,13 +1450,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           } else {
             // Couldn't detect section — fall back to whole-file update
             console.log('📝 Falling back to whole-file update mode');
-            await this.doWholeFileUpdate(editor, doc, cleanMessage, target, contextParts);
+            await this.doWholeFileUpdate(editor, doc, cleanMessage, target, contextParts, cpId);
           }
 
         } else {
           // ═══════ SMALL FILE: whole-file update (original behavior) ═══════
           console.log('📝 Whole-file update mode — file has', fileLineCount, 'lines');
-          await this.doWholeFileUpdate(editor, doc, cleanMessage, target, contextParts);
+          await this.doWholeFileUpdate(editor, doc, cleanMessage, target, contextParts, cpId);
         }
 
         // If user asked for React while editing HTML, switch language mode for better UX.
@@ -1174,62 +1501,59 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
       }
 
+      let workspaceContext = '';
+
       // ── Layer 3: Codebase Retrieval (RAG) ──
       if (referencedFilesContext) {
-        contextInfo += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
+        workspaceContext += `\n\n── Referenced Files ──\n${referencedFilesContext}`;
       }
 
       // If user typed @workspace or the message asks about the project structure,
       // attach a compact project tree.
       if (/(@workspace|project structure|codebase|all files)/i.test(message)) {
         const tree = await buildProjectTree();
-        contextInfo += `\n\n── Project Structure ──\n${tree}`;
+        workspaceContext += `\n\n── Project Structure ──\n${tree}`;
       }
 
       // Always include some project context so the AI understands the codebase
-      const chatCharBudget = this.groqClient.getContextCharBudget();
       const projCtx = await gatherProjectContext({
         languageId: doc?.languageId,
         currentFilePath: doc?.uri.fsPath,
-        maxChars: Math.min(chatCharBudget, 15_000),
+        ...this.contextBudget(4_000),
         maxFiles: 5,
       });
       if (projCtx.text) {
-        contextInfo += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
-        contextInfo += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
-        contextInfo += '\nAvoid generating duplicate functionality if similar code already exists.';
-        contextInfo += '\nPrefer reusing existing utilities or components when possible.';
+        workspaceContext += `\n\n── Relevant Project Context (${projCtx.fileCount} files) ──\n${projCtx.text}`;
+        workspaceContext += '\n\nUse this context to understand how the project is structured and follow existing patterns.';
+        workspaceContext += '\nAvoid generating duplicate functionality if similar code already exists.';
+        workspaceContext += '\nPrefer reusing existing utilities or components when possible.';
       }
 
-      const messages: GroqMessage[] = [
-        {
-          role: 'system',
-          content:
-            'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
-            'Your goal is to help developers write, understand, debug, and improve code efficiently inside the editor.\n\n' +
-            'Capabilities include: code generation, code explanation, bug detection, code refactoring, UI generation, architecture suggestions, multi-file feature implementation, and terminal command generation.\n\n' +
-            'You operate within a developer workspace and must consider the existing project structure and dependencies before generating solutions.\n\n' +
-            'Always prioritize: correctness, clean code, modern best practices, and maintainability.\n\n' +
-            'Avoid unnecessary explanations unless requested. Use minimal markdown. Avoid fenced code blocks.\n\n' +
-            'If code errors or bugs are detected, clearly explain the issue and provide a corrected implementation.\n\n' +
-            'Prefer reusing existing utilities or components when possible.\n' +
-            'Avoid generating duplicate functionality if similar code already exists.'
-        },
-        ...this.conversationHistory.slice(0, -1),
-        { role: 'user', content: cleanMessage + contextInfo }
-      ];
+      const systemPrompt =
+        'You are Prompt2Code, an AI coding assistant for Visual Studio Code created by Sujay Babu Thota.\n\n' +
+        'Your goal is to help developers write, understand, debug, and improve code efficiently inside the editor.\n\n' +
+        'Capabilities include: code generation, code explanation, bug detection, code refactoring, UI generation, architecture suggestions, multi-file feature implementation, and terminal command generation.\n\n' +
+        'You operate within a developer workspace and must consider the existing project structure and dependencies before generating solutions.\n\n' +
+        'Always prioritize: correctness, clean code, modern best practices, and maintainability.\n\n' +
+        'Avoid unnecessary explanations unless requested. Use minimal markdown. Avoid fenced code blocks.\n\n' +
+        'If code errors or bugs are detected, clearly explain the issue and provide a corrected implementation.\n\n' +
+        'Prefer reusing existing utilities or components when possible.\n' +
+        'Avoid generating duplicate functionality if similar code already exists.';
+
+      const messages = this.chatMessages(systemPrompt, workspaceContext, withImages(cleanMessage + contextInfo, images));
 
       console.log('🚀 Calling Groq API (chat mode)...');
-      const rawResponse = await this.groqClient.complete(messages, false);
+      const { content: rawResponse, reasoning } = await this.groqClient.completeWithReasoning(messages, this.abortSignal, 'ask');
       const response = this.sanitizeChatResponse(rawResponse);
       console.log('✅ Got response:', response.substring(0, 100) + '...');
 
       this.conversationHistory.push({ role: 'assistant', content: response });
 
-      this._view?.webview.postMessage({ type: 'assistantMessage', message: response });
+      this._view?.webview.postMessage({ type: 'assistantMessage', message: response, reasoning });
       this.notifyResolvedModel();
 
     } catch (err: any) {
+      if (GroqClient.isCancellation(err)) { this.notifyStopped(); return; }
       console.error('❌ Error:', err);
 
       const errorMsg = err.message || 'Failed to get response. Please check your API key and network connection.';
@@ -1291,10 +1615,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     if (referencedFilesContext) { contextParts.push(referencedFilesContext); }
 
     // Auto-scan: configs + same-language files + open tabs
-    const createCharBudget = this.groqClient.getContextCharBudget();
     const projectCtx = await gatherProjectContext({
       languageId: language,
-      maxChars: Math.min(createCharBudget, 30_000),
+      ...this.contextBudget(8_500),
       maxFiles: 8,
     });
     if (projectCtx.text) { contextParts.push(projectCtx.text); }
@@ -1323,12 +1646,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     // Stream into the newly created file
     const updater = this.makeStreamUpdater(editor, 200);
-    const code = await this.groqClient.generateCodeStreaming(
+    const code = await this.streamWithCheckpoint(cpId, updater, () => this.groqClient.generateCodeStreaming(
       instruction,
       language,
       updater.onChunk,
-      contextParts.join('\n\n')
-    );
+      contextParts.join('\n\n'),
+      undefined,
+      this.abortSignal
+    ));
 
     // Wait for any in-flight edit, then do the final write
     await updater.flush();
@@ -1365,6 +1690,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     return /\b(change|update|modify|replace|create|generate|convert|enhance|improve|refactor|fix|optimise|optimize|rewrite|redesign|style|beautify|add|remove|delete|implement|build|make|write|edit|transform|migrate|upgrade|redo|revamp|restyle|tweak|adjust|clean|format|lint|minify|simplify|extend|expand|rework|overhaul|design|code|develop|scaffold|setup|set\s*up)\b/i.test(userMessage);
   }
 
+  /**
+   * Whether a message sent with images asks to rebuild the pictured UI
+   * (or says nothing at all) rather than asking about the images.
+   */
+  private isImageToCodeIntent(msg: string): boolean {
+    if (!msg.trim()) { return true; }
+    return /^\s*(please\s+|can you\s+|could you\s+)?(recreate|replicate|reproduce|clone|rebuild|build|implement|convert|turn|generate)\b/i.test(msg)
+      && /\b(ui|design|mock-?up|screenshot|layout|page|screen|component|wireframe|this|these)\b/i.test(msg);
+  }
+
   /**
    * Detect if the user wants to create/modify multiple files or scaffold a structure.
    */
@@ -1420,9 +1755,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     const contextParts: string[] = [];
     if (referencedFilesContext) { contextParts.push(referencedFilesContext); }
 
-    const charBudget = this.groqClient.getContextCharBudget();
     const projCtx = await gatherProjectContext({
-      maxChars: Math.min(charBudget, 30_000),
+      ...this.contextBudget(8_500),
       maxFiles: 10,
     });
     if (projCtx.text) { contextParts.push(projCtx.text); }
@@ -1478,18 +1812,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     userPrompt += `Current project structure:\n${tree}\n\n`;
     if (contextParts.length > 0) {
       const ctx = contextParts.join('\n\n');
-      const budget = Math.floor(charBudget * 0.6);
-      userPrompt += `Project context:\n${ctx.length > budget ? ctx.slice(0, budget) + '\n/* ...trimmed... */' : ctx}\n\n`;
+      const budget = Math.floor(this.groqClient.getContextTokenBudget() * 0.6);
+      userPrompt += `Project context:\n${this.groqClient.truncateToTokens(ctx, budget, '\n/* ...trimmed... */')}\n\n`;
     }
     userPrompt += 'Generate the files now. Start with ===NEW_FILE: path=== or ===FILE: path=== immediately.';
 
+    // Continuations re-send both messages, so they are a cached prefix
     const messages: GroqMessage[] = [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
+      { role: 'system', content: systemPrompt, cache: true },
+      { role: 'user', content: userPrompt, cache: true },
     ];
 
     console.log('🚀 Calling Groq API (multi-file generation with continuation)...');
-    const rawResponse = await this.groqClient.completeWithContinuation(messages, { maxContinuations: 5 });
+    const rawResponse = await this.groqClient.completeWithContinuation(messages, { maxContinuations: 5, signal: this.abortSignal });
 
     // Parse using the enhanced integration parser (handles NEW_FILE, MODIFY_FILE, and FILE blocks)
     const integration = parseIntegrationResponse(rawResponse);
@@ -1675,9 +2010,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
 
       // Auto-scan project context
-      const charBudget = this.groqClient.getContextCharBudget();
       const projCtx = await gatherProjectContext({
-        maxChars: Math.min(charBudget, 25_000),
+        ...this.contextBudget(7_000),
         maxFiles: 10,
       });
       if (projCtx.text) { contextParts.push(projCtx.text); }
@@ -1744,15 +2078,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
       if (contextParts.length > 0) {
         const ctx = contextParts.join('\n\n');
-        const budget = Math.floor(charBudget * 0.4);
-        userPrompt += `Additional project context:\n${ctx.length > budget ? ctx.slice(0, budget) + '\n/* ...trimmed... */' : ctx}\n\n`;
+        const budget = Math.floor(this.groqClient.getContextTokenBudget() * 0.4);
+        userPrompt += `Additional project context:\n${this.groqClient.truncateToTokens(ctx, budget, '\n/* ...trimmed... */')}\n\n`;
       }
 
       userPrompt += 'Now create the new files AND modify existing files to integrate everything. Start immediately with ===NEW_FILE=== or ===MODIFY_FILE===.';
 
+      // Continuations re-send both messages, so they are a cached prefix
       const messages: GroqMessage[] = [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
+        { role: 'system', content: systemPrompt, cache: true },
+        { role: 'user', content: userPrompt, cache: true },
       ];
 
       this._view?.webview.postMessage({
@@ -1762,7 +2097,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
       // ── 3. Call AI with continuation support ──
       console.log('🚀 Calling Groq API (create-and-integrate mode)...');
-      const rawResponse = await this.groqClient.completeWithContinuation(messages, { maxContinuations: 5 });
+      const rawResponse = await this.groqClient.completeWithContinuation(messages, { maxContinuations: 5, signal: this.abortSignal });
 
       // ── 4. Parse the response ──
       const integration = parseIntegrationResponse(rawResponse);
@@ -1866,6 +2201,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       );
 
     } catch (err: any) {
+      if (GroqClient.isCancellation(err)) { this.notifyStopped(); return; }
       console.error('❌ Create-and-integrate error:', err);
       this._view?.webview.postMessage({
         type: 'error',
@@ -1880,12 +2216,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   // IMAGE-TO-CODE — Vision-based UI replication
   // ===========================
 
-  private async handleImageToCode(
-    instruction: string,
-    imageBase64: string,
-    mimeType: string,
-    fileName: string
-  ): Promise<void> {
+  private async handleImageToCode(instruction: string, images: ImageAttachment[]): Promise<void> {
     // Gate behind Google auth
     if (this.authProvider && !(await this.authProvider.isAuthenticated())) {
       this._view?.webview.postMessage({
@@ -1896,25 +2227,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     // Show user message with image indicator
+    const fileNames = images.map(i => i.fileName || 'image').join(', ');
+    instruction = instruction || `Recreate this UI exactly as shown in the ${images.length > 1 ? 'images' : 'image'}`;
     this._view?.webview.postMessage({
       type: 'userMessage',
-      message: `🖼️ [Image: ${fileName}] ${instruction}`
+      message: `🖼️ [Image: ${fileNames}] ${instruction}`
     });
-    this.conversationHistory.push({ role: 'user', content: `[Image: ${fileName}] ${instruction}` });
+    this.conversationHistory.push({ role: 'user', content: `[Image: ${fileNames}] ${instruction}` });
 
     this._view?.webview.postMessage({ type: 'loading', isLoading: true });
+    this.abortController = new AbortController();
+    this.beginUsageTurn(instruction);
 
     try {
-      // Check API key
-      const visionModel = GroqClient.VISION_MODEL;
-      const apiKey = this.groqClient.getApiKeyForModel(visionModel);
-      const globalKey = this.groqClient.getApiKeyForModel(this.groqClient.getActiveModel());
-      if (!apiKey && !globalKey) {
-        throw new Error(
-          '⚠️ No API key configured. Set a key for the Llama 4 Scout (Vision) model in the Configure Tools panel.\n\n' +
-          'Get your free Groq API key at: https://console.groq.com'
-        );
-      }
+      // Fails with a clear message when no vision-capable model has a key
+      const visionModel = this.groqClient.resolveVisionModel();
 
       // Determine target language from user instruction or current editor
       const editor = this.getTargetEditor();
@@ -1930,15 +2257,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
       this._view?.webview.postMessage({
         type: 'assistantMessage',
-        message: `🖼️ Analyzing screenshot and generating ${targetLang} code…`
+        message: `🖼️ Analyzing ${images.length > 1 ? `${images.length} screenshots` : 'screenshot'} with ${modelCatalog.get(visionModel)?.label ?? visionModel} and generating ${targetLang} code…`
       });
 
       // Call vision model
       const rawResponse = await this.groqClient.imageToCode(
-        imageBase64,
-        mimeType,
+        images,
         instruction,
-        targetLang
+        targetLang,
+        this.abortSignal
       );
 
       // Check if the response contains multiple files
@@ -2016,6 +2343,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
 
     } catch (error: any) {
+      if (GroqClient.isCancellation(error)) { this.notifyStopped(); return; }
       console.error('Image-to-code error:', error);
       const errorMsg = error.response?.data?.error?.message || error.message || 'Unknown error';
       this._view?.webview.postMessage({
@@ -2046,6 +2374,36 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     return { languageId: currentLanguageId, promptLanguage: currentLanguageId };
   }
 
+  /**
+   * Chat messages laid out for prompt caching: the mode's system prompt and
+   * the workspace context (referenced files, project tree and project
+   * context — stable from turn to turn) come first, then earlier turns, then
+   * this turn's message with its editor context. Each stable part ends a
+   * cached prefix.
+   */
+  private chatMessages(systemPrompt: string, workspaceContext: string, userContent: GroqMessage['content']): GroqMessage[] {
+    const history = this.conversationHistory.slice(0, -1);
+    return [
+      { role: 'system', content: systemPrompt, cache: true },
+      ...(workspaceContext.trim() ? [{ role: 'system' as const, content: workspaceContext.trim(), cache: true }] : []),
+      ...history.map((m, i) => (i === history.length - 1 ? { ...m, cache: true } : m)),
+      { role: 'user', content: userContent },
+    ];
+  }
+
+  /** Token budget options for gatherProjectContext, capped at `cap` tokens. */
+  private contextBudget(cap: number): {
+    maxTokens: number;
+    countTokens: (text: string) => number;
+    truncateToTokens: (text: string, maxTokens: number) => string;
+  } {
+    return {
+      maxTokens: Math.min(this.groqClient.getContextTokenBudget(), cap),
+      countTokens: (text) => this.groqClient.countTokens(text),
+      truncateToTokens: (text, maxTokens) => this.groqClient.truncateToTokens(text, maxTokens),
+    };
+  }
+
   private sanitizeChatResponse(text: string): string {
     // Prevent chat from showing fenced markers. We keep the content but remove
     // the ``` fences so it stays readable in a plain-text webview.
@@ -2058,10 +2416,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     skipCurrentFile: boolean = false
   ): Promise<string> {
     // Keep context bounded — respect the model's token window
-    const charBudget = this.groqClient.getContextCharBudget();
-    const MAX_CONTEXT_CHARS = Math.min(charBudget, 30_000);
+    const tokenBudget = this.groqClient.getContextTokenBudget();
+    const MAX_CONTEXT_TOKENS = Math.min(tokenBudget, 8_500);
     const MAX_RELATED_FILES = 6;
-    const MAX_FILE_CHARS = Math.min(Math.floor(charBudget / 3), 8_000);
+    const MAX_FILE_TOKENS = Math.min(Math.floor(tokenBudget / 3), 2_300);
 
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
     const rootPath = workspaceFolder?.uri.fsPath;
@@ -2072,16 +2430,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     const sections: string[] = [];
     const included = new Set<string>();
+    let usedTokens = 0;
 
     const addSection = (fileLabel: string, content: string) => {
       if (included.has(fileLabel)) return;
       included.add(fileLabel);
 
-      const clipped = content.length > MAX_FILE_CHARS
-        ? content.slice(0, MAX_FILE_CHARS) + '\n\n/* ...truncated... */\n'
-        : content;
-
-      sections.push(`--- FILE: ${fileLabel} ---\n${clipped}`);
+      const clipped = this.groqClient.truncateToTokens(content, MAX_FILE_TOKENS, '\n\n/* ...truncated... */\n');
+      const section = `--- FILE: ${fileLabel} ---\n${clipped}`;
+      usedTokens += this.groqClient.countTokens(section);
+      sections.push(section);
     };
 
     // Include the active file only if we're NOT passing it separately via currentFileContent.
@@ -2105,7 +2463,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     if (!rootPath) {
       // No workspace folder (single file). Return only current file context.
-      return sections.join('\n\n').slice(0, MAX_CONTEXT_CHARS);
+      return this.groqClient.truncateToTokens(sections.join('\n\n'), MAX_CONTEXT_TOKENS, '');
     }
 
     const relatedPaths = this.findLocalReferences(doc);
@@ -2125,11 +2483,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
       addSection(relRef, text);
 
-      if (sections.join('\n\n').length >= MAX_CONTEXT_CHARS) break;
+      if (usedTokens >= MAX_CONTEXT_TOKENS) break;
     }
 
-    const context = sections.join('\n\n');
-    return context.length > MAX_CONTEXT_CHARS ? context.slice(0, MAX_CONTEXT_CHARS) : context;
+    return this.groqClient.truncateToTokens(sections.join('\n\n'), MAX_CONTEXT_TOKENS, '');
   }
 
   private findLocalReferences(doc: vscode.TextDocument): string[] {
@@ -2256,6 +2613,44 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     return false;
   }
 
+  /** Write a checkpoint's saved content back into its document. */
+  private async restoreCheckpoint(id: string): Promise<boolean> {
+    const cp = this.checkpoints.get(id);
+    if (!cp) { return false; }
+    try {
+      const doc = await vscode.workspace.openTextDocument(cp.uri);
+      const editor = await vscode.window.showTextDocument(doc);
+      const fullRange = new vscode.Range(
+        doc.positionAt(0),
+        doc.positionAt(doc.getText().length)
+      );
+      return await editor.edit(eb => { eb.replace(fullRange, cp.content); });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run a streaming edit. If the user stops it midway, wait for the in-flight
+   * editor write, roll the file back to its checkpoint and rethrow.
+   */
+  private async streamWithCheckpoint<T>(
+    cpId: string,
+    updater: { flush: () => Promise<void> },
+    run: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await run();
+    } catch (err) {
+      if (GroqClient.isCancellation(err)) {
+        await updater.flush();
+        await this.restoreCheckpoint(cpId);
+        this.checkpoints.delete(cpId);
+      }
+      throw err;
+    }
+  }
+
   /**
    * Stream updater that replaces only a specific range (for selection edits).
    * The range is tracked and updated as the content changes length.
@@ -2458,7 +2853,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     doc: vscode.TextDocument,
     cleanMessage: string,
     target: { languageId?: string; promptLanguage: string },
-    contextParts: string[]
+    contextParts: string[],
+    cpId: string
   ) {
     const currentFileContent = doc.getText();
 
@@ -2472,13 +2868,14 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     // Stream code directly into the editor
     const updater = this.makeStreamUpdater(editor, 200);
-    const newCode = await this.groqClient.generateCodeStreaming(
+    const newCode = await this.streamWithCheckpoint(cpId, updater, () => this.groqClient.generateCodeStreaming(
       cleanMessage,
       target.promptLanguage,
       updater.onChunk,
       contextParts.join('\n\n'),
-      currentFileContent
-    );
+      currentFileContent,
+      this.abortSignal
+    ));
 
     await updater.flush();
     await this.replaceFullDocument(editor, newCode, 5);
@@ -2508,16 +2905,25 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
   public clearConversation() {
     this.conversationHistory = [];
+    this.comparisons.clear();
+    this.resetUsageSession();
     this._view?.webview.postMessage({ type: 'clearMessages' });
   }
 
   /** Start a new chat session (like Copilot's new chat feature). */
   public startNewChat() {
     this.conversationHistory = [];
+    this.comparisons.clear();
+    this.resetUsageSession();
     this._view?.webview.postMessage({ type: 'clearMessages' });
     vscode.window.showInformationMessage('Started new chat session');
   }
 
+  private resetUsageSession() {
+    this.usageSessionId = ChatViewProvider.newUsageSessionId();
+    this.usageSessionTitle = undefined;
+  }
+
   /** Close the chat panel. */
   public closePanel() {
     // Hide the webview panel (similar to Copilot)
@@ -2656,6 +3062,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
   .msg.assistant .bubble { background: transparent; padding-left: 0; padding-right: 0; border-radius: 0; }
 
+  /* ── Reasoning model thoughts, collapsed above the answer ── */
+  .thinking { margin: 2px 0 4px; font-size: 12px; }
+  .thinking summary { cursor: pointer; user-select: none; opacity: 0.6; }
+  .thinking summary:hover, .thinking[open] summary { opacity: 0.9; }
+  .thinking-body {
+    margin-top: 6px; padding: 4px 10px; max-height: 320px; overflow-y: auto;
+    border-left: 2px solid var(--vscode-panel-border);
+    white-space: pre-wrap; line-height: 1.55; opacity: 0.75;
+  }
+
   /* ── Rich assistant message formatting ── */
   .ai-section-header {
     display: flex; align-items: center; gap: 7px;
@@ -2956,11 +3372,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   /* Image preview bar */
   #imagePreview { overflow: hidden; }
   .image-preview-bar {
-    display: flex; align-items: center; gap: 8px;
+    display: flex; flex-wrap: wrap; align-items: center; gap: 8px;
     padding: 6px 10px; border-top: 1px solid var(--vscode-panel-border); font-size: 12px;
   }
+  .img-item { display: flex; align-items: center; gap: 6px; max-width: 100%; min-width: 0; }
   .image-preview-bar img { height: 36px; border-radius: 4px; object-fit: cover; }
-  .img-name { opacity: 0.7; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .img-name { opacity: 0.7; max-width: 120px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
   .img-remove { cursor: pointer; opacity: 0.5; font-size: 16px; }
   .img-remove:hover { opacity: 1; }
 
@@ -3010,6 +3427,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   .toolbar-send-btn:hover { opacity: 0.85; }
   .toolbar-send-btn:active { opacity: 0.7; }
   .toolbar-send-btn:disabled { opacity: 0.35; cursor: not-allowed; }
+  .toolbar-stop-btn { display: none; }
+  .toolbar-stop-btn.active { display: flex; }
 
   /* Floating model / mode picker */
   .floating-picker {
@@ -3029,6 +3448,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
   .picker-item:hover { background: var(--vscode-list-hoverBackground, rgba(255,255,255,0.07)); opacity: 1; }
   .picker-item.selected { opacity: 1; font-weight: 600; }
+  .picker-item .picker-caps { margin-left: 4px; font-size: 10px; opacity: 0.55; }
   .picker-item .picker-check {
     display: inline-block; width: 14px; margin-right: 4px;
     font-size: 11px; opacity: 0.8;
@@ -3086,6 +3506,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     font-weight: 600;
   }
 
+  /* Model comparison */
+  .compare-bar {
+    display: none; align-items: center; gap: 6px; flex-wrap: wrap;
+    padding: 4px 12px; font-size: 11px; flex-shrink: 0;
+    border-top: 1px solid var(--vscode-panel-border);
+    color: var(--vscode-descriptionForeground, #888);
+  }
+  .compare-bar.active { display: flex; }
+  .compare-bar strong { color: var(--vscode-foreground); font-weight: 600; }
+  .compare-bar button {
+    margin-left: auto; background: none; border: none; cursor: pointer; font-size: 11px;
+    color: var(--vscode-textLink-foreground, #3794ff);
+  }
+  .compare-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 8px; }
+  .compare-col {
+    display: flex; flex-direction: column; min-width: 0;
+    border: 1px solid var(--vscode-panel-border); border-radius: 6px; padding: 8px;
+  }
+  .compare-col.applied { border-color: var(--vscode-button-background); }
+  .compare-col.failed .compare-body { color: var(--vscode-errorForeground, #f48771); }
+  .compare-col-title { font-weight: 600; font-size: 12px; }
+  .compare-meta { font-size: 10.5px; color: var(--vscode-descriptionForeground, #888); margin: 2px 0 6px; }
+  .compare-body { flex: 1; min-width: 0; overflow-x: auto; font-size: 12px; }
+  .compare-body pre { margin: 0; max-height: 320px; overflow: auto; font-size: 11.5px; }
+  .compare-col .plan-actions { margin-top: 6px; }
+
   /* Plan actions */
   .plan-actions { display: flex; gap: 6px; margin-top: 8px; padding-top: 8px; border-top: 1px solid var(--vscode-panel-border); }
   .plan-actions button { padding: 5px 14px; font-size: 12px; border-radius: 4px; cursor: pointer; border: none; }
@@ -3229,29 +3675,34 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   }
   .model-key-del-btn.visible { display: block; }
   .model-key-del-btn:hover { opacity: 1; color: #f48771; }
-  .provider-section-header {
-    font-size: 10px; font-weight: 700; letter-spacing: 0.06em; text-transform: uppercase;
-    color: var(--vscode-foreground); opacity: 0.45;
-    padding: 12px 0 4px 0; margin-bottom: 2px;
-    border-top: 1px solid var(--vscode-panel-border);
-  }
-  .provider-section-header:first-child { border-top: none; padding-top: 2px; }
-  .settings-active-badge {
-    font-size: 10px; padding: 1px 6px; border-radius: 3px;
-    background: var(--vscode-button-background); color: var(--vscode-button-foreground);
-    font-weight: 600; margin-left: 4px;
-  }
-  .model-key-set-active-btn {
-    padding: 3px 8px; font-size: 11px; border-radius: 4px; border: none; cursor: pointer;
-    background: transparent; color: var(--vscode-foreground); opacity: 0.5;
-    font-family: var(--vscode-font-family); transition: all 0.12s; flex-shrink: 0;
-  }
-  .model-key-set-active-btn:hover { opacity: 1; background: var(--vscode-toolbar-hoverBackground, rgba(255,255,255,0.08)); }
   .settings-msg {
     font-size: 11.5px; padding: 4px 0; opacity: 0.7; min-height: 18px; color: var(--vscode-foreground);
   }
   .settings-msg.ok  { color: #3dc965; opacity: 1; }
   .settings-msg.err { color: #f48771; opacity: 1; }
+
+  /* ── Usage & Cost Modal ── */
+  .usage-totals { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; margin-bottom: 16px; }
+  .usage-total-card {
+    padding: 8px 10px; border-radius: 6px;
+    border: 1px solid var(--vscode-panel-border);
+    background: var(--vscode-input-background);
+  }
+  .usage-total-label { font-size: 10px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.6px; opacity: 0.5; }
+  .usage-total-cost { font-size: 15px; font-weight: 700; margin: 3px 0 1px; color: var(--vscode-foreground); }
+  .usage-total-sub { font-size: 10.5px; opacity: 0.55; }
+  .usage-table { width: 100%; border-collapse: collapse; font-size: 11.5px; margin-bottom: 16px; }
+  .usage-table th {
+    text-align: left; font-weight: 600; opacity: 0.5; font-size: 10.5px;
+    padding: 4px 4px; border-bottom: 1px solid var(--vscode-panel-border);
+  }
+  .usage-table td { padding: 5px 4px; border-bottom: 1px solid var(--vscode-panel-border); color: var(--vscode-foreground); }
+  .usage-table tr:last-child td { border-bottom: none; }
+  .usage-table .num { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .usage-table .usage-session-title { max-width: 160px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .usage-empty { padding: 8px 0 16px; font-size: 12px; opacity: 0.45; }
+  .usage-actions { display: flex; gap: 8px; }
+  .usage-actions .model-key-del-btn { display: block; }
 </style>
 </head>
 
@@ -3278,6 +3729,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     <div class="sessions-header">
       <span class="sessions-title">SESSIONS</span>
       <div class="sessions-actions">
+        <!-- Usage & cost: bar chart icon -->
+        <button class="session-icon-btn" id="usageBtn" title="Usage &amp; cost">
+          <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M2 13h12v1H2v-1zm1-5h2v4H3V8zm4-4h2v8H7V4zm4 2h2v6h-2V6z"/>
+          </svg>
+        </button>
         <!-- New chat: compose / pencil-plus icon -->
         <button class="session-icon-btn" id="newChat" title="New chat">
           <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
@@ -3296,6 +3753,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   <div class="loading-bar" id="loadingBar"></div>
   <div class="chat" id="chat"></div>
   <div class="typing" id="typingIndicator">⏳ Working… generating code in the editor</div>
+  <div class="compare-bar" id="compareBar"></div>
 
   <!-- Copilot-style chat input -->
   <div class="chat-input-wrapper">
@@ -3347,6 +3805,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
               <path d="M3.5 2a.5.5 0 0 1 .5.5V5h1.5a.5.5 0 0 1 0 1H4v7.5a.5.5 0 0 1-1 0V6H1.5a.5.5 0 0 1 0-1H3V2.5a.5.5 0 0 1 .5-.5zm5 0a.5.5 0 0 1 .5.5V7h1.5a.5.5 0 0 1 0 1H9v5.5a.5.5 0 0 1-1 0V8H6.5a.5.5 0 0 1 0-1H8V2.5a.5.5 0 0 1 .5-.5zm5 0a.5.5 0 0 1 .5.5v2h1.5a.5.5 0 0 1 0 1H14v8.5a.5.5 0 0 1-1 0V5.5h-1.5a.5.5 0 0 1 0-1H13V2.5a.5.5 0 0 1 .5-.5z"/>
             </svg>
           </button>
+          <!-- Stop: square, shown only while a response is generating -->
+          <button id="stop" class="toolbar-send-btn toolbar-stop-btn" title="Stop generating" aria-label="Stop">
+            <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+              <rect x="3" y="3" width="10" height="10" rx="1.5"/>
+            </svg>
+          </button>
           <!-- Send: paper-plane / send arrow -->
           <button id="send" class="toolbar-send-btn" title="Send message (Enter)" aria-label="Send">
             <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
@@ -3356,7 +3820,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         </div>
       </div>
     </div>
-    <input type="file" id="imageInput" accept="image/png,image/jpeg,image/gif,image/webp" style="display:none" />
+    <input type="file" id="imageInput" accept="image/png,image/jpeg,image/gif,image/webp" multiple style="display:none" />
     <!-- Hidden selects for backward-compat -->
     <select id="modeSelect" style="display:none">
       <option value="ask">Ask</option>
@@ -3388,7 +3852,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       <button class="settings-close-btn" id="settingsCloseBtn" title="Close">&#xd7;</button>
     </div>
     <div class="settings-modal-body">
-      <p class="settings-section-title">API Keys &amp; Models</p>
+      <p class="settings-section-title">Provider API Keys</p>
       <div class="settings-msg" id="settingsMsg"></div>
       <div id="modelKeyList">
         <div style="padding:20px;text-align:center;opacity:0.45;font-size:12px;">Loading…</div>
@@ -3396,6 +3860,28 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     </div>
   </div>
 
+  <!-- Usage & cost modal -->
+  <div class="settings-backdrop" id="usageBackdrop"></div>
+  <div class="settings-modal" id="usageModal">
+    <div class="settings-modal-header">
+      <h3>
+        <svg width="13" height="13" viewBox="0 0 16 16" fill="currentColor" style="vertical-align:middle;margin-right:6px;opacity:0.75">
+          <path d="M2 13h12v1H2v-1zm1-5h2v4H3V8zm4-4h2v8H7V4zm4 2h2v6h-2V6z"/>
+        </svg>Usage &amp; Cost
+      </h3>
+      <button class="settings-close-btn" id="usageCloseBtn" title="Close">&#xd7;</button>
+    </div>
+    <div class="settings-modal-body">
+      <div id="usageContent">
+        <div style="padding:20px;text-align:center;opacity:0.45;font-size:12px;">Loading…</div>
+      </div>
+      <div class="usage-actions">
+        <button class="model-key-save-btn" id="usageExportBtn">Export CSV</button>
+        <button class="model-key-del-btn" id="usageResetBtn">Reset</button>
+      </div>
+    </div>
+  </div>
+
 <script nonce="${nonce}">
   console.log('🚀 Prompt2Code webview script loaded');
   
@@ -3418,6 +3904,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   const chat = document.getElementById('chat');
   const input = document.getElementById('input');
   const send = document.getElementById('send');
+  const stop = document.getElementById('stop');
   const newChat = document.getElementById('newChat');
   const close = document.getElementById('close');
   const addContextBtn = document.getElementById('addContextBtn');
@@ -3427,6 +3914,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   const imagePreview = document.getElementById('imagePreview');
   const loadingBar = document.getElementById('loadingBar');
   const typingIndicator = document.getElementById('typingIndicator');
+  const typingDefaultText = typingIndicator ? typingIndicator.textContent : '';
+  let rateLimitTimer = null;
+
+  // Count down a rate-limit wait in the typing indicator; 0 restores the usual text
+  function showRateLimitWait(waitMs, provider) {
+    if (rateLimitTimer) { clearInterval(rateLimitTimer); rateLimitTimer = null; }
+    if (!typingIndicator) return;
+    if (!waitMs || waitMs <= 0) { typingIndicator.textContent = typingDefaultText; return; }
+    const until = Date.now() + waitMs;
+    const render = () => {
+      const secs = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+      typingIndicator.textContent = '\u23F3 Waiting for rate limit (' + secs + 's)' + (provider ? ' \u2014 ' + provider : '') + '\u2026';
+    };
+    render();
+    rateLimitTimer = setInterval(render, 1000);
+  }
   const attachedFilesEl = document.getElementById('attachedFiles');
   const modelSelect = document.getElementById('modelSelect');
   const modeSelect = document.getElementById('modeSelect');
@@ -3582,6 +4085,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
   let loading = false;
   let availableModels = [];
+
+  /** Small capability icons after a model's name in the picker. */
+  function capBadges(m) {
+    const caps = m.capabilities || {};
+    const icons = [];
+    const titles = [];
+    if (caps.vision) { icons.push('\uD83D\uDC41'); titles.push('vision'); }
+    if (caps.tools) { icons.push('\uD83D\uDEE0'); titles.push('tool calling'); }
+    if (caps.reasoning) { icons.push('\uD83E\uDDE0'); titles.push('reasoning'); }
+    if (icons.length === 0) { return ''; }
+    return ' <span class="picker-caps" title="' + titles.join(', ') + '">' + icons.join(' ') + '</span>';
+  }
   let currentMode = 'agent';
 
   // ── Session management ──
@@ -3656,43 +4171,84 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   // Track session elapsed time
   let _sessionStartTs = 0;
 
-  // ── Image attachment state ──
-  let pendingImage = null; // { base64, mimeType, fileName }
+  const MODE_PLACEHOLDERS = {
+    ask: 'Ask a question about your code',
+    agent: 'Describe what to build next',
+    plan: 'Describe what you want to build'
+  };
 
-  if (addImage) addImage.onclick = () => { if (imageInput) imageInput.click(); };
+  // ── Image attachment state ──
+  const MAX_IMAGES = 5;
+  let pendingImages = []; // [{ base64, mimeType, fileName, dataUrl }]
 
-  if (imageInput) imageInput.addEventListener('change', (e) => {
-    const file = e.target.files[0];
-    if (!file) return;
+  function renderImagePreview() {
+    imagePreview.innerHTML = '';
+    if (pendingImages.length === 0) {
+      imagePreview.style.display = 'none';
+      input.placeholder = MODE_PLACEHOLDERS[currentMode] || MODE_PLACEHOLDERS.agent;
+      return;
+    }
+    const bar = document.createElement('div');
+    bar.className = 'image-preview-bar';
+    pendingImages.forEach((img, index) => {
+      const item = document.createElement('span');
+      item.className = 'img-item';
+      item.innerHTML =
+        '<img src="' + img.dataUrl + '" />' +
+        '<span class="img-name">' + escapeHtml(img.fileName) + '</span>' +
+        '<span class="img-remove" title="Remove image">&times;</span>';
+      item.querySelector('.img-remove').onclick = () => {
+        pendingImages.splice(index, 1);
+        renderImagePreview();
+      };
+      bar.appendChild(item);
+    });
+    imagePreview.appendChild(bar);
+    imagePreview.style.display = 'block';
+    // Update placeholder hint
+    input.placeholder = currentMode === 'agent'
+      ? 'Ask about the image, or leave empty to replicate the UI…'
+      : 'Ask about the image…';
+  }
+
+  function addImageFile(file) {
+    if (!file || !String(file.type).startsWith('image/')) return;
+    if (pendingImages.length >= MAX_IMAGES) {
+      alert('You can attach up to ' + MAX_IMAGES + ' images per message.');
+      return;
+    }
     if (file.size > 4 * 1024 * 1024) {
       alert('Image too large. Max 4 MB for the vision API.');
-      imageInput.value = '';
       return;
     }
     const reader = new FileReader();
     reader.onload = () => {
       const dataUrl = reader.result;
-      const base64 = dataUrl.split(',')[1];
-      const mimeType = file.type || 'image/png';
-      pendingImage = { base64, mimeType, fileName: file.name };
-      // Show preview
-      imagePreview.innerHTML =
-        '<div class="image-preview-bar">' +
-          '<img src="' + dataUrl + '" />' +
-          '<span class="img-name">' + file.name + '</span>' +
-          '<span class="img-remove" title="Remove image">&times;</span>' +
-        '</div>';
-      imagePreview.style.display = 'block';
-      imagePreview.querySelector('.img-remove').onclick = () => {
-        pendingImage = null;
-        imagePreview.innerHTML = '';
-        imagePreview.style.display = 'none';
-        imageInput.value = '';
-      };
-      // Update placeholder hint
-      input.placeholder = 'Describe what you want (or leave empty to replicate the UI)…';
+      pendingImages.push({
+        base64: dataUrl.split(',')[1],
+        mimeType: file.type || 'image/png',
+        fileName: file.name || ('pasted-image-' + (pendingImages.length + 1) + '.png'),
+        dataUrl
+      });
+      renderImagePreview();
     };
     reader.readAsDataURL(file);
+  }
+
+  if (addImage) addImage.onclick = () => { if (imageInput) imageInput.click(); };
+
+  if (imageInput) imageInput.addEventListener('change', (e) => {
+    Array.from(e.target.files || []).forEach(addImageFile);
+    imageInput.value = '';
+  });
+
+  // Pasting a screenshot attaches it
+  input.addEventListener('paste', (e) => {
+    const items = Array.from((e.clipboardData && e.clipboardData.items) || []);
+    const files = items.filter(it => it.kind === 'file' && it.type.startsWith('image/')).map(it => it.getAsFile());
+    if (files.length === 0) return;
+    e.preventDefault();
+    files.forEach(addImageFile);
   });
 
   // ── Mode selector (dropdown) ──
@@ -3703,12 +4259,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     vscode.postMessage({ type: 'setMode', mode });
 
     // Update placeholder
-    const placeholders = {
-      ask: 'Ask a question about your code',
-      agent: 'Describe what to build next',
-      plan: 'Describe what you want to build'
-    };
-    input.placeholder = placeholders[mode] || placeholders.agent;
+    if (pendingImages.length > 0) renderImagePreview();
+    else input.placeholder = MODE_PLACEHOLDERS[mode] || MODE_PLACEHOLDERS.agent;
   });
 
   // ── Tracked / attached files state ──
@@ -3736,42 +4288,26 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  if (stop) stop.onclick = () => {
+    vscode.postMessage({ type: 'stopGeneration' });
+  };
+
   if (send) send.onclick = () => {
     if (loading) return;
 
-    // If an image is attached, send as image message
-    if (pendingImage) {
-      const msg = input.value.trim() || 'Recreate this UI exactly as shown in the image';
-      if (!activeSessionId || chat.children.length === 0) {
-        createSession(msg);
-        _sessionStartTs = Date.now();
-      }
-      vscode.postMessage({
-        type: 'sendImageMessage',
-        message: msg,
-        imageBase64: pendingImage.base64,
-        mimeType: pendingImage.mimeType,
-        fileName: pendingImage.fileName
-      });
-      input.value = '';
-      pendingImage = null;
-      imagePreview.innerHTML = '';
-      imagePreview.style.display = 'none';
-      imageInput.value = '';
-      input.placeholder = 'Describe what to build next';
-      return;
-    }
-
-    if (!input.value.trim()) return;
+    if (!input.value.trim() && pendingImages.length === 0) return;
     const msgText = input.value.trim();
     // Start a new session on first message in empty chat
     if (!activeSessionId || chat.children.length === 0) {
-      createSession(msgText);
+      createSession(msgText || 'Image: ' + pendingImages[0].fileName);
       _sessionStartTs = Date.now();
     }
     const files = trackedFiles.filter(f => !f.localContent).map(f => f.relPath);
     const localFiles = trackedFiles.filter(f => f.localContent).map(f => ({ name: f.fileName, content: f.localContent }));
-    vscode.postMessage({ type: 'sendMessage', message: msgText, attachedFiles: files, localFiles });
+    const images = pendingImages.map(img => ({ base64: img.base64, mimeType: img.mimeType, fileName: img.fileName }));
+    vscode.postMessage({ type: 'sendMessage', message: msgText, attachedFiles: files, localFiles, images });
+    pendingImages = [];
+    renderImagePreview();
     // Clear local-uploaded chips after send
     trackedFiles = trackedFiles.filter(f => f.source !== 'manual' || !f.localContent);
     renderChips();
@@ -3924,7 +4460,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
     if (msg.type === 'userMessage') add('You', msg.message, 'user');
     if (msg.type === 'assistantMessage') {
-      add('AI', msg.message, 'assistant');
+      add('AI', msg.message, 'assistant', msg.reasoning);
       // Keep session active — don't mark completed after every response.
       // Session is only completed when the user starts a new chat.
     }
@@ -3937,9 +4473,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         if (restoreBtn) restoreBtn.style.display = '';
       }
     }
+    if (msg.type === 'rateLimitWait') showRateLimitWait(msg.waitMs, msg.provider);
     if (msg.type === 'loading') {
+      if (!msg.isLoading) showRateLimitWait(0);
       loading = msg.isLoading;
-      if (send) send.disabled = loading;
+      if (send) send.style.display = loading ? 'none' : '';
+      if (stop) stop.className = loading ? 'toolbar-send-btn toolbar-stop-btn active' : 'toolbar-send-btn toolbar-stop-btn';
       if (input) input.disabled = loading;
       if (loadingBar) loadingBar.className = msg.isLoading ? 'loading-bar active' : 'loading-bar';
       if (typingIndicator) typingIndicator.className = msg.isLoading ? 'typing active' : 'typing';
@@ -3967,7 +4506,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
     }
     if (msg.type === 'planMessage') {
-      addPlan(msg.message, msg.originalRequest);
+      addPlan(msg.message, msg.originalRequest, msg.reasoning);
     }
     if (msg.type === 'checkpoint') addCheckpointBanner(msg.id);
     if (msg.type === 'insertFileRef') {
@@ -4079,7 +4618,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             btn.setAttribute('data-model-id', m.id);
             btn.innerHTML =
               '<span class="picker-check">' + (m.id === msg.activeModel ? '\u2713' : '') + '</span>' +
-              m.label + ' <span style="opacity:0.45;font-size:10px">(' + m.ctx + ')</span>';
+              escapeHtml(m.label) + ' <span style="opacity:0.45;font-size:10px">(' + m.ctx + ')</span>' + capBadges(m);
             btn.onclick = () => {
               modelPicker.classList.remove('open');
               vscode.postMessage({ type: 'selectModel', modelId: m.id });
@@ -4103,7 +4642,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             btn.setAttribute('data-model-id', m.id);
             btn.innerHTML =
               '<span class="picker-check">' + (m.id === msg.activeModel ? '\u2713' : '') + '</span>' +
-              m.label + ' <span style="opacity:0.45;font-size:10px">(' + m.ctx + ')</span>';
+              escapeHtml(m.label) + ' <span style="opacity:0.45;font-size:10px">(' + m.ctx + ')</span>' + capBadges(m);
             btn.onclick = () => {
               modelPicker.classList.remove('open');
               vscode.postMessage({ type: 'selectModel', modelId: m.id });
@@ -4111,8 +4650,25 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             modelPicker.appendChild(btn);
           }
         }
+
+        // ── Compare: send each message to several models side by side ──
+        const compareDivider = document.createElement('div');
+        compareDivider.className = 'picker-divider';
+        modelPicker.appendChild(compareDivider);
+        const compareBtn = document.createElement('button');
+        compareBtn.className = 'picker-item';
+        compareBtn.innerHTML = '<span class="picker-check"></span>\u2696\uFE0F Compare models\u2026';
+        compareBtn.onclick = () => {
+          modelPicker.classList.remove('open');
+          vscode.postMessage({ type: 'pickCompareModels' });
+        };
+        modelPicker.appendChild(compareBtn);
       }
     }
+    if (msg.type === 'compareState') renderCompareBar(msg.models || []);
+    if (msg.type === 'comparison') addComparison(msg);
+    if (msg.type === 'comparisonApplied') markComparisonApplied(msg.comparisonId, msg.index);
+    if (msg.type === 'comparisonApplyFailed') enableComparisonApply(msg.comparisonId, msg.index);
     if (msg.type === 'modelChangeResult') {
       if (msg.success) {
         if (modelSelect) modelSelect.value = msg.activeModel;
@@ -4148,7 +4704,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       }
     }
     if (msg.type === 'apiKeysState') {
-      renderModelKeyList(msg.keys, msg.activeModel);
+      renderProviderKeyList(msg.providers);
+    }
+    if (msg.type === 'usageState') {
+      renderUsage(msg.summary);
     }
     if (msg.type === 'autoModelResolved') {
       // Show a subtle note below the last assistant message about which model was used
@@ -4157,7 +4716,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       if (last && !last.querySelector('.auto-model-tag')) {
         const tag = document.createElement('div');
         tag.className = 'auto-model-tag';
-        tag.innerHTML = '\u26A1 <span>Auto</span> used <strong>' + escapeHtml(msg.modelLabel) + '</strong>';
+        tag.innerHTML = '\u26A1 <span>Auto</span> used <strong>' + escapeHtml(msg.modelLabel) + '</strong>'
+          + (msg.taskLabel ? ' for ' + escapeHtml(msg.taskLabel) : '');
         last.appendChild(tag);
       }
       // Update the model label to show which model was resolved
@@ -4210,90 +4770,66 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   if (settingsCloseBtn) settingsCloseBtn.onclick  = closeSettings;
   if (settingsBackdrop) settingsBackdrop.onclick  = closeSettings;
 
-  // Render per-model key rows when extension replies with apiKeysState
-  function renderModelKeyList(keysState, activeModelId) {
+  // Render one key row per provider when extension replies with apiKeysState
+  function renderProviderKeyList(providers) {
     if (!modelKeyList) return;
     modelKeyList.innerHTML = '';
 
-    const providerMeta = [
-      { id: 'groq',      label: 'Groq',           placeholder: 'gsk_… Enter Groq API key' },
-      { id: 'openai',    label: 'OpenAI',          placeholder: 'sk-… Enter OpenAI API key' },
-      { id: 'anthropic', label: 'Anthropic',       placeholder: 'sk-ant-… Enter Anthropic API key' },
-      { id: 'gemini',    label: 'Google Gemini',   placeholder: 'AIza… Enter Gemini API key' },
-    ];
+    for (const prov of providers || []) {
+      const maskedKey = prov.maskedKey || '';
+      const hasKey = !!maskedKey;
+      const usage = prov.id === 'openrouter'
+        ? 'Serves any cloud model without its own key'
+        : prov.modelCount + ' model' + (prov.modelCount === 1 ? '' : 's');
+      const row = document.createElement('div');
+      row.className = 'model-key-row';
+      row.innerHTML =
+        '<div class="model-key-top">' +
+          '<span class="model-key-name">' + escapeHtml(prov.name) + '</span>' +
+          '<span class="model-key-ctx">' + escapeHtml(usage) + '</span>' +
+          '<span class="model-key-status ' + (hasKey ? 'set' : 'unset') + '">' +
+            (hasKey ? '● Key set' : '○ No key') +
+          '</span>' +
+        '</div>' +
+        '<div class="model-key-input-row">' +
+          '<input class="model-key-input" type="password" placeholder="' + escapeHtml(prov.placeholder) + '" ' +
+            'data-original="' + escapeHtml(maskedKey) + '" autocomplete="off" />' +
+          '<button class="model-key-eye-btn" title="Show/hide key" tabindex="-1">' +
+            '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M8 3C4.5 3 1.5 5.5 0 8c1.5 2.5 4.5 5 8 5s6.5-2.5 8-5c-1.5-2.5-4.5-5-8-5zm0 8.5A3.5 3.5 0 1 1 8 4.5a3.5 3.5 0 0 1 0 7zm0-5.5a2 2 0 1 0 0 4 2 2 0 0 0 0-4z"/></svg>' +
+          '</button>' +
+          '<button class="model-key-save-btn">Save</button>' +
+          '<button class="model-key-del-btn' + (hasKey ? ' visible' : '') + '" title="Remove key">✕</button>' +
+        '</div>';
+      const inp     = row.querySelector('.model-key-input');
+      const eyeBtn  = row.querySelector('.model-key-eye-btn');
+      const save    = row.querySelector('.model-key-save-btn');
+      const del     = row.querySelector('.model-key-del-btn');
 
-    for (const prov of providerMeta) {
-      const provModels = availableModels.filter(m => m.provider === prov.id);
-      if (!provModels.length) continue;
-
-      const sectionHeader = document.createElement('div');
-      sectionHeader.className = 'provider-section-header';
-      sectionHeader.textContent = prov.label + ' Models';
-      modelKeyList.appendChild(sectionHeader);
-
-      for (const m of provModels) {
-        const maskedKey = (keysState && keysState[m.id]) || '';
-        const hasKey = !!maskedKey;
-        const isActive = m.id === activeModelId;
-        const row = document.createElement('div');
-        row.className = 'model-key-row';
-        row.innerHTML =
-          '<div class="model-key-top">' +
-            '<span class="model-key-name">' + m.label +
-              (isActive ? '<span class="settings-active-badge">active</span>' : '') +
-            '</span>' +
-            '<span class="model-key-ctx">' + m.ctx + '</span>' +
-            '<span class="model-key-status ' + (hasKey ? 'set' : 'unset') + '">' +
-              (hasKey ? '● Key set' : '○ No key') +
-            '</span>' +
-          '</div>' +
-          '<div class="model-key-input-row">' +
-            '<input class="model-key-input" type="password" placeholder="' + prov.placeholder + '" ' +
-              'data-model="' + m.id + '" data-original="' + maskedKey + '" autocomplete="off" />' +
-            '<button class="model-key-eye-btn" title="Show/hide key" tabindex="-1">' +
-              '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M8 3C4.5 3 1.5 5.5 0 8c1.5 2.5 4.5 5 8 5s6.5-2.5 8-5c-1.5-2.5-4.5-5-8-5zm0 8.5A3.5 3.5 0 1 1 8 4.5a3.5 3.5 0 0 1 0 7zm0-5.5a2 2 0 1 0 0 4 2 2 0 0 0 0-4z"/></svg>' +
-            '</button>' +
-            '<button class="model-key-save-btn" data-model="' + m.id + '">Save</button>' +
-            '<button class="model-key-del-btn' + (hasKey ? ' visible' : '') + '" data-model="' + m.id + '" title="Remove key">✕</button>' +
-          '</div>' +
-          (!isActive ? '<div style="margin-top:2px"><button class="model-key-set-active-btn" data-model="' + m.id + '">Set as active model</button></div>' : '') +
-          '';
-        const inp     = row.querySelector('.model-key-input');
-        const eyeBtn  = row.querySelector('.model-key-eye-btn');
-        const save    = row.querySelector('.model-key-save-btn');
-        const del     = row.querySelector('.model-key-del-btn');
-        const setActive = row.querySelector('.model-key-set-active-btn');
-
-        if (maskedKey) { inp.value = maskedKey; }
-
-        const eyeOpen  = '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M8 3C4.5 3 1.5 5.5 0 8c1.5 2.5 4.5 5 8 5s6.5-2.5 8-5c-1.5-2.5-4.5-5-8-5zm0 8.5A3.5 3.5 0 1 1 8 4.5a3.5 3.5 0 0 1 0 7zm0-5.5a2 2 0 1 0 0 4 2 2 0 0 0 0-4z"/></svg>';
-        const eyeClosed = '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M13.36 2.64 12.3 1.58C10.94 2.47 9.51 3 8 3 4.5 3 1.5 5.5 0 8c.72 1.2 1.72 2.24 2.9 3.02L1.58 12.3l1.06 1.06 10.72-10.72zm-9.1 9.1A5.94 5.94 0 0 1 2 8c1.3-2.17 3.8-4 6-4 .9 0 1.8.25 2.64.67L11.3 5.33A3.5 3.5 0 0 0 6.16 10.2l-1.9 1.54zM8 13c-1.49 0-2.94-.53-4.3-1.42l1.07-1.07A3.5 3.5 0 0 0 9.84 5.8l1.07-1.07C12.5 5.75 14 6.9 14 8c-1.5 2.5-3.5 5-6 5z"/></svg>';
-        if (eyeBtn) eyeBtn.onclick = (e) => {
-          e.preventDefault();
-          const isPassword = inp.type === 'password';
-          inp.type = isPassword ? 'text' : 'password';
-          eyeBtn.innerHTML = isPassword ? eyeClosed : eyeOpen;
-          eyeBtn.title = isPassword ? 'Hide key' : 'Show key';
-        };
+      if (maskedKey) { inp.value = maskedKey; }
 
-        save.onclick = () => {
-          const val = inp.value.trim();
-          if (!val) { showSettingsMsg('Enter a key first.', 'err'); return; }
-          if (val === inp.dataset.original) { showSettingsMsg('Key is already saved.', 'ok'); return; }
-          showSettingsMsg('Saving…', '');
-          vscode.postMessage({ type: 'setApiKey', modelId: m.id, apiKey: val });
-        };
-        if (del) del.onclick = () => {
-          showSettingsMsg('Removing key…', '');
-          vscode.postMessage({ type: 'deleteApiKey', modelId: m.id });
-        };
-        if (setActive) setActive.onclick = () => {
-          vscode.postMessage({ type: 'selectModel', modelId: m.id });
-          closeSettings();
-        };
-        inp.addEventListener('keydown', e => { if (e.key === 'Enter') save.click(); });
-        modelKeyList.appendChild(row);
-      }
+      const eyeOpen  = '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M8 3C4.5 3 1.5 5.5 0 8c1.5 2.5 4.5 5 8 5s6.5-2.5 8-5c-1.5-2.5-4.5-5-8-5zm0 8.5A3.5 3.5 0 1 1 8 4.5a3.5 3.5 0 0 1 0 7zm0-5.5a2 2 0 1 0 0 4 2 2 0 0 0 0-4z"/></svg>';
+      const eyeClosed = '<svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor"><path d="M13.36 2.64 12.3 1.58C10.94 2.47 9.51 3 8 3 4.5 3 1.5 5.5 0 8c.72 1.2 1.72 2.24 2.9 3.02L1.58 12.3l1.06 1.06 10.72-10.72zm-9.1 9.1A5.94 5.94 0 0 1 2 8c1.3-2.17 3.8-4 6-4 .9 0 1.8.25 2.64.67L11.3 5.33A3.5 3.5 0 0 0 6.16 10.2l-1.9 1.54zM8 13c-1.49 0-2.94-.53-4.3-1.42l1.07-1.07A3.5 3.5 0 0 0 9.84 5.8l1.07-1.07C12.5 5.75 14 6.9 14 8c-1.5 2.5-3.5 5-6 5z"/></svg>';
+      if (eyeBtn) eyeBtn.onclick = (e) => {
+        e.preventDefault();
+        const isPassword = inp.type === 'password';
+        inp.type = isPassword ? 'text' : 'password';
+        eyeBtn.innerHTML = isPassword ? eyeClosed : eyeOpen;
+        eyeBtn.title = isPassword ? 'Hide key' : 'Show key';
+      };
+
+      save.onclick = () => {
+        const val = inp.value.trim();
+        if (!val) { showSettingsMsg('Enter a key first.', 'err'); return; }
+        if (val === inp.dataset.original) { showSettingsMsg('Key is already saved.', 'ok'); return; }
+        showSettingsMsg('Saving…', '');
+        vscode.postMessage({ type: 'setApiKey', provider: prov.id, apiKey: val });
+      };
+      if (del) del.onclick = () => {
+        showSettingsMsg('Removing key…', '');
+        vscode.postMessage({ type: 'deleteApiKey', provider: prov.id });
+      };
+      inp.addEventListener('keydown', e => { if (e.key === 'Enter') save.click(); });
+      modelKeyList.appendChild(row);
     }
   }
 
@@ -4303,9 +4839,95 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     settingsMsg.className = 'settings-msg' + (type ? ' ' + type : '');
   }
 
+  // ── Usage & cost modal ──────────────────────────────────────
+  const usageModal    = document.getElementById('usageModal');
+  const usageBackdrop = document.getElementById('usageBackdrop');
+  const usageBtn      = document.getElementById('usageBtn');
+
+  function openUsage() {
+    if (usageModal)    usageModal.classList.add('open');
+    if (usageBackdrop) usageBackdrop.classList.add('open');
+    vscode.postMessage({ type: 'requestUsage' });
+  }
+  function closeUsage() {
+    if (usageModal)    usageModal.classList.remove('open');
+    if (usageBackdrop) usageBackdrop.classList.remove('open');
+  }
+
+  if (usageBtn)      usageBtn.onclick      = openUsage;
+  if (usageBackdrop) usageBackdrop.onclick = closeUsage;
+  const usageCloseBtn  = document.getElementById('usageCloseBtn');
+  const usageExportBtn = document.getElementById('usageExportBtn');
+  const usageResetBtn  = document.getElementById('usageResetBtn');
+  if (usageCloseBtn)  usageCloseBtn.onclick  = closeUsage;
+  if (usageExportBtn) usageExportBtn.onclick = () => vscode.postMessage({ type: 'exportUsageCsv' });
+  if (usageResetBtn)  usageResetBtn.onclick  = () => vscode.postMessage({ type: 'resetUsage' });
+
+  function fmtCost(usd) {
+    if (!usd) return '$0.00';
+    return usd < 0.01 ? '$' + usd.toFixed(4) : '$' + usd.toFixed(2);
+  }
+  function fmtTokens(n) {
+    if (n >= 1000000) return (n / 1000000).toFixed(1) + 'M';
+    if (n >= 1000) return (n / 1000).toFixed(1) + 'K';
+    return String(n);
+  }
+
+  function renderUsage(summary) {
+    // Looked up here: usage updates can arrive before this part of the script has run
+    const usageContent = document.getElementById('usageContent');
+    if (!usageContent || !summary) return;
+    const card = (label, t) =>
+      '<div class="usage-total-card">' +
+        '<div class="usage-total-label">' + label + '</div>' +
+        '<div class="usage-total-cost">' + fmtCost(t.costUsd) + '</div>' +
+        '<div class="usage-total-sub">' + fmtTokens(t.inputTokens + t.outputTokens) + ' tokens · ' + t.requests + ' req' +
+          (t.cachedInputTokens ? ' · ' + fmtTokens(t.cachedInputTokens) + ' cached' : '') + '</div>' +
+      '</div>';
+    // Prompt-cache hits and misses on hover over the input count
+    const cacheTitle = (t) => t.cachedInputTokens
+      ? ' title="Prompt cache: ' + fmtTokens(t.cachedInputTokens) + ' hit, ' + fmtTokens(t.inputTokens - t.cachedInputTokens) + ' miss"'
+      : '';
+    const row = (name, t) =>
+      '<tr><td>' + escapeHtml(name) + '</td>' +
+        '<td class="num"' + cacheTitle(t) + '>' + fmtTokens(t.inputTokens) + '</td>' +
+        '<td class="num">' + fmtTokens(t.outputTokens) + '</td>' +
+        '<td class="num">' + fmtCost(t.costUsd) + '</td></tr>';
+    const table = (firstCol, rows) =>
+      '<table class="usage-table"><tr><th>' + firstCol + '</th><th class="num">In</th><th class="num">Out</th><th class="num">Cost</th></tr>' +
+        rows.join('') + '</table>';
+
+    let html = '<div class="usage-totals">' +
+      card('Today', summary.today) + card('This month', summary.month) + card('All time', summary.allTime) +
+      '</div>';
+
+    html += '<p class="settings-section-title">By model — this month</p>';
+    html += summary.byModel.length
+      ? table('Model', summary.byModel.map(m => row(m.label, m)))
+      : '<div class="usage-empty">No requests this month.</div>';
+
+    html += '<p class="settings-section-title">By mode — this month</p>';
+    html += summary.byMode.length
+      ? table('Mode', summary.byMode.map(m => row(m.mode.charAt(0).toUpperCase() + m.mode.slice(1), m)))
+      : '<div class="usage-empty">No requests this month.</div>';
+
+    html += '<p class="settings-section-title">Most expensive sessions</p>';
+    html += summary.topSessions.length
+      ? '<table class="usage-table"><tr><th>Session</th><th>Workspace</th><th class="num">Tokens</th><th class="num">Cost</th></tr>' +
+          summary.topSessions.map(s =>
+            '<tr><td class="usage-session-title" title="' + escapeHtml(s.title) + '">' + escapeHtml(s.title) + '</td>' +
+              '<td>' + escapeHtml(s.workspace) + '</td>' +
+              '<td class="num">' + fmtTokens(s.inputTokens + s.outputTokens) + '</td>' +
+              '<td class="num">' + fmtCost(s.costUsd) + '</td></tr>'
+          ).join('') + '</table>'
+      : '<div class="usage-empty">No chat sessions recorded yet.</div>';
+
+    usageContent.innerHTML = html;
+  }
+
   renderSessions();
 
-  function add(title, text, cls) {
+  function add(title, text, cls, reasoning) {
     const div = document.createElement('div');
     div.className = 'msg ' + cls;
 
@@ -4396,11 +5018,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     div.appendChild(header);
+    if (reasoning) div.appendChild(thinkingSection(reasoning));
     div.appendChild(bubble);
     chat.appendChild(div);
     chat.scrollTop = chat.scrollHeight;
   }
 
+  /** Collapsed "Thinking" section holding a reasoning model's thoughts as plain text. */
+  function thinkingSection(reasoning) {
+    const details = document.createElement('details');
+    details.className = 'thinking';
+    const summary = document.createElement('summary');
+    const words = reasoning.trim().split(/\\s+/).length;
+    summary.textContent = '💭 Thinking (' + words + ' word' + (words === 1 ? '' : 's') + ')';
+    const body = document.createElement('div');
+    body.className = 'thinking-body';
+    body.textContent = reasoning;
+    details.appendChild(summary);
+    details.appendChild(body);
+    return details;
+  }
+
   /** Lightweight inline markdown → HTML renderer (no external library needed) */
   function renderMarkdown(raw) {
     if (!raw) return '';
@@ -4731,8 +5369,135 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     chat.scrollTop = chat.scrollHeight;
   }
 
+  // Which models each message goes to while comparing
+  function renderCompareBar(models) {
+    const bar = document.getElementById('compareBar');
+    if (!bar) return;
+    bar.innerHTML = '';
+    bar.className = models.length > 1 ? 'compare-bar active' : 'compare-bar';
+    if (models.length < 2) return;
+    const label = document.createElement('span');
+    label.innerHTML = '\u2696\uFE0F Comparing ' + models.map(m => '<strong>' + escapeHtml(m.label) + '</strong>').join(' \u00b7 ');
+    const stopBtn = document.createElement('button');
+    stopBtn.textContent = 'Stop comparing';
+    stopBtn.onclick = () => vscode.postMessage({ type: 'clearCompare' });
+    bar.appendChild(label);
+    bar.appendChild(stopBtn);
+  }
+
+  function formatLatency(ms) {
+    return ms < 1000 ? ms + ' ms' : (ms / 1000).toFixed(1) + 's';
+  }
+
+  // Side-by-side answers from several models, each with latency, usage and (for code edits) an apply button
+  function addComparison(msg) {
+    const div = document.createElement('div');
+    div.className = 'msg assistant';
+    div.dataset.comparisonId = msg.comparisonId;
+
+    const header = document.createElement('div');
+    header.className = 'msg-header';
+    const label = document.createElement('span');
+    label.className = 'msg-label';
+    label.textContent = '\u2696\uFE0F ' + (msg.codeEdit ? 'Compared edits' + (msg.fileName ? ' to ' + msg.fileName : '') : 'Compared answers');
+    header.appendChild(label);
+
+    const grid = document.createElement('div');
+    grid.className = 'compare-grid';
+    msg.results.forEach((r, index) => {
+      const col = document.createElement('div');
+      col.className = 'compare-col' + (r.error ? ' failed' : '');
+
+      const title = document.createElement('div');
+      title.className = 'compare-col-title';
+      title.textContent = r.label;
+
+      const meta = document.createElement('div');
+      meta.className = 'compare-meta';
+      const parts = [formatLatency(r.latencyMs)];
+      if (r.usage) {
+        const approx = r.usageEstimated ? '~' : '';
+        parts.push(approx + fmtTokens(r.usage.inputTokens) + ' in \u00b7 ' + approx + fmtTokens(r.usage.outputTokens) + ' out');
+      }
+      if (r.costUsd) parts.push(fmtCost(r.costUsd));
+      meta.textContent = parts.join(' \u00b7 ');
+
+      const body = document.createElement('div');
+      body.className = 'compare-body';
+      if (r.error) {
+        body.textContent = r.error;
+      } else if (msg.codeEdit) {
+        const pre = document.createElement('pre');
+        pre.textContent = r.content;
+        body.appendChild(pre);
+      } else {
+        body.classList.add('md-content');
+        body.innerHTML = formatAssistantMessage(r.content);
+      }
+
+      col.appendChild(title);
+      col.appendChild(meta);
+      col.appendChild(body);
+
+      if (!r.error) {
+        const actions = document.createElement('div');
+        actions.className = 'plan-actions';
+        if (msg.codeEdit) {
+          const applyBtn = document.createElement('button');
+          applyBtn.className = 'plan-execute-btn compare-apply-btn';
+          applyBtn.textContent = 'Apply this one';
+          applyBtn.onclick = () => {
+            applyBtn.disabled = true;
+            vscode.postMessage({ type: 'applyComparison', comparisonId: msg.comparisonId, index });
+          };
+          actions.appendChild(applyBtn);
+        }
+        const copyBtn = document.createElement('button');
+        copyBtn.className = 'plan-copy-btn';
+        copyBtn.textContent = 'Copy';
+        copyBtn.onclick = () => {
+          vscode.postMessage({ type: 'copyCode', code: r.content });
+          copyBtn.textContent = '\u2713 Copied';
+          setTimeout(() => { copyBtn.textContent = 'Copy'; }, 1500);
+        };
+        actions.appendChild(copyBtn);
+        col.appendChild(actions);
+      }
+      grid.appendChild(col);
+    });
+
+    div.appendChild(header);
+    div.appendChild(grid);
+    chat.appendChild(div);
+    chat.scrollTop = chat.scrollHeight;
+  }
+
+  // Once one edit is applied the others no longer fit the file
+  function markComparisonApplied(comparisonId, index) {
+    const div = chat.querySelector('[data-comparison-id="' + comparisonId + '"]');
+    if (!div) return;
+    div.querySelectorAll('.compare-col').forEach((col, i) => {
+      const applyBtn = col.querySelector('.compare-apply-btn');
+      if (i === index) {
+        col.classList.add('applied');
+        if (applyBtn) applyBtn.textContent = '\u2713 Applied';
+      } else if (applyBtn) {
+        applyBtn.remove();
+      }
+    });
+  }
+
+  // The edit was refused (stale file, failed edit): let the user try again
+  function enableComparisonApply(comparisonId, index) {
+    const div = chat.querySelector('[data-comparison-id="' + comparisonId + '"]');
+    if (!div) return;
+    const col = div.querySelectorAll('.compare-col')[index];
+    const applyBtn = col && col.querySelector('.compare-apply-btn');
+    if (applyBtn) applyBtn.disabled = false;
+  }
+
   // Handle plan message with execute button
-  function addPlan(text, originalRequest) {
+  function addPlan(text, originalRequest, reasoning) {
     const div = document.createElement('div');
     div.className = 'msg assistant';
 
@@ -4772,6 +5537,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     actions.appendChild(copyBtn);
 
     div.appendChild(header);
+    if (reasoning) div.appendChild(thinkingSection(reasoning));
     div.appendChild(bubble);
     div.appendChild(actions);
     chat.appendChild(div);
@@ -0,0 +1,420 @@
+/**
+ * Lexical scanning of generated code, used to tell a reply that was cut
+ * off from one that is complete, and to split text into tokens so a
+ * continuation can be joined on a token boundary. This is a lexer, not a
+ * parser: it tracks strings, comments, template literals, regex literals,
+ * brackets, JSX and HTML elements, and Python blocks — enough to ignore a
+ * `{` inside a string or an apostrophe in JSX text.
+ */
+
+/** The lexical rules a language is scanned with. */
+export type ScanFamily = 'js' | 'ts' | 'jsx' | 'html' | 'css' | 'json' | 'python' | 'files' | 'text';
+
+/** Why a piece of code looks cut off. */
+export interface TruncationReport {
+  truncated: boolean;
+  reason?: string;
+}
+
+/** One lexical token with its position in the scanned text. */
+export interface LexToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Map a VS Code language ID or a free-form target ("React (TSX)",
+ * "HTML/CSS/JavaScript") to the rules it is scanned with.
+ */
+export function scanFamilyFor(language: string): ScanFamily {
+  const lang = language.toLowerCase();
+  if (lang === 'files' || lang === 'multifile') { return 'files'; }
+  if (/json/.test(lang)) { return 'json'; }
+  if (/html|htm\b|vue|svelte|xml/.test(lang)) { return 'html'; }
+  if (/react|jsx|tsx|next\.?js/.test(lang)) { return 'jsx'; }
+  if (/typescript|^ts$/.test(lang)) { return 'ts'; }
+  if (/javascript|^js$|node/.test(lang)) { return 'js'; }
+  if (/^(s?css|less|sass|stylus)$|tailwind/.test(lang)) { return 'css'; }
+  if (/python|^py$/.test(lang)) { return 'python'; }
+  return 'text';
+}
+
+const ok: TruncationReport = { truncated: false };
+const cut = (reason: string): TruncationReport => ({ truncated: true, reason });
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// ───────────────────────── JavaScript / TypeScript / JSX ─────────────────────────
+
+/** Keywords after which `/` starts a regex and `<` may start JSX. */
+const EXPRESSION_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+/** Operators that cannot end a statement, so code ending with one was cut mid-expression. */
+const DANGLING_OPERATORS = new Set(['=', '=>', ',', '.', '&&', '||', '??', '?', '+', '-', '*', '**', '%', '|', '&', '^', '+=', '-=', '*=', '/=', '%=', '&&=', '||=', '??=', '===', '!==', '==', '!=']);
+
+type JsFrame =
+  | { kind: '(' | '[' | '{' }
+  | { kind: 'template' }
+  | { kind: 'jsxOpen'; tag: string }
+  | { kind: 'jsxBody'; tag: string };
+
+/** Whether the previous token leaves us where an expression (regex, JSX) can start. */
+function expressionAllowed(prev: string | undefined): boolean {
+  if (prev === undefined) { return true; }
+  if (/^[\w$]/.test(prev)) { return EXPRESSION_KEYWORDS.has(prev); }
+  return !/^[)\]}]$/.test(prev);
+}
+
+function scanJs(code: string, jsx: boolean): TruncationReport {
+  const stack: JsFrame[] = [];
+  let prev: string | undefined;
+  let i = 0;
+  const n = code.length;
+  const top = () => stack[stack.length - 1];
+
+  while (i < n) {
+    const frame = top();
+
+    if (frame?.kind === 'template') {
+      const c = code[i];
+      if (c === '\\') { i += 2; continue; }
+      if (c === '`') { stack.pop(); prev = 'value'; i++; continue; }
+      if (c === '$' && code[i + 1] === '{') { stack.push({ kind: '{' }); prev = undefined; i += 2; continue; }
+      i++;
+      continue;
+    }
+
+    if (frame?.kind === 'jsxOpen') {
+      const c = code[i];
+      if (/\s/.test(c)) { i++; continue; }
+      if (c === '"' || c === '\'') {
+        const close = code.indexOf(c, i + 1);
+        if (close < 0) { return cut('unterminated JSX attribute'); }
+        i = close + 1;
+        continue;
+      }
+      if (c === '{') { stack.push({ kind: '{' }); prev = undefined; i++; continue; }
+      if (c === '/' && code[i + 1] === '>') { stack.pop(); prev = 'value'; i += 2; continue; }
+      if (c === '>') { stack.pop(); stack.push({ kind: 'jsxBody', tag: frame.tag }); i++; continue; }
+      i++;
+      continue;
+    }
+
+    if (frame?.kind === 'jsxBody') {
+      const c = code[i];
+      if (c === '{') { stack.push({ kind: '{' }); prev = undefined; i++; continue; }
+      if (c === '<' && code[i + 1] === '/') {
+        const close = code.indexOf('>', i);
+        if (close < 0) { return cut(`unterminated </${frame.tag}> tag`); }
+        stack.pop();
+        prev = 'value';
+        i = close + 1;
+        continue;
+      }
+      if (c === '<' && /[A-Za-z>]/.test(code[i + 1] ?? '')) {
+        i = openJsxTag(code, i, stack);
+        continue;
+      }
+      // JSX text: quotes and apostrophes are just text
+      i++;
+      continue;
+    }
+
+    // Plain code
+    const c = code[i];
+    if (/\s/.test(c)) { i++; continue; }
+    if (c === '/' && code[i + 1] === '/') {
+      const eol = code.indexOf('\n', i);
+      i = eol < 0 ? n : eol + 1;
+      continue;
+    }
+    if (c === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      if (close < 0) { return cut('unterminated block comment'); }
+      i = close + 2;
+      continue;
+    }
+    if (c === '"' || c === '\'') {
+      let j = i + 1;
+      while (j < n && code[j] !== c && code[j] !== '\n') { j += code[j] === '\\' ? 2 : 1; }
+      if (j >= n) { return cut('unterminated string'); }
+      prev = 'value';
+      i = j + 1;
+      continue;
+    }
+    if (c === '`') { stack.push({ kind: 'template' }); i++; continue; }
+    if (c === '(' || c === '[' || c === '{') { stack.push({ kind: c }); prev = c; i++; continue; }
+    if (c === ')' || c === ']' || c === '}') {
+      const open = top();
+      if (open && CLOSERS[open.kind] === c) { stack.pop(); }
+      prev = c;
+      i++;
+      continue;
+    }
+    if (c === '/' && expressionAllowed(prev)) {
+      // Regex literal: runs to the next unescaped `/` outside a character class
+      let j = i + 1;
+      let inClass = false;
+      while (j < n && code[j] !== '\n' && (inClass || code[j] !== '/')) {
+        if (code[j] === '\\') { j++; } else if (code[j] === '[') { inClass = true; } else if (code[j] === ']') { inClass = false; }
+        j++;
+      }
+      if (j >= n) { return cut('unterminated regular expression'); }
+      i = j + 1;
+      while (i < n && /[a-z]/i.test(code[i])) { i++; }
+      prev = 'value';
+      continue;
+    }
+    if (jsx && c === '<' && expressionAllowed(prev) && /[A-Za-z>]/.test(code[i + 1] ?? '')) {
+      i = openJsxTag(code, i, stack);
+      continue;
+    }
+    if (/[\w$]/.test(c)) {
+      let j = i + 1;
+      while (j < n && /[\w$]/.test(code[j])) { j++; }
+      prev = code.slice(i, j);
+      i = j;
+      continue;
+    }
+    // Operator run (`=>`, `&&`, `===`, …); `/` is handled above
+    let j = i + 1;
+    while (j < n && /[=+\-*%&|^!?:<>~.]/.test(code[j])) { j++; }
+    prev = code.slice(i, j);
+    i = j;
+  }
+
+  const open = top();
+  if (open) {
+    if (open.kind === 'template') { return cut('unterminated template literal'); }
+    if (open.kind === 'jsxOpen' || open.kind === 'jsxBody') { return cut(`unclosed <${open.tag || '>'}> element`); }
+    return cut(`unclosed '${open.kind}'`);
+  }
+  if (prev && DANGLING_OPERATORS.has(prev)) { return cut(`ends with '${prev}'`); }
+  return ok;
+}
+
+/** Push a JSX opening tag (or fragment) starting at `<`; returns the index after the tag name. */
+function openJsxTag(code: string, i: number, stack: JsFrame[]): number {
+  if (code[i + 1] === '>') {
+    stack.push({ kind: 'jsxBody', tag: '' });
+    return i + 2;
+  }
+  let j = i + 1;
+  while (j < code.length && /[\w$.:-]/.test(code[j])) { j++; }
+  stack.push({ kind: 'jsxOpen', tag: code.slice(i + 1, j) });
+  return j;
+}
+
+// ───────────────────────── CSS / JSON ─────────────────────────
+
+/** Brackets, strings and block comments — all CSS and JSON need. */
+function scanBrackets(code: string, comments: boolean): TruncationReport {
+  const stack: string[] = [];
+  let i = 0;
+  const n = code.length;
+  let last = '';
+  while (i < n) {
+    const c = code[i];
+    if (comments && c === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      if (close < 0) { return cut('unterminated comment'); }
+      i = close + 2;
+      continue;
+    }
+    if (c === '"' || (comments && c === '\'')) {
+      let j = i + 1;
+      while (j < n && code[j] !== c) { j += code[j] === '\\' ? 2 : 1; }
+      if (j >= n) { return cut('unterminated string'); }
+      i = j + 1;
+      last = 'value';
+      continue;
+    }
+    if (c in CLOSERS) { stack.push(c); } else if (stack.length && CLOSERS[stack[stack.length - 1]] === c) { stack.pop(); }
+    if (!/\s/.test(c)) { last = c; }
+    i++;
+  }
+  if (stack.length) { return cut(`unclosed '${stack[stack.length - 1]}'`); }
+  if (last === ',' || last === ':') { return cut(`ends with '${last}'`); }
+  return ok;
+}
+
+// ───────────────────────── HTML ─────────────────────────
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+/** Elements whose end tag HTML lets you leave out; an open one is not a sign of truncation. */
+const OPTIONAL_END = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'colgroup', 'rt', 'rp']);
+
+function scanHtml(code: string): TruncationReport {
+  const stack: string[] = [];
+  let sawHtml = false;
+  let i = 0;
+  const n = code.length;
+  while (i < n) {
+    const lt = code.indexOf('<', i);
+    if (lt < 0) { break; }
+    if (code.startsWith('<!--', lt)) {
+      const close = code.indexOf('-->', lt + 4);
+      if (close < 0) { return cut('unterminated comment'); }
+      i = close + 3;
+      continue;
+    }
+    const next = code[lt + 1] ?? '';
+    if (next === '!' || next === '?') {
+      const close = code.indexOf('>', lt);
+      if (close < 0) { return cut('unterminated declaration'); }
+      i = close + 1;
+      continue;
+    }
+    const closing = next === '/';
+    const nameMatch = /^[A-Za-z][\w:-]*/.exec(code.slice(lt + (closing ? 2 : 1), lt + 64));
+    if (!nameMatch) {
+      if (lt + 1 >= n) { return cut('ends with \'<\''); }
+      i = lt + 1;
+      continue;
+    }
+    const name = nameMatch[0].toLowerCase();
+
+    // Find the end of the tag, skipping quoted attribute values
+    let j = lt + (closing ? 2 : 1) + name.length;
+    let quote = '';
+    while (j < n && (quote || code[j] !== '>')) {
+      if (quote) { if (code[j] === quote) { quote = ''; } } else if (code[j] === '"' || code[j] === '\'') { quote = code[j]; }
+      j++;
+    }
+    if (j >= n) { return cut(`unterminated <${closing ? '/' : ''}${name}> tag`); }
+    const selfClosing = code[j - 1] === '/';
+    i = j + 1;
+
+    if (closing) {
+      const at = stack.lastIndexOf(name);
+      if (at >= 0) { stack.length = at; }
+      continue;
+    }
+    if (name === 'html') { sawHtml = true; }
+    if (selfClosing || VOID_ELEMENTS.has(name)) { continue; }
+    if (name === 'script' || name === 'style' || name === 'textarea' || name === 'title') {
+      // Raw text: everything up to the matching end tag
+      const close = code.toLowerCase().indexOf(`</${name}`, i);
+      if (close < 0) {
+        const body = code.slice(i);
+        const inner = name === 'script' ? scanJs(body, false) : name === 'style' ? scanBrackets(body, true) : ok;
+        return cut(`unclosed <${name}>${inner.reason ? ` (${inner.reason})` : ''}`);
+      }
+      i = close;
+      continue;
+    }
+    stack.push(name);
+  }
+
+  const required = stack.filter(tag => !OPTIONAL_END.has(tag));
+  if (required.length) { return cut(`unclosed <${required[required.length - 1]}> element`); }
+  // A full document is always closed; stopping before </html> means it was cut
+  if (sawHtml && !/<\/html\s*>/i.test(code)) { return cut('missing </html>'); }
+  return ok;
+}
+
+// ───────────────────────── Python ─────────────────────────
+
+function scanPython(code: string): TruncationReport {
+  const stack: string[] = [];
+  let i = 0;
+  const n = code.length;
+  let lastSignificant = '';
+  let lineContinues = false;
+  while (i < n) {
+    const c = code[i];
+    if (c === '#') {
+      const eol = code.indexOf('\n', i);
+      i = eol < 0 ? n : eol;
+      continue;
+    }
+    if (c === '"' || c === '\'') {
+      const triple = code.startsWith(c.repeat(3), i);
+      if (triple) {
+        const close = code.indexOf(c.repeat(3), i + 3);
+        if (close < 0) { return cut('unterminated triple-quoted string'); }
+        i = close + 3;
+      } else {
+        let j = i + 1;
+        while (j < n && code[j] !== c && code[j] !== '\n') { j += code[j] === '\\' ? 2 : 1; }
+        if (j >= n) { return cut('unterminated string'); }
+        i = j + 1;
+      }
+      lastSignificant = 'value';
+      lineContinues = false;
+      continue;
+    }
+    if (c in CLOSERS) { stack.push(c); } else if (stack.length && CLOSERS[stack[stack.length - 1]] === c) { stack.pop(); }
+    if (c === '\\' && code[i + 1] === '\n') { lineContinues = true; } else if (!/\s/.test(c)) { lineContinues = false; }
+    if (!/\s/.test(c)) { lastSignificant = c; }
+    i++;
+  }
+  if (stack.length) { return cut(`unclosed '${stack[stack.length - 1]}'`); }
+  if (lineContinues || /\\\s*$/.test(code)) { return cut('ends with a line continuation'); }
+  // A block header with no body (`def f():`) or a dangling operator
+  if (lastSignificant === ':') { return cut('block header without a body'); }
+  if (/^[=+\-/%,&|^<>]$/.test(lastSignificant)) { return cut(`ends with '${lastSignificant}'`); }
+  return ok;
+}
+
+// ───────────────────────── Multi-file output ─────────────────────────
+
+/** Opens a block of multi-file output: `===FILE: path===`, `===NEW_FILE: path===` or `===MODIFY_FILE: path===`. */
+export const FILE_BLOCK_START = /===(?:NEW_|MODIFY_)?FILE:\s*(.+?)\s*===/;
+
+/** File blocks: the last one must be closed, and its content must look complete. */
+function scanFiles(text: string): TruncationReport {
+  const opens = [...text.matchAll(new RegExp(FILE_BLOCK_START, 'g'))];
+  if (opens.length === 0) { return ok; }
+  const last = opens[opens.length - 1];
+  const rest = text.slice((last.index ?? 0) + last[0].length);
+  if (/===END_FILE===/.test(rest)) { return ok; }
+  const extension = last[1].split('.').pop() ?? '';
+  const inner = looksTruncated(rest, extension);
+  return cut(`file ${last[1]} has no ===END_FILE===${inner.reason ? ` (${inner.reason})` : ''}`);
+}
+
+/** File extensions to the language the scanner understands. */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'typescript', mts: 'typescript',
+  jsx: 'javascriptreact', tsx: 'typescriptreact', htm: 'html', vue: 'vue', svelte: 'svelte',
+  py: 'python', scss: 'scss', less: 'less',
+};
+
+/**
+ * Whether `code` looks cut off mid-way: an unterminated string, comment or
+ * template, an unclosed bracket, JSX element or HTML tag, a Python block
+ * header with no body, or a trailing operator. Unknown languages never do.
+ */
+export function looksTruncated(code: string, language: string): TruncationReport {
+  const text = code.trimEnd();
+  if (!text.trim()) { return ok; }
+  switch (scanFamilyFor(EXTENSION_LANGUAGES[language.toLowerCase()] ?? language)) {
+    case 'js':     return scanJs(text, true);
+    case 'jsx':    return scanJs(text, true);
+    case 'ts':     return scanJs(text, false);
+    case 'html':   return scanHtml(text);
+    case 'css':    return scanBrackets(text, true);
+    case 'json':   return scanBrackets(text, false);
+    case 'python': return scanPython(text);
+    case 'files':  return scanFiles(text);
+    default:       return ok;
+  }
+}
+
+/**
+ * Split text into tokens for stitching: words, numbers, quoted strings
+ * (a string still open at the end is one token), and single punctuation
+ * characters. Whitespace separates tokens and is never one itself.
+ */
+export function lexTokens(text: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  const re = /[\w$]+|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\.)*`?|\S/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    tokens.push({ text: m[0], start: m.index, end: m.index + m[0].length });
+  }
+  return tokens;
+}
@@ -0,0 +1,169 @@
+import type { GroqMessage } from './groqClient';
+import { FILE_BLOCK_START, LexToken, lexTokens, looksTruncated } from './codeScanner';
+import { traceLog } from './traceLog';
+
+/** One model reply in a continuation run. */
+export interface ContinuationPiece {
+  content: string;
+  finishReason?: string;
+}
+
+/** `files` output uses ===FILE: path=== (or NEW_FILE / MODIFY_FILE) / ===END_FILE=== blocks; `code` is a single file. */
+export type ContinuationFormat = 'code' | 'files';
+
+/** A generation that may take several requests to finish. */
+export interface ContinuationRun {
+  /** Language the output is scanned as, to tell truncated output from complete output. */
+  language: string;
+  /** Extra requests allowed after the first. */
+  maxContinuations: number;
+  signal?: AbortSignal;
+  /** Names the run in the log ("Code generation", "Vision", …). */
+  label: string;
+  /** Send one request: the original when `attempt` is 0, else a continuation of `assembled`. */
+  request(attempt: number, assembled: string): Promise<ContinuationPiece>;
+}
+
+/** How much earlier output is replayed as the assistant turn of a continuation. */
+const ASSISTANT_CONTEXT_CHARS = 6000;
+/** How much of the output's end is quoted in the "continue" prompt. */
+const PROMPT_TAIL_CHARS = 1500;
+/** How far back (and forward) stitching looks for text the model repeated. */
+const STITCH_WINDOW_CHARS = 4000;
+const MAX_OVERLAP_TOKENS = 400;
+/** Shorter overlaps are too likely to be a coincidence (`}` followed by `}`). */
+const MIN_OVERLAP_TOKENS = 2;
+const MIN_OVERLAP_CHARS = 8;
+
+/** Why output needs another request, or undefined when it is complete. */
+export function truncationReason(finishReason: string | undefined, text: string, language: string): string | undefined {
+  if (finishReason === 'length') { return 'hit the token limit'; }
+  // Output split into ===FILE=== blocks is scanned block by block, whatever the run's language
+  const report = looksTruncated(text, FILE_BLOCK_START.test(text) ? 'files' : language);
+  return report.truncated ? report.reason ?? 'output looks cut off' : undefined;
+}
+
+/** The last `chars` characters of `text`, starting at a line boundary when one is near. */
+function tailOf(text: string, chars: number): string {
+  if (text.length <= chars) { return text; }
+  const tail = text.slice(-chars);
+  const newline = tail.indexOf('\n');
+  return newline >= 0 && newline < 200 ? tail.slice(newline + 1) : tail;
+}
+
+/** The block openers `text` already uses (`===NEW_FILE: path===`, …), so a continuation keeps to them. */
+function fileMarkersIn(text: string): string {
+  const kinds = new Set([...text.matchAll(/===((?:NEW_|MODIFY_)?FILE):/g)].map(m => m[1]));
+  const markers = [...(kinds.size > 0 ? kinds : ['FILE'])].map(kind => `===${kind}: path===`);
+  return markers.join(' / ');
+}
+
+/**
+ * The messages for a continuation request: the original conversation, the
+ * end of the output so far as the assistant's turn, and an instruction to
+ * pick up exactly where it stopped.
+ */
+export function continuationMessages(baseMessages: GroqMessage[], assembled: string, format: ContinuationFormat): GroqMessage[] {
+  const rules = format === 'files'
+    ? [
+        'Continue generating the remaining files. Pick up EXACTLY where you left off.',
+        'Rules:',
+        '- Do NOT repeat any content already generated.',
+        `- Continue using the same ${fileMarkersIn(assembled)} and ===END_FILE=== format.`,
+        '- If you were in the middle of a file, continue that file first.',
+        '- Do NOT add any explanatory text.',
+      ]
+    : [
+        'Continue the code output.',
+        'Rules:',
+        '- Output ONLY code.',
+        '- Do NOT use markdown or code fences.',
+        '- Do NOT repeat anything already output.',
+        '- Continue exactly after the last character.',
+      ];
+  return [
+    ...baseMessages,
+    { role: 'assistant', content: tailOf(assembled, ASSISTANT_CONTEXT_CHARS) },
+    { role: 'user', content: `${rules.join('\n')}\n\nThe output so far ends with:\n${tailOf(assembled, PROMPT_TAIL_CHARS)}` },
+  ];
+}
+
+/**
+ * Where the repeated part of `head` ends, when `tail`'s last tokens are
+ * `head`'s first ones. The final tail token may also be a prefix of its
+ * counterpart — the model restarting a word it was cut off in.
+ */
+function findOverlap(tail: LexToken[], head: LexToken[], tailEndsText: boolean): { tailCut: number; headCut: number } | undefined {
+  const longest = Math.min(tail.length, head.length, MAX_OVERLAP_TOKENS);
+  for (let k = longest; k >= MIN_OVERLAP_TOKENS; k--) {
+    const offset = tail.length - k;
+    let matches = true;
+    for (let i = 0; i < k - 1 && matches; i++) {
+      matches = tail[offset + i].text === head[i].text;
+    }
+    if (!matches) { continue; }
+    const last = tail[tail.length - 1];
+    const counterpart = head[k - 1];
+    if (counterpart.end - head[0].start < MIN_OVERLAP_CHARS) { continue; }
+    if (last.text === counterpart.text) { return { tailCut: last.end, headCut: counterpart.end }; }
+    if (tailEndsText && counterpart.text.startsWith(last.text)) { return { tailCut: last.start, headCut: counterpart.start }; }
+  }
+  return undefined;
+}
+
+/**
+ * Join a continuation onto the output so far. Text the model repeated from
+ * the end of the previous piece is dropped on a token boundary, so a
+ * restated line (or a restarted identifier) is not duplicated and a lone
+ * matching `}` is never mistaken for a repeat.
+ */
+export function stitchContinuation(current: string, addition: string): string {
+  if (!current.trim()) { return addition; }
+  if (!addition.trim()) { return current; }
+
+  // Skip the first token of the window: the slice may have cut it in half
+  const windowStart = Math.max(0, current.length - STITCH_WINDOW_CHARS);
+  const tail = lexTokens(current.slice(windowStart)).slice(windowStart > 0 ? 1 : 0);
+  const head = lexTokens(addition.slice(0, STITCH_WINDOW_CHARS));
+  const tailEndsText = !/\s$/.test(current);
+  const overlap = findOverlap(tail, head, tailEndsText);
+  if (overlap) {
+    return current.slice(0, windowStart + overlap.tailCut) + addition.slice(overlap.headCut);
+  }
+
+  // No repeat: keep the join as the model wrote it, but do not glue two statements onto one line
+  if (!tailEndsText || /^\s/.test(addition)) { return current + addition; }
+  if (/[;{}>]$/.test(current) && !/^[)\]};,.]/.test(addition)) { return `${current}\n${addition}`; }
+  return current + addition;
+}
+
+/**
+ * Run a generation to completion: after each reply, continue while the
+ * provider reports a token-limit stop or the language scanner finds the
+ * output cut off. A failed first request throws; a failed continuation
+ * keeps the output so far, unless the run was cancelled.
+ */
+export async function runWithContinuation(run: ContinuationRun): Promise<string> {
+  let assembled = '';
+  for (let attempt = 0; attempt <= run.maxContinuations; attempt++) {
+    let piece: ContinuationPiece;
+    try {
+      piece = await run.request(attempt, assembled);
+    } catch (error: any) {
+      if (attempt === 0 || run.signal?.aborted) { throw error; }
+      traceLog.output.warn(`${run.label}: continuation ${attempt} failed, keeping the output so far (${error?.message ?? error})`);
+      break;
+    }
+
+    const next = stitchContinuation(assembled, piece.content);
+    if (attempt > 0 && next.trim() === assembled.trim()) { break; }
+    assembled = next;
+
+    const reason = truncationReason(piece.finishReason, assembled, run.language);
+    if (!reason) { break; }
+    if (attempt < run.maxContinuations) {
+      traceLog.output.info(`${run.label}: output ${reason} — continuation ${attempt + 1}/${run.maxContinuations} (${assembled.length} chars so far)`);
+    }
+  }
+  return assembled;
+}
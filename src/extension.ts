@@ -1,11 +1,17 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GroqClient } from './groqClient';
+import { GroqClient, toAbortSignal } from './groqClient';
 import { InstructionDetector, InstructionMatch } from './instructionDetector';
 import { PromptBuilder } from './promptBuilder';
 import { ChatViewProvider } from './chatViewProvider';
 import { GoogleAuthProvider } from './authProvider';
 import { createWorkspaceFile, buildProjectTree, gatherProjectContext } from './workspaceHelper';
+import { responseCache } from './responseCache';
+import { usageTracker } from './usageTracker';
+import { ModelHealth, modelHealth } from './modelHealth';
+import { modelCatalog } from './modelCatalog';
+import { traceLog } from './traceLog';
+import { ApiKeyStore, apiKeyStore } from './apiKeyStore';
 
 let groqClient: GroqClient;
 let instructionDetector: InstructionDetector;
@@ -17,6 +23,9 @@ export function activate(context: vscode.ExtensionContext) {
   console.log('Prompt2Code is now active');
 
   // Initialize services
+  modelCatalog.attach(context.globalState);
+  responseCache.setStorageDir(context.globalStorageUri.fsPath);
+  usageTracker.attach(context.globalState);
   groqClient = new GroqClient();
   instructionDetector = new InstructionDetector();
   promptBuilder = new PromptBuilder();
@@ -70,6 +79,34 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Re-merge user-declared, custom endpoint and Azure models when their settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration('prompt2code.customEndpoint') || e.affectsConfiguration('prompt2code.azure')
+        || e.affectsConfiguration('prompt2code.models')
+        || e.affectsConfiguration('prompt2code.fakeProvider.enabled')) {
+        modelCatalog.reload();
+      }
+      // A key pasted into settings.json is moved to secret storage straight away
+      if (ApiKeyStore.affectsLegacySettings(e)) {
+        void apiKeyStore.migrateFromSettings(true);
+      }
+    }),
+    modelCatalog.onDidChange(() => chatViewProvider.refreshModelList()),
+    apiKeyStore.onDidChange(() => chatViewProvider.refreshModelList())
+  );
+
+  // Load keys from secret storage (migrating any left in settings), then
+  // pick up new and retired models once a day
+  const catalogMaxAgeMs = 24 * 60 * 60 * 1000;
+  void apiKeyStore.attach(context.secrets).then(subscription => {
+    context.subscriptions.push(subscription);
+    if (vscode.workspace.getConfiguration('prompt2code').get<boolean>('refreshModelCatalog', true)
+      && Date.now() - modelCatalog.lastRefreshed() > catalogMaxAgeMs) {
+      void modelCatalog.refresh(provider => groqClient.getApiKeyForProvider(provider));
+    }
+  }, (error: any) => console.error(`❌ API keys: could not load from secret storage (${error.message})`));
+
   // Register commands
   registerCommands(context);
 
@@ -120,9 +157,13 @@ function registerCommands(context: vscode.ExtensionContext) {
         {
           location: vscode.ProgressLocation.Notification,
           title: '$(loading~spin) Prompt2Code: Generating code…',
-          cancellable: false
+          cancellable: true
         },
-        async (progress) => {
+        async (progress, token) => {
+          const signal = toAbortSignal(token);
+          // Snapshot so a cancelled run can put the instruction comment back
+          const originalText = document.getText();
+          let editBusy = false;
           try {
             // Get surrounding context + auto-scanned project files
             const localCtx = promptBuilder.buildContext(document, position);
@@ -130,7 +171,9 @@ function registerCommands(context: vscode.ExtensionContext) {
             const projectCtx = await gatherProjectContext({
               languageId: document.languageId,
               currentFilePath: document.uri.fsPath,
-              maxChars: Math.min(groqClient.getContextCharBudget(), 30_000),
+              maxTokens: Math.min(groqClient.getContextTokenBudget(), 8_500),
+              countTokens: (text) => groqClient.countTokens(text),
+              truncateToTokens: (text, maxTokens) => groqClient.truncateToTokens(text, maxTokens),
               maxFiles: 8,
             });
 
@@ -146,7 +189,6 @@ function registerCommands(context: vscode.ExtensionContext) {
             // Serialised editor updates — only one edit in-flight at a time
             let pendingText: string | null = null;
             let lastLength = 0;
-            let editBusy = false;
 
             const applyPending = async () => {
               if (editBusy || pendingText === null) { return; }
@@ -177,7 +219,9 @@ function registerCommands(context: vscode.ExtensionContext) {
                 pendingText = accumulated;
                 applyPending();
               },
-              ctx
+              ctx,
+              undefined,
+              signal
             );
 
             // Wait for any in-flight edit before final write
@@ -202,6 +246,16 @@ function registerCommands(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage('Prompt2Code: Code generated ✅');
 
           } catch (error) {
+            if (GroqClient.isCancellation(error)) {
+              while (editBusy) { await new Promise(r => setTimeout(r, 80)); }
+              const r = new vscode.Range(
+                document.positionAt(0),
+                document.positionAt(document.getText().length)
+              );
+              await editor.edit(eb => { eb.replace(r, originalText); });
+              vscode.window.showInformationMessage('Prompt2Code: Generation cancelled');
+              return;
+            }
             console.error('Error generating code:', error);
             vscode.window.showErrorMessage('Failed to generate code. Please check your API key and try again.');
           } finally {
@@ -248,8 +302,8 @@ function registerCommands(context: vscode.ExtensionContext) {
     if (!instruction) { return; }
 
     await vscode.window.withProgress(
-      { location: vscode.ProgressLocation.Notification, title: `Creating ${fileName}...`, cancellable: false },
-      async () => {
+      { location: vscode.ProgressLocation.Notification, title: `Creating ${fileName}...`, cancellable: true },
+      async (_progress, token) => {
         try {
           const ext = path.extname(fileName).slice(1) || 'txt';
           const langMap: Record<string, string> = {
@@ -262,15 +316,18 @@ function registerCommands(context: vscode.ExtensionContext) {
           // Gather project context so AI can match existing code patterns
           const projectCtx = await gatherProjectContext({
             languageId: language,
-            maxChars: Math.min(groqClient.getContextCharBudget(), 30_000),
+            maxTokens: Math.min(groqClient.getContextTokenBudget(), 8_500),
+            countTokens: (text) => groqClient.countTokens(text),
+            truncateToTokens: (text, maxTokens) => groqClient.truncateToTokens(text, maxTokens),
             maxFiles: 8,
           });
           const context = projectCtx.text || `Project files:\n${await buildProjectTree()}`;
 
-          const code = await groqClient.generateCode(instruction, language, context);
+          const code = await groqClient.generateCode(instruction, language, context, toAbortSignal(token));
           await createWorkspaceFile(fileName, code);
           vscode.window.showInformationMessage(`Created ${fileName}`);
         } catch (err: unknown) {
+          if (GroqClient.isCancellation(err)) { return; }
           const errorMsg = (err instanceof Error) ? err.message : String(err);
           vscode.window.showErrorMessage(`Failed to create file: ${errorMsg}`);
         }
@@ -278,7 +335,124 @@ function registerCommands(context: vscode.ExtensionContext) {
     );
   });
 
-  context.subscriptions.push(generateCodeCommand, enableInlineCommand, disableInlineCommand, openChatCommand, createFileCommand);
+  const clearCacheCommand = vscode.commands.registerCommand('prompt2code.clearCache', async () => {
+    try {
+      await responseCache.clear();
+      vscode.window.showInformationMessage('Prompt2Code cache cleared');
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to clear Prompt2Code cache: ${error.message}`);
+    }
+  });
+
+  const modelHealthCommand = vscode.commands.registerCommand('prompt2code.modelHealth', async () => {
+    const tracked = new Set(modelHealth.all().map(h => h.model));
+    const models = GroqClient.AVAILABLE_MODELS.filter(m =>
+      m.id !== GroqClient.AUTO_MODEL_ID && (tracked.has(m.id) || groqClient.hasApiKeyForModel(m.id))
+    );
+    if (models.length === 0) {
+      vscode.window.showInformationMessage('Prompt2Code: no models are configured yet.');
+      return;
+    }
+
+    type HealthItem = vscode.QuickPickItem & { model?: string };
+    const items: HealthItem[] = [
+      { label: '$(debug-restart) Reset all models', description: `${tracked.size} with recorded failures` },
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      ...models.map(m => ({ model: m.id, ...describeModelHealth(m.label, modelHealth.get(m.id)) })),
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      title: 'Prompt2Code: Model Health',
+      placeHolder: 'Select a model to reset its health, or reset all',
+      matchOnDescription: true,
+    });
+    if (!picked) { return; }
+    modelHealth.reset(picked.model);
+    const resetLabel = picked.model ? models.find(m => m.id === picked.model)?.label : 'all models';
+    vscode.window.showInformationMessage(`Prompt2Code: reset health for ${resetLabel}`);
+  });
+
+  const refreshModelsCommand = vscode.commands.registerCommand('prompt2code.refreshModels', async () => {
+    const results = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Prompt2Code: Refreshing model catalog…' },
+      () => modelCatalog.refresh(provider => groqClient.getApiKeyForProvider(provider))
+    );
+    if (results.length === 0) {
+      vscode.window.showWarningMessage('Prompt2Code: no provider has an API key to list models with.');
+      return;
+    }
+    const summary = results.map(r => r.error ? `${r.provider}: failed (${r.error})` : `${r.provider}: ${r.count} models`).join(', ');
+    if (results.some(r => r.error)) {
+      vscode.window.showWarningMessage(`Prompt2Code model catalog — ${summary}`);
+    } else {
+      vscode.window.showInformationMessage(`Prompt2Code model catalog — ${summary}`);
+    }
+  });
+
+  const showLastTraceCommand = vscode.commands.registerCommand('prompt2code.showLastTrace', async () => {
+    const entries = traceLog.lastTurn();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('Prompt2Code: no chat turn has been traced yet.');
+      return;
+    }
+    const doc = await vscode.workspace.openTextDocument({ language: 'json', content: JSON.stringify(entries, null, 2) });
+    await vscode.window.showTextDocument(doc, { preview: false });
+  });
+
+  const exportTracesCommand = vscode.commands.registerCommand('prompt2code.exportTraces', async () => {
+    const sessions = traceLog.sessions();
+    type SessionItem = vscode.QuickPickItem & { sessionId?: string };
+    const items: SessionItem[] = [
+      ...sessions.map(s => ({ label: s.title, description: `${s.calls} call(s)`, detail: `Last call ${new Date(s.lastAt).toLocaleString()}`, sessionId: s.id })),
+      { label: '$(list-flat) All traced calls', description: 'includes editor commands and inline completions' },
+    ];
+    const picked = await vscode.window.showQuickPick(items, { title: 'Prompt2Code: Export Traces', placeHolder: 'Select the chat session to export' });
+    if (!picked) { return; }
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: folder ? vscode.Uri.joinPath(folder, 'prompt2code-trace.jsonl') : undefined,
+      filters: { 'JSON Lines': ['jsonl'] },
+      saveLabel: 'Export Traces',
+    });
+    if (!target) { return; }
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(traceLog.toJsonl(picked.sessionId), 'utf8'));
+      vscode.window.showInformationMessage(`Traces exported to ${path.basename(target.fsPath)}`);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to export traces: ${error.message}`);
+    }
+  });
+
+  const showLogCommand = vscode.commands.registerCommand('prompt2code.showLog', () => traceLog.output.show(true));
+
+  context.subscriptions.push(generateCodeCommand, enableInlineCommand, disableInlineCommand, openChatCommand, createFileCommand, clearCacheCommand, modelHealthCommand, refreshModelsCommand,
+    showLastTraceCommand, exportTracesCommand, showLogCommand);
+}
+
+/** Quick-pick row for one model's circuit breaker. */
+function describeModelHealth(label: string, health: ModelHealth): vscode.QuickPickItem {
+  const ago = (t?: number) => t ? `${Math.max(Math.round((Date.now() - t) / 60_000), 0)}m ago` : '';
+  switch (health.state) {
+    case 'open': {
+      const wait = Math.max(Math.ceil(((health.retryAt ?? 0) - Date.now()) / 1000), 0);
+      return {
+        label: `$(error) ${label}`,
+        description: `tripped (${health.lastErrorClass}) — retry in ${wait >= 60 ? `${Math.ceil(wait / 60)}m` : `${wait}s`}`,
+        detail: `${health.consecutiveFailures} failure(s) in a row, last ${ago(health.lastFailureAt)}: ${health.lastError ?? ''}`,
+      };
+    }
+    case 'halfOpen':
+      return {
+        label: `$(warning) ${label}`,
+        description: `cooling down over — next request is a probe (${health.lastErrorClass})`,
+        detail: `${health.consecutiveFailures} failure(s) in a row, last ${ago(health.lastFailureAt)}: ${health.lastError ?? ''}`,
+      };
+    default:
+      return {
+        label: `$(pass) ${label}`,
+        description: health.consecutiveFailures > 0 ? `healthy — ${health.consecutiveFailures} recent failure(s)` : 'healthy',
+        detail: health.lastError && health.consecutiveFailures > 0 ? `Last error ${ago(health.lastFailureAt)}: ${health.lastError}` : undefined,
+      };
+  }
 }
 
 function registerInlineCompletionProvider(context: vscode.ExtensionContext) {
@@ -298,7 +472,7 @@ function registerInlineCompletionProvider(context: vscode.ExtensionContext) {
       document: vscode.TextDocument,
       position: vscode.Position,
       _context: vscode.InlineCompletionContext,
-      _token: vscode.CancellationToken
+      token: vscode.CancellationToken
     ): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList | null> {
       
       // Check if inline completions are enabled
@@ -337,7 +511,8 @@ function registerInlineCompletionProvider(context: vscode.ExtensionContext) {
         const completion = await groqClient.inlineComplete(
           prefix,
           suffix,
-          document.languageId
+          document.languageId,
+          toAbortSignal(token)
         );
 
         if (!completion || completion.trim().length === 0) {
@@ -353,6 +528,7 @@ function registerInlineCompletionProvider(context: vscode.ExtensionContext) {
         return [item];
 
       } catch (error) {
+        if (GroqClient.isCancellation(error)) { return null; }
         console.error('Error in inline completion:', error);
         return null;
       }
@@ -414,4 +590,6 @@ context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event
 
 export function deactivate() {
   console.log('Prompt2Code deactivated');
+  // Usage is saved on a short delay; do not lose the last few requests
+  return usageTracker.flush();
 }
@@ -1,11 +1,84 @@
 import axios from 'axios';
 import * as vscode from 'vscode';
-import * as https from 'https';
 import * as http from 'http';
+import { agentFor, httpClient } from './httpTransport';
+import { trafficRecorder } from './trafficRecorder';
+import { getProviderAdapter } from './providers/registry';
+import { ProviderAdapter, ProviderCompletion, ProviderFailure, ProviderStreamEvent, ProviderToolCallDelta, ProviderUsage } from './providers/types';
+import { isOpenRouterKey } from './providers/openrouter';
+import { countTokens, truncateToTokens, tokenizerFamilyForModel } from './tokenizer';
+import { ResponseCache, responseCache } from './responseCache';
+import { UsageMode, usageTracker } from './usageTracker';
+import { modelHealth } from './modelHealth';
+import { TraceEntry, TraceHandle, traceLog } from './traceLog';
+import { JsonSchema, extractJson, validateJson } from './jsonSchema';
+import { apiKeyStore } from './apiKeyStore';
+import { CatalogModel, modelCatalog } from './modelCatalog';
+import { BudgetExceededError, evaluateBudget, getBudgetConfig, warnBudgetOnce } from './budgets';
+import { continuationMessages, runWithContinuation, stitchContinuation } from './continuation';
+import { RateLimitWaitListener, RateLimiter, rateLimiter } from './rateLimiter';
+import { SseDecoder, SseEvent, decodeStreamEvent } from './sseDecoder';
+import { ThinkTagFilter, getReasoningSettings, splitThinkTags } from './reasoning';
 
 export interface GroqMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string | GroqContentPart[];
+  /** Tools the assistant asked to call in this turn (`assistant` only). */
+  tool_calls?: GroqToolCall[];
+  /** The call a `tool` message answers. */
+  tool_call_id?: string;
+  /** Function name of a `tool` result — Gemini matches results by name, not ID. */
+  name?: string;
+  /**
+   * Ends a prefix that repeats across requests (system prompt, project
+   * context, earlier turns). Providers with prompt caching cache the
+   * conversation up to and including this message.
+   */
+  cache?: boolean;
+}
+
+/** A function the model may call; `parameters` is a JSON Schema object. */
+export interface GroqTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+}
+
+/** One call the model made; `arguments` is the JSON-encoded argument object. */
+export interface GroqToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/** Whether the model may, must, or must not call tools — or must call one in particular. */
+export type GroqToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+/** A completion that may end in tool calls instead of (or as well as) text. */
+export interface GroqToolResponse {
+  content: string;
+  toolCalls: GroqToolCall[];
+  finishReason?: string;
+  usage?: ProviderUsage;
+  /** The model's thinking, kept apart from `content`. */
+  reasoning?: string;
+}
+
+/** One model's answer in a side-by-side comparison. */
+export interface ModelComparisonResult {
+  model: string;
+  content: string;
+  /** Time from sending to the full answer, including any rate-limit wait. */
+  latencyMs: number;
+  usage?: ProviderUsage;
+  /** True when the provider reported no usage and `usage` is the tokenizer's estimate. */
+  usageEstimated?: boolean;
+  costUsd?: number;
+  /** Set instead of `content` when the model failed. */
+  error?: string;
 }
 
 /** Multimodal content part for vision messages */
@@ -13,6 +86,22 @@ export type GroqContentPart =
   | { type: 'text'; text: string }
   | { type: 'image_url'; image_url: { url: string } };
 
+/** An image attached in chat, base64-encoded. */
+export interface ImageAttachment {
+  base64: string;
+  mimeType: string;
+  fileName?: string;
+}
+
+/** A user turn's content: plain text, or the text followed by one image part per attachment. */
+export function withImages(text: string, images: ImageAttachment[] = []): string | GroqContentPart[] {
+  if (images.length === 0) { return text; }
+  return [
+    { type: 'text', text },
+    ...images.map(img => ({ type: 'image_url' as const, image_url: { url: `data:${img.mimeType};base64,${img.base64}` } })),
+  ];
+}
+
 export interface GroqRequest {
   model: string;
   messages: GroqMessage[];
@@ -33,95 +122,62 @@ export interface GroqResponse {
   }[];
 }
 
+/** Per-request options for non-streaming completions. */
+interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  usageMode?: UsageMode;
+  task?: AutoTask;
+  tools?: GroqTool[];
+  toolChoice?: GroqToolChoice;
+  /** Request a JSON reply; dropped for models without JSON mode. */
+  responseFormat?: { name: string; schema: JsonSchema };
+}
+
 interface GroqCompletionResult {
   content: string;
   finishReason?: string;
+  usage?: ProviderUsage;
+  toolCalls?: GroqToolCall[];
+  /** What a reasoning model thought before answering; never part of `content`. */
+  reasoning?: string;
 }
 
-export class GroqClient {
-  private readonly baseUrl =
-    'https://api.groq.com/openai/v1/chat/completions';
-
-  private static readonly OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+/** Task types that Auto mode routes to separate model lists. */
+export type AutoTask = 'inline' | 'ask' | 'plan' | 'edit' | 'multiFile' | 'vision';
 
-  /**
-   * Map internal model IDs to OpenRouter model IDs.
-   * OpenRouter uses provider-prefixed model names.
-   */
-  private static readonly OPENROUTER_MODEL_MAP: Record<string, string> = {
-    // Groq-hosted models → OpenRouter equivalents
-    'llama-3.3-70b-versatile':   'meta-llama/llama-3.3-70b-instruct',
-    'llama-3.1-70b-versatile':   'meta-llama/llama-3.1-70b-instruct',
-    'llama-3.1-8b-instant':      'meta-llama/llama-3.1-8b-instruct',
-    'llama-3.2-1b-preview':      'meta-llama/llama-3.2-1b-instruct',
-    'llama-3.2-3b-preview':      'meta-llama/llama-3.2-3b-instruct',
-    'mixtral-8x7b-32768':        'mistralai/mixtral-8x7b-instruct',
-    'gemma2-9b-it':              'google/gemma-2-9b-it',
-    'meta-llama/llama-4-scout-17b-16e-instruct': 'meta-llama/llama-4-scout-17b-16e-instruct',
-    'openai/gpt-oss-120b':       'openai/gpt-oss-120b',
-    'openai/gpt-oss-20b':        'openai/gpt-oss-20b',
-    // OpenAI
-    'gpt-4o':      'openai/gpt-4o',
-    'gpt-4o-mini': 'openai/gpt-4o-mini',
-    'o1-mini':     'openai/o1-mini',
-    'o3-mini':     'openai/o3-mini',
-    // Anthropic
-    'claude-opus-4-20250514':     'anthropic/claude-opus-4',
-    'claude-sonnet-4-20250514':   'anthropic/claude-sonnet-4',
-    'claude-3-5-haiku-20241022':  'anthropic/claude-3.5-haiku',
-    'claude-3-5-sonnet-20241022': 'anthropic/claude-3.5-sonnet',
-    // Gemini
-    'gemini-2.0-flash': 'google/gemini-2.0-flash-001',
-    'gemini-1.5-pro':   'google/gemini-pro-1.5',
-    'gemini-1.5-flash': 'google/gemini-flash-1.5',
-  };
+/** Thrown when an in-flight AI request is aborted (Stop button, cancelled progress, …). */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
 
-  /** Check if an API key is an OpenRouter key. */
-  private static isOpenRouterKey(apiKey: string): boolean {
-    return apiKey.trim().startsWith('sk-or-');
+/** Thrown when a model's reply still fails the schema after every repair attempt. */
+export class StructuredOutputError extends Error {
+  constructor(readonly errors: string[], readonly raw: string) {
+    super(`Model did not return valid JSON for the requested schema: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
   }
+}
 
-  /** Map an internal model ID to the OpenRouter equivalent. */
-  private static toOpenRouterModel(modelId: string): string {
-    return GroqClient.OPENROUTER_MODEL_MAP[modelId] || modelId;
+/** Bridge a VS Code CancellationToken to the AbortSignal the HTTP layer understands. */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+  const controller = new AbortController();
+  if (token.isCancellationRequested) {
+    controller.abort();
+  } else {
+    token.onCancellationRequested(() => controller.abort());
   }
+  return controller.signal;
+}
 
-  /**
-   * Approximate context-window sizes (input tokens) for Groq models.
-   * We leave room for output (max_tokens) so the *input* budget is
-   * windowSize − maxOutputTokens.
-   */
-  /** Vision model used for image-to-code */
+export class GroqClient {
+  /** Preferred vision model; Auto's vision route starts here. */
   static readonly VISION_MODEL = 'meta-llama/llama-4-scout-17b-16e-instruct';
 
-  private static readonly MODEL_WINDOWS: Record<string, number> = {
-    // Groq
-    'llama-3.3-70b-versatile':   128_000,
-    'llama-3.1-70b-versatile':   128_000,
-    'llama-3.1-8b-instant':      8_000,
-    'llama-3.2-1b-preview':      8_000,
-    'llama-3.2-3b-preview':      8_000,
-    'mixtral-8x7b-32768':        32_768,
-    'gemma2-9b-it':              8_000,
-    'meta-llama/llama-4-scout-17b-16e-instruct': 128_000,
-    'openai/gpt-oss-120b':       131_072,
-    'openai/gpt-oss-20b':        131_072,
-    // OpenAI
-    'gpt-4o':                    128_000,
-    'gpt-4o-mini':               128_000,
-    'o1-mini':                   128_000,
-    'o3-mini':                   200_000,
-    // Anthropic
-    'claude-opus-4-20250514':     200_000,
-    'claude-sonnet-4-20250514':   200_000,
-    'claude-3-5-haiku-20241022':  200_000,
-    'claude-3-5-sonnet-20241022': 200_000,
-    // Gemini
-    'gemini-2.0-flash':    1_000_000,
-    'gemini-1.5-pro':      2_000_000,
-    'gemini-1.5-flash':    1_000_000,
-  };
-
   /** Special model ID for automatic model selection with fallback. */
   static readonly AUTO_MODEL_ID = 'auto';
 
@@ -151,48 +207,80 @@ export class GroqClient {
     'llama-3.2-1b-preview',
   ];
 
-  /** Human-friendly model metadata for the selector UI. */
-  static readonly AVAILABLE_MODELS: { id: string; label: string; ctx: string; provider: string }[] = [
-    // ── Groq ──
-    { id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70B',   ctx: '128K', provider: 'groq' },
-    { id: 'llama-3.1-70b-versatile', label: 'Llama 3.1 70B',   ctx: '128K', provider: 'groq' },
-    { id: 'llama-3.1-8b-instant',    label: 'Llama 3.1 8B',    ctx: '8K',   provider: 'groq' },
-    { id: 'llama-3.2-1b-preview',    label: 'Llama 3.2 1B',    ctx: '8K',   provider: 'groq' },
-    { id: 'llama-3.2-3b-preview',    label: 'Llama 3.2 3B',    ctx: '8K',   provider: 'groq' },
-    { id: 'mixtral-8x7b-32768',      label: 'Mixtral 8x7B',    ctx: '32K',  provider: 'groq' },
-    { id: 'gemma2-9b-it',            label: 'Gemma 2 9B',      ctx: '8K',   provider: 'groq' },
-    { id: 'openai/gpt-oss-120b',     label: 'GPT-OSS 120B',    ctx: '128K', provider: 'groq' },
-    { id: 'openai/gpt-oss-20b',      label: 'GPT-OSS 20B',     ctx: '128K', provider: 'groq' },
-    { id: 'meta-llama/llama-4-scout-17b-16e-instruct', label: 'Llama 4 Scout (Vision)', ctx: '128K', provider: 'groq' },
-    // ── OpenAI ──
-    { id: 'gpt-4o',      label: 'GPT-4o',       ctx: '128K', provider: 'openai' },
-    { id: 'gpt-4o-mini', label: 'GPT-4o Mini',  ctx: '128K', provider: 'openai' },
-    { id: 'o1-mini',     label: 'o1 Mini',       ctx: '128K', provider: 'openai' },
-    { id: 'o3-mini',     label: 'o3 Mini',       ctx: '200K', provider: 'openai' },
-    // ── Anthropic ──
-    { id: 'claude-opus-4-20250514',     label: 'Claude Opus 4',     ctx: '200K', provider: 'anthropic' },
-    { id: 'claude-sonnet-4-20250514',   label: 'Claude Sonnet 4',   ctx: '200K', provider: 'anthropic' },
-    { id: 'claude-3-5-haiku-20241022',  label: 'Claude 3.5 Haiku',  ctx: '200K', provider: 'anthropic' },
-    { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', ctx: '200K', provider: 'anthropic' },
-    // ── Google Gemini ──
-    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', ctx: '1M',  provider: 'gemini' },
-    { id: 'gemini-1.5-pro',   label: 'Gemini 1.5 Pro',   ctx: '2M',  provider: 'gemini' },
-    { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash',  ctx: '1M',  provider: 'gemini' },
-  ];
+  /**
+   * Preferred models per Auto task, best first. After its own list each
+   * task falls back to the rest of AUTO_FALLBACK_CHAIN — except vision,
+   * which only makes sense on vision-capable models. Overridable per task
+   * with the `prompt2code.autoRouting` setting.
+   */
+  static readonly AUTO_ROUTES: Record<AutoTask, string[]> = {
+    // Latency matters more than depth
+    inline: ['llama-3.1-8b-instant', 'gpt-4o-mini', 'gemini-2.0-flash', 'claude-3-5-haiku-20241022', 'openai/gpt-oss-20b', 'gemini-1.5-flash'],
+    ask: ['claude-sonnet-4-20250514', 'gpt-4o', 'gemini-2.0-flash', 'llama-3.3-70b-versatile'],
+    plan: ['claude-sonnet-4-20250514', 'o3-mini', 'gpt-4o', 'gemini-1.5-pro'],
+    edit: [],
+    // Long outputs over large contexts
+    multiFile: ['claude-sonnet-4-20250514', 'gemini-1.5-pro', 'gpt-4o', 'gemini-2.0-flash'],
+    vision: [GroqClient.VISION_MODEL, 'gpt-4o', 'claude-sonnet-4-20250514', 'gemini-2.0-flash', 'gpt-4o-mini'],
+  };
+
+  /** Output room a model must have left after the prompt to count as a fit. */
+  private static readonly MIN_OUTPUT_TOKENS = 1024;
+
+  /** Extra attempts after a 429 when the adapter has no retry policy of its own. */
+  private static readonly RATE_LIMIT_RETRIES = 2;
+
+  /**
+   * Models offered in the selector UI, from the model catalog (built-ins,
+   * provider listings, the custom endpoint and `prompt2code.models`).
+   */
+  static get AVAILABLE_MODELS(): CatalogModel[] {
+    return modelCatalog.list();
+  }
+
+  /** Provider ID for user-declared models served by a local / self-hosted OpenAI-compatible server. */
+  static readonly CUSTOM_PROVIDER = 'custom';
 
   /** Return the provider for a given model ID. */
   static getProviderForModel(modelId: string): string {
-    return GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.provider ?? 'groq';
+    return modelCatalog.providerOf(modelId);
+  }
+
+  /** Whether a provider refuses requests without a key (custom endpoints and the fake provider do not). */
+  static requiresApiKey(provider: string): boolean {
+    return !getProviderAdapter(provider).keyOptional;
+  }
+
+  /** Whether an OpenRouter key can serve a provider's models (not self-hosted servers or Azure deployments). */
+  private static acceptsOpenRouterKey(provider: string): boolean {
+    const adapter = getProviderAdapter(provider);
+    return !adapter.keyOptional && !adapter.ownKeyOnly;
   }
 
   /** Return provider display name, API key signup URL, and key placeholder. */
   static getProviderMeta(provider: string): { name: string; apiKeyUrl: string; placeholder: string } {
-    switch (provider) {
-      case 'openai':    return { name: 'OpenAI',        apiKeyUrl: 'https://platform.openai.com/api-keys',               placeholder: 'sk-…' };
-      case 'anthropic': return { name: 'Anthropic',     apiKeyUrl: 'https://console.anthropic.com/settings/keys',        placeholder: 'sk-ant-…' };
-      case 'gemini':    return { name: 'Google Gemini', apiKeyUrl: 'https://aistudio.google.com/app/apikey',             placeholder: 'AIza…' };
-      default:          return { name: 'Groq',          apiKeyUrl: 'https://console.groq.com',                           placeholder: 'gsk_…' };
+    return getProviderAdapter(provider).meta;
+  }
+
+  /**
+   * Pick the adapter that will actually serve a request: OpenRouter keys
+   * route every cloud model through OpenRouter, otherwise the model's provider.
+   */
+  private static adapterFor(provider: string, apiKey: string): ProviderAdapter {
+    if (GroqClient.acceptsOpenRouterKey(provider) && isOpenRouterKey(apiKey)) {
+      return getProviderAdapter('openrouter');
     }
+    return getProviderAdapter(provider);
+  }
+
+  /** Reduce an axios error to the transport facts adapters map into messages. */
+  private static toProviderFailure(error: any): ProviderFailure {
+    return {
+      status: error?.response?.status,
+      message: error?.response?.data?.error?.message || error?.message || String(error),
+      code: error?.code,
+      headers: error?.response?.headers,
+    };
   }
 
   /** Session-level model override (set by the UI model selector). */
@@ -201,6 +289,96 @@ export class GroqClient {
   /** The model that was actually used in the last Auto-mode request. */
   private _lastResolvedModel: string | null = null;
 
+  /** The Auto task the last resolved model was picked for. */
+  private _lastResolvedTask: AutoTask | null = null;
+
+  /** Mode and chat session that this client's usage is booked against. */
+  private _usageContext: { mode: UsageMode; sessionId?: string; sessionTitle?: string };
+
+  /** Groups the trace entries of the current chat turn; unset outside chat. */
+  private _traceTurnId?: string;
+
+  /** Told when this client's requests queue behind a rate limit, and when they go out. */
+  private _onRateLimitWait?: RateLimitWaitListener;
+
+  constructor(defaultUsageMode: UsageMode = 'command') {
+    this._usageContext = { mode: defaultUsageMode };
+  }
+
+  /**
+   * Set the mode / chat session for the requests that follow. Called at the
+   * start of each chat turn, so it also forgets the previous turn's Auto pick
+   * and starts a new trace turn.
+   */
+  setUsageContext(context: { mode: UsageMode; sessionId?: string; sessionTitle?: string }): void {
+    this._usageContext = context;
+    this._traceTurnId = context.sessionId ? traceLog.newTurnId() : undefined;
+    this._lastResolvedModel = null;
+    this._lastResolvedTask = null;
+  }
+
+  /** Listen for rate-limit waits of this client's requests (the chat shows a countdown). */
+  setRateLimitListener(listener: RateLimitWaitListener | undefined): void {
+    this._onRateLimitWait = listener;
+  }
+
+  /** Cost in USD of a request, from the model's list price (0 for unpriced models). */
+  static estimateCost(modelId: string, usage: ProviderUsage): number {
+    const price = modelCatalog.get(modelId)?.price;
+    if (!price) { return 0; }
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Book one request in the usage tracker. Providers that report no usage
+   * (some self-hosted servers) are counted with the model's tokenizer.
+   */
+  private recordUsage(
+    model: string,
+    messages: GroqMessage[],
+    result: { content: string; usage?: ProviderUsage },
+    mode?: UsageMode
+  ): void {
+    const usage = result.usage ?? {
+      inputTokens: GroqClient.countTokens(messages.map(m => GroqClient.contentToString(m.content)).join('\n'), model),
+      outputTokens: GroqClient.countTokens(result.content, model),
+    };
+    usageTracker.record({
+      model,
+      mode: mode ?? this._usageContext.mode,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cachedInputTokens: usage.cachedInputTokens,
+      costUsd: GroqClient.estimateCost(model, usage),
+      estimated: !result.usage,
+      sessionId: this._usageContext.sessionId,
+      sessionTitle: this._usageContext.sessionTitle,
+    });
+  }
+
+  /** Start tracing one provider call, tagged with this client's mode and chat turn. */
+  private startTrace(
+    call: { model: string; provider: string; stream: boolean },
+    messages: GroqMessage[],
+    params: { maxTokens: number; temperature: number; tools?: GroqTool[]; toolChoice?: GroqToolChoice; responseFormat?: { name: string } },
+    mode?: UsageMode
+  ): TraceHandle {
+    const traceParams: TraceEntry['params'] = { maxTokens: params.maxTokens, temperature: params.temperature };
+    if (params.tools?.length) { traceParams.tools = params.tools.map(t => t.function.name); }
+    if (params.toolChoice) { traceParams.toolChoice = params.toolChoice; }
+    if (params.responseFormat) { traceParams.responseFormat = params.responseFormat.name; }
+    return traceLog.start({
+      ...call,
+      turnId: this._traceTurnId,
+      sessionId: this._usageContext.sessionId,
+      sessionTitle: this._usageContext.sessionTitle,
+      mode: mode ?? this._usageContext.mode,
+      autoFallback: this._inAutoFallback,
+      params: traceParams,
+      messages,
+    });
+  }
+
   /** Set a session-level model override. Pass null to revert to settings. */
   setModelOverride(modelId: string | null): void {
     this._modelOverride = modelId;
@@ -216,6 +394,11 @@ export class GroqClient {
     return this._lastResolvedModel;
   }
 
+  /** The task type the last Auto-mode request was routed as. */
+  getLastResolvedTask(): AutoTask | null {
+    return this._lastResolvedTask;
+  }
+
   /** Check if current selection is Auto mode. */
   isAutoMode(): boolean {
     return this.getActiveModel() === GroqClient.AUTO_MODEL_ID;
@@ -225,34 +408,144 @@ export class GroqClient {
    * Resolve the Auto model: return the first model in the fallback chain
    * that has an API key configured. If none found, returns the first in chain.
    */
-  resolveAutoModel(): string {
-    for (const modelId of GroqClient.AUTO_FALLBACK_CHAIN) {
-      const key = this.getApiKeyForModel(modelId);
-      if (key && key.trim()) {
-        return modelId;
-      }
-    }
+  resolveAutoModel(task: AutoTask = this.defaultTask(), inputTokens?: number): string {
     // Fallback: return first model (will prompt for key)
-    return GroqClient.AUTO_FALLBACK_CHAIN[0];
+    return this.autoCandidates(task, inputTokens)[0] ?? GroqClient.AUTO_FALLBACK_CHAIN[0];
+  }
+
+  /**
+   * The model that reads images: the selected model when the catalog lists
+   * it as vision-capable, otherwise the first vision-capable model with a
+   * key (Auto's vision route). Throws when no vision model has a key.
+   */
+  resolveVisionModel(): string {
+    const active = this.getActiveModel();
+    if (active !== GroqClient.AUTO_MODEL_ID && modelCatalog.supports(active, 'vision')) { return active; }
+    const candidate = this.autoCandidates('vision')[0];
+    if (candidate) { return candidate; }
+    const examples = GroqClient.routeFor('vision').slice(0, 4).map(id => modelCatalog.get(id)?.label ?? id);
+    throw new Error(`No vision-capable model has an API key. Add a key for a model such as ${examples.join(', ')}.`);
   }
 
   /**
    * Get the fallback chain starting after a given model.
    * Only returns models that have API keys configured.
    */
-  getFallbackModels(afterModel: string): string[] {
-    const chain = GroqClient.AUTO_FALLBACK_CHAIN;
-    const idx = chain.indexOf(afterModel);
-    const remaining = idx >= 0 ? chain.slice(idx + 1) : chain;
-    return remaining.filter(m => {
-      const key = this.getApiKeyForModel(m);
-      return key && key.trim() && m !== afterModel;
-    });
+  getFallbackModels(afterModel: string, task: AutoTask = this.defaultTask(), inputTokens?: number): string[] {
+    const candidates = this.autoCandidates(task, inputTokens);
+    const idx = candidates.indexOf(afterModel);
+    const remaining = idx >= 0 ? candidates.slice(idx + 1) : candidates;
+    return remaining.filter(m => m !== afterModel);
+  }
+
+  /** The task a request is routed as when the caller does not say: follows the chat mode. */
+  private defaultTask(): AutoTask {
+    switch (this._usageContext.mode) {
+      case 'ask':    return 'ask';
+      case 'plan':   return 'plan';
+      case 'inline': return 'inline';
+      default:       return 'edit';
+    }
+  }
+
+  /**
+   * Ordered model list for a task: the `prompt2code.autoRouting` entry when
+   * set, else AUTO_ROUTES, followed by the rest of the fallback chain and
+   * then user-declared and self-hosted models. Azure deployments follow
+   * the model they serve wherever it appears. Vision keeps only models
+   * the catalog lists as vision-capable, preferred ones first; retired
+   * models are dropped.
+   */
+  private static routeFor(task: AutoTask): string[] {
+    const configured = vscode.workspace.getConfiguration('prompt2code')
+      .get<Partial<Record<AutoTask, string[]>>>('autoRouting', {})?.[task];
+    const preferred = Array.isArray(configured) && configured.length > 0 ? configured : GroqClient.AUTO_ROUTES[task];
+    const models = modelCatalog.list();
+    const declared = models.filter(m => m.source === 'user' || m.source === 'custom' || m.source === 'azure').map(m => m.id);
+    let route = [...preferred, ...GroqClient.AUTO_FALLBACK_CHAIN].flatMap(id =>
+      [id, ...models.filter(m => m.baseModel === id).map(m => m.id)]
+    );
+    route = [...route, ...declared];
+    if (task === 'vision') {
+      route = [...route, ...models.map(m => m.id)].filter(id => modelCatalog.supports(id, 'vision'));
+    }
+    const known = new Set(models.map(m => m.id));
+    return [...new Set(route)].filter(id => known.has(id));
+  }
+
+  /**
+   * Models Auto may use for a task, in order: the task's route filtered to
+   * models with a key, minus models whose circuit breaker is open, and, when
+   * the prompt size is known, to models whose window fits it. With `budgetAction: downgrade`, models over budget are
+   * dropped, and once the preferred model nears its cap the remaining
+   * models are tried cheapest first.
+   */
+  private autoCandidates(task: AutoTask, inputTokens?: number): string[] {
+    let withKeys = GroqClient.routeFor(task).filter(m => this.hasApiKeyForModel(m));
+    const healthy = withKeys.filter(m => !modelHealth.isTripped(m));
+    // Every model tripped: try them all anyway rather than refusing the request
+    if (healthy.length > 0) { withKeys = healthy; }
+    if (inputTokens) {
+      const windowOf = (id: string) => modelCatalog.windowOf(id);
+      const fits = withKeys.filter(m => windowOf(m) >= inputTokens + GroqClient.MIN_OUTPUT_TOKENS);
+      // Nothing fits: try the largest windows first rather than failing outright
+      withKeys = fits.length > 0 ? fits : [...withKeys].sort((a, b) => windowOf(b) - windowOf(a));
+    }
+    const budgets = getBudgetConfig();
+    if (budgets.action !== 'downgrade' || budgets.rules.length === 0) { return withKeys; }
+
+    const states = new Map(withKeys.map(m => [m, evaluateBudget(m, budgets).state]));
+    const affordable = withKeys.filter(m => states.get(m) !== 'exceeded');
+    // Nothing affordable: keep the chain so the request fails with the budget error
+    if (affordable.length === 0) { return withKeys; }
+    if (states.get(affordable[0]) !== 'warn') { return affordable; }
+
+    const listPrice = (id: string) => {
+      const price = modelCatalog.get(id)?.price;
+      return price ? price.input + price.output : 0;
+    };
+    traceLog.output.info('Auto mode: budget nearly spent — preferring cheaper models');
+    return [...affordable].sort((a, b) => listPrice(a) - listPrice(b));
+  }
+
+  /** Prompt size for window-fit checks, counted with the task's preferred model's tokenizer. */
+  private estimatePromptTokens(parts: (string | undefined)[], task: AutoTask): number {
+    const model = GroqClient.routeFor(task)[0] ?? GroqClient.AUTO_FALLBACK_CHAIN[0];
+    return GroqClient.countTokens(parts.filter(Boolean).join('\n'), model);
+  }
+
+  /** Refuse a request once its model's budget is spent; warn as the budget gets close. */
+  private enforceBudget(modelId: string): void {
+    const status = evaluateBudget(modelId);
+    if (status.state === 'exceeded') { throw new BudgetExceededError(status); }
+    warnBudgetOnce(status);
+  }
+
+  /** Count tokens with the tokenizer family of a specific model. */
+  static countTokens(text: string, modelId: string): number {
+    return countTokens(text, tokenizerFamilyForModel(modelId, GroqClient.getProviderForModel(modelId)));
+  }
+
+  /** Count tokens with the active model's tokenizer (Auto resolves to its primary model). */
+  countTokens(text: string): number {
+    return GroqClient.countTokens(text, this.getConfig().model);
+  }
+
+  /**
+   * Trim text to a token budget for the active model, appending `marker`
+   * when something was cut. The marker itself is kept within the budget.
+   */
+  truncateToTokens(text: string, maxTokens: number, marker = '\n/* ...trimmed... */\n'): string {
+    const model = this.getConfig().model;
+    const family = tokenizerFamilyForModel(model, GroqClient.getProviderForModel(model));
+    const cut = truncateToTokens(text, maxTokens, family);
+    if (cut.length === text.length) { return text; }
+    return truncateToTokens(text, Math.max(maxTokens - countTokens(marker, family), 0), family) + marker;
   }
 
-  /** Rough chars-per-token ratio (≈ 3.5 for English code). */
-  static estimateTokens(text: string): number {
-    return Math.ceil(text.length / 3.5);
+  /** Whether any message carries an image part. */
+  static hasImages(messages: GroqMessage[]): boolean {
+    return messages.some(m => Array.isArray(m.content) && m.content.some(p => p.type === 'image_url'));
   }
 
   /** Safely extract text content from a message's content field. */
@@ -271,24 +564,61 @@ export class GroqClient {
    */
   getInputTokenBudget(): number {
     const cfg = this.getConfig();
-    const window = GroqClient.MODEL_WINDOWS[cfg.model] ?? 8_000;
+    const window = modelCatalog.windowOf(cfg.model);
     const outputReserve = Math.min(cfg.maxTokens, Math.floor(window * 0.5));
     const safety = 200; // headroom for overhead
     return Math.max(window - outputReserve - safety, 1_000);
   }
 
   /**
-   * Convenience: max *characters* of context the caller should provide.
+   * Convenience: max *tokens* of context the caller should provide.
    * This accounts for the system prompt + instruction overhead (~800 tokens).
    */
-  getContextCharBudget(): number {
+  getContextTokenBudget(): number {
     const tokenBudget = this.getInputTokenBudget();
     const overheadTokens = 800; // system prompt + instruction + formatting
-    return Math.max((tokenBudget - overheadTokens) * 3.5, 500);
+    return Math.max(tokenBudget - overheadTokens, 150);
+  }
+
+  private async sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    GroqClient.throwIfAborted(signal);
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Wait for a request slot on the serving provider and key. Inline
+   * completions queue behind chat and commands. Returns the limiter key.
+   */
+  private async waitForRateLimit(adapter: ProviderAdapter, apiKey: string, signal?: AbortSignal, mode?: UsageMode): Promise<string> {
+    const key = RateLimiter.keyFor(adapter.id, apiKey);
+    const priority = (mode ?? this._usageContext.mode) === 'inline' ? 'background' : 'interactive';
+    await rateLimiter.acquire(key, { priority, signal, onWait: this._onRateLimitWait });
+    return key;
+  }
+
+  /** Whether a mapped provider error is a 429 (adapters keep the status in parentheses). */
+  private static isRateLimited(err: any): boolean {
+    return err?.response?.status === 429 || /\(429\)/.test(err?.message ?? '');
+  }
+
+  /** Whether an error was caused by aborting the request rather than a provider failure. */
+  static isCancellation(err: any): boolean {
+    return err instanceof RequestCancelledError || axios.isCancel(err) || err?.name === 'AbortError';
   }
 
-  private async sleep(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms));
+  /** Throw a RequestCancelledError if the signal has already fired. */
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) { throw new RequestCancelledError(); }
   }
 
   private getConfig(overrideModelId?: string) {
@@ -302,45 +632,47 @@ export class GroqClient {
 
     const provider = GroqClient.getProviderForModel(model);
 
-    // Resolve API key: per-model key > global fallback key
-    const perModelKeys = config.get<Record<string, string>>('apiKeys', {});
-    const globalKey = config.get<string>('apiKey', '');
-    const apiKey = perModelKeys[model] || globalKey;
-
-    // Provider-specific completion URL (OpenAI uses the same SSE/REST format as Groq)
-    const baseUrl = provider === 'openai'
-      ? 'https://api.openai.com/v1/chat/completions'
-      : this.baseUrl;
+    // Resolve API key: the provider's key, or an OpenRouter key (custom endpoint has its own key)
+    const apiKey = this.getApiKeyForModel(model);
 
     return {
       apiKey,
       model,
       provider,
-      baseUrl,
       maxTokens: config.get<number>('maxTokens', 4096),
       temperature: config.get<number>('temperature', 0.2)
     };
   }
 
   /**
-   * Resolve the API key for a specific model.
-   * Checks per-model keys first, then falls back to global key.
-   * Used at inference time so any model can pick up the global fallback key.
+   * Resolve the API key for a specific model: its provider's key, else an
+   * OpenRouter key (which can serve every cloud model).
    */
   getApiKeyForModel(modelId: string): string {
-    const config = vscode.workspace.getConfiguration('prompt2code');
-    const perModelKeys = config.get<Record<string, string>>('apiKeys', {});
-    return perModelKeys[modelId] || config.get<string>('apiKey', '');
+    return this.getApiKeyForProvider(GroqClient.getProviderForModel(modelId));
+  }
+
+  /** A provider's key from secret storage. Never sends a cloud key to a self-hosted server, Azure or the fake provider. */
+  getApiKeyForProvider(provider: string): string {
+    if (!GroqClient.acceptsOpenRouterKey(provider)) { return apiKeyStore.get(provider); }
+    return apiKeyStore.get(provider) || apiKeyStore.get('openrouter');
   }
 
   /**
-   * Return ONLY the explicitly saved per-model key — no global fallback.
-   * Used by the settings modal so models without explicit keys show blank.
+   * Whether a model is ready to use. Key-optional providers only need to be
+   * configured — local servers such as Ollama accept requests without a key.
    */
-  getExplicitApiKeyForModel(modelId: string): string {
-    const config = vscode.workspace.getConfiguration('prompt2code');
-    const perModelKeys = config.get<Record<string, string>>('apiKeys', {});
-    return perModelKeys[modelId] ?? '';
+  hasApiKeyForModel(modelId: string): boolean {
+    const adapter = getProviderAdapter(GroqClient.getProviderForModel(modelId));
+    if (adapter.keyOptional) {
+      try {
+        adapter.checkConfigured?.();
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    return !!this.getApiKeyForModel(modelId)?.trim();
   }
 
   /**
@@ -349,49 +681,16 @@ export class GroqClient {
   async validateApiKey(apiKey: string, modelId?: string): Promise<{ valid: boolean; error?: string }> {
     const provider = GroqClient.getProviderForModel(modelId ?? 'llama-3.1-8b-instant');
     try {
-      // OpenRouter keys: validate via OpenRouter regardless of selected model
-      if (GroqClient.isOpenRouterKey(apiKey)) {
-        const orModel = GroqClient.toOpenRouterModel(modelId || 'meta-llama/llama-3.1-8b-instruct');
-        await axios.post(
-          GroqClient.OPENROUTER_URL,
-          { model: orModel, messages: [{ role: 'user', content: 'hi' }], max_tokens: 1 },
-          {
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              'HTTP-Referer': 'https://github.com/Sujay149/Prompt2Code',
-              'X-Title': 'Prompt2Code',
-            },
-            timeout: 15000,
-          }
-        );
-      } else if (provider === 'openai') {
-        await axios.post(
-          'https://api.openai.com/v1/chat/completions',
-          { model: modelId || 'gpt-4o-mini', messages: [{ role: 'user', content: 'hi' }], max_tokens: 1 },
-          { headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' }, timeout: 15000 }
-        );
-      } else if (provider === 'anthropic') {
-        await axios.post(
-          'https://api.anthropic.com/v1/messages',
-          { model: modelId || 'claude-sonnet-4-20250514', max_tokens: 1, messages: [{ role: 'user', content: 'hi' }] },
-          { headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'content-type': 'application/json' }, timeout: 15000 }
-        );
-      } else if (provider === 'gemini') {
-        const geminiModel = modelId || 'gemini-1.5-flash';
-        await axios.post(
-          `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`,
-          { contents: [{ role: 'user', parts: [{ text: 'hi' }] }], generationConfig: { maxOutputTokens: 1 } },
-          { headers: { 'content-type': 'application/json' }, timeout: 15000 }
-        );
-      } else {
-        // Groq
-        await axios.post<GroqResponse>(
-          this.baseUrl,
-          { model: modelId || 'llama-3.1-8b-instant', messages: [{ role: 'user', content: 'hi' }], max_tokens: 1, temperature: 0 },
-          { headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' }, timeout: 15000 }
-        );
-      }
+      const adapter = GroqClient.adapterFor(provider, apiKey);
+      adapter.checkConfigured?.();
+      const request = adapter.buildValidationRequest(apiKey, modelId);
+      await httpClient.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        timeout: 15000,
+      });
       return { valid: true };
     } catch (error: any) {
       const status = error.response?.status;
@@ -407,13 +706,14 @@ export class GroqClient {
 
   private async requestCompletion(
     messages: GroqMessage[],
-    options?: { maxTokens?: number; temperature?: number }
+    options?: CompletionOptions
   ): Promise<GroqCompletionResult> {
     // In Auto mode, try the resolved model first, then fallback to others
     if (this.isAutoMode()) {
       return this.requestWithAutoFallback(messages, options);
     }
-    return this._requestCompletionForModel(messages, options);
+    // Images go to a vision-capable model even when the selected one is text-only
+    return this._requestCompletionForModel(messages, options, GroqClient.hasImages(messages) ? this.resolveVisionModel() : undefined);
   }
 
   /**
@@ -422,11 +722,18 @@ export class GroqClient {
    */
   private async requestWithAutoFallback(
     messages: GroqMessage[],
-    options?: { maxTokens?: number; temperature?: number }
+    options?: CompletionOptions
   ): Promise<GroqCompletionResult> {
-    const primaryModel = this.resolveAutoModel();
-    const fallbacks = this.getFallbackModels(primaryModel);
-    const modelsToTry = [primaryModel, ...fallbacks];
+    const task = GroqClient.hasImages(messages) ? 'vision' : options?.task ?? this.defaultTask();
+    const inputTokens = this.estimatePromptTokens(messages.map(m => GroqClient.contentToString(m.content)), task);
+    const primaryModel = this.resolveAutoModel(task, inputTokens);
+    const fallbacks = this.getFallbackModels(primaryModel, task, inputTokens);
+    let modelsToTry = [primaryModel, ...fallbacks];
+    // Tool calls only work on models that support them
+    if (options?.tools?.length) {
+      const capable = modelsToTry.filter(m => modelCatalog.supports(m, 'tools'));
+      if (capable.length > 0) { modelsToTry = capable; }
+    }
 
     let lastError: Error | null = null;
 
@@ -434,19 +741,20 @@ export class GroqClient {
     try {
       for (const modelId of modelsToTry) {
         try {
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.label ?? modelId;
-          console.log(`🤖 Auto mode: trying ${modelLabel} (${modelId})`);
+          const modelLabel = modelCatalog.get(modelId)?.label ?? modelId;
+          traceLog.output.info(`Auto mode: trying ${modelLabel} (${modelId})`);
 
-          const result = await this._requestCompletionForModel(messages, options, modelId);
+          const result = await this.withModelHealth(modelId, () => this._requestCompletionForModel(messages, options, modelId));
           this._lastResolvedModel = modelId;
-          console.log(`✅ Auto mode: success with ${modelLabel}`);
+          this._lastResolvedTask = task;
+          traceLog.output.info(`Auto mode: success with ${modelLabel}`);
           return result;
         } catch (err: any) {
           lastError = err;
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.label ?? modelId;
+          const modelLabel = modelCatalog.get(modelId)?.label ?? modelId;
           const isRetriable = this.isRetriableForFallback(err);
 
-          console.warn(`⚠️ Auto mode: ${modelLabel} failed (${err.message}). Retriable: ${isRetriable}`);
+          traceLog.output.warn(`Auto mode: ${modelLabel} failed (${err.message}). Retriable: ${isRetriable}`);
 
           if (!isRetriable) {
             throw err; // Non-retriable error (e.g. user cancellation) — don't try more models
@@ -455,11 +763,13 @@ export class GroqClient {
         }
       }
 
-      // All models failed — show a helpful message
+      // All models failed — show a helpful message (budget errors already explain themselves)
       const configuredCount = modelsToTry.length;
-      vscode.window.showErrorMessage(
-        `Auto mode: all ${configuredCount} configured models failed. Check your API keys in Configure Tools (⚙️).`
-      );
+      if (!(lastError instanceof BudgetExceededError)) {
+        vscode.window.showErrorMessage(
+          `Auto mode: all ${configuredCount} configured models failed. Check your API keys in Configure Tools (⚙️).`
+        );
+      }
       throw lastError ?? new Error('All models in Auto fallback chain failed.');
     } finally {
       this._inAutoFallback = false;
@@ -469,6 +779,9 @@ export class GroqClient {
   /** Determine if an error should trigger a fallback to the next model. */
   private isRetriableForFallback(err: any): boolean {
     if (!err) { return false; }
+    if (GroqClient.isCancellation(err)) { return false; }
+    // Over budget: Auto may move on to another model only when downgrading is allowed
+    if (err instanceof BudgetExceededError) { return getBudgetConfig().action === 'downgrade'; }
 
     // Check Axios-style response status (direct Axios errors)
     const status = err?.response?.status;
@@ -490,378 +803,337 @@ export class GroqClient {
     return false;
   }
 
+  /** Run one Auto attempt against a model and feed the outcome to its circuit breaker. */
+  private async withModelHealth<T>(modelId: string, run: () => Promise<T>): Promise<T> {
+    modelHealth.beginAttempt(modelId);
+    try {
+      const result = await run();
+      modelHealth.recordSuccess(modelId);
+      return result;
+    } catch (err) {
+      // Only provider failures count against a model — not cancellations or budget stops
+      if (this.isRetriableForFallback(err) && !(err instanceof BudgetExceededError)) {
+        modelHealth.recordFailure(modelId, err);
+      } else {
+        modelHealth.endAttempt(modelId);
+      }
+      throw err;
+    }
+  }
+
   /** Whether we are currently inside an auto-fallback loop (suppress UI popups). */
   private _inAutoFallback = false;
 
   /** Core completion logic for a specific model (or the current active model). */
   private async _requestCompletionForModel(
     messages: GroqMessage[],
-    options?: { maxTokens?: number; temperature?: number },
+    options?: CompletionOptions,
     overrideModelId?: string
   ): Promise<GroqCompletionResult> {
     const config = this.getConfig(overrideModelId);
     const maxTokens = options?.maxTokens ?? config.maxTokens;
     const temperature = options?.temperature ?? config.temperature;
+    const signal = options?.signal;
+    GroqClient.throwIfAborted(signal);
 
-    if (!config.apiKey) {
-      const providerName: Record<string,string> = { groq: 'Groq', openai: 'OpenAI', anthropic: 'Anthropic', gemini: 'Google Gemini' };
-      if (!this._inAutoFallback) {
-        vscode.window.showErrorMessage(
-          `${providerName[config.provider] ?? config.provider} API key not set for model ${config.model}.`
-        );
-      }
-      throw new Error(`Missing API key for ${config.provider}`);
-    }
-
-    // If the key is an OpenRouter key, route ALL models through OpenRouter
-    if (GroqClient.isOpenRouterKey(config.apiKey)) {
-      return this.requestOpenRouter(messages, config.model, config.apiKey, { maxTokens, temperature });
+    try {
+      return await this._dispatchCompletion(messages, config, {
+        maxTokens, temperature, signal, usageMode: options?.usageMode, tools: options?.tools, toolChoice: options?.toolChoice,
+        responseFormat: options?.responseFormat,
+      });
+    } catch (err) {
+      // Provider methods wrap transport errors — surface aborts as a single, recognisable error
+      if (signal?.aborted || GroqClient.isCancellation(err)) { throw new RequestCancelledError(); }
+      throw err;
     }
+  }
 
-    if (config.provider === 'openai') {
-      return this.requestOpenAI(messages, config.model, config.apiKey, { maxTokens, temperature });
-    } else if (config.provider === 'anthropic') {
-      return this.requestAnthropic(messages, config.model, config.apiKey, { maxTokens, temperature });
-    } else if (config.provider === 'gemini') {
-      return this.requestGemini(messages, config.model, config.apiKey, { maxTokens, temperature });
-    } else {
-      return this.requestGroq(messages, config.model, config.apiKey, { maxTokens, temperature });
-    }
+  /**
+   * Response cache key for a request: the prompt and sampling settings, plus
+   * who answers it — the adapter, the URL it posts to (query and key left
+   * out) and the reasoning settings.
+   */
+  private static cacheKeyFor(adapter: ProviderAdapter, model: string, messages: unknown, maxTokens: number, temperature: number): string {
+    const reasoning = getReasoningSettings();
+    const { url } = adapter.buildRequest({ model, messages: [], apiKey: '', maxTokens, temperature, stream: false, reasoning });
+    return ResponseCache.keyFor({ provider: adapter.id, endpoint: url.split('?')[0], model, messages, maxTokens, temperature, reasoning });
   }
 
-  /** OpenRouter — unified gateway; uses OpenAI-compatible format. */
-  private async requestOpenRouter(
+  /**
+   * Send a completion through the provider's adapter, applying the adapter's
+   * retry policy (backoff, smaller max_tokens) and error mapping.
+   */
+  private async _dispatchCompletion(
     messages: GroqMessage[],
-    model: string,
-    apiKey: string,
-    options: { maxTokens: number; temperature: number }
+    config: ReturnType<GroqClient['getConfig']>,
+    options: Omit<CompletionOptions, 'task'> & { maxTokens: number; temperature: number }
   ): Promise<GroqCompletionResult> {
-    const openRouterModel = GroqClient.toOpenRouterModel(model);
-    const MAX_RETRIES = 2;
-    let currentMaxTokens = options.maxTokens;
+    const { temperature, tools, toolChoice } = options;
+    const responseFormat = options.responseFormat && modelCatalog.supports(config.model, 'jsonMode') ? options.responseFormat : undefined;
 
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        const response = await axios.post(
-          GroqClient.OPENROUTER_URL,
-          {
-            model: openRouterModel,
-            messages,
-            max_tokens: currentMaxTokens,
-            temperature: options.temperature,
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-              'HTTP-Referer': 'https://github.com/Sujay149/Prompt2Code',
-              'X-Title': 'Prompt2Code',
-            },
-            timeout: 90000,
-          }
+    // Custom endpoints may not need a key at all
+    if (!config.apiKey && GroqClient.requiresApiKey(config.provider)) {
+      if (!this._inAutoFallback) {
+        vscode.window.showErrorMessage(
+          `${GroqClient.getProviderMeta(config.provider).name} API key not set for model ${config.model}.`
         );
-        const choice = response.data?.choices?.[0];
-        const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
-        if (!content || !content.trim()) { throw new Error('OpenRouter returned an empty response'); }
-        return { content, finishReason: choice?.finish_reason };
-      } catch (error: any) {
-        if (axios.isAxiosError(error)) {
-          const status = error.response?.status;
-          const apiMessage = error.response?.data?.error?.message || error.message;
-          if (status === 401) {
-            throw new Error(`OpenRouter API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Get a key at openrouter.ai/keys`);
-          }
-          if (status === 402 && attempt < MAX_RETRIES) {
-            // Try to parse how many tokens we can afford and retry with less
-            const affordMatch = apiMessage?.match(/can only afford (\d+)/);
-            if (affordMatch) {
-              const canAfford = parseInt(affordMatch[1], 10);
-              if (canAfford > 50) {
-                currentMaxTokens = Math.max(canAfford - 20, 50);
-                console.log(`💰 OpenRouter 402: reducing max_tokens to ${currentMaxTokens} and retrying`);
-                continue;
-              }
-            }
-            // If we can't parse, try halving
-            currentMaxTokens = Math.max(Math.floor(currentMaxTokens / 2), 100);
-            console.log(`💰 OpenRouter 402: halving max_tokens to ${currentMaxTokens} and retrying`);
-            continue;
-          }
-          if (status === 402) {
-            throw new Error(`OpenRouter: insufficient credits (402). Your free-tier balance is too low. Add credits at https://openrouter.ai/credits — or switch to a free model like Llama 3.1 8B.`);
-          }
-          if (status === 404) {
-            throw new Error(`OpenRouter: model "${openRouterModel}" not found (404). Try selecting a different model from the model picker.`);
-          }
-          if (status === 429 && attempt < MAX_RETRIES) {
-            await this.sleep(1000 * Math.pow(2, attempt));
-            continue;
-          }
-          if (status === 429) {
-            throw new Error(`OpenRouter rate limit exceeded (429). Please wait and try again.`);
-          }
-          throw new Error(`OpenRouter API error (${status || 'network'}): ${apiMessage}`);
-        }
-        throw error;
       }
+      throw new Error(`Missing API key for ${config.provider}`);
+    }
+
+    const adapter = GroqClient.adapterFor(config.provider, config.apiKey);
+    adapter.checkConfigured?.();
+    const maxTokens = options.maxTokens;
+    const trace = this.startTrace(
+      { model: config.model, provider: adapter.id, stream: false },
+      messages,
+      { maxTokens, temperature, tools, toolChoice, responseFormat },
+      options.usageMode
+    );
+    try {
+      return await this._dispatchWithTrace(messages, config, adapter, trace, { ...options, responseFormat });
+    } catch (error) {
+      trace.fail(error);
+      throw error;
     }
-    throw new Error('OpenRouter request failed after retries');
   }
 
-  /** Groq (and Groq-hosted OSS models) via OpenAI-compatible endpoint with retry logic. */
-  private async requestGroq(
+  /** The cache lookup, budget check and retry loop of `_dispatchCompletion`, reporting to its trace. */
+  private async _dispatchWithTrace(
     messages: GroqMessage[],
-    model: string,
-    apiKey: string,
-    options: { maxTokens: number; temperature: number }
+    config: ReturnType<GroqClient['getConfig']>,
+    adapter: ProviderAdapter,
+    trace: TraceHandle,
+    options: Omit<CompletionOptions, 'task'> & { maxTokens: number; temperature: number }
   ): Promise<GroqCompletionResult> {
-    const request: GroqRequest = { model, messages, max_tokens: options.maxTokens, temperature: options.temperature, stream: false };
-    const MAX_RETRIES = 3;
+    const { temperature, signal, tools, toolChoice, responseFormat } = options;
+    let maxTokens = options.maxTokens;
+
+    const cacheKey = responseCache.isEligible(temperature)
+      ? GroqClient.cacheKeyFor(adapter, config.model, tools || responseFormat ? { messages, tools, toolChoice, responseFormat } : messages, maxTokens, temperature)
+      : undefined;
+    if (cacheKey) {
+      const cached = await responseCache.get(cacheKey);
+      if (cached) {
+        traceLog.output.info(`Cache hit for ${config.model}`);
+        trace.succeed({ cached: true, finishReason: cached.finishReason ?? 'stop', response: { content: cached.content, toolCalls: cached.toolCalls } });
+        return { content: cached.content, finishReason: cached.finishReason ?? 'stop', toolCalls: cached.toolCalls };
+      }
+    }
+    this.enforceBudget(config.model);
 
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    for (let attempt = 0; ; attempt++) {
+      const request = adapter.buildRequest({
+        model: config.model, messages, apiKey: config.apiKey, maxTokens, temperature, stream: false, tools, toolChoice, responseFormat,
+        reasoning: getReasoningSettings(),
+      });
+      const limitKey = await this.waitForRateLimit(adapter, config.apiKey, signal, options.usageMode);
       try {
-        const response = await axios.post<GroqResponse>(
-          this.baseUrl, request,
-          { headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' }, timeout: 30000 }
-        );
-        const choice = response.data?.choices?.[0];
-        const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
-        if (!content || !content.trim()) { throw new Error('Provider returned an empty response'); }
-        return { content, finishReason: choice?.finish_reason };
+        const response = await httpClient.request({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          data: request.body,
+          timeout: adapter.timeoutMs,
+          signal,
+        });
+        rateLimiter.update(limitKey, response.headers);
+        const result = GroqClient.separateReasoning(adapter.parseResponse(response.data));
+        if (cacheKey) { void responseCache.set(cacheKey, { content: result.content, finishReason: result.finishReason, toolCalls: result.toolCalls }); }
+        this.recordUsage(config.model, messages, result, options.usageMode);
+        trace.succeed({
+          finishReason: result.finishReason,
+          usage: result.usage,
+          response: { content: result.content, toolCalls: result.toolCalls },
+        });
+        return result;
       } catch (error: any) {
-        if (!axios.isAxiosError(error)) {
-          if (!this._inAutoFallback) {
-            vscode.window.showErrorMessage('Unexpected error communicating with Groq.');
-          }
-          throw error;
-        }
-        const status = error.response?.status;
-        const code = (error as any).code as string | undefined;
-        const apiMessage = (error.response as any)?.data?.error?.message || error.message;
-        const isRateLimit = status === 429;
-        const isTransient = !status && ['ENOTFOUND','ECONNRESET','ETIMEDOUT','EAI_AGAIN'].includes(code ?? '');
-        if (attempt < MAX_RETRIES && (isRateLimit || isTransient)) {
-          let backoffMs = 500 * Math.pow(2, attempt);
-          if (isRateLimit) {
-            const s = Number(error.response?.headers?.['retry-after']);
-            if (Number.isFinite(s) && s > 0) { backoffMs = Math.max(backoffMs, s * 1000); }
-          }
-          await this.sleep(backoffMs);
-          continue;
-        }
-        if (!this._inAutoFallback) {
-          vscode.window.showErrorMessage(
-            status ? `Groq API error (${status}): ${apiMessage}` : `Groq network error${code ? ` (${code})` : ''}: ${apiMessage}`
-          );
+        if (GroqClient.isCancellation(error) || !axios.isAxiosError(error)) { throw error; }
+        const failure = GroqClient.toProviderFailure(error);
+        const rateLimited = failure.status === 429;
+        // Every provider retries a 429 — except inside Auto, which moves on to the next model
+        const retry = (attempt < adapter.maxRetries ? adapter.retry?.(failure, attempt, maxTokens) : undefined)
+          ?? (rateLimited && !this._inAutoFallback && attempt < GroqClient.RATE_LIMIT_RETRIES ? {} : undefined);
+        // The limiter holds back every request on this key, and the next attempt waits in its queue
+        const pauseMs = rateLimited ? rateLimiter.penalize(limitKey, failure.headers, attempt, retry?.delayMs) : undefined;
+        if (!retry) {
+          throw adapter.mapError(failure, { model: config.model, url: request.url });
         }
-        throw error;
+        trace.retry({ status: failure.status, error: failure.message, delayMs: pauseMs ?? retry.delayMs, maxTokens: retry.maxTokens });
+        if (retry.maxTokens) { maxTokens = retry.maxTokens; }
+        if (retry.delayMs && !rateLimited) { await this.sleep(retry.delayMs, signal); }
       }
     }
-    throw new Error('Groq request failed after retries');
   }
 
-  /** OpenAI GPT models via api.openai.com (same REST format as Groq). */
-  private async requestOpenAI(
+  // ===========================
+  // CHAT COMPLETION
+  // ===========================
+  async complete(
     messages: GroqMessage[],
-    model: string,
-    apiKey: string,
-    options: { maxTokens: number; temperature: number }
-  ): Promise<GroqCompletionResult> {
-    try {
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        { model, messages, max_tokens: options.maxTokens, temperature: options.temperature },
-        { headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' }, timeout: 60000 }
-      );
-      const choice = response.data?.choices?.[0];
-      const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
-      if (!content) { throw new Error('OpenAI returned an empty response'); }
-      return { content, finishReason: choice?.finish_reason };
-    } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const apiMessage = error.response?.data?.error?.message || error.message;
-        if (status === 401) {
-          throw new Error(`OpenAI API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Details: ${apiMessage}`);
-        }
-        if (status === 429) {
-          throw new Error(`OpenAI rate limit exceeded (429). Please wait a moment and try again. Details: ${apiMessage}`);
-        }
-        if (status === 402 || status === 403) {
-          throw new Error(`OpenAI access denied (${status}). Check your billing/plan at platform.openai.com. Details: ${apiMessage}`);
-        }
-        throw new Error(`OpenAI API error (${status || 'network'}): ${apiMessage}`);
-      }
-      throw error;
-    }
+    cleanMarkdown = false,
+    signal?: AbortSignal,
+    task?: AutoTask
+  ): Promise<string> {
+    const result = await this.requestCompletion(messages, { signal, task });
+    return cleanMarkdown ? this.cleanResponse(result.content) : result.content;
   }
 
-  /** Anthropic Claude models — different message/response format. */
-  private async requestAnthropic(
+  /**
+   * Like `complete`, keeping what a reasoning model thought before
+   * answering apart from the answer, for the chat to show.
+   */
+  async completeWithReasoning(
     messages: GroqMessage[],
-    model: string,
-    apiKey: string,
-    options: { maxTokens: number; temperature: number }
-  ): Promise<GroqCompletionResult> {
-    // Anthropic separates system prompt from messages
-    let system: string | undefined;
-    const anthropicMessages: { role: 'user' | 'assistant'; content: string }[] = [];
-    for (const m of messages) {
-      const text = typeof m.content === 'string'
-        ? m.content
-        : (m.content as any[]).filter(p => p.type === 'text').map(p => p.text).join('\n');
-      if (m.role === 'system') { system = text; }
-      else { anthropicMessages.push({ role: m.role as 'user' | 'assistant', content: text }); }
-    }
-    const body: Record<string, any> = { model, max_tokens: options.maxTokens, messages: anthropicMessages };
-    if (system) { body.system = system; }
-    try {
-      const response = await axios.post(
-        'https://api.anthropic.com/v1/messages', body,
-        { headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'content-type': 'application/json' }, timeout: 60000 }
-      );
-      const content = response.data?.content?.[0]?.text ?? '';
-      if (!content) { throw new Error('Anthropic returned an empty response'); }
-      return { content, finishReason: response.data?.stop_reason === 'max_tokens' ? 'length' : (response.data?.stop_reason ?? 'stop') };
-    } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const apiMessage = error.response?.data?.error?.message || error.message;
-        if (status === 401) {
-          throw new Error(`Anthropic API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Get a key at console.anthropic.com/settings/keys`);
-        }
-        if (status === 429) {
-          throw new Error(`Anthropic rate limit exceeded (429). Please wait a moment and try again. Details: ${apiMessage}`);
-        }
-        if (status === 403) {
-          throw new Error(`Anthropic access denied (403). Check your account billing at console.anthropic.com. Details: ${apiMessage}`);
-        }
-        throw new Error(`Anthropic API error (${status || 'network'}): ${apiMessage}`);
-      }
-      throw error;
-    }
+    signal?: AbortSignal,
+    task?: AutoTask
+  ): Promise<{ content: string; reasoning?: string }> {
+    const result = await this.requestCompletion(messages, { signal, task });
+    return { content: result.content, reasoning: result.reasoning };
   }
 
-  /** Google Gemini models — different message/response format. */
-  private async requestGemini(
+  /**
+   * One model turn with tools available. The result carries the text and
+   * any tool calls; the caller runs the calls, appends an `assistant`
+   * message with `tool_calls` and one `tool` message per result, and calls
+   * again until the model answers without calling tools. With `onDelta`
+   * the turn is streamed and tool calls are assembled from their fragments.
+   * Auto mode only considers models the catalog lists as tool-capable.
+   */
+  async completeWithTools(
     messages: GroqMessage[],
-    model: string,
-    apiKey: string,
-    options: { maxTokens: number; temperature: number }
-  ): Promise<GroqCompletionResult> {
-    let systemInstruction: string | undefined;
-    const contents: { role: string; parts: { text: string }[] }[] = [];
-    for (const m of messages) {
-      const text = typeof m.content === 'string'
-        ? m.content
-        : (m.content as any[]).filter(p => p.type === 'text').map(p => p.text).join('\n');
-      if (m.role === 'system') { systemInstruction = text; }
-      else { contents.push({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text }] }); }
+    tools: GroqTool[],
+    options?: { toolChoice?: GroqToolChoice; signal?: AbortSignal; task?: AutoTask; onDelta?: (delta: string) => void }
+  ): Promise<GroqToolResponse> {
+    const { toolChoice, signal, onDelta } = options ?? {};
+    const task = options?.task ?? this.defaultTask();
+    if (!onDelta) {
+      const result = await this.requestCompletion(messages, { signal, task, tools, toolChoice });
+      return { content: result.content, toolCalls: result.toolCalls ?? [], finishReason: result.finishReason, usage: result.usage, reasoning: result.reasoning };
     }
-    const body: Record<string, any> = {
-      contents,
-      generationConfig: { maxOutputTokens: options.maxTokens, temperature: options.temperature },
+
+    const streamWith = async (modelId?: string): Promise<GroqToolResponse> => {
+      const config = this.getConfig(modelId);
+      if (!config.apiKey && GroqClient.requiresApiKey(config.provider)) {
+        throw new Error(`Missing API key for ${config.provider}`);
+      }
+      let content = '';
+      const result = await this.streamChatCompletion(config, messages, config.maxTokens, (delta) => {
+        content += delta;
+        onDelta(delta);
+      }, signal, { tools, toolChoice });
+      return { content, toolCalls: result.toolCalls ?? [], finishReason: result.finishReason, usage: result.usage, reasoning: result.reasoning };
     };
-    if (systemInstruction) { body.systemInstruction = { parts: [{ text: systemInstruction }] }; }
+    if (!this.isAutoMode()) { return streamWith(); }
+
+    const inputTokens = this.estimatePromptTokens(messages.map(m => GroqClient.contentToString(m.content)), task);
+    const primaryModel = this.resolveAutoModel(task, inputTokens);
+    const candidates = [primaryModel, ...this.getFallbackModels(primaryModel, task, inputTokens)];
+    const capable = candidates.filter(m => modelCatalog.supports(m, 'tools'));
+    let lastError: Error | null = null;
+
+    this._inAutoFallback = true;
     try {
-      const response = await axios.post(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        body,
-        { headers: { 'content-type': 'application/json' }, timeout: 60000 }
-      );
-      const content = response.data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
-      if (!content) { throw new Error('Gemini returned an empty response'); }
-      const rawFinish = response.data?.candidates?.[0]?.finishReason as string | undefined;
-      return { content, finishReason: rawFinish === 'MAX_TOKENS' ? 'length' : (rawFinish ?? 'stop') };
-    } catch (error: any) {
-      if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const apiMessage = error.response?.data?.error?.message || error.message;
-        if (status === 400 && apiMessage?.includes('API key')) {
-          throw new Error(`Gemini API key is invalid (400). Please update your key in Configure Tools (⚙️). Get a key at aistudio.google.com/app/apikey`);
-        }
-        if (status === 401 || status === 403) {
-          throw new Error(`Gemini API key is invalid or unauthorized (${status}). Please update your key in Configure Tools (⚙️). Get a key at aistudio.google.com/app/apikey`);
-        }
-        if (status === 429) {
-          throw new Error(`Gemini rate limit exceeded (429). Please wait a moment and try again. Details: ${apiMessage}`);
+      for (const modelId of capable.length > 0 ? capable : candidates) {
+        try {
+          traceLog.output.info(`Auto tools: trying ${modelId}`);
+          const result = await this.withModelHealth(modelId, () => streamWith(modelId));
+          this._lastResolvedModel = modelId;
+          this._lastResolvedTask = task;
+          return result;
+        } catch (err: any) {
+          lastError = err;
+          if (!this.isRetriableForFallback(err)) { throw err; }
+          traceLog.output.warn(`Auto tools: ${modelId} failed, trying next...`);
         }
-        throw new Error(`Gemini API error (${status || 'network'}): ${apiMessage}`);
       }
-      throw error;
+      throw lastError ?? new Error('All models failed in Auto tool-calling fallback.');
+    } finally {
+      this._inAutoFallback = false;
     }
   }
 
-  // ===========================
-  // CHAT COMPLETION
-  // ===========================
-  async complete(
+  /**
+   * Ask for a JSON value matching `schema` and return it parsed. Models with
+   * JSON mode get a native response format (a response schema where the
+   * provider has one); the schema is also spelled out in the system prompt
+   * for the rest. A reply that does not parse or validate is sent back with
+   * the errors for repair, up to `maxRepairs` times, before
+   * StructuredOutputError is thrown.
+   */
+  async generateStructured<T>(
     messages: GroqMessage[],
-    cleanMarkdown = false
-  ): Promise<string> {
-    const result = await this.requestCompletion(messages);
-    return cleanMarkdown ? this.cleanResponse(result.content) : result.content;
+    schema: JsonSchema,
+    options?: { name?: string; maxRepairs?: number; signal?: AbortSignal; task?: AutoTask }
+  ): Promise<T> {
+    const maxRepairs = options?.maxRepairs ?? 2;
+    const instruction = 'Respond with a single JSON value and nothing else — no Markdown fences, no commentary. '
+      + `It must validate against this JSON Schema:\n${JSON.stringify(schema, null, 2)}`;
+    // Anthropic and Gemini keep only one system prompt, so extend the caller's rather than adding another
+    const conversation: GroqMessage[] = messages[0]?.role === 'system'
+      ? [{ ...messages[0], content: `${GroqClient.contentToString(messages[0].content)}\n\n${instruction}` }, ...messages.slice(1)]
+      : [{ role: 'system', content: instruction }, ...messages];
+    const responseFormat = { name: options?.name ?? 'response', schema };
+
+    let errors: string[] = [];
+    let raw = '';
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const result = await this.requestCompletion(conversation, {
+        signal: options?.signal,
+        task: options?.task,
+        temperature: 0,
+        responseFormat,
+      });
+      raw = result.content;
+      try {
+        const value = extractJson(raw);
+        errors = validateJson(value, schema);
+        if (errors.length === 0) { return value as T; }
+      } catch (err: any) {
+        errors = [`not valid JSON (${err.message})`];
+      }
+      traceLog.output.warn(`Structured output: attempt ${attempt + 1} failed validation (${errors.length} error(s))`);
+      conversation.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `That reply does not match the schema:\n${errors.map(e => `- ${e}`).join('\n')}\n`
+            + 'Reply again with only the corrected JSON.',
+        }
+      );
+    }
+    throw new StructuredOutputError(errors, raw);
   }
 
   /**
-   * Multi-file / long-form completion with automatic continuation.
-   * Uses the same continuation strategy as generateCode() so that
+   * Multi-file / long-form completion with automatic continuation, so
    * large multi-file outputs are not truncated at maxTokens.
    */
   async completeWithContinuation(
     messages: GroqMessage[],
-    options?: { maxContinuations?: number }
+    options?: { maxContinuations?: number; signal?: AbortSignal }
   ): Promise<string> {
-    const config = this.getConfig();
-    const inputTokens = GroqClient.estimateTokens(
-      messages.map(m => GroqClient.contentToString(m.content)).join('')
+    const promptText = messages.map(m => GroqClient.contentToString(m.content)).join('');
+    const config = this.getConfig(
+      this.isAutoMode() ? this.resolveAutoModel('multiFile', this.estimatePromptTokens([promptText], 'multiFile')) : undefined
     );
-    const modelWindow = GroqClient.MODEL_WINDOWS[config.model] ?? 8_000;
+    const inputTokens = GroqClient.countTokens(promptText, config.model);
+    const modelWindow = modelCatalog.windowOf(config.model);
     // Use a generous maxTokens — at least 8192, up to what the model allows
     const maxTokens = Math.min(
       Math.max(config.maxTokens ?? 0, 8192),
       Math.max(modelWindow - inputTokens - 200, 2048)
     );
-    const MAX_CONTINUATIONS = options?.maxContinuations ?? 5;
-    const ASSISTANT_CONTEXT_CHARS = 6000;
-
-    let assembled = '';
-
-    for (let attempt = 0; attempt < MAX_CONTINUATIONS; attempt++) {
-      const callMessages: GroqMessage[] = attempt === 0
-        ? messages
-        : [
-            ...messages,
-            {
-              role: 'assistant' as const,
-              content: assembled.slice(-ASSISTANT_CONTEXT_CHARS)
-            },
-            {
-              role: 'user' as const,
-              content:
-                'Continue generating the remaining files. Pick up EXACTLY where you left off.\n' +
-                'Rules:\n' +
-                '- Do NOT repeat any content already generated.\n' +
-                '- Continue using the same ===FILE: path=== and ===END_FILE=== format.\n' +
-                '- If you were in the middle of a file, continue that file first.\n' +
-                '- Do NOT add any explanatory text.\n\n' +
-                'The output so far ends with:\n' +
-                assembled.slice(-1500)
-            }
-          ];
-
-      const result = await this.requestCompletion(callMessages, { maxTokens });
-      const piece = result.content;
-      assembled = this.appendAvoidingOverlap(assembled, piece);
-
-      // Stop if the model finished naturally (not cut off by token limit)
-      if (result.finishReason !== 'length') {
-        break;
-      }
-      console.log(`📄 Multi-file continuation ${attempt + 1}/${MAX_CONTINUATIONS} — output so far: ${assembled.length} chars`);
-    }
-
-    return assembled;
+    return runWithContinuation({
+      language: 'files',
+      maxContinuations: options?.maxContinuations ?? 4,
+      signal: options?.signal,
+      label: 'Multi-file',
+      request: (attempt, assembled) => this.requestCompletion(
+        attempt === 0 ? messages : continuationMessages(messages, assembled, 'files'),
+        { maxTokens, signal: options?.signal, task: 'multiFile' }
+      ),
+    });
   }
 
   // ===========================
@@ -869,23 +1141,18 @@ export class GroqClient {
   // ===========================
 
   /**
-   * Analyse a UI screenshot and generate code that reproduces it.
-   * Uses the Llama 4 Scout vision model with base64-encoded image.
-   * Supports continuation for large multi-file outputs.
+   * Analyse UI screenshots and generate code that reproduces them, on the
+   * selected model when it is vision-capable, else the first vision model
+   * with a key. Supports continuation for large multi-file outputs.
    */
   async imageToCode(
-    base64Image: string,
-    mimeType: string,
+    images: ImageAttachment[],
     instruction: string,
-    targetLanguage?: string
+    targetLanguage?: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const config = this.getConfig();
-    const apiKey = this.getApiKeyForModel(GroqClient.VISION_MODEL)
-      || config.apiKey;
-
-    if (!apiKey) {
-      throw new Error('No API key configured. Set an API key for the vision model (Llama 4 Scout) or a global key.');
-    }
+    const visionModel = this.resolveVisionModel();
+    let chosenModel = visionModel;
 
     const lang = targetLanguage || 'HTML/CSS/JavaScript';
 
@@ -917,106 +1184,112 @@ export class GroqClient {
       '- Start generating code IMMEDIATELY.',
     ].join('\n');
 
-    const userContent: GroqContentPart[] = [
-      {
-        type: 'image_url',
-        image_url: {
-          url: `data:${mimeType};base64,${base64Image}`
-        }
-      },
-      {
-        type: 'text',
-        text: instruction || `Recreate this UI exactly as shown in the image using ${lang}. Output production-ready code.`
-      }
-    ];
-
     const messages: GroqMessage[] = [
       { role: 'system', content: systemPrompt },
-      { role: 'user', content: userContent }
+      {
+        role: 'user',
+        content: withImages(
+          instruction || `Recreate this UI exactly as shown in the ${images.length > 1 ? 'images' : 'image'} using ${lang}. Output production-ready code.`,
+          images
+        )
+      }
     ];
 
     // Vision model: use larger maxTokens and continuation
     const maxTokens = 8192;
-    const MAX_CONTINUATIONS = 4;
-    const ASSISTANT_CONTEXT_CHARS = 4000;
-
-    let assembled = '';
-
-    for (let attempt = 0; attempt < MAX_CONTINUATIONS; attempt++) {
-      const callMessages: GroqMessage[] = attempt === 0
-        ? messages
-        : [
-            // For continuations, use text-only (no image resend — too large)
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: instruction || `Recreate this UI from the screenshot using ${lang}.` },
-            {
-              role: 'assistant',
-              content: assembled.slice(-ASSISTANT_CONTEXT_CHARS)
-            },
-            {
-              role: 'user',
-              content:
-                'Continue generating the remaining code. Pick up EXACTLY where you left off.\n' +
-                '- Do NOT repeat any content already generated.\n' +
-                '- Continue using the same format (===FILE: path=== if multi-file).\n' +
-                '- Do NOT add any explanatory text.\n\n' +
-                'The output so far ends with:\n' +
-                assembled.slice(-1200)
-            }
-          ];
-
-      // Use the vision model for the first call; any text model for continuations
-      const modelToUse = attempt === 0
-        ? GroqClient.VISION_MODEL
-        : (this._modelOverride ?? config.model);
-
-      // Route through OpenRouter if key is an OpenRouter key
-      const isOR = GroqClient.isOpenRouterKey(apiKey);
-      const finalModel = isOR ? GroqClient.toOpenRouterModel(modelToUse) : modelToUse;
-      const url = isOR ? GroqClient.OPENROUTER_URL : this.baseUrl;
-
-      const request = {
-        model: finalModel,
-        messages: callMessages,
-        max_tokens: maxTokens,
-        temperature: config.temperature,
-        stream: false
-      };
-
-      const headers: Record<string, string> = {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      };
-      if (isOR) {
-        headers['HTTP-Referer'] = 'https://github.com/Sujay149/Prompt2Code';
-        headers['X-Title'] = 'Prompt2Code';
-      }
+    // For continuations, use text-only (no image resend — too large)
+    const textOnlyMessages: GroqMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: instruction || `Recreate this UI from the screenshot using ${lang}.` },
+    ];
 
-      const response = await axios.post<GroqResponse>(
-        url,
-        request,
-        {
-          headers,
-          timeout: 60000  // Vision requests may be slower
+    return runWithContinuation({
+      language: lang,
+      maxContinuations: 3,
+      signal,
+      label: 'Vision',
+      request: async (attempt, assembled) => {
+        const callMessages = attempt === 0 ? messages : continuationMessages(textOnlyMessages, assembled, 'files');
+
+        // Continuations stay on the model that read the screenshots
+        if (attempt > 0) {
+          return this._requestCompletionForModel(callMessages, { signal, maxTokens }, chosenModel);
         }
-      );
-
-      const choice = response.data?.choices?.[0];
-      const content = choice?.message?.content;
-      if (!content || typeof content !== 'string') {
-        if (assembled) { break; }
-        throw new Error('Groq vision model returned an empty response');
-      }
+        // Auto falls back across the vision route; otherwise the vision model answers
+        const completion = await this.requestCompletion(callMessages, { signal, maxTokens, task: 'vision' });
+        chosenModel = this.isAutoMode() ? this._lastResolvedModel ?? visionModel : visionModel;
+        return completion;
+      },
+    });
+  }
 
-      assembled = this.appendAvoidingOverlap(assembled, content);
+  // ===========================
+  // MODEL COMPARISON
+  // ===========================
 
-      if (choice?.finish_reason !== 'length') {
-        break;
+  /**
+   * Send one conversation to several models at once and collect every
+   * answer with its latency and usage. Each request is pinned to its model
+   * — the session override and Auto's last pick are left alone — so the
+   * calls run in parallel; a model that fails gets an `error` instead of
+   * failing the others. Cancelling `signal` stops them all.
+   */
+  async compareModels(
+    messages: GroqMessage[],
+    modelIds: string[],
+    options?: { signal?: AbortSignal; task?: AutoTask; clean?: boolean }
+  ): Promise<ModelComparisonResult[]> {
+    const signal = options?.signal;
+    const results = await Promise.all(modelIds.map(async (model): Promise<ModelComparisonResult> => {
+      const started = Date.now();
+      const failed = (error: string): ModelComparisonResult => ({ model, content: '', latencyMs: Date.now() - started, error });
+      if (!this.hasApiKeyForModel(model)) {
+        return failed(`No API key for ${GroqClient.getProviderMeta(GroqClient.getProviderForModel(model)).name}.`);
       }
-      console.log(`🖼️ Vision continuation ${attempt + 1}/${MAX_CONTINUATIONS} — ${assembled.length} chars`);
-    }
+      if (GroqClient.hasImages(messages) && !modelCatalog.supports(model, 'vision')) {
+        return failed('This model does not accept images.');
+      }
+      try {
+        const result = await this._requestCompletionForModel(messages, { signal, task: options?.task }, model);
+        const content = options?.clean ? this.cleanResponse(result.content) : result.content;
+        const usage = result.usage ?? {
+          inputTokens: GroqClient.countTokens(messages.map(m => GroqClient.contentToString(m.content)).join('\n'), model),
+          outputTokens: GroqClient.countTokens(result.content, model),
+        };
+        return {
+          model,
+          content,
+          latencyMs: Date.now() - started,
+          usage,
+          usageEstimated: !result.usage,
+          costUsd: GroqClient.estimateCost(model, usage),
+        };
+      } catch (error: any) {
+        if (GroqClient.isCancellation(error)) { throw error; }
+        return failed(error?.message ?? String(error));
+      }
+    }));
+    GroqClient.throwIfAborted(signal);
+    return results;
+  }
 
-    return assembled;
+  /**
+   * Ask several models for the same code edit: each returns the full updated
+   * `currentCode` (a file or a selection), ready to apply, without fences.
+   */
+  async compareCodeEdits(
+    instruction: string,
+    language: string,
+    currentCode: string,
+    modelIds: string[],
+    context?: string,
+    signal?: AbortSignal
+  ): Promise<ModelComparisonResult[]> {
+    const messages: GroqMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt(language, instruction, true) },
+      { role: 'user', content: this.buildUserPrompt(instruction, language, context, currentCode) },
+    ];
+    return this.compareModels(messages, modelIds, { signal, task: 'edit', clean: true });
   }
 
   // ===========================
@@ -1025,7 +1298,8 @@ export class GroqClient {
   async generateCode(
     instruction: string,
     language: string,
-    context?: string
+    context?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const systemPrompt = this.buildSystemPrompt(language, instruction);
     const baseMessages: GroqMessage[] = [
@@ -1041,42 +1315,26 @@ export class GroqClient {
 
     // Make code generation more robust for full-file outputs.
     const config = this.getConfig();
-    const inputTokens = GroqClient.estimateTokens(
-      baseMessages.map(m => GroqClient.contentToString(m.content)).join('')
+    const inputTokens = GroqClient.countTokens(
+      baseMessages.map(m => GroqClient.contentToString(m.content)).join(''),
+      config.model
     );
-    const modelWindow = GroqClient.MODEL_WINDOWS[config.model] ?? 8_000;
+    const modelWindow = modelCatalog.windowOf(config.model);
     const maxTokens = Math.min(
       Math.max(config.maxTokens ?? 0, 2048),
       Math.max(modelWindow - inputTokens - 100, 512)
     );
-    const MAX_CONTINUATIONS = 4;
-    const ASSISTANT_CONTEXT_CHARS = 6000;
-
-    let assembled = '';
-
-    for (let attempt = 0; attempt < MAX_CONTINUATIONS; attempt++) {
-      const messages: GroqMessage[] = attempt === 0
-        ? baseMessages
-        : [
-            ...baseMessages,
-            {
-              role: 'assistant',
-              content: assembled.slice(-ASSISTANT_CONTEXT_CHARS)
-            },
-            {
-              role: 'user',
-              content: this.buildContinuationPrompt(assembled)
-            }
-          ];
-
-      const result = await this.requestCompletion(messages, { maxTokens });
-      const piece = this.cleanResponse(result.content);
-      assembled = this.appendAvoidingOverlap(assembled, piece);
-
-      if (result.finishReason !== 'length') {
-        break;
-      }
-    }
+    const assembled = await runWithContinuation({
+      language,
+      maxContinuations: 3,
+      signal,
+      label: 'Code generation',
+      request: async (attempt, soFar) => {
+        const messages = attempt === 0 ? baseMessages : continuationMessages(baseMessages, soFar, 'code');
+        const result = await this.requestCompletion(messages, { maxTokens, signal, task: 'edit' });
+        return { content: this.cleanPiece(result.content, attempt), finishReason: result.finishReason };
+      },
+    });
 
     return assembled.trim();
   }
@@ -1098,13 +1356,14 @@ export class GroqClient {
     selectedCode: string,
     surroundingContext: string,
     onChunk: (accumulated: string) => void,
-    extraContext?: string
+    extraContext?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     // Auto-mode: try with fallback
     if (this.isAutoMode()) {
-      return this._generateSectionEditWithFallback(instruction, language, selectedCode, surroundingContext, onChunk, extraContext);
+      return this._generateSectionEditWithFallback(instruction, language, selectedCode, surroundingContext, onChunk, extraContext, signal);
     }
-    return this._generateSectionEditCore(instruction, language, selectedCode, surroundingContext, onChunk, extraContext);
+    return this._generateSectionEditCore(instruction, language, selectedCode, surroundingContext, onChunk, extraContext, signal);
   }
 
   /** Auto-fallback wrapper for section edit. */
@@ -1114,10 +1373,12 @@ export class GroqClient {
     selectedCode: string,
     surroundingContext: string,
     onChunk: (accumulated: string) => void,
-    extraContext?: string
+    extraContext?: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const primaryModel = this.resolveAutoModel();
-    const fallbacks = this.getFallbackModels(primaryModel);
+    const inputTokens = this.estimatePromptTokens([instruction, selectedCode, surroundingContext, extraContext], 'edit');
+    const primaryModel = this.resolveAutoModel('edit', inputTokens);
+    const fallbacks = this.getFallbackModels(primaryModel, 'edit', inputTokens);
     const modelsToTry = [primaryModel, ...fallbacks];
     let lastError: Error | null = null;
 
@@ -1125,12 +1386,15 @@ export class GroqClient {
     try {
       for (const modelId of modelsToTry) {
         try {
-          console.log(`🤖 Auto section-edit: trying ${modelId}`);
+          traceLog.output.info(`Auto section-edit: trying ${modelId}`);
           const savedOverride = this._modelOverride;
           this._modelOverride = modelId;
           try {
-            const result = await this._generateSectionEditCore(instruction, language, selectedCode, surroundingContext, onChunk, extraContext);
+            const result = await this.withModelHealth(modelId, () =>
+              this._generateSectionEditCore(instruction, language, selectedCode, surroundingContext, onChunk, extraContext, signal)
+            );
             this._lastResolvedModel = modelId;
+            this._lastResolvedTask = 'edit';
             return result;
           } finally {
             this._modelOverride = savedOverride;
@@ -1138,7 +1402,7 @@ export class GroqClient {
         } catch (err: any) {
           lastError = err;
           if (!this.isRetriableForFallback(err)) { throw err; }
-          console.warn(`⚠️ Auto section-edit: ${modelId} failed, trying next...`);
+          traceLog.output.warn(`Auto section-edit: ${modelId} failed, trying next...`);
         }
       }
       throw lastError ?? new Error('All models failed in Auto section-edit fallback.');
@@ -1154,11 +1418,12 @@ export class GroqClient {
     selectedCode: string,
     surroundingContext: string,
     onChunk: (accumulated: string) => void,
-    extraContext?: string
+    extraContext?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const config = this.getConfig();
 
-    if (!config.apiKey) {
+    if (!config.apiKey && GroqClient.requiresApiKey(config.provider)) {
       if (!this._inAutoFallback) {
         vscode.window.showErrorMessage(`API key not set for model ${config.model}.`);
       }
@@ -1197,101 +1462,255 @@ export class GroqClient {
     userPrompt += '\n── END OF SELECTED CODE ──\n';
 
     if (extraContext) {
-      const budget = Math.floor(this.getContextCharBudget() * 0.3);
-      const trimmed = extraContext.length > budget
-        ? extraContext.slice(0, budget) + '\n/* ...trimmed... */\n'
-        : extraContext;
+      const budget = Math.floor(this.getContextTokenBudget() * 0.3);
+      const trimmed = this.truncateToTokens(extraContext, budget);
       userPrompt += '\nAdditional project context (reference only):\n' + trimmed;
     }
 
     userPrompt += '\n\nOutput ONLY the replacement code for the selected block. No markdown. No explanations.';
 
-    const inputTokens = GroqClient.estimateTokens(systemPrompt + userPrompt);
-    const modelWindow = GroqClient.MODEL_WINDOWS[config.model] ?? 8_000;
+    const inputTokens = GroqClient.countTokens(systemPrompt + userPrompt, config.model);
+    const modelWindow = modelCatalog.windowOf(config.model);
     const desiredOutput = Math.max(config.maxTokens ?? 0, 2048);
     const roomLeft = modelWindow - inputTokens - 100;
     const maxTokens = Math.min(desiredOutput, Math.max(roomLeft, 1500));
 
-    // Non-streaming fallback for Anthropic and Gemini
-    if (config.provider === 'anthropic' || config.provider === 'gemini') {
-      const result = await this.requestCompletion(
-        [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }],
-        { maxTokens }
-      );
-      const cleaned = this.cleanResponse(result.content);
-      onChunk(cleaned);
-      return cleaned;
+    let accumulated = '';
+
+    await this.streamChatCompletion(
+      config,
+      [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }],
+      maxTokens,
+      (delta) => {
+        accumulated += delta;
+        onChunk(accumulated);
+      },
+      signal
+    );
+
+    const cleaned = this.cleanResponse(accumulated);
+    onChunk(cleaned);
+    return cleaned;
+  }
+
+  /**
+   * Stream a chat completion from the config's provider, calling `onDelta`
+   * with each text fragment as it arrives. Resolves with the finish reason
+   * (and any tool calls, assembled from their fragments) once the stream
+   * ends; rejects on HTTP errors and in-stream error events. `<think>` text
+   * a model writes into its answer is held back from `onDelta` and resolved
+   * as `reasoning`. Identical requests are answered from the response cache.
+   */
+  private async streamChatCompletion(
+    config: { model: string; provider: string; apiKey: string; temperature: number },
+    messages: GroqMessage[],
+    maxTokens: number,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal,
+    tools?: { tools: GroqTool[]; toolChoice?: GroqToolChoice }
+  ): Promise<{ finishReason?: string; toolCalls?: GroqToolCall[]; usage?: ProviderUsage; reasoning?: string }> {
+    GroqClient.throwIfAborted(signal);
+    const trace = this.startTrace(
+      { model: config.model, provider: GroqClient.adapterFor(config.provider, config.apiKey).id, stream: true },
+      messages,
+      { maxTokens, temperature: config.temperature, tools: tools?.tools, toolChoice: tools?.toolChoice }
+    );
+    let streamed = '';
+    let answer = '';
+    const thinkTags = new ThinkTagFilter();
+
+    try {
+      // A cached answer is replayed as a single delta
+      const cacheKey = responseCache.isEligible(config.temperature)
+        ? GroqClient.cacheKeyFor(GroqClient.adapterFor(config.provider, config.apiKey), config.model, tools ? { messages, ...tools } : messages, maxTokens, config.temperature)
+        : undefined;
+      if (cacheKey) {
+        const cached = await responseCache.get(cacheKey);
+        if (cached) {
+          traceLog.output.info(`Cache hit for ${config.model} (stream)`);
+          if (cached.content) { onDelta(cached.content); }
+          trace.succeed({ cached: true, finishReason: cached.finishReason, response: { content: cached.content, toolCalls: cached.toolCalls } });
+          return { finishReason: cached.finishReason, toolCalls: cached.toolCalls };
+        }
+      }
+      this.enforceBudget(config.model);
+      const emit = (text: string) => {
+        if (!text) { return; }
+        answer += text;
+        onDelta(text);
+      };
+      const result = await this.streamWithRateLimitRetry(() => this._streamFromNetwork(config, messages, maxTokens, (delta) => {
+        streamed += delta;
+        emit(thinkTags.push(delta));
+      }, signal, tools), () => !streamed);
+      emit(thinkTags.end());
+      // Usage is estimated from everything the model wrote, thinking included
+      this.recordUsage(config.model, messages, { content: streamed, usage: result.usage });
+      if (cacheKey && (answer || result.toolCalls) && !signal?.aborted) {
+        void responseCache.set(cacheKey, { content: answer, finishReason: result.finishReason, toolCalls: result.toolCalls });
+      }
+      trace.succeed({ finishReason: result.finishReason, usage: result.usage, response: { content: streamed, toolCalls: result.toolCalls } });
+      const reasoning = [result.reasoning, thinkTags.reasoning].filter(Boolean).join('\n\n') || undefined;
+      return { finishReason: result.finishReason, toolCalls: result.toolCalls, usage: result.usage, reasoning };
+    } catch (error) {
+      // Keep what arrived before the failure — often the most useful part of a trace
+      trace.fail(error, streamed);
+      throw error;
     }
+  }
 
-    const body = JSON.stringify({
-      model: config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      max_tokens: maxTokens,
-      temperature: config.temperature,
-      stream: true
-    });
+  /**
+   * Retry a stream refused with a 429 while nothing has been shown yet; the
+   * limiter's pause (and the chat's countdown) happens in the next attempt.
+   * Auto does not wait — it moves on to the next model.
+   */
+  private async streamWithRateLimitRetry<T>(send: () => Promise<T>, nothingShown: () => boolean): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        const retriable = GroqClient.isRateLimited(error) && nothingShown() && !this._inAutoFallback;
+        if (!retriable || attempt >= GroqClient.RATE_LIMIT_RETRIES) { throw error; }
+        traceLog.output.warn(`Stream rate-limited — retrying (${attempt + 1}/${GroqClient.RATE_LIMIT_RETRIES})`);
+      }
+    }
+  }
 
-    let accumulated = '';
+  /**
+   * Merge streamed tool-call fragments into `calls`: fragments sharing an
+   * index extend the same call, index-less fragments are whole calls.
+   */
+  private static accumulateToolCalls(calls: Map<number, GroqToolCall>, deltas: ProviderToolCallDelta[]): void {
+    for (const d of deltas) {
+      // Providers either index every fragment or send whole calls, never a mix
+      const index = d.index ?? calls.size;
+      let call = calls.get(index);
+      if (!call) {
+        call = { id: d.id ?? `call_${calls.size}`, type: 'function', function: { name: '', arguments: '' } };
+        calls.set(index, call);
+      }
+      if (d.id) { call.id = d.id; }
+      if (d.name) { call.function.name += d.name; }
+      if (d.arguments) { call.function.arguments += d.arguments; }
+    }
+  }
 
-    await new Promise<void>((resolve, reject) => {
-      const url = new URL(config.baseUrl);
-      const options: https.RequestOptions = {
+  /** Move `<think>` reasoning that a model wrote into its answer over to `reasoning`. */
+  private static separateReasoning<T extends ProviderCompletion>(result: T): T {
+    const { content, reasoning } = splitThinkTags(result.content);
+    if (content === result.content) { return result; }
+    return { ...result, content, reasoning: [result.reasoning, reasoning].filter(Boolean).join('\n\n') || undefined };
+  }
+
+  /**
+   * Send a streaming request and feed each SSE delta to `onDelta`.
+   * Reasoning deltas are collected apart and never reach `onDelta`.
+   */
+  private async _streamFromNetwork(
+    config: { model: string; provider: string; apiKey: string; temperature: number },
+    messages: GroqMessage[],
+    maxTokens: number,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal,
+    tools?: { tools: GroqTool[]; toolChoice?: GroqToolChoice }
+  ): Promise<{ finishReason?: string; usage?: ProviderUsage; toolCalls?: GroqToolCall[]; reasoning?: string }> {
+    const adapter = GroqClient.adapterFor(config.provider, config.apiKey);
+    adapter.checkConfigured?.();
+    const { url: rawUrl, headers, body } = adapter.buildRequest({
+      model: config.model, messages, apiKey: config.apiKey, maxTokens, temperature: config.temperature, stream: true,
+      tools: tools?.tools, toolChoice: tools?.toolChoice, reasoning: getReasoningSettings(),
+    });
+    const url = new URL(rawUrl);
+    const errorContext = { model: config.model, url: rawUrl };
+    const limitKey = await this.waitForRateLimit(adapter, config.apiKey, signal);
+
+    return new Promise<{ finishReason?: string; usage?: ProviderUsage; toolCalls?: GroqToolCall[]; reasoning?: string }>((resolve, reject) => {
+      let finishReason: string | undefined;
+      let reasoning = '';
+      let usage: Partial<ProviderUsage> = {};
+      const toolCalls = new Map<number, GroqToolCall>();
+
+      // Local servers (http://localhost:11434) need plain http and an explicit port;
+      // the traffic recorder picks http or https and records or replays the exchange
+      const req = trafficRecorder.request(url, {
         hostname: url.hostname,
-        path: url.pathname,
+        port: url.port || undefined,
+        path: url.pathname + url.search,
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream'
+        headers,
+        agent: agentFor(url),
+        signal
+      }, (res: http.IncomingMessage) => {
+        if (res.statusCode === 429) {
+          rateLimiter.penalize(limitKey, res.headers);
+        } else {
+          rateLimiter.update(limitKey, res.headers);
         }
-      };
-
-      const req = https.request(options, (res: http.IncomingMessage) => {
         if (res.statusCode && res.statusCode >= 400) {
-          let errBody = '';
-          res.on('data', (d: Buffer) => { errBody += d.toString(); });
+          const errChunks: Buffer[] = [];
+          res.on('data', (d: Buffer) => { errChunks.push(Buffer.from(d)); });
           res.on('end', () => {
-            reject(new Error(`API error (${res.statusCode}): ${errBody}`));
+            const errBody = Buffer.concat(errChunks).toString('utf8');
+            let message = errBody;
+            try {
+              const parsed = JSON.parse(errBody);
+              message = (Array.isArray(parsed) ? parsed[0] : parsed)?.error?.message || errBody;
+            } catch { /* not JSON — keep the raw body */ }
+            reject(adapter.mapError({ status: res.statusCode, message, headers: res.headers }, errorContext));
           });
           return;
         }
 
-        let buffer = '';
-        res.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || !trimmed.startsWith('data: ')) { continue; }
-            const data = trimmed.slice(6);
-            if (data === '[DONE]') { continue; }
+        const decoder = new SseDecoder();
+        let failed = false;
+        const handle = (events: SseEvent[]) => {
+          for (const sse of events) {
+            if (failed) { return; }
+            let event: ProviderStreamEvent | undefined;
             try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-              if (delta) {
-                accumulated += delta;
-                onChunk(accumulated);
-              }
-            } catch { /* skip */ }
+              event = decodeStreamEvent(adapter, sse);
+            } catch (err) {
+              failed = true;
+              req.destroy();
+              reject(err);
+              return;
+            }
+            if (!event) { continue; }
+            if (event.finishReason) { finishReason = event.finishReason; }
+            if (event.usage) { usage = { ...usage, ...event.usage }; }
+            if (event.toolCalls) { GroqClient.accumulateToolCalls(toolCalls, event.toolCalls); }
+            if (event.reasoningDelta) { reasoning += event.reasoningDelta; }
+            if (event.delta) { onDelta(event.delta); }
           }
-        });
+        };
 
-        res.on('end', () => resolve());
-        res.on('error', (e: Error) => reject(e));
+        res.on('data', (chunk: Buffer) => handle(decoder.push(chunk)));
+
+        res.on('end', () => {
+          // The last event may arrive without its closing blank line
+          handle(decoder.end());
+          if (failed) { return; }
+          const calls = [...toolCalls.entries()].sort((a, b) => a[0] - b[0]).map(([, call]) => call);
+          resolve({
+            // Some providers end a tool-calling turn with a plain stop
+            finishReason: calls.length > 0 && finishReason !== 'length' ? 'tool_calls' : finishReason,
+            usage: usage.inputTokens !== undefined
+              ? { ...usage, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens ?? 0 }
+              : undefined,
+            toolCalls: calls.length > 0 ? calls : undefined,
+            reasoning: reasoning || undefined,
+          });
+        });
+        res.on('error', (e: Error) => reject(signal?.aborted ? new RequestCancelledError() : e));
       });
 
-      req.on('error', (e: Error) => reject(e));
-      req.write(body);
+      req.on('error', (e: NodeJS.ErrnoException) => {
+        if (signal?.aborted) { reject(new RequestCancelledError()); return; }
+        reject(adapter.mapError({ message: e.message, code: e.code }, errorContext));
+      });
+      req.write(JSON.stringify(body));
       req.end();
     });
-
-    const cleaned = this.cleanResponse(accumulated);
-    onChunk(cleaned);
-    return cleaned;
   }
 
   // ===========================
@@ -1311,13 +1730,14 @@ export class GroqClient {
     language: string,
     onChunk: (accumulated: string) => void,
     context?: string,
-    currentFileContent?: string
+    currentFileContent?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     // Auto-mode: try with fallback
     if (this.isAutoMode()) {
-      return this._generateCodeStreamingWithFallback(instruction, language, onChunk, context, currentFileContent);
+      return this._generateCodeStreamingWithFallback(instruction, language, onChunk, context, currentFileContent, signal);
     }
-    return this._generateCodeStreamingCore(instruction, language, onChunk, context, currentFileContent);
+    return this._generateCodeStreamingCore(instruction, language, onChunk, context, currentFileContent, signal);
   }
 
   /** Auto-fallback wrapper for streaming code generation. */
@@ -1326,10 +1746,12 @@ export class GroqClient {
     language: string,
     onChunk: (accumulated: string) => void,
     context?: string,
-    currentFileContent?: string
+    currentFileContent?: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const primaryModel = this.resolveAutoModel();
-    const fallbacks = this.getFallbackModels(primaryModel);
+    const inputTokens = this.estimatePromptTokens([instruction, context, currentFileContent], 'edit');
+    const primaryModel = this.resolveAutoModel('edit', inputTokens);
+    const fallbacks = this.getFallbackModels(primaryModel, 'edit', inputTokens);
     const modelsToTry = [primaryModel, ...fallbacks];
     let lastError: Error | null = null;
 
@@ -1337,15 +1759,18 @@ export class GroqClient {
     try {
       for (const modelId of modelsToTry) {
         try {
-          const modelLabel = GroqClient.AVAILABLE_MODELS.find(m => m.id === modelId)?.label ?? modelId;
-          console.log(`🤖 Auto stream: trying ${modelLabel}`);
+          const modelLabel = modelCatalog.get(modelId)?.label ?? modelId;
+          traceLog.output.info(`Auto stream: trying ${modelLabel}`);
 
           // Temporarily set override to this model
           const savedOverride = this._modelOverride;
           this._modelOverride = modelId;
           try {
-            const result = await this._generateCodeStreamingCore(instruction, language, onChunk, context, currentFileContent);
+            const result = await this.withModelHealth(modelId, () =>
+              this._generateCodeStreamingCore(instruction, language, onChunk, context, currentFileContent, signal)
+            );
             this._lastResolvedModel = modelId;
+            this._lastResolvedTask = 'edit';
             return result;
           } finally {
             this._modelOverride = savedOverride;
@@ -1353,7 +1778,7 @@ export class GroqClient {
         } catch (err: any) {
           lastError = err;
           if (!this.isRetriableForFallback(err)) { throw err; }
-          console.warn(`⚠️ Auto stream: ${modelId} failed, trying next...`);
+          traceLog.output.warn(`Auto stream: ${modelId} failed, trying next...`);
         }
       }
       throw lastError ?? new Error('All models failed in Auto streaming fallback.');
@@ -1368,11 +1793,12 @@ export class GroqClient {
     language: string,
     onChunk: (accumulated: string) => void,
     context?: string,
-    currentFileContent?: string
+    currentFileContent?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const config = this.getConfig();
 
-    if (!config.apiKey) {
+    if (!config.apiKey && GroqClient.requiresApiKey(config.provider)) {
       if (!this._inAutoFallback) {
         vscode.window.showErrorMessage(`API key not set for model ${config.model}.`);
       }
@@ -1382,190 +1808,37 @@ export class GroqClient {
     const systemPrompt = this.buildSystemPrompt(language, instruction, !!currentFileContent);
     const userPrompt = this.buildUserPrompt(instruction, language, context, currentFileContent);
 
-    const inputTokens = GroqClient.estimateTokens(systemPrompt + userPrompt);
-    const modelWindow = GroqClient.MODEL_WINDOWS[config.model] ?? 8_000;
+    const inputTokens = GroqClient.countTokens(systemPrompt + userPrompt, config.model);
+    const modelWindow = modelCatalog.windowOf(config.model);
     const desiredOutput = Math.max(config.maxTokens ?? 0, 2048);
     const roomLeft = modelWindow - inputTokens - 100;
     const maxTokens = Math.min(desiredOutput, Math.max(roomLeft, 1500));
 
-    // Non-streaming fallback for Anthropic and Gemini
-    if (config.provider === 'anthropic' || config.provider === 'gemini') {
-      const result = await this.requestCompletion(
-        [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }],
-        { maxTokens }
-      );
-      const cleaned = this.cleanResponse(result.content);
-      onChunk(cleaned);
-      return cleaned;
-    }
-
-    const body = JSON.stringify({
-      model: config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      max_tokens: maxTokens,
-      temperature: config.temperature,
-      stream: true
-    });
-
-    let accumulated = '';
-
-    await new Promise<void>((resolve, reject) => {
-      const url = new URL(config.baseUrl);
-      const options: https.RequestOptions = {
-        hostname: url.hostname,
-        path: url.pathname,
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream'
-        }
-      };
-
-      const req = https.request(options, (res: http.IncomingMessage) => {
-        if (res.statusCode && res.statusCode >= 400) {
-          let errBody = '';
-          res.on('data', (d: Buffer) => { errBody += d.toString(); });
-          res.on('end', () => {
-            reject(new Error(`API error (${res.statusCode}): ${errBody}`));
-          });
-          return;
-        }
-
-        let buffer = '';
-
-        res.on('data', (chunk: Buffer) => {
-          buffer += chunk.toString();
-
-          // Process complete SSE lines
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // keep incomplete line in buffer
-
-          for (const line of lines) {
-            const trimmed = line.trim();
-            if (!trimmed || !trimmed.startsWith('data: ')) { continue; }
-
-            const data = trimmed.slice(6); // strip "data: "
-            if (data === '[DONE]') { continue; }
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-              if (delta) {
-                accumulated += delta;
-                onChunk(accumulated);
-              }
-            } catch {
-              // skip malformed JSON
-            }
-          }
-        });
-
-        res.on('end', () => resolve());
-        res.on('error', (e: Error) => reject(e));
-      });
-
-      req.on('error', (e: Error) => reject(e));
-      req.write(body);
-      req.end();
+    const baseMessages: GroqMessage[] = [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }];
+
+    const assembled = await runWithContinuation({
+      language,
+      maxContinuations: 2,
+      signal,
+      label: 'Streaming generation',
+      request: async (attempt, soFar) => {
+        let accumulated = '';
+        const { finishReason } = await this.streamChatCompletion(
+          config,
+          attempt === 0 ? baseMessages : continuationMessages(baseMessages, soFar, 'code'),
+          maxTokens,
+          (delta) => {
+            accumulated += delta;
+            // Continuations update the editor with the stitched output so far
+            onChunk(attempt === 0 ? accumulated : stitchContinuation(soFar, this.cleanPiece(accumulated, attempt)));
+          },
+          signal
+        );
+        return { content: this.cleanPiece(accumulated, attempt), finishReason };
+      },
     });
 
-    // Clean the accumulated response (strip markdown fences if any)
-    let cleaned = this.cleanResponse(accumulated);
-
-    // ── Auto-continuation: if the output looks truncated, ask for more ──
-    const MAX_CONTINUATIONS = 2;
-    for (let cont = 0; cont < MAX_CONTINUATIONS; cont++) {
-      if (!this.looksIncomplete(cleaned, language)) { break; }
-
-      console.log(`🔄 Output looks truncated — sending continuation request ${cont + 1}`);
-
-      const contPrompt = this.buildContinuationPrompt(cleaned);
-      const contSystemPrompt = 'Continue the code output exactly where it left off. '
-        + 'Output ONLY the remaining code. No markdown. No code fences. No explanations. '
-        + 'Do NOT repeat any code that was already output.';
-
-      const contInputTokens = GroqClient.estimateTokens(contSystemPrompt + contPrompt);
-      const contMaxTokens = Math.min(
-        desiredOutput,
-        Math.max(modelWindow - contInputTokens - 100, 1500)
-      );
-
-      let contAccumulated = '';
-      await new Promise<void>((resolve, reject) => {
-        const contBody = JSON.stringify({
-          model: config.model,
-          messages: [
-            { role: 'system', content: contSystemPrompt },
-            { role: 'user', content: contPrompt }
-          ],
-          max_tokens: contMaxTokens,
-          temperature: config.temperature,
-          stream: true
-        });
-
-        const url = new URL(config.baseUrl);
-        const contOptions: https.RequestOptions = {
-          hostname: url.hostname,
-          path: url.pathname,
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${config.apiKey}`,
-            'Content-Type': 'application/json',
-            'Accept': 'text/event-stream'
-          }
-        };
-
-        const contReq = https.request(contOptions, (res: http.IncomingMessage) => {
-          if (res.statusCode && res.statusCode >= 400) {
-            let errBody = '';
-            res.on('data', (d: Buffer) => { errBody += d.toString(); });
-            res.on('end', () => {
-              console.warn(`Continuation request failed (${res.statusCode}): ${errBody}`);
-              resolve(); // don't reject — return what we have
-            });
-            return;
-          }
-
-          let buffer = '';
-          res.on('data', (chunk: Buffer) => {
-            buffer += chunk.toString();
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
-            for (const line of lines) {
-              const trimmed = line.trim();
-              if (!trimmed || !trimmed.startsWith('data: ')) { continue; }
-              const data = trimmed.slice(6);
-              if (data === '[DONE]') { continue; }
-              try {
-                const parsed = JSON.parse(data);
-                const delta = parsed.choices?.[0]?.delta?.content;
-                if (delta) {
-                  contAccumulated += delta;
-                  // Update the editor with combined output
-                  onChunk(cleaned + '\n' + this.cleanResponse(contAccumulated));
-                }
-              } catch { /* skip */ }
-            }
-          });
-          res.on('end', () => resolve());
-          res.on('error', () => resolve());
-        });
-
-        contReq.on('error', () => resolve());
-        contReq.write(contBody);
-        contReq.end();
-      });
-
-      if (contAccumulated.trim()) {
-        const cleanedCont = this.cleanResponse(contAccumulated);
-        cleaned = this.appendAvoidingOverlap(cleaned, '\n' + cleanedCont);
-      }
-    }
-
+    const cleaned = assembled.trim();
     onChunk(cleaned);
     return cleaned;
   }
@@ -1576,7 +1849,8 @@ export class GroqClient {
   async inlineComplete(
     prefix: string,
     suffix: string,
-    language: string
+    language: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const messages: GroqMessage[] = [
       {
@@ -1601,14 +1875,16 @@ Complete the code at the cursor position.`
       }
     ];
 
-    return this.complete(messages, true);
+    const result = await this.requestCompletion(messages, { signal, usageMode: 'inline', task: 'inline' });
+    return this.cleanResponse(result.content);
   }
 
   // ===========================
   // HELPERS
   // ===========================
   private cleanResponse(text: string): string {
-    const trimmed = text.trim();
+    // Reasoning a model wrote inline never belongs in the code
+    const trimmed = splitThinkTags(text).content.trim();
 
     // If the model replied with a fenced code block, unwrap it (keep the code).
     // Prefer the *first* fenced block.
@@ -1626,66 +1902,13 @@ Complete the code at the cursor position.`
     return trimmed;
   }
 
-  private buildContinuationPrompt(current: string): string {
-    const tail = current.slice(-1200);
-    return (
-      'Continue the code output.\n' +
-      'Rules:\n' +
-      '- Output ONLY code.\n' +
-      '- Do NOT use markdown or code fences.\n' +
-      '- Do NOT repeat anything already output.\n' +
-      '- Continue exactly after the last character.\n\n' +
-      'The output so far ends with:\n' +
-      tail
-    );
-  }
-
-  private appendAvoidingOverlap(current: string, addition: string): string {
-    if (!current) return addition;
-    if (!addition) return current;
-
-    const maxOverlap = Math.min(500, current.length, addition.length);
-    for (let overlap = maxOverlap; overlap > 0; overlap--) {
-      if (current.endsWith(addition.slice(0, overlap))) {
-        return current + addition.slice(overlap);
-      }
-    }
-    return current + addition;
-  }
-
   /**
-   * Heuristic: does the generated code look truncated / incomplete?
-   * Checks for unclosed tags, braces, parentheses, etc.
+   * Clean one piece of a continued generation. Continuations keep their
+   * leading whitespace unless fenced, so the join with the previous piece
+   * stays as the model wrote it.
    */
-  private looksIncomplete(code: string, language: string): boolean {
-    const trimmed = code.trim();
-    if (!trimmed || trimmed.length < 50) { return false; }
-
-    const lang = language.toLowerCase();
-
-    // HTML: must end with </html> (allow trailing whitespace)
-    if (lang === 'html' || lang === 'htm') {
-      return !/<\/html\s*>\s*$/i.test(trimmed);
-    }
-
-    // JSX/TSX/React: check balanced braces and parens
-    if (/react|jsx|tsx/i.test(lang)) {
-      const opens = (trimmed.match(/[{(]/g) || []).length;
-      const closes = (trimmed.match(/[})]/g) || []).length;
-      return opens > closes;
-    }
-
-    // CSS/SCSS: check balanced braces
-    if (lang === 'css' || lang === 'scss') {
-      const opens = (trimmed.match(/{/g) || []).length;
-      const closes = (trimmed.match(/}/g) || []).length;
-      return opens > closes;
-    }
-
-    // JS/TS and general: check balanced braces + parens
-    const opens = (trimmed.match(/[{([]/g) || []).length;
-    const closes = (trimmed.match(/[})]/g) || []).length;
-    return opens > closes;
+  private cleanPiece(text: string, attempt: number): string {
+    return attempt === 0 || text.includes('```') ? this.cleanResponse(text) : text;
   }
 
   // ===========================
@@ -1832,11 +2055,9 @@ Complete the code at the cursor position.`
 
     // ── Current file content (UPDATE mode) ──
     if (currentFileContent) {
-      const charBudget = this.getContextCharBudget();
-      const fileBudget = Math.floor(charBudget * 0.6);
-      const trimmedFile = currentFileContent.length > fileBudget
-        ? currentFileContent.slice(0, fileBudget) + '\n/* ...file truncated to fit model limits... */\n'
-        : currentFileContent;
+      const tokenBudget = this.getContextTokenBudget();
+      const fileBudget = Math.floor(tokenBudget * 0.6);
+      const trimmedFile = this.truncateToTokens(currentFileContent, fileBudget, '\n/* ...file truncated to fit model limits... */\n');
 
       prompt += '\n========== CURRENT FILE (UPDATE THIS — DO NOT REWRITE FROM SCRATCH) ==========\n';
       prompt += 'Modify this existing code. Apply ONLY the requested changes.\n';
@@ -1847,10 +2068,8 @@ Complete the code at the cursor position.`
       prompt += '\n\n========== END OF CURRENT FILE ==========\n';
 
       if (context) {
-        const ctxBudget = Math.floor(charBudget * 0.4);
-        const trimmedContext = context.length > ctxBudget
-          ? context.slice(0, ctxBudget) + '\n/* ...context trimmed... */\n'
-          : context;
+        const ctxBudget = Math.floor(tokenBudget * 0.4);
+        const trimmedContext = this.truncateToTokens(context, ctxBudget, '\n/* ...context trimmed... */\n');
         prompt += '\n── Relevant Project Context ──\n';
         prompt += 'Use this context to understand how the project is structured and follow existing patterns.\n';
         prompt += 'Avoid generating duplicate functionality if similar code already exists.\n';
@@ -1858,10 +2077,7 @@ Complete the code at the cursor position.`
         prompt += trimmedContext;
       }
     } else if (context) {
-      const charBudget = this.getContextCharBudget();
-      const trimmedContext = context.length > charBudget
-        ? context.slice(0, charBudget) + '\n/* ...context trimmed to fit model limits... */\n'
-        : context;
+      const trimmedContext = this.truncateToTokens(context, this.getContextTokenBudget(), '\n/* ...context trimmed to fit model limits... */\n');
 
       prompt += '\n── Relevant Project Context ──\n';
       prompt += 'Use this context to understand how the project is structured and follow existing patterns.\n';
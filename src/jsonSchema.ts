@@ -0,0 +1,135 @@
+/**
+ * The JSON Schema subset that structured output uses. Providers with
+ * native schema support accept the same subset, so one schema serves both
+ * the request and the validation of the reply.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/** Stop collecting after this many errors — a repair prompt does not need all of them. */
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) { return 'null'; }
+  if (Array.isArray(value)) { return 'array'; }
+  if (typeof value === 'number') { return Number.isInteger(value) ? 'integer' : 'number'; }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Check a parsed JSON value against a schema. Returns one readable message
+ * per problem, each starting with the JSON path (`$.files[2].path: …`);
+ * an empty array means the value is valid.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const fail = (message: string) => { if (errors.length < MAX_ERRORS) { errors.push(`${path}: ${message}`); } };
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    fail(`must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) { fail(`must be at least ${schema.minLength} characters`); }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) { fail(`must be at most ${schema.maxLength} characters`); }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) { fail(`must match /${schema.pattern}/`); }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) { fail(`must be >= ${schema.minimum}`); }
+    if (schema.maximum !== undefined && value > schema.maximum) { fail(`must be <= ${schema.maximum}`); }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) { fail(`must have at least ${schema.minItems} items`); }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) { fail(`must have at most ${schema.maxItems} items`); }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) { fail(`missing required property "${key}"`); }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        errors.push(...validateJson(child, propSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJson(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const sub of schema.allOf) { errors.push(...validateJson(value, sub, path)); }
+  }
+  if (schema.anyOf && !schema.anyOf.some(sub => validateJson(value, sub, path).length === 0)) {
+    fail('does not match any of the allowed shapes');
+  }
+  if (schema.oneOf && schema.oneOf.filter(sub => validateJson(value, sub, path).length === 0).length !== 1) {
+    fail('must match exactly one of the allowed shapes');
+  }
+
+  return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Pull the JSON value out of a model reply: strips Markdown fences and any
+ * prose around the outermost object or array. Throws a SyntaxError when no
+ * JSON can be parsed.
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to the lenient extraction below
+  }
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/i.exec(trimmed);
+  if (fenced) {
+    try { return JSON.parse(fenced[1].trim()); } catch { /* try the bracket scan */ }
+  }
+  const start = trimmed.search(/[{[]/);
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+  if (start < 0 || end <= start) { throw new SyntaxError('no JSON object or array found in the reply'); }
+  return JSON.parse(trimmed.slice(start, end + 1));
+}
@@ -0,0 +1,392 @@
+import { httpClient } from './httpTransport';
+import * as vscode from 'vscode';
+import { getProviderAdapter } from './providers/registry';
+import { getCustomEndpointConfig } from './providers/custom';
+import { azureModelId, getAzureOpenAIConfig } from './providers/azure';
+import { isOpenRouterKey } from './providers/openrouter';
+import { ProviderModelInfo } from './providers/types';
+import { traceLog } from './traceLog';
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** What a model can do beyond plain chat. */
+export interface ModelCapabilities {
+  vision: boolean;
+  tools: boolean;
+  jsonMode: boolean;
+  reasoning: boolean;
+}
+
+/**
+ * Where a catalog entry came from: shipped with the extension, discovered
+ * from a provider's `/models` listing, declared in `prompt2code.models`,
+ * served by the custom endpoint, or an Azure OpenAI deployment.
+ */
+export type ModelSource = 'builtin' | 'provider' | 'user' | 'custom' | 'azure';
+
+export interface CatalogModel {
+  id: string;
+  label: string;
+  provider: string;
+  /** Context window in tokens. */
+  contextWindow: number;
+  /** Window as the selector shows it (128K, 1M, …). */
+  ctx: string;
+  /** List price, used for usage/cost accounting and budgets. */
+  price?: ModelPrice;
+  capabilities: ModelCapabilities;
+  /** Model ID on OpenRouter, when it differs from `id`. */
+  openRouterId?: string;
+  /** The catalog model an Azure deployment serves; Auto tries the deployment wherever it would try that model. */
+  baseModel?: string;
+  source: ModelSource;
+  /** A built-in model the provider no longer lists; kept for lookups but hidden from the picker and Auto. */
+  retired?: boolean;
+}
+
+/** A model declared in the `prompt2code.models` setting. */
+interface UserModelSetting {
+  id: string;
+  provider?: string;
+  label?: string;
+  contextWindow?: number;
+  price?: ModelPrice;
+  capabilities?: Partial<ModelCapabilities>;
+  openRouterId?: string;
+}
+
+type BuiltinModel = Omit<CatalogModel, 'ctx' | 'source' | 'capabilities'> & { caps: (keyof ModelCapabilities)[] };
+
+/** Models shipped with the extension; provider listings refresh their windows and retire the ones that are gone. */
+const BUILTIN_MODELS: BuiltinModel[] = [
+  // ── Groq ──
+  { id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70B', provider: 'groq', contextWindow: 128_000, price: { input: 0.59, output: 0.79 }, caps: ['tools', 'jsonMode'], openRouterId: 'meta-llama/llama-3.3-70b-instruct' },
+  { id: 'llama-3.1-70b-versatile', label: 'Llama 3.1 70B', provider: 'groq', contextWindow: 128_000, price: { input: 0.59, output: 0.79 }, caps: ['tools', 'jsonMode'], openRouterId: 'meta-llama/llama-3.1-70b-instruct' },
+  { id: 'llama-3.1-8b-instant',    label: 'Llama 3.1 8B',  provider: 'groq', contextWindow: 8_000,   price: { input: 0.05, output: 0.08 }, caps: ['tools', 'jsonMode'], openRouterId: 'meta-llama/llama-3.1-8b-instruct' },
+  { id: 'llama-3.2-1b-preview',    label: 'Llama 3.2 1B',  provider: 'groq', contextWindow: 8_000,   price: { input: 0.04, output: 0.04 }, caps: ['jsonMode'], openRouterId: 'meta-llama/llama-3.2-1b-instruct' },
+  { id: 'llama-3.2-3b-preview',    label: 'Llama 3.2 3B',  provider: 'groq', contextWindow: 8_000,   price: { input: 0.06, output: 0.06 }, caps: ['jsonMode'], openRouterId: 'meta-llama/llama-3.2-3b-instruct' },
+  { id: 'mixtral-8x7b-32768',      label: 'Mixtral 8x7B',  provider: 'groq', contextWindow: 32_768,  price: { input: 0.24, output: 0.24 }, caps: ['tools', 'jsonMode'], openRouterId: 'mistralai/mixtral-8x7b-instruct' },
+  { id: 'gemma2-9b-it',            label: 'Gemma 2 9B',    provider: 'groq', contextWindow: 8_000,   price: { input: 0.20, output: 0.20 }, caps: ['jsonMode'], openRouterId: 'google/gemma-2-9b-it' },
+  { id: 'openai/gpt-oss-120b',     label: 'GPT-OSS 120B',  provider: 'groq', contextWindow: 131_072, price: { input: 0.15, output: 0.75 }, caps: ['tools', 'jsonMode', 'reasoning'] },
+  { id: 'openai/gpt-oss-20b',      label: 'GPT-OSS 20B',   provider: 'groq', contextWindow: 131_072, price: { input: 0.10, output: 0.50 }, caps: ['tools', 'jsonMode', 'reasoning'] },
+  { id: 'meta-llama/llama-4-scout-17b-16e-instruct', label: 'Llama 4 Scout (Vision)', provider: 'groq', contextWindow: 128_000, price: { input: 0.11, output: 0.34 }, caps: ['vision', 'tools', 'jsonMode'] },
+  // ── OpenAI ──
+  { id: 'gpt-4o',      label: 'GPT-4o',      provider: 'openai', contextWindow: 128_000, price: { input: 2.50, output: 10.00 }, caps: ['vision', 'tools', 'jsonMode'], openRouterId: 'openai/gpt-4o' },
+  { id: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'openai', contextWindow: 128_000, price: { input: 0.15, output: 0.60 }, caps: ['vision', 'tools', 'jsonMode'], openRouterId: 'openai/gpt-4o-mini' },
+  { id: 'o1-mini',     label: 'o1 Mini',     provider: 'openai', contextWindow: 128_000, price: { input: 1.10, output: 4.40 }, caps: ['reasoning'], openRouterId: 'openai/o1-mini' },
+  { id: 'o3-mini',     label: 'o3 Mini',     provider: 'openai', contextWindow: 200_000, price: { input: 1.10, output: 4.40 }, caps: ['tools', 'jsonMode', 'reasoning'], openRouterId: 'openai/o3-mini' },
+  // ── Anthropic ──
+  { id: 'claude-opus-4-20250514',     label: 'Claude Opus 4',     provider: 'anthropic', contextWindow: 200_000, price: { input: 15.00, output: 75.00 }, caps: ['vision', 'tools', 'reasoning'], openRouterId: 'anthropic/claude-opus-4' },
+  { id: 'claude-sonnet-4-20250514',   label: 'Claude Sonnet 4',   provider: 'anthropic', contextWindow: 200_000, price: { input: 3.00, output: 15.00 }, caps: ['vision', 'tools', 'reasoning'], openRouterId: 'anthropic/claude-sonnet-4' },
+  { id: 'claude-3-5-haiku-20241022',  label: 'Claude 3.5 Haiku',  provider: 'anthropic', contextWindow: 200_000, price: { input: 0.80, output: 4.00 }, caps: ['tools'], openRouterId: 'anthropic/claude-3.5-haiku' },
+  { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', provider: 'anthropic', contextWindow: 200_000, price: { input: 3.00, output: 15.00 }, caps: ['vision', 'tools'], openRouterId: 'anthropic/claude-3.5-sonnet' },
+  // ── Google Gemini ──
+  { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash', provider: 'gemini', contextWindow: 1_000_000, price: { input: 0.10, output: 0.40 }, caps: ['vision', 'tools', 'jsonMode'], openRouterId: 'google/gemini-2.0-flash-001' },
+  { id: 'gemini-1.5-pro',   label: 'Gemini 1.5 Pro',   provider: 'gemini', contextWindow: 2_000_000, price: { input: 1.25, output: 5.00 }, caps: ['vision', 'tools', 'jsonMode'], openRouterId: 'google/gemini-pro-1.5' },
+  { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash', provider: 'gemini', contextWindow: 1_000_000, price: { input: 0.075, output: 0.30 }, caps: ['vision', 'tools', 'jsonMode'], openRouterId: 'google/gemini-flash-1.5' },
+];
+
+/**
+ * Providers whose `/models` listing is read on refresh. OpenRouter's
+ * listing only fills in context windows for catalog models it proxies
+ * (by `openRouterId`); its own few hundred models are not added.
+ */
+const LISTED_PROVIDERS = ['groq', 'openai', 'anthropic', 'gemini', 'openrouter', 'custom'];
+
+/** Window assumed for models nobody reported a size for. */
+const DEFAULT_WINDOW = 8_000;
+
+/** Windows for discovered models on providers whose listings omit them. */
+const PROVIDER_WINDOWS: Record<string, number> = {
+  openai: 128_000,
+  anthropic: 200_000,
+  azure: 128_000,
+};
+
+const STORAGE_KEY = 'prompt2code.modelCatalog';
+
+interface StoredCatalog {
+  /** Last successful listing per provider. */
+  listings: Record<string, { fetchedAt: number; models: ProviderModelInfo[] }>;
+  /** When `refresh` last ran, whichever providers it could list. */
+  refreshedAt?: number;
+}
+
+/** Result of refreshing one provider's listing. */
+export interface CatalogRefreshResult {
+  provider: string;
+  count?: number;
+  error?: string;
+}
+
+/** Format a context window size the way the selector UI shows it (e.g. 128K, 1M). */
+function formatWindow(tokens: number): string {
+  if (tokens >= 1_000_000) { return `${Math.round(tokens / 1_000_000)}M`; }
+  return `${Math.round(tokens / 1_000)}K`;
+}
+
+/** Best guess at a discovered model's capabilities from its ID and provider. */
+function inferCapabilities(id: string, provider: string): ModelCapabilities {
+  const m = id.toLowerCase();
+  const reasoning = /^o\d|reasoning|thinking|deepseek-r1|qwq|gpt-oss|gpt-5|claude-(opus|sonnet)-4|claude-3-7|gemini-2\.5/.test(m);
+  return {
+    vision: /vision|gpt-4o|gpt-4\.1|gpt-5|llama-4|pixtral|llava|claude-3(?!-5-haiku)|claude-(opus|sonnet|haiku)-4|gemini|qwen.*vl/.test(m),
+    tools: provider !== 'custom' && !/^o1-mini|gemma|-1b|-3b/.test(m),
+    jsonMode: provider !== 'anthropic' && !/^o1-mini/.test(m),
+    reasoning,
+  };
+}
+
+/**
+ * Every model the extension knows: built-ins, what each provider's
+ * `/models` endpoint reports, the custom endpoint's models and models
+ * declared in `prompt2code.models`, with context sizes and capabilities.
+ * Listings are kept in global state so the catalog survives reloads.
+ */
+export class ModelCatalog {
+  private listings: StoredCatalog['listings'] = {};
+  private refreshedAt = 0;
+  private models: CatalogModel[] = [];
+  private byId = new Map<string, CatalogModel>();
+  private memento?: vscode.Memento;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor() {
+    this.rebuild();
+  }
+
+  /** Load stored listings (called once the extension context is available). */
+  attach(memento: vscode.Memento): void {
+    this.memento = memento;
+    const stored = memento.get<StoredCatalog>(STORAGE_KEY);
+    this.listings = stored?.listings ?? {};
+    // Catalogs saved before refreshedAt was stored: the newest listing is the best guess
+    this.refreshedAt = stored?.refreshedAt ?? Math.max(0, ...Object.values(this.listings).map(l => l.fetchedAt));
+    this.reload();
+  }
+
+  /** Re-read the model settings and rebuild; safe to call on every settings change. */
+  reload(): void {
+    this.rebuild();
+    this._onDidChange.fire();
+  }
+
+  /** Models to offer in the picker and to Auto, in display order. */
+  list(): CatalogModel[] {
+    return this.models.filter(m => !m.retired);
+  }
+
+  /** Look up any model, retired ones included. */
+  get(modelId: string): CatalogModel | undefined {
+    return this.byId.get(modelId);
+  }
+
+  /** Provider for a model ID; unknown IDs are assumed to be Groq models. */
+  providerOf(modelId: string): string {
+    return this.byId.get(modelId)?.provider ?? 'groq';
+  }
+
+  /** Context window of a model, with a conservative default for unknown IDs. */
+  windowOf(modelId: string): number {
+    return this.byId.get(modelId)?.contextWindow ?? DEFAULT_WINDOW;
+  }
+
+  supports(modelId: string, capability: keyof ModelCapabilities): boolean {
+    return this.byId.get(modelId)?.capabilities[capability] ?? false;
+  }
+
+  /** When the catalog was last refreshed (0 when never). Providers without a key are not counted against it. */
+  lastRefreshed(): number {
+    return this.refreshedAt;
+  }
+
+  /**
+   * Fetch `/models` from every provider that has a key (`keyFor` returns ''
+   * for none) and rebuild. One provider failing keeps its previous listing.
+   */
+  async refresh(keyFor: (provider: string) => string): Promise<CatalogRefreshResult[]> {
+    const results: CatalogRefreshResult[] = [];
+    for (const provider of LISTED_PROVIDERS) {
+      const apiKey = keyFor(provider);
+      if (provider === 'custom' ? !getCustomEndpointConfig().baseUrl : !apiKey) { continue; }
+      // An OpenRouter key cannot list the provider's own catalog
+      if (provider !== 'custom' && provider !== 'openrouter' && isOpenRouterKey(apiKey)) { continue; }
+
+      const adapter = getProviderAdapter(provider);
+      if (!adapter.buildModelsRequest || !adapter.parseModels) { continue; }
+      try {
+        const request = adapter.buildModelsRequest(apiKey);
+        const response = await httpClient.request({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          timeout: 15000,
+        });
+        const models = adapter.parseModels(response.data);
+        this.listings[provider] = { fetchedAt: Date.now(), models };
+        results.push({ provider, count: models.length });
+        traceLog.output.info(`Model catalog: ${provider} lists ${models.length} models`);
+      } catch (error: any) {
+        const message = error?.response?.status ? `HTTP ${error.response.status}` : (error?.message ?? String(error));
+        results.push({ provider, error: message });
+        traceLog.output.warn(`Model catalog: could not list ${provider} models (${message})`);
+      }
+    }
+
+    this.refreshedAt = Date.now();
+    await this.save();
+    this.reload();
+    return results;
+  }
+
+  private rebuild(): void {
+    const merged = new Map<string, CatalogModel>();
+    const viaOpenRouter = new Map((this.listings.openrouter?.models ?? []).map(m => [m.id, m]));
+
+    for (const b of BUILTIN_MODELS) {
+      const { caps, ...rest } = b;
+      const listing = this.listings[b.provider];
+      const listed = listing?.models.find(m => m.id === b.id);
+      const proxied = b.openRouterId ? viaOpenRouter.get(b.openRouterId) : undefined;
+      const contextWindow = listed?.contextWindow ?? proxied?.contextWindow ?? b.contextWindow;
+      merged.set(b.id, {
+        ...rest,
+        contextWindow,
+        ctx: formatWindow(contextWindow),
+        capabilities: {
+          vision: caps.includes('vision'),
+          tools: caps.includes('tools'),
+          jsonMode: caps.includes('jsonMode'),
+          reasoning: caps.includes('reasoning'),
+        },
+        source: 'builtin',
+        retired: listing ? !listed : undefined,
+      });
+    }
+
+    // Discovered models the extension did not ship with
+    for (const provider of LISTED_PROVIDERS.filter(p => p !== 'custom' && p !== 'openrouter')) {
+      for (const m of this.listings[provider]?.models ?? []) {
+        if (merged.has(m.id)) { continue; }
+        merged.set(m.id, this.discovered(m, provider, 'provider'));
+      }
+    }
+
+    // Custom endpoint: declared models first, then whatever the server lists
+    const endpoint = getCustomEndpointConfig();
+    if (endpoint.baseUrl) {
+      const declared: ProviderModelInfo[] = endpoint.models
+        .map(m => ({ id: typeof m?.id === 'string' ? m.id.trim() : '', label: m?.label?.trim(), contextWindow: m?.contextWindow }))
+        .filter(m => m.id);
+      for (const m of [...declared, ...(this.listings.custom?.models ?? [])]) {
+        const existing = merged.get(m.id);
+        if (existing?.source === 'custom') { continue; }
+        if (existing) {
+          traceLog.output.warn(`Custom model "${m.id}" clashes with a built-in model ID — skipped.`);
+          continue;
+        }
+        merged.set(m.id, this.discovered(m, 'custom', 'custom'));
+      }
+    }
+
+    // Azure OpenAI deployments, each inheriting what the catalog knows about the model it serves
+    const azure = getAzureOpenAIConfig();
+    if (azure.endpoint) {
+      for (const d of azure.deployments) {
+        const id = azureModelId(d.name);
+        const base = d.model ? merged.get(d.model) : undefined;
+        if (d.model && !base) {
+          traceLog.output.warn(`Azure deployment "${d.name}": unknown model "${d.model}" — capabilities are guessed from its name.`);
+        }
+        const contextWindow = d.contextWindow && d.contextWindow > 0
+          ? Math.floor(d.contextWindow)
+          : (base?.contextWindow ?? PROVIDER_WINDOWS.azure);
+        merged.set(id, {
+          id,
+          label: d.label?.trim() || `${base?.label ?? d.name} (Azure)`,
+          provider: 'azure',
+          contextWindow,
+          ctx: formatWindow(contextWindow),
+          price: base?.price,
+          capabilities: base?.capabilities ?? inferCapabilities(d.model ?? d.name, 'azure'),
+          baseModel: base?.id,
+          source: 'azure',
+        });
+      }
+    }
+
+    // The scripted fake provider, for offline demos and tests
+    if (vscode.workspace.getConfiguration('prompt2code').get<boolean>('fakeProvider.enabled', false)) {
+      merged.set('fake', {
+        id: 'fake',
+        label: 'Fake (scripted)',
+        provider: 'fake',
+        contextWindow: 128_000,
+        ctx: formatWindow(128_000),
+        capabilities: { vision: false, tools: true, jsonMode: true, reasoning: false },
+        source: 'builtin',
+      });
+    }
+
+    // User-declared models extend the catalog or override what it knows about a model
+    const userModels = vscode.workspace.getConfiguration('prompt2code').get<UserModelSetting[]>('models', []) ?? [];
+    for (const u of userModels) {
+      const id = typeof u?.id === 'string' ? u.id.trim() : '';
+      if (!id) { continue; }
+      const base = merged.get(id);
+      if (!base && !u.provider) {
+        traceLog.output.warn(`prompt2code.models: "${id}" needs a provider — skipped.`);
+        continue;
+      }
+      const provider = u.provider ?? base?.provider ?? 'groq';
+      const contextWindow = u.contextWindow && u.contextWindow > 0 ? Math.floor(u.contextWindow) : (base?.contextWindow ?? DEFAULT_WINDOW);
+      merged.set(id, {
+        id,
+        label: u.label?.trim() || base?.label || id,
+        provider,
+        contextWindow,
+        ctx: formatWindow(contextWindow),
+        price: u.price ?? base?.price,
+        capabilities: { ...(base?.capabilities ?? inferCapabilities(id, provider)), ...u.capabilities },
+        openRouterId: u.openRouterId ?? base?.openRouterId,
+        source: base?.source ?? 'user',
+      });
+    }
+
+    this.models = [...merged.values()];
+    this.byId = merged;
+  }
+
+  private discovered(m: ProviderModelInfo, provider: string, source: ModelSource): CatalogModel {
+    const contextWindow = m.contextWindow && m.contextWindow > 0
+      ? Math.floor(m.contextWindow)
+      : (PROVIDER_WINDOWS[provider] ?? DEFAULT_WINDOW);
+    return {
+      id: m.id,
+      label: m.label || m.id,
+      provider,
+      contextWindow,
+      ctx: formatWindow(contextWindow),
+      capabilities: inferCapabilities(m.id, provider),
+      source,
+    };
+  }
+
+  private async save(): Promise<void> {
+    if (!this.memento) { return; }
+    try {
+      const stored: StoredCatalog = { listings: this.listings, refreshedAt: this.refreshedAt };
+      await this.memento.update(STORAGE_KEY, stored);
+    } catch (error: any) {
+      traceLog.output.warn(`Model catalog: could not save listings (${error.message})`);
+    }
+  }
+}
+
+/** Restored from global state on activation; refreshed from the provider listings when a day old. */
+export const modelCatalog = new ModelCatalog();
@@ -0,0 +1,159 @@
+import { traceLog } from './traceLog';
+
+/** Why a model's last request failed. */
+export type ModelErrorClass = 'auth' | 'notFound' | 'quota' | 'rateLimit' | 'server' | 'network' | 'other';
+
+/**
+ * Circuit-breaker state: `closed` models are used normally, `open` ones are
+ * skipped until their cool-down ends, and `halfOpen` ones get a single probe
+ * request that decides whether they close again or re-open.
+ */
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+export interface ModelHealth {
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** How many times the breaker has opened since the last success; drives the backoff. */
+  trips: number;
+  lastErrorClass?: ModelErrorClass;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  /** When an open breaker lets a probe through. */
+  retryAt?: number;
+}
+
+/**
+ * Failures in a row before the breaker opens. A bad key or a missing model
+ * will not fix itself between requests, so those trip on the first failure.
+ */
+const FAILURE_THRESHOLD: Record<ModelErrorClass, number> = {
+  auth: 1,
+  notFound: 1,
+  quota: 1,
+  rateLimit: 2,
+  server: 3,
+  network: 3,
+  other: 3,
+};
+
+/** First cool-down per error class; doubled on every re-trip up to MAX_COOLDOWN_MS. */
+const BASE_COOLDOWN_MS: Record<ModelErrorClass, number> = {
+  auth: 5 * 60_000,
+  notFound: 5 * 60_000,
+  quota: 5 * 60_000,
+  rateLimit: 30_000,
+  server: 30_000,
+  network: 15_000,
+  other: 30_000,
+};
+const MAX_COOLDOWN_MS = 60 * 60_000;
+
+/** Sort a provider failure into a class, from the HTTP status, socket error code or mapped message. */
+export function classifyModelError(err: any): ModelErrorClass {
+  const status: number | undefined = err?.response?.status ?? Number(/\((\d{3})\)/.exec(err?.message ?? '')?.[1] ?? NaN);
+  if (status === 401 || status === 403) { return 'auth'; }
+  if (status === 402) { return 'quota'; }
+  if (status === 404) { return 'notFound'; }
+  if (status === 429) { return 'rateLimit'; }
+  if (status && status >= 500) { return 'server'; }
+
+  if (['ENOTFOUND', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED'].includes(err?.code ?? '')) { return 'network'; }
+
+  const msg: string = err?.message ?? '';
+  if (/invalid.*key|expired.*key|key.*invalid|key.*expired|authentication failed|access denied|Missing API key/i.test(msg)) { return 'auth'; }
+  if (/insufficient credits|quota/i.test(msg)) { return 'quota'; }
+  if (/not found|does not exist/i.test(msg)) { return 'notFound'; }
+  if (/rate limit|too many requests/i.test(msg)) { return 'rateLimit'; }
+  if (/network|timeout|ECONNRESET|ETIMEDOUT/i.test(msg)) { return 'network'; }
+  return 'other';
+}
+
+/**
+ * Per-model circuit breakers for Auto mode, so a dead key or a retired
+ * model is skipped instead of being retried at the head of every request.
+ * State lives in memory only — a reload starts every model fresh.
+ */
+export class ModelHealthTracker {
+  private health = new Map<string, ModelHealth>();
+  /** Half-open models with a probe in flight; everyone else skips them until it settles. */
+  private probing = new Set<string>();
+
+  /** Current state of a model, with an expired cool-down reported as half-open. */
+  get(model: string): ModelHealth {
+    const h = this.health.get(model);
+    if (!h) { return { model, state: 'closed', consecutiveFailures: 0, trips: 0 }; }
+    if (h.state === 'open' && (h.retryAt ?? 0) <= Date.now()) { return { ...h, state: 'halfOpen' }; }
+    return { ...h };
+  }
+
+  /** Every model that has failed at least once since its last reset. */
+  all(): ModelHealth[] {
+    return [...this.health.keys()].map(m => this.get(m));
+  }
+
+  /** Whether Auto should pass over a model: its breaker is open, or a probe is already in flight. */
+  isTripped(model: string): boolean {
+    const state = this.get(model).state;
+    return state === 'open' || (state === 'halfOpen' && this.probing.has(model));
+  }
+
+  /** Mark the start of a request; a half-open model's request becomes its probe. */
+  beginAttempt(model: string): void {
+    if (this.get(model).state === 'halfOpen') {
+      this.probing.add(model);
+      traceLog.output.info(`Model health: probing ${model}`);
+    }
+  }
+
+  recordSuccess(model: string): void {
+    this.probing.delete(model);
+    const h = this.health.get(model);
+    if (!h) { return; }
+    if (h.state !== 'closed') { traceLog.output.info(`Model health: ${model} recovered`); }
+    h.state = 'closed';
+    h.consecutiveFailures = 0;
+    h.trips = 0;
+    h.retryAt = undefined;
+    h.lastSuccessAt = Date.now();
+  }
+
+  recordFailure(model: string, err: any): void {
+    const wasProbe = this.probing.delete(model);
+    const errorClass = classifyModelError(err);
+    const now = Date.now();
+    const h = this.health.get(model) ?? { model, state: 'closed' as CircuitState, consecutiveFailures: 0, trips: 0 };
+    h.consecutiveFailures++;
+    h.lastErrorClass = errorClass;
+    h.lastError = String(err?.message ?? err).slice(0, 300);
+    h.lastFailureAt = now;
+
+    if (wasProbe || h.consecutiveFailures >= FAILURE_THRESHOLD[errorClass]) {
+      const cooldown = Math.min(BASE_COOLDOWN_MS[errorClass] * 2 ** h.trips, MAX_COOLDOWN_MS);
+      h.trips++;
+      h.state = 'open';
+      h.retryAt = now + cooldown;
+      traceLog.output.warn(`Model health: ${model} tripped (${errorClass}) — skipping for ${Math.round(cooldown / 1000)}s`);
+    }
+    this.health.set(model, h);
+  }
+
+  /** Release a probe slot after a request that says nothing about the model (e.g. cancelled). */
+  endAttempt(model: string): void {
+    this.probing.delete(model);
+  }
+
+  /** Forget one model's history, or every model's when none is given. */
+  reset(model?: string): void {
+    if (model) {
+      this.health.delete(model);
+      this.probing.delete(model);
+    } else {
+      this.health.clear();
+      this.probing.clear();
+    }
+  }
+}
+
+export const modelHealth = new ModelHealthTracker();
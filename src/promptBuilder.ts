@@ -316,7 +316,7 @@ export class PromptBuilder {
     // Suggest completion if there's code before cursor and we're at end of line or mid-statement
     if (textBeforeCursor.trim().length > 0) {
       // Check if it looks like incomplete code
-      const endsWithOperator = /[+\-*\/=<>,.(\[]$/.test(textBeforeCursor.trim());
+      const endsWithOperator = /[+\-*/=<>,.([]$/.test(textBeforeCursor.trim());
       const endsWithKeyword = /\b(function|const|let|var|return|if|for|while)\s*$/.test(textBeforeCursor);
       
       return endsWithOperator || endsWithKeyword || textAfterCursor.trim().length === 0;
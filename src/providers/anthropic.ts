@@ -0,0 +1,310 @@
+import { GroqContentPart, GroqMessage, GroqToolCall, GroqToolChoice } from '../groqClient';
+import { supportsExtendedThinking, thinkingBudgetFor } from '../reasoning';
+import { parseImageDataUrl, parseToolArguments } from './openaiCompatible';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderFailure,
+  ProviderHttpRequest,
+  ProviderModelInfo,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from './types';
+
+const EPHEMERAL = { type: 'ephemeral' as const };
+
+/** A content block as sent; any block may end the cached prefix. */
+type AnthropicBlock = (
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id?: string; content: string }
+) & { cache_control?: typeof EPHEMERAL };
+
+type AnthropicMessage = { role: 'user' | 'assistant'; content: string | AnthropicBlock[] };
+
+/** Token counts of a response; cache reads and writes are not part of `input_tokens`. */
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/** A content block of a response. */
+type AnthropicReplyBlock =
+  | { type: 'text'; text?: string }
+  | { type: 'thinking'; thinking?: string }
+  | { type: 'tool_use'; id: string; name: string; input?: unknown };
+
+/** The parts of a Messages API response that are read. */
+interface AnthropicResponse {
+  content?: AnthropicReplyBlock[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+/** One streamed event; which fields are set depends on `type`. */
+interface AnthropicStreamEvent {
+  type?: string;
+  index?: number;
+  delta?: { type?: string; text?: string; thinking?: string; partial_json?: string; stop_reason?: string };
+  content_block?: { type?: string; id?: string; name?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+/** Anthropic accepts at most this many `cache_control` breakpoints per request. */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/** Indices of the messages marked `cache` that get a breakpoint — the last `max` of them. */
+export function cacheBreakpoints(messages: GroqMessage[], max = MAX_CACHE_BREAKPOINTS): Set<number> {
+  const marked = messages.map((m, i) => (m.cache ? i : -1)).filter(i => i >= 0);
+  return new Set(max > 0 ? marked.slice(-max) : []);
+}
+
+/** Put a cache breakpoint on a message's last content block. */
+function markCacheBreakpoint(message: AnthropicMessage): void {
+  const blocks: AnthropicBlock[] = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content;
+  const last = blocks[blocks.length - 1];
+  if (!last || (last.type === 'text' && !last.text)) { return; }
+  blocks[blocks.length - 1] = { ...last, cache_control: EPHEMERAL };
+  message.content = blocks;
+}
+
+/**
+ * Read Anthropic's `usage`. Cached prompt tokens are reported apart from
+ * `input_tokens`, so the prompt total adds them back in.
+ */
+function parseAnthropicUsage(usage: AnthropicUsage | undefined): ProviderUsage | undefined {
+  if (typeof usage?.input_tokens !== 'number') { return undefined; }
+  const read = usage.cache_read_input_tokens ?? 0;
+  const written = usage.cache_creation_input_tokens ?? 0;
+  return {
+    inputTokens: usage.input_tokens + read + written,
+    outputTokens: usage.output_tokens ?? 0,
+    ...(read || written ? { cachedInputTokens: read, cacheWriteTokens: written } : {}),
+  };
+}
+
+/** Text and image parts → Anthropic content blocks; images become base64 (or URL) `image` blocks. */
+function toAnthropicBlocks(parts: GroqContentPart[]): AnthropicBlock[] {
+  return parts.map((p): AnthropicBlock => {
+    if (p.type === 'text') { return { type: 'text', text: p.text }; }
+    const inline = parseImageDataUrl(p.image_url.url);
+    return inline
+      ? { type: 'image', source: { type: 'base64', media_type: inline.mimeType, data: inline.data } }
+      : { type: 'image', source: { type: 'url', url: p.image_url.url } };
+  });
+}
+
+/**
+ * Convert to Anthropic's format: system messages become the top-level
+ * `system` field, tool calls become `tool_use` blocks and tool results
+ * `tool_result` blocks in a user turn (results of parallel calls share one
+ * turn). Images in user turns become `image` blocks. Messages marked
+ * `cache` end with a `cache_control` breakpoint (at most `maxBreakpoints`).
+ */
+export function toAnthropicMessages(messages: GroqMessage[], maxBreakpoints = MAX_CACHE_BREAKPOINTS): {
+  system?: string | AnthropicBlock[];
+  messages: AnthropicMessage[];
+} {
+  const breakpoints = cacheBreakpoints(messages, maxBreakpoints);
+  const system: { text: string; cache: boolean }[] = [];
+  const anthropicMessages: AnthropicMessage[] = [];
+  messages.forEach((m, index) => {
+    const text = typeof m.content === 'string'
+      ? m.content
+      : m.content.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('\n');
+    if (m.role === 'system') {
+      if (text) { system.push({ text, cache: breakpoints.has(index) }); }
+      return;
+    }
+    appendAnthropicMessage(anthropicMessages, m, text);
+    if (breakpoints.has(index)) { markCacheBreakpoint(anthropicMessages[anthropicMessages.length - 1]); }
+  });
+  // A plain string unless a breakpoint needs the system prompt split into blocks
+  const systemField = system.some(s => s.cache)
+    ? system.map((s): AnthropicBlock => ({ type: 'text', text: s.text, ...(s.cache ? { cache_control: EPHEMERAL } : {}) }))
+    : system.map(s => s.text).join('\n\n') || undefined;
+  return { system: systemField, messages: anthropicMessages };
+}
+
+/** Append one non-system message; a tool result joins the previous turn's results. */
+function appendAnthropicMessage(anthropicMessages: AnthropicMessage[], m: GroqMessage, text: string): void {
+  if (m.role === 'tool') {
+    const result: AnthropicBlock = { type: 'tool_result', tool_use_id: m.tool_call_id, content: text };
+    const prev = anthropicMessages[anthropicMessages.length - 1];
+    if (prev?.role === 'user' && Array.isArray(prev.content) && prev.content.every(b => b.type === 'tool_result')) {
+      prev.content.push(result);
+    } else {
+      anthropicMessages.push({ role: 'user', content: [result] });
+    }
+    return;
+  }
+
+  if (m.role === 'assistant' && m.tool_calls?.length) {
+    const blocks: AnthropicBlock[] = text ? [{ type: 'text', text }] : [];
+    for (const call of m.tool_calls) {
+      blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseToolArguments(call.function.arguments) });
+    }
+    anthropicMessages.push({ role: 'assistant', content: blocks });
+    return;
+  }
+
+  if (m.role === 'user' && Array.isArray(m.content) && m.content.some(p => p.type === 'image_url')) {
+    anthropicMessages.push({ role: 'user', content: toAnthropicBlocks(m.content) });
+    return;
+  }
+
+  anthropicMessages.push({ role: m.role as 'user' | 'assistant', content: text });
+}
+
+/** `auto` / `required` / a named function → Anthropic's `tool_choice`. */
+function toAnthropicToolChoice(choice: GroqToolChoice | undefined): { type: string; name?: string } {
+  if (!choice || choice === 'auto') { return { type: 'auto' }; }
+  if (choice === 'none') { return { type: 'none' }; }
+  if (choice === 'required') { return { type: 'any' }; }
+  return { type: 'tool', name: choice.function.name };
+}
+
+/** Map Anthropic's stop reasons onto the shared `length` / `tool_calls` names. */
+function normaliseStop(stop: string | undefined): string | undefined {
+  if (stop === 'max_tokens') { return 'length'; }
+  if (stop === 'tool_use') { return 'tool_calls'; }
+  return stop;
+}
+
+/** Anthropic Claude models — Messages API with its own request/response/SSE format. */
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly id = 'anthropic';
+  readonly meta = { name: 'Anthropic', apiKeyUrl: 'https://console.anthropic.com/settings/keys', placeholder: 'sk-ant-…' };
+  readonly timeoutMs = 60000;
+  readonly maxRetries = 0;
+
+  constructor(private readonly baseUrl = 'https://api.anthropic.com/v1') {}
+
+  private headers(apiKey: string): Record<string, string> {
+    return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'content-type': 'application/json' };
+  }
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    // Tools come first in the cached prefix; their breakpoint counts against the limit
+    const cacheTools = !!options.tools?.length && options.messages.some(m => m.cache);
+    const { system, messages } = toAnthropicMessages(options.messages, MAX_CACHE_BREAKPOINTS - (cacheTools ? 1 : 0));
+    const thinkingBudget = supportsExtendedThinking(options.model) ? thinkingBudgetFor(options) : 0;
+    // The budget is spent inside max_tokens, so the answer keeps its own share; thinking requires the default temperature
+    const body: Record<string, unknown> = thinkingBudget
+      ? { model: options.model, max_tokens: options.maxTokens + thinkingBudget, thinking: { type: 'enabled', budget_tokens: thinkingBudget }, messages }
+      : { model: options.model, max_tokens: options.maxTokens, temperature: options.temperature, messages };
+    if (system) { body.system = system; }
+    if (options.stream) { body.stream = true; }
+    if (options.tools?.length) {
+      body.tools = options.tools.map((t, i, all) => ({
+        name: t.function.name,
+        description: t.function.description,
+        input_schema: t.function.parameters,
+        ...(cacheTools && i === all.length - 1 ? { cache_control: EPHEMERAL } : {}),
+      }));
+      body.tool_choice = toAnthropicToolChoice(options.toolChoice);
+    }
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/messages`,
+      headers: { ...this.headers(options.apiKey), ...(options.stream ? { 'Accept': 'text/event-stream' } : {}) },
+      body,
+    };
+  }
+
+  parseResponse(data: AnthropicResponse): ProviderCompletion {
+    const blocks = Array.isArray(data?.content) ? data.content : [];
+    const content = blocks.flatMap(b => (b?.type === 'text' ? [b.text ?? ''] : [])).join('');
+    const reasoning = blocks.flatMap(b => (b?.type === 'thinking' ? [b.thinking ?? ''] : [])).join('\n\n');
+    const toolCalls = blocks.flatMap((b): GroqToolCall[] => (b?.type === 'tool_use'
+      ? [{ id: b.id, type: 'function', function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }]
+      : []));
+    if (!content && toolCalls.length === 0) { throw new Error('Anthropic returned an empty response'); }
+    return {
+      content,
+      finishReason: normaliseStop(data?.stop_reason) ?? 'stop',
+      usage: parseAnthropicUsage(data?.usage),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      ...(reasoning ? { reasoning } : {}),
+    };
+  }
+
+  /**
+   * `content_block_delta` events carry text (or extended thinking), `message_delta` the stop reason
+   * and output tokens; input tokens (cache hits and writes included) arrive
+   * once in `message_start`. A tool
+   * call opens with `content_block_start` and streams its input as JSON
+   * fragments, keyed by the block index.
+   */
+  parseStreamEvent(parsed: AnthropicStreamEvent): ProviderStreamEvent {
+    if (parsed?.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+      return { delta: parsed.delta.text };
+    }
+    if (parsed?.type === 'content_block_delta' && parsed.delta?.type === 'thinking_delta') {
+      return { reasoningDelta: parsed.delta.thinking };
+    }
+    if (parsed?.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+      return { toolCalls: [{ index: parsed.index, id: parsed.content_block.id, name: parsed.content_block.name }] };
+    }
+    if (parsed?.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+      return { toolCalls: [{ index: parsed.index, arguments: parsed.delta.partial_json ?? '' }] };
+    }
+    if (parsed?.type === 'message_start' && typeof parsed.message?.usage?.input_tokens === 'number') {
+      const usage = parseAnthropicUsage(parsed.message.usage) as ProviderUsage;
+      return { usage: { inputTokens: usage.inputTokens, cachedInputTokens: usage.cachedInputTokens, cacheWriteTokens: usage.cacheWriteTokens } };
+    }
+    if (parsed?.type === 'message_delta') {
+      const stop = parsed.delta?.stop_reason;
+      const outputTokens = parsed.usage?.output_tokens;
+      return {
+        finishReason: normaliseStop(stop),
+        usage: typeof outputTokens === 'number' ? { outputTokens } : undefined,
+      };
+    }
+    if (parsed?.type === 'error') {
+      return { error: parsed.error?.message ?? 'Anthropic stream error' };
+    }
+    return {};
+  }
+
+  mapError(failure: ProviderFailure): Error {
+    const { status, message } = failure;
+    if (status === 401) {
+      return new Error(`Anthropic API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Get a key at console.anthropic.com/settings/keys`);
+    }
+    if (status === 429) {
+      return new Error(`Anthropic rate limit exceeded (429). Please wait a moment and try again. Details: ${message}`);
+    }
+    if (status === 403) {
+      return new Error(`Anthropic access denied (403). Check your account billing at console.anthropic.com. Details: ${message}`);
+    }
+    return new Error(`Anthropic API error (${status || 'network'}): ${message}`);
+  }
+
+  buildValidationRequest(apiKey: string, modelId?: string): ProviderHttpRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/messages`,
+      headers: this.headers(apiKey),
+      body: { model: modelId || 'claude-sonnet-4-20250514', max_tokens: 1, messages: [{ role: 'user', content: 'hi' }] },
+    };
+  }
+
+  buildModelsRequest(apiKey: string): ProviderHttpRequest {
+    return { method: 'GET', url: `${this.baseUrl}/models?limit=1000`, headers: this.headers(apiKey) };
+  }
+
+  /** `{ data: [{ id, display_name }] }` — the listing carries no context sizes. */
+  parseModels(data: { data?: { id?: string; display_name?: string }[] }): ProviderModelInfo[] {
+    const entries = Array.isArray(data?.data) ? data.data : [];
+    return entries
+      .filter((m): m is typeof m & { id: string } => typeof m?.id === 'string')
+      .map(m => ({ id: m.id, label: typeof m.display_name === 'string' ? m.display_name : undefined }));
+  }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { modelCatalog } from '../modelCatalog';
+import { OpenAICompatibleAdapter } from './openaiCompatible';
+import { ProviderFailure, ProviderHttpRequest, ProviderRetry } from './types';
+
+/** Catalog IDs of Azure deployments are the deployment name under this prefix (`azure/my-gpt4o`). */
+export const AZURE_MODEL_PREFIX = 'azure/';
+
+const DEFAULT_API_VERSION = '2024-10-21';
+/** First API version that takes `reasoning_effort`. */
+const REASONING_EFFORT_API_VERSION = '2024-12-01';
+
+/** One deployment on the Azure OpenAI resource, and the model it serves. */
+export interface AzureDeployment {
+  name: string;
+  /** Model ID from the catalog (`gpt-4o`, `o3-mini`, …); the deployment inherits its window, price and capabilities. */
+  model?: string;
+  label?: string;
+  contextWindow?: number;
+}
+
+/**
+ * The `prompt2code.azure` settings (endpoint without trailing slash).
+ * The resource key lives in secret storage with the other provider keys.
+ */
+export interface AzureOpenAIConfig {
+  endpoint: string;
+  apiVersion: string;
+  deployments: AzureDeployment[];
+}
+
+/** Read the Azure OpenAI settings. */
+export function getAzureOpenAIConfig(): AzureOpenAIConfig {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  const deployments = config.get<AzureDeployment[]>('azure.deployments', []) ?? [];
+  return {
+    endpoint: config.get<string>('azure.endpoint', '').trim().replace(/\/+$/, ''),
+    apiVersion: config.get<string>('azure.apiVersion', DEFAULT_API_VERSION).trim() || DEFAULT_API_VERSION,
+    deployments: deployments
+      .map(d => ({ ...d, name: typeof d?.name === 'string' ? d.name.trim() : '' }))
+      .filter(d => d.name),
+  };
+}
+
+/** Catalog ID for a deployment. */
+export function azureModelId(deployment: string): string {
+  return AZURE_MODEL_PREFIX + deployment;
+}
+
+/** Deployment name behind a catalog ID. */
+export function azureDeploymentOf(modelId: string): string {
+  return modelId.startsWith(AZURE_MODEL_PREFIX) ? modelId.slice(AZURE_MODEL_PREFIX.length) : modelId;
+}
+
+/**
+ * Azure OpenAI: the OpenAI wire format, but addressed by deployment
+ * (`/openai/deployments/<name>/chat/completions?api-version=…`) and
+ * authenticated with an `api-key` header.
+ */
+export class AzureOpenAIAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'azure';
+  readonly meta = { name: 'Azure OpenAI', apiKeyUrl: 'your resource\'s "Keys and Endpoint" page in the Azure portal', placeholder: 'Azure OpenAI resource key' };
+  /** Deployments exist only on the user's resource, so an OpenRouter key cannot serve them. */
+  readonly ownKeyOnly = true;
+  readonly maxRetries = 2;
+  protected readonly streamUsage = true;
+  protected readonly jsonSchemaFormat = true;
+
+  /** Settings are read per request so edits apply without a reload. */
+  constructor(private readonly readConfig: () => AzureOpenAIConfig = getAzureOpenAIConfig) {
+    super();
+  }
+
+  protected completionsUrl(model = ''): string {
+    const { endpoint, apiVersion } = this.readConfig();
+    return `${endpoint}/openai/deployments/${encodeURIComponent(azureDeploymentOf(model))}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+  }
+
+  protected authHeaders(apiKey: string): Record<string, string> {
+    return { 'api-key': apiKey };
+  }
+
+  /** The deployment is in the URL; Azure ignores the body's `model`. */
+  protected wireModel(model: string): string {
+    return azureDeploymentOf(model);
+  }
+
+  /** A deployment is shaped like the model it serves. */
+  protected reasoningModel(model: string): string {
+    return modelCatalog.get(model)?.baseModel ?? azureDeploymentOf(model);
+  }
+
+  /** API versions are dates, so they compare as strings. */
+  protected acceptsReasoningEffort(): boolean {
+    return this.readConfig().apiVersion >= REASONING_EFFORT_API_VERSION;
+  }
+
+  protected defaultValidationModel(): string {
+    return azureModelId(this.readConfig().deployments[0]?.name ?? '');
+  }
+
+  checkConfigured(): void {
+    if (!this.readConfig().endpoint) {
+      throw new Error('Azure OpenAI endpoint is not set. Configure prompt2code.azure.endpoint in settings.');
+    }
+  }
+
+  /** Listing the resource's models needs no deployment and proves both the key and the endpoint. */
+  buildValidationRequest(apiKey: string): ProviderHttpRequest {
+    const { endpoint, apiVersion } = this.readConfig();
+    return { method: 'GET', url: `${endpoint}/openai/models?api-version=${encodeURIComponent(apiVersion)}`, headers: this.authHeaders(apiKey) };
+  }
+
+  /** Azure throttles per deployment and says how long to wait in `retry-after`. */
+  retry(failure: ProviderFailure, attempt: number): ProviderRetry | undefined {
+    if (failure.status !== 429) { return undefined; }
+    let delayMs = 1000 * Math.pow(2, attempt);
+    const s = Number(failure.headers?.['retry-after']);
+    if (Number.isFinite(s) && s > 0) { delayMs = Math.max(delayMs, s * 1000); }
+    return { delayMs };
+  }
+
+  mapError(failure: ProviderFailure, context: { model: string; url: string }): Error {
+    const { status, message } = failure;
+    if (status === 401 || status === 403) {
+      return new Error(`Azure OpenAI rejected the key (${status}). Use a key from the resource behind prompt2code.azure.endpoint. Details: ${message}`);
+    }
+    if (status === 404) {
+      return new Error(`Azure OpenAI: deployment "${azureDeploymentOf(context.model)}" not found (404). Check prompt2code.azure.deployments and prompt2code.azure.apiVersion. Details: ${message}`);
+    }
+    if (status === 429) {
+      return new Error(`Azure OpenAI rate limit exceeded (429) for deployment "${azureDeploymentOf(context.model)}". Please wait a moment and try again. Details: ${message}`);
+    }
+    return new Error(`Azure OpenAI error (${status || 'network'}): ${message}`);
+  }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { OpenAICompatibleAdapter } from './openaiCompatible';
+import { ProviderFailure, ProviderHttpRequest, ProviderRequestOptions } from './types';
+
+/**
+ * The `prompt2code.customEndpoint` settings (base URL without trailing slash).
+ * The endpoint's key lives in secret storage with the other provider keys.
+ */
+export interface CustomEndpointConfig {
+  baseUrl: string;
+  authHeader: string;
+  models: { id: string; label?: string; contextWindow?: number }[];
+}
+
+/** Read the custom endpoint settings. */
+export function getCustomEndpointConfig(): CustomEndpointConfig {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  return {
+    baseUrl: config.get<string>('customEndpoint.baseUrl', '').trim().replace(/\/+$/, ''),
+    authHeader: config.get<string>('customEndpoint.authHeader', 'Authorization').trim() || 'Authorization',
+    models: config.get<{ id: string; label?: string; contextWindow?: number }[]>('customEndpoint.models', []) ?? [],
+  };
+}
+
+/** Local / self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM, …). */
+export class CustomEndpointAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'custom';
+  readonly meta = { name: 'Custom Endpoint', apiKeyUrl: 'the prompt2code.customEndpoint settings', placeholder: 'Optional — leave blank if the server needs no key' };
+  readonly keyOptional = true;
+  readonly timeoutMs = 120000;
+
+  /** Settings are read per request so edits apply without a reload. */
+  constructor(private readonly readConfig: () => CustomEndpointConfig = getCustomEndpointConfig) {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${this.readConfig().baseUrl}/chat/completions`;
+  }
+
+  /**
+   * `Authorization` gets a Bearer prefix; any other header name carries the raw key.
+   * Returns no header at all when the server needs no key.
+   */
+  protected authHeaders(apiKey: string): Record<string, string> {
+    if (!apiKey) { return {}; }
+    const header = this.readConfig().authHeader;
+    return header.toLowerCase() === 'authorization'
+      ? { Authorization: `Bearer ${apiKey}` }
+      : { [header]: apiKey };
+  }
+
+  protected defaultValidationModel(): string {
+    return this.readConfig().models[0]?.id ?? '';
+  }
+
+  /** Self-hosted servers (Ollama, llama.cpp, vLLM) know no `reasoning_effort`. */
+  protected acceptsReasoningEffort(): boolean {
+    return false;
+  }
+
+  /**
+   * Plain `max_tokens` and temperature whatever the model is called — a
+   * local `gpt-oss` build is served like any other model, not shaped like
+   * OpenAI's or Groq's.
+   */
+  protected generationFields(options: ProviderRequestOptions): Record<string, unknown> {
+    return { max_tokens: options.maxTokens, temperature: options.temperature };
+  }
+
+  checkConfigured(): void {
+    if (!this.readConfig().baseUrl) {
+      throw new Error('Custom endpoint base URL is not set. Configure prompt2code.customEndpoint.baseUrl in settings.');
+    }
+  }
+
+  /** Self-hosted servers: listing models is cheap and exercises the auth header. */
+  buildValidationRequest(apiKey: string): ProviderHttpRequest {
+    return { method: 'GET', url: `${this.readConfig().baseUrl}/models`, headers: this.authHeaders(apiKey) };
+  }
+
+  mapError(failure: ProviderFailure, context: { model: string; url: string }): Error {
+    const { status, message, code } = failure;
+    if (!status && code === 'ECONNREFUSED') {
+      return new Error(`Custom endpoint is not reachable at ${context.url} (ECONNREFUSED). Is the model server running?`);
+    }
+    if (status === 401 || status === 403) {
+      return new Error(`Custom endpoint rejected the request (${status}). Check the Custom Endpoint key in Prompt2Code settings and prompt2code.customEndpoint.authHeader. Details: ${message}`);
+    }
+    if (status === 404) {
+      return new Error(`Custom endpoint: model "${context.model}" not found (404). Check prompt2code.customEndpoint.models. Details: ${message}`);
+    }
+    return new Error(`Custom endpoint error (${status || 'network'}): ${message}`);
+  }
+}
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import type { RecordedResponse } from '../trafficRecorder';
+import { OpenAICompatibleAdapter } from './openaiCompatible';
+import { ProviderFailure } from './types';
+
+/** Requests to this host never leave the machine — the traffic layer answers them from the script. */
+export const FAKE_PROVIDER_HOST = 'fake.prompt2code.invalid';
+
+/** One scripted reply. Omitted fields get the defaults of a plain, complete answer. */
+export interface FakeResponse {
+  content?: string;
+  /** Sent as `reasoning` beside the answer, the way GPT-OSS on Groq returns it. */
+  reasoning?: string;
+  /** `length` makes the reply look truncated, to exercise continuation. */
+  finishReason?: 'stop' | 'length' | 'tool_calls';
+  toolCalls?: { name: string; arguments: Record<string, unknown> | string }[];
+  /** Answer with an HTTP error instead (e.g. 429 or 500, to exercise retry and Auto fallback). */
+  status?: number;
+  error?: string;
+  /** Pause between streamed chunks (ms). */
+  chunkDelayMs?: number;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/** Streamed replies are cut into chunks of this many characters. */
+const CHUNK_CHARS = 24;
+const DEFAULT_CHUNK_DELAY_MS = 15;
+
+/**
+ * Scripted stand-in for a model: each request takes the next queued reply,
+ * then falls back to `prompt2code.fakeProvider.responses` (cycled), then to
+ * echoing the last user message. Every request body is kept for assertions.
+ */
+export class FakeProviderScript {
+  private queue: FakeResponse[] = [];
+  private cycle = 0;
+  /** Request bodies received, oldest first. */
+  readonly requests: Record<string, any>[] = [];
+
+  /** Queue replies for the next requests, in order. */
+  enqueue(...responses: FakeResponse[]): void {
+    this.queue.push(...responses);
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.cycle = 0;
+    this.requests.length = 0;
+  }
+
+  /** Whether a request URL is meant for the fake provider. */
+  handles(url: string | URL): boolean {
+    return new URL(url).hostname === FAKE_PROVIDER_HOST;
+  }
+
+  /** The wire response (OpenAI format, JSON or SSE chunks) for one request. */
+  respond(body: Record<string, any> | undefined): RecordedResponse {
+    const request = body ?? {};
+    this.requests.push(request);
+    const reply = this.next(request);
+
+    if (reply.status && reply.status >= 400) {
+      return { status: reply.status, headers: { 'content-type': 'application/json' }, body: { error: { message: reply.error ?? 'Scripted failure' } } };
+    }
+
+    const content = reply.content ?? '';
+    const toolCalls = (reply.toolCalls ?? []).map((c, i) => ({
+      id: `call_fake_${i}`,
+      type: 'function',
+      function: { name: c.name, arguments: typeof c.arguments === 'string' ? c.arguments : JSON.stringify(c.arguments) },
+    }));
+    const finishReason = reply.finishReason ?? (toolCalls.length ? 'tool_calls' : 'stop');
+    const usage = reply.usage ?? { inputTokens: Math.ceil(JSON.stringify(request.messages ?? []).length / 4), outputTokens: Math.ceil(content.length / 4) };
+    const wireUsage = { prompt_tokens: usage.inputTokens, completion_tokens: usage.outputTokens, total_tokens: usage.inputTokens + usage.outputTokens };
+
+    if (!request.stream) {
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+        body: {
+          id: 'fake-completion',
+          object: 'chat.completion',
+          model: request.model,
+          choices: [{ index: 0, message: { role: 'assistant', content, reasoning: reply.reasoning, tool_calls: toolCalls.length ? toolCalls : undefined }, finish_reason: finishReason }],
+          usage: wireUsage,
+        },
+      };
+    }
+
+    const delayMs = reply.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+    const event = (payload: unknown) => ({ delayMs, data: `data: ${JSON.stringify(payload)}\n\n` });
+    const chunk = (delta: Record<string, unknown>, finish: string | null = null) =>
+      event({ id: 'fake-completion', object: 'chat.completion.chunk', model: request.model, choices: [{ index: 0, delta, finish_reason: finish }] });
+    const chunks = [];
+    const reasoning = reply.reasoning ?? '';
+    for (let i = 0; i < reasoning.length; i += CHUNK_CHARS) {
+      chunks.push(chunk({ reasoning: reasoning.slice(i, i + CHUNK_CHARS) }));
+    }
+    for (let i = 0; i < content.length; i += CHUNK_CHARS) {
+      chunks.push(chunk({ content: content.slice(i, i + CHUNK_CHARS) }));
+    }
+    toolCalls.forEach((call, index) => chunks.push(chunk({ tool_calls: [{ index, ...call }] })));
+    chunks.push(chunk({}, finishReason));
+    chunks.push(event({ id: 'fake-completion', object: 'chat.completion.chunk', choices: [], usage: wireUsage }));
+    chunks.push({ delayMs, data: 'data: [DONE]\n\n' });
+    return { status: 200, headers: { 'content-type': 'text/event-stream' }, chunks };
+  }
+
+  private next(request: Record<string, any>): FakeResponse {
+    const queued = this.queue.shift();
+    if (queued) { return queued; }
+    const configured = vscode.workspace.getConfiguration('prompt2code').get<string[]>('fakeProvider.responses', []) ?? [];
+    if (configured.length) { return { content: configured[this.cycle++ % configured.length] }; }
+    const messages: { role: string; content: unknown }[] = request.messages ?? [];
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const text = typeof lastUser?.content === 'string' ? lastUser.content : JSON.stringify(lastUser?.content ?? '');
+    return { content: `Echo: ${text}` };
+  }
+}
+
+/** Shared script, so tests and the fake adapter see the same queue. */
+export const fakeProvider = new FakeProviderScript();
+
+/** Offline provider for tests and demos; answers from `fakeProvider` and needs no key. */
+export class FakeAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'fake';
+  readonly meta = { name: 'Fake (scripted)', apiKeyUrl: 'the prompt2code.fakeProvider settings', placeholder: 'No key needed' };
+  readonly keyOptional = true;
+  readonly timeoutMs = 10000;
+  protected readonly streamUsage = true;
+
+  protected completionsUrl(): string {
+    return `http://${FAKE_PROVIDER_HOST}/v1/chat/completions`;
+  }
+
+  protected defaultValidationModel(): string {
+    return 'fake';
+  }
+
+  mapError(failure: ProviderFailure): Error {
+    return new Error(`Fake provider error (${failure.status || 'network'}): ${failure.message}`);
+  }
+}
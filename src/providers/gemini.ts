@@ -0,0 +1,278 @@
+import { GroqContentPart, GroqMessage, GroqTool, GroqToolCall, GroqToolChoice } from '../groqClient';
+import { parseImageDataUrl, parseToolArguments } from './openaiCompatible';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderFailure,
+  ProviderHttpRequest,
+  ProviderModelInfo,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from './types';
+
+/** A content part; Gemini sets exactly one of these fields. */
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: { content: string } };
+}
+
+type GeminiContent = { role: string; parts: GeminiPart[] };
+
+/** Token counts; in a stream every chunk carries the running totals. */
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
+/** A GenerateContentResponse, or one streamed chunk of it. */
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] }; finishReason?: string }[];
+  usageMetadata?: GeminiUsageMetadata;
+  error?: { message?: string };
+}
+
+/** Function declarations plus the calling mode, merged into a request body. */
+type GeminiToolFields = {
+  tools: { functionDeclarations: { name: string; description?: string; parameters: unknown }[] }[];
+  toolConfig: { functionCallingConfig: { mode: 'AUTO' | 'ANY' | 'NONE'; allowedFunctionNames?: string[] } };
+};
+
+/**
+ * Text and image parts → Gemini parts. Images are sent as `inlineData`;
+ * Gemini cannot fetch remote URLs, so those are passed on as text.
+ */
+function toGeminiParts(parts: GroqContentPart[]): GeminiPart[] {
+  return parts.map((p): GeminiPart => {
+    if (p.type === 'text') { return { text: p.text }; }
+    const inline = parseImageDataUrl(p.image_url.url);
+    return inline ? { inlineData: { mimeType: inline.mimeType, data: inline.data } } : { text: `Image: ${p.image_url.url}` };
+  });
+}
+
+/**
+ * Convert to Gemini's `contents` format (assistant → model, system →
+ * systemInstruction). Tool calls become `functionCall` parts and tool
+ * results `functionResponse` parts, matched by function name; images
+ * become `inlineData` parts.
+ */
+export function toGeminiContents(messages: GroqMessage[]): {
+  systemInstruction?: string;
+  contents: GeminiContent[];
+} {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  for (const m of messages) {
+    const text = typeof m.content === 'string'
+      ? m.content
+      : m.content.flatMap(p => (p.type === 'text' ? [p.text] : [])).join('\n');
+    if (m.role === 'system') { system.push(text); continue; }
+
+    if (m.role === 'tool') {
+      const part = { functionResponse: { name: m.name ?? '', response: { content: text } } };
+      const prev = contents[contents.length - 1];
+      // Results of parallel calls go back in one turn
+      if (prev?.role === 'user' && prev.parts.every(p => p.functionResponse)) { prev.parts.push(part); }
+      else { contents.push({ role: 'user', parts: [part] }); }
+      continue;
+    }
+
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      const parts: GeminiPart[] = text ? [{ text }] : [];
+      for (const call of m.tool_calls) {
+        parts.push({ functionCall: { name: call.function.name, args: parseToolArguments(call.function.arguments) } });
+      }
+      contents.push({ role: 'model', parts });
+      continue;
+    }
+
+    const parts = Array.isArray(m.content) && m.content.some(p => p.type === 'image_url') ? toGeminiParts(m.content) : [{ text }];
+    contents.push({ role: m.role === 'assistant' ? 'model' : 'user', parts });
+  }
+  // Several system messages (the prompt, then project context) become one instruction
+  return { systemInstruction: system.length ? system.join('\n\n') : undefined, contents };
+}
+
+/** JSON Schema keywords outside the OpenAPI subset Gemini accepts. */
+const UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', 'additionalProperties', 'default', 'const', 'pattern', 'oneOf', 'allOf']);
+
+/** Gemini accepts an OpenAPI subset of JSON Schema; drop the keywords it rejects. */
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) { return schema.map(toGeminiSchema); }
+  if (!schema || typeof schema !== 'object') { return schema; }
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) { continue; }
+    // `properties` maps names to schemas — its keys are not keywords
+    out[key] = key === 'properties' && value && typeof value === 'object'
+      ? Object.fromEntries(Object.entries(value).map(([name, sub]) => [name, toGeminiSchema(sub)]))
+      : toGeminiSchema(value);
+  }
+  return out;
+}
+
+/** Function declarations plus the calling mode for a request with tools. */
+function toGeminiTools(tools: GroqTool[], choice: GroqToolChoice | undefined): GeminiToolFields {
+  const functionCallingConfig: GeminiToolFields['toolConfig']['functionCallingConfig'] = { mode: 'AUTO' };
+  if (choice === 'none') { functionCallingConfig.mode = 'NONE'; }
+  else if (choice === 'required') { functionCallingConfig.mode = 'ANY'; }
+  else if (choice && typeof choice === 'object') {
+    functionCallingConfig.mode = 'ANY';
+    functionCallingConfig.allowedFunctionNames = [choice.function.name];
+  }
+  return {
+    tools: [{
+      functionDeclarations: tools.map(t => ({
+        name: t.function.name,
+        description: t.function.description,
+        parameters: toGeminiSchema(t.function.parameters),
+      })),
+    }],
+    toolConfig: { functionCallingConfig },
+  };
+}
+
+type FunctionCallPart = GeminiPart & { functionCall: { name: string } };
+
+/** The `functionCall` parts of a candidate, in order. */
+function functionCallParts(parts: GeminiPart[]): FunctionCallPart[] {
+  return parts.filter((p): p is FunctionCallPart => typeof p?.functionCall?.name === 'string');
+}
+
+/** Tool calls of a whole response. Gemini has no call IDs, so they are made up from the position and name. */
+function parseFunctionCalls(parts: GeminiPart[]): GroqToolCall[] {
+  return functionCallParts(parts).map((p, i) => ({
+    id: p.functionCall.id ?? `call_${i}_${p.functionCall.name}`,
+    type: 'function',
+    function: { name: p.functionCall.name, arguments: JSON.stringify(p.functionCall.args ?? {}) },
+  }));
+}
+
+/** Normalise Gemini's finish reason so truncation reads as `length`. */
+function normaliseFinish(rawFinish: string | undefined): string | undefined {
+  if (!rawFinish) { return undefined; }
+  return rawFinish === 'MAX_TOKENS' ? 'length' : rawFinish;
+}
+
+/** Read `usageMetadata`; in a stream every chunk carries the running totals. */
+function parseUsageMetadata(meta: GeminiUsageMetadata | undefined): ProviderUsage | undefined {
+  if (!meta || typeof meta.promptTokenCount !== 'number') { return undefined; }
+  // Gemini caches repeated prefixes implicitly and reports the hits
+  const cached = meta.cachedContentTokenCount;
+  return {
+    inputTokens: meta.promptTokenCount,
+    outputTokens: meta.candidatesTokenCount ?? 0,
+    ...(typeof cached === 'number' ? { cachedInputTokens: cached } : {}),
+  };
+}
+
+/** Google Gemini models — generateContent / streamGenerateContent with the key in the query string. */
+export class GeminiAdapter implements ProviderAdapter {
+  readonly id = 'gemini';
+  readonly meta = { name: 'Google Gemini', apiKeyUrl: 'https://aistudio.google.com/app/apikey', placeholder: 'AIza…' };
+  readonly timeoutMs = 60000;
+  readonly maxRetries = 0;
+
+  constructor(private readonly baseUrl = 'https://generativelanguage.googleapis.com/v1beta') {}
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    const { systemInstruction, contents } = toGeminiContents(options.messages);
+    const generationConfig: Record<string, unknown> = { maxOutputTokens: options.maxTokens, temperature: options.temperature };
+    const body: Record<string, unknown> = { contents, generationConfig };
+    if (systemInstruction) { body.systemInstruction = { parts: [{ text: systemInstruction }] }; }
+    if (options.tools?.length) { Object.assign(body, toGeminiTools(options.tools, options.toolChoice)); }
+    if (options.responseFormat) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseSchema = toGeminiSchema(options.responseFormat.schema);
+    }
+    const url = options.stream
+      ? `${this.baseUrl}/models/${options.model}:streamGenerateContent?alt=sse&key=${options.apiKey}`
+      : `${this.baseUrl}/models/${options.model}:generateContent?key=${options.apiKey}`;
+    return {
+      method: 'POST',
+      url,
+      headers: { 'content-type': 'application/json', ...(options.stream ? { 'Accept': 'text/event-stream' } : {}) },
+      body,
+    };
+  }
+
+  parseResponse(data: GeminiResponse): ProviderCompletion {
+    const parts = data?.candidates?.[0]?.content?.parts ?? [];
+    const content = parts.map(p => p?.text ?? '').join('');
+    const toolCalls = parseFunctionCalls(parts);
+    if (!content && toolCalls.length === 0) { throw new Error('Gemini returned an empty response'); }
+    return {
+      content,
+      // Gemini reports STOP for a turn that ends in function calls
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : (normaliseFinish(data?.candidates?.[0]?.finishReason) ?? 'stop'),
+      usage: parseUsageMetadata(data?.usageMetadata),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  /**
+   * Each SSE payload is a partial GenerateContentResponse; join the text of
+   * all parts. Function calls arrive whole, so each is its own delta.
+   */
+  parseStreamEvent(parsed: GeminiResponse): ProviderStreamEvent {
+    if (parsed?.error) {
+      return { error: parsed.error.message ?? 'Gemini stream error' };
+    }
+    const candidate = parsed?.candidates?.[0];
+    const parts = candidate?.content?.parts ?? [];
+    const delta = parts.map(p => p?.text ?? '').join('');
+    // Calls without an ID are numbered by the stream assembler, in the order they arrive
+    const calls = functionCallParts(parts);
+    return {
+      delta: delta || undefined,
+      finishReason: calls.length > 0 ? 'tool_calls' : normaliseFinish(candidate?.finishReason),
+      usage: parseUsageMetadata(parsed?.usageMetadata),
+      toolCalls: calls.length > 0
+        ? calls.map(p => ({ id: p.functionCall.id, name: p.functionCall.name, arguments: JSON.stringify(p.functionCall.args ?? {}) }))
+        : undefined,
+    };
+  }
+
+  mapError(failure: ProviderFailure): Error {
+    const { status, message } = failure;
+    if (status === 400 && message?.includes('API key')) {
+      return new Error(`Gemini API key is invalid (400). Please update your key in Configure Tools (⚙️). Get a key at aistudio.google.com/app/apikey`);
+    }
+    if (status === 401 || status === 403) {
+      return new Error(`Gemini API key is invalid or unauthorized (${status}). Please update your key in Configure Tools (⚙️). Get a key at aistudio.google.com/app/apikey`);
+    }
+    if (status === 429) {
+      return new Error(`Gemini rate limit exceeded (429). Please wait a moment and try again. Details: ${message}`);
+    }
+    return new Error(`Gemini API error (${status || 'network'}): ${message}`);
+  }
+
+  buildValidationRequest(apiKey: string, modelId?: string): ProviderHttpRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/models/${modelId || 'gemini-1.5-flash'}:generateContent?key=${apiKey}`,
+      headers: { 'content-type': 'application/json' },
+      body: { contents: [{ role: 'user', parts: [{ text: 'hi' }] }], generationConfig: { maxOutputTokens: 1 } },
+    };
+  }
+
+  buildModelsRequest(apiKey: string): ProviderHttpRequest {
+    return { method: 'GET', url: `${this.baseUrl}/models?pageSize=1000&key=${apiKey}`, headers: {} };
+  }
+
+  /** `{ models: [{ name: 'models/…', displayName, inputTokenLimit, supportedGenerationMethods }] }` */
+  parseModels(data: { models?: { name?: string; displayName?: string; inputTokenLimit?: number; supportedGenerationMethods?: string[] }[] }): ProviderModelInfo[] {
+    const entries = Array.isArray(data?.models) ? data.models : [];
+    return entries
+      .filter((m): m is typeof m & { name: string } => typeof m?.name === 'string' && (m.supportedGenerationMethods ?? []).includes('generateContent'))
+      .filter(m => !/embedding|aqa|imagen/i.test(m.name))
+      .map(m => ({
+        id: m.name.replace(/^models\//, ''),
+        label: typeof m.displayName === 'string' ? m.displayName : undefined,
+        contextWindow: Number(m.inputTokenLimit) || undefined,
+      }));
+  }
+}
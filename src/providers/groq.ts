@@ -0,0 +1,49 @@
+import { modelCatalog } from '../modelCatalog';
+import { isGptOssModel } from '../reasoning';
+import { OpenAICompatibleAdapter } from './openaiCompatible';
+import { ProviderFailure, ProviderRequestOptions, ProviderRetry } from './types';
+
+/** Groq (and Groq-hosted OSS models) — OpenAI-compatible, retries rate limits and flaky networks. */
+export class GroqAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'groq';
+  readonly meta = { name: 'Groq', apiKeyUrl: 'https://console.groq.com', placeholder: 'gsk_…' };
+  readonly timeoutMs = 30000;
+  readonly maxRetries = 3;
+
+  constructor(private readonly baseUrl = 'https://api.groq.com/openai/v1') {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected defaultValidationModel(): string {
+    return 'llama-3.1-8b-instant';
+  }
+
+  /** Groq's other reasoning models (DeepSeek-R1, Qwen) return their thinking apart from the answer only when asked. */
+  protected generationFields(options: ProviderRequestOptions): Record<string, unknown> {
+    const fields = super.generationFields(options);
+    if (isGptOssModel(options.model) || !modelCatalog.supports(options.model, 'reasoning')) { return fields; }
+    return { ...fields, reasoning_format: 'parsed' };
+  }
+
+  retry(failure: ProviderFailure, attempt: number): ProviderRetry | undefined {
+    const isRateLimit = failure.status === 429;
+    const isTransient = !failure.status && ['ENOTFOUND', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN'].includes(failure.code ?? '');
+    if (!isRateLimit && !isTransient) { return undefined; }
+    let delayMs = 500 * Math.pow(2, attempt);
+    if (isRateLimit) {
+      const s = Number(failure.headers?.['retry-after']);
+      if (Number.isFinite(s) && s > 0) { delayMs = Math.max(delayMs, s * 1000); }
+    }
+    return { delayMs };
+  }
+
+  mapError(failure: ProviderFailure): Error {
+    return failure.status
+      ? new Error(`Groq API error (${failure.status}): ${failure.message}`)
+      : new Error(`Groq network error${failure.code ? ` (${failure.code})` : ''}: ${failure.message}`);
+  }
+}
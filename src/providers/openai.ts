@@ -0,0 +1,37 @@
+import { OpenAICompatibleAdapter } from './openaiCompatible';
+import { ProviderFailure } from './types';
+
+/** OpenAI GPT models via api.openai.com. */
+export class OpenAIAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'openai';
+  readonly meta = { name: 'OpenAI', apiKeyUrl: 'https://platform.openai.com/api-keys', placeholder: 'sk-…' };
+  protected readonly streamUsage = true;
+  protected readonly jsonSchemaFormat = true;
+  protected readonly promptCacheKey = true;
+
+  constructor(private readonly baseUrl = 'https://api.openai.com/v1') {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected defaultValidationModel(): string {
+    return 'gpt-4o-mini';
+  }
+
+  mapError(failure: ProviderFailure): Error {
+    const { status, message } = failure;
+    if (status === 401) {
+      return new Error(`OpenAI API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Details: ${message}`);
+    }
+    if (status === 429) {
+      return new Error(`OpenAI rate limit exceeded (429). Please wait a moment and try again. Details: ${message}`);
+    }
+    if (status === 402 || status === 403) {
+      return new Error(`OpenAI access denied (${status}). Check your billing/plan at platform.openai.com. Details: ${message}`);
+    }
+    return new Error(`OpenAI API error (${status || 'network'}): ${message}`);
+  }
+}
@@ -0,0 +1,328 @@
+import * as crypto from 'crypto';
+import { GroqContentPart, GroqMessage, GroqToolCall } from '../groqClient';
+import type { JsonSchema } from '../jsonSchema';
+import { acceptsReasoningEffort, acceptsSystemRole, isGptOssModel, isOpenAIReasoningModel, reasoningHeadroom } from '../reasoning';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderFailure,
+  ProviderHttpRequest,
+  ProviderMeta,
+  ProviderModelInfo,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from './types';
+
+/** A message as sent to an OpenAI-compatible endpoint; text blocks may carry a cache breakpoint. */
+export interface OpenAIWireMessage {
+  role: GroqMessage['role'];
+  content: string | null | (GroqContentPart & { cache_control?: { type: 'ephemeral' } })[];
+  tool_calls?: GroqToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+/** The fields of an OpenAI-style `usage` object that are read. */
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+/** A tool call in a message, or a fragment of one in a stream delta. */
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/** `choices[0].message` of a completion, or `choices[0].delta` of a stream chunk. */
+interface OpenAIReplyMessage {
+  content?: string | null;
+  tool_calls?: OpenAIToolCall[];
+  reasoning?: string;
+  reasoning_content?: string;
+}
+
+/** A chat completion, or one stream chunk of it. Groq reports a stream's usage under `x_groq`. */
+interface OpenAIChatResponse {
+  choices?: { message?: OpenAIReplyMessage; delta?: OpenAIReplyMessage; finish_reason?: string | null }[];
+  usage?: OpenAIUsage;
+  x_groq?: { usage?: OpenAIUsage };
+  error?: { message?: string };
+}
+
+/** A `GET /models` listing; servers name the context size differently. */
+interface OpenAIModelListing {
+  data?: { id?: string; name?: string; active?: boolean; context_window?: number; context_length?: number; max_model_len?: number }[];
+}
+
+/** Read an OpenAI-style `usage` object (`prompt_tokens` / `completion_tokens`, cache hits under `prompt_tokens_details`). */
+export function parseOpenAIUsage(usage: OpenAIUsage | undefined): ProviderUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') { return undefined; }
+  const cached = usage.prompt_tokens_details?.cached_tokens;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens ?? 0,
+    ...(typeof cached === 'number' ? { cachedInputTokens: cached } : {}),
+  };
+}
+
+/**
+ * Routing key for the cached prefix of a conversation: the system messages
+ * up to the last one marked `cache`. History is left out so every turn of a
+ * chat lands on the same key. Undefined when no system message is marked.
+ */
+export function promptCacheKey(messages: GroqMessage[]): string | undefined {
+  const firstTurn = messages.findIndex(m => m.role !== 'system');
+  const leading = firstTurn < 0 ? messages : messages.slice(0, firstTurn);
+  const end = leading.map(m => !!m.cache).lastIndexOf(true);
+  if (end < 0) { return undefined; }
+  const prefix = JSON.stringify(leading.slice(0, end + 1).map(m => m.content));
+  return `p2c-${crypto.createHash('sha256').update(prefix).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * GroqMessage already mirrors OpenAI's format; only tool traffic needs
+ * adjusting — tool results drop the Gemini-only `name`, and an assistant
+ * turn that only calls tools sends `content: null`. The `cache` marker is
+ * internal and never sent.
+ */
+export function toOpenAIMessages(messages: GroqMessage[]): OpenAIWireMessage[] {
+  if (!messages.some(m => m.role === 'tool' || m.tool_calls?.length || m.cache)) { return messages; }
+  return messages.map(m => {
+    if (m.role === 'tool') {
+      const text = typeof m.content === 'string' ? m.content : m.content.map(p => p.type === 'text' ? p.text : '').join('');
+      return { role: 'tool', tool_call_id: m.tool_call_id, content: text };
+    }
+    if (m.tool_calls?.length) {
+      return { role: 'assistant', content: m.content || null, tool_calls: m.tool_calls };
+    }
+    // Undefined fields are dropped when the body is serialised
+    return m.cache ? { ...m, cache: undefined } : m;
+  });
+}
+
+/** Split a `data:<mime>;base64,<data>` image URL; undefined for remote (http) URLs. */
+export function parseImageDataUrl(url: string): { mimeType: string; data: string } | undefined {
+  const match = /^data:([\w/+.-]+);base64,(.*)$/s.exec(url);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+}
+
+/** Decode a tool call's JSON `arguments` string; malformed JSON becomes an empty object. */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Read `message.tool_calls`, dropping malformed entries. */
+function parseOpenAIToolCalls(raw: OpenAIToolCall[] | undefined): GroqToolCall[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) { return undefined; }
+  return raw
+    .filter((tc): tc is OpenAIToolCall & { function: { name: string } } => typeof tc?.function?.name === 'string')
+    .map((tc, i) => ({
+      id: typeof tc.id === 'string' ? tc.id : `call_${i}`,
+      type: 'function' as const,
+      function: { name: tc.function.name, arguments: tc.function.arguments ?? '{}' },
+    }));
+}
+
+/** Reasoning returned beside the answer: `reasoning` (Groq, OpenRouter) or `reasoning_content` (DeepSeek, vLLM). */
+function reasoningText(message: OpenAIReplyMessage | undefined): string | undefined {
+  const text = message?.reasoning ?? message?.reasoning_content;
+  return typeof text === 'string' && text ? text : undefined;
+}
+
+/** Model IDs in OpenAI-style listings that cannot serve chat completions. */
+const NON_CHAT_MODEL = /embed|whisper|tts|dall-e|moderation|audio|realtime|transcribe|image|search|guard|babbage|davinci|distil/i;
+
+/**
+ * Shared base for providers that speak the OpenAI chat completions format
+ * (`choices[0].message` / `choices[0].delta`). Subclasses supply the URL,
+ * auth headers and error wording.
+ */
+export abstract class OpenAICompatibleAdapter implements ProviderAdapter {
+  abstract readonly id: string;
+  abstract readonly meta: ProviderMeta;
+  readonly timeoutMs: number = 60000;
+  readonly maxRetries: number = 0;
+
+  /** Full URL of the `/chat/completions` endpoint (per model on providers that address deployments). */
+  protected abstract completionsUrl(model?: string): string;
+
+  protected authHeaders(apiKey: string): Record<string, string> {
+    return { 'Authorization': `Bearer ${apiKey}` };
+  }
+
+  /**
+   * Whether to ask for a final usage chunk when streaming (`stream_options.include_usage`).
+   * Off by default: older self-hosted servers reject unknown fields.
+   */
+  protected readonly streamUsage: boolean = false;
+
+  /**
+   * Whether the provider takes `response_format: json_schema`. Others get
+   * plain JSON mode (`json_object`) and the schema only via the prompt.
+   */
+  protected readonly jsonSchemaFormat: boolean = false;
+
+  /**
+   * Whether to send `prompt_cache_key` for conversations with a cached
+   * prefix, so requests that share it are routed to the same cache.
+   */
+  protected readonly promptCacheKey: boolean = false;
+
+  /** Model ID as the provider expects it on the wire. */
+  protected wireModel(model: string): string {
+    return model;
+  }
+
+  /** The model whose family decides reasoning parameters (Azure maps deployments to their model). */
+  protected reasoningModel(model: string): string {
+    return model;
+  }
+
+  /** Whether `reasoning_effort` may be sent to this endpoint. */
+  protected acceptsReasoningEffort(): boolean {
+    return true;
+  }
+
+  /** Messages in the wire format; the first o1 models take instructions only as a user turn. */
+  protected wireMessages(messages: GroqMessage[], model: string): OpenAIWireMessage[] {
+    const wire = toOpenAIMessages(messages);
+    if (acceptsSystemRole(this.reasoningModel(model))) { return wire; }
+    return wire.map(m => (m.role === 'system' ? { ...m, role: 'user' as const } : m));
+  }
+
+  /**
+   * Output cap, temperature and reasoning parameters. OpenAI reasoning
+   * models take `max_completion_tokens` and no temperature; they and
+   * GPT-OSS reason within the cap, so it is raised by the effort's headroom.
+   */
+  protected generationFields(options: ProviderRequestOptions): Record<string, unknown> {
+    const model = this.reasoningModel(options.model);
+    const effort = options.reasoning && this.acceptsReasoningEffort() ? { reasoning_effort: options.reasoning.effort } : {};
+    if (isOpenAIReasoningModel(model)) {
+      return {
+        max_completion_tokens: options.maxTokens + reasoningHeadroom(options.reasoning),
+        ...(acceptsReasoningEffort(model) ? effort : {}),
+      };
+    }
+    if (isGptOssModel(model)) {
+      return { max_completion_tokens: options.maxTokens + reasoningHeadroom(options.reasoning), temperature: options.temperature, ...effort };
+    }
+    return { max_tokens: options.maxTokens, temperature: options.temperature };
+  }
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    return {
+      method: 'POST',
+      url: this.completionsUrl(options.model),
+      headers: {
+        ...this.authHeaders(options.apiKey),
+        'Content-Type': 'application/json',
+        ...(options.stream ? { 'Accept': 'text/event-stream' } : {}),
+      },
+      body: {
+        model: this.wireModel(options.model),
+        messages: this.wireMessages(options.messages, options.model),
+        ...this.generationFields(options),
+        stream: options.stream,
+        ...(options.stream && this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...(options.tools?.length ? { tools: options.tools, tool_choice: options.toolChoice ?? 'auto' } : {}),
+        ...(options.responseFormat ? { response_format: this.responseFormat(options.responseFormat) } : {}),
+        ...(this.promptCacheKey && promptCacheKey(options.messages) ? { prompt_cache_key: promptCacheKey(options.messages) } : {}),
+      },
+    };
+  }
+
+  private responseFormat(format: { name: string; schema: JsonSchema }): Record<string, unknown> {
+    return this.jsonSchemaFormat
+      ? { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } }
+      : { type: 'json_object' };
+  }
+
+  parseResponse(data: OpenAIChatResponse): ProviderCompletion {
+    const choice = data?.choices?.[0];
+    const content = typeof choice?.message?.content === 'string' ? choice.message.content : '';
+    const toolCalls = parseOpenAIToolCalls(choice?.message?.tool_calls);
+    const reasoning = reasoningText(choice?.message);
+    if (!content.trim() && !toolCalls?.length) {
+      if (choice?.finish_reason === 'length' && (reasoning || data?.usage?.completion_tokens_details?.reasoning_tokens)) {
+        throw new Error(`${this.meta.name} spent the whole token limit reasoning before answering. Lower prompt2code.reasoning.effort or raise the max tokens.`);
+      }
+      throw new Error(`${this.meta.name} returned an empty response`);
+    }
+    return { content, finishReason: choice?.finish_reason ?? undefined, usage: parseOpenAIUsage(data?.usage), toolCalls, reasoning };
+  }
+
+  parseStreamEvent(parsed: OpenAIChatResponse): ProviderStreamEvent {
+    if (parsed?.error) {
+      return { error: parsed.error.message ?? `${this.meta.name} stream error` };
+    }
+    // The usage chunk has an empty `choices` array; Groq puts it under `x_groq`
+    const choice = parsed?.choices?.[0];
+    const toolCalls = Array.isArray(choice?.delta?.tool_calls)
+      ? choice.delta.tool_calls.map(tc => ({
+        index: typeof tc.index === 'number' ? tc.index : 0,
+        id: tc.id,
+        name: tc.function?.name,
+        arguments: tc.function?.arguments,
+      }))
+      : undefined;
+    return {
+      delta: choice?.delta?.content || undefined,
+      reasoningDelta: reasoningText(choice?.delta),
+      finishReason: choice?.finish_reason || undefined,
+      usage: parseOpenAIUsage(parsed?.usage ?? parsed?.x_groq?.usage),
+      toolCalls,
+    };
+  }
+
+  mapError(failure: ProviderFailure, _context: { model: string; url: string }): Error {
+    return new Error(`${this.meta.name} API error (${failure.status || 'network'}): ${failure.message}`);
+  }
+
+  buildValidationRequest(apiKey: string, modelId?: string): ProviderHttpRequest {
+    const request = this.buildRequest({
+      model: modelId || this.defaultValidationModel(),
+      messages: [{ role: 'user', content: 'hi' }],
+      apiKey,
+      maxTokens: 1,
+      temperature: 0,
+      stream: false,
+    });
+    // Reasoning models reject a non-default temperature; a 1-token ping doesn't need one
+    delete request.body?.temperature;
+    return request;
+  }
+
+  buildModelsRequest(apiKey: string): ProviderHttpRequest {
+    return {
+      method: 'GET',
+      url: this.completionsUrl().replace(/\/chat\/completions$/, '/models'),
+      headers: this.authHeaders(apiKey),
+    };
+  }
+
+  /** `{ data: [{ id, context_window? }] }` — listings mix in embedding, audio and image models. */
+  parseModels(data: OpenAIModelListing): ProviderModelInfo[] {
+    const entries = Array.isArray(data?.data) ? data.data : [];
+    return entries
+      .filter((m): m is typeof m & { id: string } => typeof m?.id === 'string' && m.active !== false && !NON_CHAT_MODEL.test(m.id))
+      .map(m => ({
+        id: m.id,
+        label: typeof m.name === 'string' ? m.name : undefined,
+        contextWindow: Number(m.context_window ?? m.context_length ?? m.max_model_len) || undefined,
+      }));
+  }
+
+  /** Model used to validate a key when the caller did not pick one. */
+  protected abstract defaultValidationModel(): string;
+}
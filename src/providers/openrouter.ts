@@ -0,0 +1,127 @@
+import { GroqMessage } from '../groqClient';
+import { modelCatalog } from '../modelCatalog';
+import { reasoningHeadroom, thinkingBudgetFor } from '../reasoning';
+import { cacheBreakpoints } from './anthropic';
+import { OpenAICompatibleAdapter, OpenAIWireMessage, toOpenAIMessages } from './openaiCompatible';
+import { ProviderFailure, ProviderRequestOptions, ProviderRetry } from './types';
+import { traceLog } from '../traceLog';
+
+/** Check if an API key is an OpenRouter key. */
+export function isOpenRouterKey(apiKey: string): boolean {
+  return apiKey.trim().startsWith('sk-or-');
+}
+
+/** Map an internal model ID to the OpenRouter equivalent (catalog models may carry their OpenRouter ID). */
+export function toOpenRouterModel(modelId: string): string {
+  return modelCatalog.get(modelId)?.openRouterId || modelId;
+}
+
+/**
+ * OpenRouter — unified gateway; uses OpenAI-compatible format.
+ * Not tied to a model family: any model is routed here when its key is an OpenRouter key.
+ */
+export class OpenRouterAdapter extends OpenAICompatibleAdapter {
+  readonly id = 'openrouter';
+  readonly meta = { name: 'OpenRouter', apiKeyUrl: 'https://openrouter.ai/keys', placeholder: 'sk-or-…' };
+  readonly timeoutMs = 90000;
+  readonly maxRetries = 2;
+  protected readonly streamUsage = true;
+
+  constructor(private readonly baseUrl = 'https://openrouter.ai/api/v1') {
+    super();
+  }
+
+  protected completionsUrl(): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected authHeaders(apiKey: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${apiKey}`,
+      'HTTP-Referer': 'https://github.com/Sujay149/Prompt2Code',
+      'X-Title': 'Prompt2Code',
+    };
+  }
+
+  protected wireModel(model: string): string {
+    return toOpenRouterModel(model);
+  }
+
+  /**
+   * Claude and Gemini models on OpenRouter cache only what carries an
+   * explicit `cache_control` breakpoint, so marked messages are sent as
+   * content blocks with one on their last block.
+   */
+  protected wireMessages(messages: GroqMessage[], model: string): OpenAIWireMessage[] {
+    const wire = toOpenAIMessages(messages);
+    if (!/^(anthropic|google)\//.test(toOpenRouterModel(model))) { return wire; }
+    const breakpoints = cacheBreakpoints(messages);
+    return wire.map((m, i) => {
+      if (!breakpoints.has(i) || typeof m.content !== 'string' || !m.content) { return m; }
+      return { ...m, content: [{ type: 'text', text: m.content, cache_control: { type: 'ephemeral' } }] };
+    });
+  }
+
+  protected defaultValidationModel(): string {
+    return 'meta-llama/llama-3.1-8b-instruct';
+  }
+
+  /**
+   * OpenRouter takes one `reasoning` object for every family — a token
+   * budget for Claude, an effort level for the rest — translates
+   * `max_tokens` per model, and returns the reasoning beside the answer.
+   */
+  protected generationFields(options: ProviderRequestOptions): Record<string, unknown> {
+    const plain = { max_tokens: options.maxTokens, temperature: options.temperature };
+    if (!options.reasoning || !modelCatalog.supports(options.model, 'reasoning')) { return plain; }
+    if (/^anthropic\//.test(toOpenRouterModel(options.model))) {
+      const budget = thinkingBudgetFor(options);
+      // Claude thinks only at the default temperature
+      return budget ? { max_tokens: options.maxTokens + budget, reasoning: { max_tokens: budget } } : plain;
+    }
+    return {
+      max_tokens: options.maxTokens + reasoningHeadroom(options.reasoning),
+      reasoning: { effort: options.reasoning.effort },
+    };
+  }
+
+  retry(failure: ProviderFailure, attempt: number, maxTokens: number): ProviderRetry | undefined {
+    if (failure.status === 402) {
+      // Try to parse how many tokens we can afford and retry with less
+      const affordMatch = failure.message?.match(/can only afford (\d+)/);
+      if (affordMatch) {
+        const canAfford = parseInt(affordMatch[1], 10);
+        if (canAfford > 50) {
+          const reduced = Math.max(canAfford - 20, 50);
+          traceLog.output.info(`OpenRouter 402: reducing max_tokens to ${reduced} and retrying`);
+          return { maxTokens: reduced };
+        }
+      }
+      // If we can't parse, try halving
+      const halved = Math.max(Math.floor(maxTokens / 2), 100);
+      traceLog.output.info(`OpenRouter 402: halving max_tokens to ${halved} and retrying`);
+      return { maxTokens: halved };
+    }
+    if (failure.status === 429) {
+      return { delayMs: 1000 * Math.pow(2, attempt) };
+    }
+    return undefined;
+  }
+
+  mapError(failure: ProviderFailure, context: { model: string }): Error {
+    const { status, message } = failure;
+    if (status === 401) {
+      return new Error(`OpenRouter API key is invalid or expired (401). Please update your key in Configure Tools (⚙️). Get a key at openrouter.ai/keys`);
+    }
+    if (status === 402) {
+      return new Error(`OpenRouter: insufficient credits (402). Your free-tier balance is too low. Add credits at https://openrouter.ai/credits — or switch to a free model like Llama 3.1 8B.`);
+    }
+    if (status === 404) {
+      return new Error(`OpenRouter: model "${toOpenRouterModel(context.model)}" not found (404). Try selecting a different model from the model picker.`);
+    }
+    if (status === 429) {
+      return new Error(`OpenRouter rate limit exceeded (429). Please wait and try again.`);
+    }
+    return new Error(`OpenRouter API error (${status || 'network'}): ${message}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { ProviderAdapter } from './types';
+import { GroqAdapter } from './groq';
+import { OpenAIAdapter } from './openai';
+import { AnthropicAdapter } from './anthropic';
+import { GeminiAdapter } from './gemini';
+import { OpenRouterAdapter } from './openrouter';
+import { CustomEndpointAdapter } from './custom';
+import { AzureOpenAIAdapter } from './azure';
+import { FakeAdapter } from './fake';
+
+const adapters = new Map<string, ProviderAdapter>();
+
+/** Register (or replace) the adapter for a provider ID. */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/** Look up a provider's adapter. Unknown providers fall back to Groq, matching getProviderForModel. */
+export function getProviderAdapter(providerId: string): ProviderAdapter {
+  return adapters.get(providerId) ?? (adapters.get('groq') as ProviderAdapter);
+}
+
+// Built-in providers
+registerProviderAdapter(new GroqAdapter());
+registerProviderAdapter(new OpenAIAdapter());
+registerProviderAdapter(new AnthropicAdapter());
+registerProviderAdapter(new GeminiAdapter());
+registerProviderAdapter(new OpenRouterAdapter());
+registerProviderAdapter(new CustomEndpointAdapter());
+registerProviderAdapter(new AzureOpenAIAdapter());
+registerProviderAdapter(new FakeAdapter());
@@ -0,0 +1,153 @@
+import { GroqMessage, GroqTool, GroqToolCall, GroqToolChoice } from '../groqClient';
+import type { JsonSchema } from '../jsonSchema';
+import type { ReasoningSettings } from '../reasoning';
+
+/** Display name, API key signup URL, and key placeholder shown in the UI. */
+export interface ProviderMeta {
+  name: string;
+  apiKeyUrl: string;
+  placeholder: string;
+}
+
+/** Everything an adapter needs to build one chat completion request. */
+export interface ProviderRequestOptions {
+  model: string;
+  messages: GroqMessage[];
+  apiKey: string;
+  maxTokens: number;
+  temperature: number;
+  stream: boolean;
+  /** Functions the model may call; omitted for plain chat. */
+  tools?: GroqTool[];
+  toolChoice?: GroqToolChoice;
+  /** Ask for a JSON reply, constrained to `schema` where the provider supports response schemas. */
+  responseFormat?: { name: string; schema: JsonSchema };
+  /** Effort and thinking budget for reasoning models; other models ignore it. */
+  reasoning?: ReasoningSettings;
+}
+
+/** A ready-to-send HTTP request in the provider's wire format. */
+export interface ProviderHttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, any>;
+}
+
+/** Token counts as reported by the provider. `inputTokens` counts the whole prompt, cached or not. */
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt tokens served from the provider's prompt cache (hits); the rest were misses. */
+  cachedInputTokens?: number;
+  /** Prompt tokens written to the cache by this request (Anthropic bills these separately). */
+  cacheWriteTokens?: number;
+}
+
+/**
+ * Normalised completion: text plus a finish reason where truncation reads
+ * as `length` and a turn that ends in tool calls reads as `tool_calls`.
+ */
+export interface ProviderCompletion {
+  content: string;
+  finishReason?: string;
+  /** Omitted when the provider's response carried no usage. */
+  usage?: ProviderUsage;
+  /** Calls the model made; `content` may be empty when these are present. */
+  toolCalls?: GroqToolCall[];
+  /** The model's reasoning, when the provider returns it apart from the answer. */
+  reasoning?: string;
+}
+
+/**
+ * A fragment of a streamed tool call. Fragments with the same `index` are
+ * concatenated; a fragment without an index is a complete call of its own.
+ */
+export interface ProviderToolCallDelta {
+  index?: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+/** One SSE event's parsed `data:` payload, reduced to what the streaming loop needs. */
+export interface ProviderStreamEvent {
+  delta?: string;
+  /** A fragment of the model's reasoning; never part of the answer. */
+  reasoningDelta?: string;
+  finishReason?: string;
+  error?: string;
+  /** Usage reported so far; providers may split input and output across events. */
+  usage?: Partial<ProviderUsage>;
+  toolCalls?: ProviderToolCallDelta[];
+}
+
+/** One entry of a provider's model listing; unknown fields are left for the catalog to fill in. */
+export interface ProviderModelInfo {
+  id: string;
+  label?: string;
+  contextWindow?: number;
+}
+
+/** Transport-level failure handed to an adapter for mapping / retry decisions. */
+export interface ProviderFailure {
+  /** HTTP status, or undefined for network errors. */
+  status?: number;
+  /** Provider error message when the body had one, else the transport message. */
+  message: string;
+  /** Node network error code (ECONNREFUSED, ETIMEDOUT, …). */
+  code?: string;
+  headers?: Record<string, unknown>;
+}
+
+/** What to change before retrying a failed attempt. */
+export interface ProviderRetry {
+  delayMs?: number;
+  maxTokens?: number;
+}
+
+/**
+ * One AI provider's wire protocol. GroqClient owns transport, cancellation
+ * and Auto fallback; an adapter only translates to and from the provider's
+ * format, so adding a provider means writing one adapter and registering it.
+ */
+export interface ProviderAdapter {
+  /** Provider ID as used in AVAILABLE_MODELS (`groq`, `openai`, …). */
+  readonly id: string;
+  readonly meta: ProviderMeta;
+  /** Request timeout for non-streaming calls (ms). */
+  readonly timeoutMs: number;
+  /** How many times a failed request may be retried (see `retry`). */
+  readonly maxRetries: number;
+  /** True when requests work without an API key (local servers, the fake provider). */
+  readonly keyOptional?: boolean;
+  /** True when an OpenRouter key cannot stand in for the provider's own key. */
+  readonly ownKeyOnly?: boolean;
+
+  /** Build a completion request (streaming or not) for this provider. */
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest;
+
+  /** Extract the completion from a non-streaming response body. Throws on empty output. */
+  parseResponse(data: unknown): ProviderCompletion;
+
+  /** Extract the text delta / finish reason / error from one SSE payload (already decoded and JSON-parsed). */
+  parseStreamEvent(parsed: unknown): ProviderStreamEvent;
+
+  /** Turn a transport failure into a user-facing Error (status kept in parentheses for fallback). */
+  mapError(failure: ProviderFailure, context: { model: string; url: string }): Error;
+
+  /** Decide whether a failed attempt is worth retrying. Return undefined to give up. */
+  retry?(failure: ProviderFailure, attempt: number, maxTokens: number): ProviderRetry | undefined;
+
+  /** Build the cheapest request that proves an API key works. */
+  buildValidationRequest(apiKey: string, modelId?: string): ProviderHttpRequest;
+
+  /** Throw a configuration error before any request is made (e.g. missing base URL). */
+  checkConfigured?(): void;
+
+  /** Build the request that lists the models a key can use (`GET /models`). */
+  buildModelsRequest?(apiKey: string): ProviderHttpRequest;
+
+  /** Extract the chat-capable models from a model listing. */
+  parseModels?(data: unknown): ProviderModelInfo[];
+}
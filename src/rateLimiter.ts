@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { traceLog } from './traceLog';
+
+/** Chat and editor commands go ahead of background work such as inline completions. */
+export type RequestPriority = 'interactive' | 'background';
+
+/** Called while a request waits for a slot: the expected wait, then 0 once it is sent. */
+export type RateLimitWaitListener = (wait: { provider: string; waitMs: number }) => void;
+
+export interface RateLimitConfig {
+  /** Local request budget per provider ID; providers without one are paced by their headers alone. */
+  requestsPerMinute: Record<string, number>;
+  /** Longest a request waits in the queue before failing instead. */
+  maxWaitMs: number;
+}
+
+/** Read the rate limit settings. */
+export function getRateLimitConfig(): RateLimitConfig {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  const rpm = config.get<Record<string, number>>('rateLimit.requestsPerMinute', { groq: 30 }) ?? {};
+  const maxWait = config.get<number>('rateLimit.maxWaitSeconds', 120);
+  return {
+    requestsPerMinute: Object.fromEntries(Object.entries(rpm).filter(([, n]) => typeof n === 'number' && n > 0)),
+    maxWaitMs: (maxWait > 0 ? maxWait : 120) * 1000,
+  };
+}
+
+/** Thrown when the wait for a request slot would be longer than `prompt2code.rateLimit.maxWaitSeconds`. */
+export class RateLimitWaitError extends Error {
+  constructor(readonly provider: string, readonly waitMs: number) {
+    super(`Rate limit reached for ${provider}: the next request is allowed in ${Math.ceil(waitMs / 1000)}s. `
+      + 'Wait a moment, pick another model, or raise prompt2code.rateLimit.maxWaitSeconds.');
+    this.name = 'RateLimitWaitError';
+  }
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  seq: number;
+  onWait?: RateLimitWaitListener;
+  /** The wait last reported to `onWait`, so a listener hears each change once. */
+  reportedMs?: number;
+  resolve(): void;
+  reject(err: Error): void;
+}
+
+/** One provider + key: a token bucket, a server-imposed pause and the requests queued behind them. */
+interface Bucket {
+  provider: string;
+  tokens: number;
+  updatedAt: number;
+  /** No request goes out before this (a 429's `retry-after`, or an exhausted header budget). */
+  blockedUntil: number;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+}
+
+/** Without a `retry-after`, a 429 pauses for this long, doubled per consecutive attempt. */
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+/** Parse a reset duration: seconds (`12`, `0.5`), Go-style durations (`1m30.5s`, `250ms`), epoch ms or an ISO date. */
+export function parseResetMs(value: unknown, now = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') { return undefined; }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const n = Number(text);
+    // OpenRouter sends the reset as an epoch timestamp in ms
+    return n > 1e12 ? Math.max(0, n - now) : n * 1000;
+  }
+  const duration = /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/.exec(text);
+  if (duration && duration.slice(1).some(Boolean)) {
+    const [h, m, s, ms] = duration.slice(1).map(v => Number(v ?? 0));
+    return ((h * 60 + m) * 60 + s) * 1000 + ms;
+  }
+  const date = Date.parse(text);
+  return Number.isFinite(date) ? Math.max(0, date - now) : undefined;
+}
+
+/** How long a response's headers ask us to wait, from `retry-after-ms`, `retry-after` or the rate limit reset headers. */
+export function retryAfterMs(headers: Record<string, any> | undefined, now = Date.now()): number | undefined {
+  if (!headers) { return undefined; }
+  const ms = Number(headers['retry-after-ms']);
+  if (Number.isFinite(ms) && ms > 0) { return ms; }
+  const retryAfter = parseResetMs(headers['retry-after'], now);
+  if (retryAfter !== undefined) { return retryAfter; }
+  return exhaustedFor(headers, now);
+}
+
+/**
+ * When a response reports a budget at zero, how long until it resets. Reads
+ * the OpenAI/Groq (`x-ratelimit-remaining-requests`), OpenRouter
+ * (`x-ratelimit-remaining`) and Anthropic (`anthropic-ratelimit-*`) headers.
+ */
+function exhaustedFor(headers: Record<string, any>, now: number): number | undefined {
+  const pairs: [string, string][] = [
+    ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+    ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+    ['x-ratelimit-remaining', 'x-ratelimit-reset'],
+    ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+    ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset'],
+    ['anthropic-ratelimit-input-tokens-remaining', 'anthropic-ratelimit-input-tokens-reset'],
+    ['anthropic-ratelimit-output-tokens-remaining', 'anthropic-ratelimit-output-tokens-reset'],
+  ];
+  let wait: number | undefined;
+  for (const [remaining, reset] of pairs) {
+    if (headers[remaining] === undefined || Number(headers[remaining]) > 0) { continue; }
+    const ms = parseResetMs(headers[reset], now);
+    if (ms !== undefined) { wait = Math.max(wait ?? 0, ms); }
+  }
+  return wait;
+}
+
+/**
+ * Client-side pacing of provider requests, one token bucket per provider and
+ * key. Requests queue until the bucket has a token and any pause a provider
+ * asked for (429 `retry-after`, an exhausted `x-ratelimit-*` budget) is over;
+ * interactive requests always leave the queue before background ones.
+ * Waiting requests hear how long they will wait, so the chat can say so.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private seq = 0;
+
+  constructor(private readonly readConfig: () => RateLimitConfig = getRateLimitConfig) {}
+
+  /** Bucket key for a provider and key; the key itself is only kept as a short hash. */
+  static keyFor(provider: string, apiKey: string): string {
+    return `${provider}:${crypto.createHash('sha256').update(apiKey ?? '').digest('hex').slice(0, 12)}`;
+  }
+
+  /**
+   * Wait for a request slot. Rejects with an AbortError when `signal` fires
+   * and with RateLimitWaitError when the wait would exceed the configured maximum.
+   */
+  acquire(key: string, options: { priority?: RequestPriority; signal?: AbortSignal; onWait?: RateLimitWaitListener } = {}): Promise<void> {
+    const bucket = this.bucket(key);
+    const { signal } = options;
+    if (signal?.aborted) { return Promise.reject(abortError()); }
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(bucket, waiter);
+        reject(abortError());
+      };
+      const waiter: Waiter = {
+        priority: options.priority ?? 'interactive',
+        seq: this.seq++,
+        onWait: options.onWait,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (err) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      bucket.queue.push(waiter);
+      bucket.queue.sort((a, b) => rank(a) - rank(b) || a.seq - b.seq);
+      this.pump(bucket);
+    });
+  }
+
+  /** Learn from a successful response's headers: the provider's count of remaining requests wins over ours. */
+  update(key: string, headers: Record<string, any> | undefined): void {
+    if (!headers) { return; }
+    const bucket = this.bucket(key);
+    const now = Date.now();
+    this.refill(bucket, now);
+    const remaining = Number(headers['x-ratelimit-remaining-requests'] ?? headers['anthropic-ratelimit-requests-remaining'] ?? headers['x-ratelimit-remaining']);
+    if (Number.isFinite(remaining)) { bucket.tokens = Math.min(bucket.tokens, remaining); }
+    const exhausted = exhaustedFor(headers, now);
+    if (exhausted) {
+      bucket.blockedUntil = Math.max(bucket.blockedUntil, now + exhausted);
+      traceLog.output.info(`Rate limit: ${bucket.provider} budget used up — pausing ${Math.ceil(exhausted / 1000)}s`);
+    }
+  }
+
+  /** A 429: pause the bucket for as long as the provider asks (at least `minMs`). Returns the pause. */
+  penalize(key: string, headers: Record<string, any> | undefined, attempt = 0, minMs = 0): number {
+    const bucket = this.bucket(key);
+    const now = Date.now();
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+    const waitMs = Math.max(retryAfterMs(headers, now) ?? backoff, minMs);
+    bucket.tokens = 0;
+    bucket.updatedAt = now;
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, now + waitMs);
+    traceLog.output.warn(`Rate limit: ${bucket.provider} returned 429 — pausing ${Math.ceil(waitMs / 1000)}s`);
+    this.pump(bucket);
+    return waitMs;
+  }
+
+  /** How long a request sent now would wait (0 when it would go straight out). */
+  waitFor(key: string): number {
+    const bucket = this.bucket(key);
+    return this.readyIn(bucket, Date.now());
+  }
+
+  /** Forget every bucket and fail the requests still queued. */
+  reset(): void {
+    for (const bucket of this.buckets.values()) {
+      clearTimeout(bucket.timer);
+      bucket.queue.splice(0).forEach(w => w.reject(abortError()));
+    }
+    this.buckets.clear();
+  }
+
+  private bucket(key: string): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const provider = key.split(':')[0];
+      bucket = { provider, tokens: this.capacity(provider), updatedAt: Date.now(), blockedUntil: 0, queue: [] };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /** Bucket size: one minute of the configured rate, or unlimited when none is set. */
+  private capacity(provider: string): number {
+    return this.readConfig().requestsPerMinute[provider] ?? Infinity;
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    const capacity = this.capacity(bucket.provider);
+    if (capacity === Infinity) {
+      bucket.tokens = Math.max(bucket.tokens, 1);
+    } else {
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * capacity) / 60_000);
+    }
+    bucket.updatedAt = now;
+  }
+
+  private readyIn(bucket: Bucket, now: number): number {
+    this.refill(bucket, now);
+    const blocked = Math.max(0, bucket.blockedUntil - now);
+    if (bucket.tokens >= 1) { return blocked; }
+    const capacity = this.capacity(bucket.provider);
+    const refillMs = capacity === Infinity ? 0 : Math.ceil(((1 - bucket.tokens) * 60_000) / capacity);
+    return Math.max(blocked, refillMs);
+  }
+
+  /** Let queued requests out while there are tokens, then sleep until the next one is due. */
+  private pump(bucket: Bucket): void {
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+    const { maxWaitMs } = this.readConfig();
+    while (bucket.queue.length) {
+      const waitMs = this.readyIn(bucket, Date.now());
+      if (waitMs <= 0) {
+        const next = bucket.queue.shift()!;
+        bucket.tokens -= 1;
+        if (next.reportedMs) { next.onWait?.({ provider: bucket.provider, waitMs: 0 }); }
+        next.resolve();
+        continue;
+      }
+      if (waitMs > maxWaitMs) {
+        bucket.queue.splice(0).forEach(w => {
+          if (w.reportedMs) { w.onWait?.({ provider: bucket.provider, waitMs: 0 }); }
+          w.reject(new RateLimitWaitError(bucket.provider, waitMs));
+        });
+        return;
+      }
+      for (const w of bucket.queue) {
+        // Report only changes of a second or more, so a listener is not flooded
+        if (w.reportedMs === undefined || Math.abs(w.reportedMs - waitMs) >= 1000) {
+          w.reportedMs = waitMs;
+          w.onWait?.({ provider: bucket.provider, waitMs });
+        }
+      }
+      bucket.timer = setTimeout(() => this.pump(bucket), waitMs);
+      return;
+    }
+  }
+
+  private remove(bucket: Bucket, waiter: Waiter): void {
+    const index = bucket.queue.indexOf(waiter);
+    if (index < 0) { return; }
+    bucket.queue.splice(index, 1);
+    if (waiter.reportedMs) { waiter.onWait?.({ provider: bucket.provider, waitMs: 0 }); }
+    this.pump(bucket);
+  }
+}
+
+function rank(waiter: Waiter): number {
+  return waiter.priority === 'interactive' ? 0 : 1;
+}
+
+/** Recognised by GroqClient.isCancellation, like an aborted fetch. */
+function abortError(): Error {
+  const err = new Error('The operation was aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+export const rateLimiter = new RateLimiter();
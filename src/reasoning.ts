@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import type { ProviderRequestOptions } from './providers/types';
+
+/** How long o-series, GPT-5 and GPT-OSS models think before answering. */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/** The `prompt2code.reasoning` settings, handed to adapters with every request. */
+export interface ReasoningSettings {
+  effort: ReasoningEffort;
+  /** Claude extended-thinking budget in tokens; 0 leaves thinking off. */
+  thinkingBudget: number;
+}
+
+/** Anthropic rejects smaller thinking budgets. */
+export const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Completion tokens reserved for reasoning on models whose hidden reasoning
+ * counts against the completion cap, so it cannot use up the answer's share.
+ */
+const REASONING_HEADROOM: Record<ReasoningEffort, number> = { low: 2048, medium: 8192, high: 16384 };
+
+/** Read the reasoning settings. */
+export function getReasoningSettings(): ReasoningSettings {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  const effort = config.get<string>('reasoning.effort', 'medium');
+  const budget = config.get<number>('reasoning.thinkingBudget', 0);
+  return {
+    effort: effort === 'low' || effort === 'high' ? effort : 'medium',
+    thinkingBudget: Number.isFinite(budget) && budget > 0 ? Math.max(Math.floor(budget), MIN_THINKING_BUDGET) : 0,
+  };
+}
+
+/** Tokens to add to the completion cap of a model that reasons within it. */
+export function reasoningHeadroom(reasoning: ReasoningSettings | undefined): number {
+  return reasoning ? REASONING_HEADROOM[reasoning.effort] : 0;
+}
+
+/** Model ID without a gateway prefix (`openai/o3-mini` → `o3-mini`). */
+function bareModel(model: string): string {
+  return model.toLowerCase().replace(/^openai\//, '');
+}
+
+/**
+ * OpenAI reasoning models (o1, o3, o4, GPT-5): they take
+ * `max_completion_tokens` instead of `max_tokens` and reject any
+ * temperature but the default.
+ */
+export function isOpenAIReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(bareModel(model));
+}
+
+/** The first o1 models predate `reasoning_effort` and system messages. */
+function isEarlyO1(model: string): boolean {
+  return /^o1-(mini|preview)/.test(bareModel(model));
+}
+
+/** Whether the model takes a `reasoning_effort` field: OpenAI reasoning models after the first o1 releases. */
+export function acceptsReasoningEffort(model: string): boolean {
+  return isOpenAIReasoningModel(model) && !isEarlyO1(model);
+}
+
+/** Whether the model takes system messages; the first o1 models need instructions as a user turn. */
+export function acceptsSystemRole(model: string): boolean {
+  return !isEarlyO1(model);
+}
+
+/** OpenAI's open-weight GPT-OSS models, which return their reasoning beside the answer. */
+export function isGptOssModel(model: string): boolean {
+  return /(^|\/)gpt-oss/.test(model.toLowerCase());
+}
+
+/** Claude models with extended thinking (3.7 Sonnet and the Claude 4 family). */
+export function supportsExtendedThinking(model: string): boolean {
+  return /claude-(3-7-sonnet|(opus|sonnet)-4)/.test(model.toLowerCase());
+}
+
+/**
+ * The thinking budget for a Claude request, or 0 for none. Thinking stays
+ * off for tool use: Anthropic then requires every earlier assistant turn to
+ * carry its signed thinking blocks, which the chat history does not keep.
+ */
+export function thinkingBudgetFor(options: ProviderRequestOptions): number {
+  const budget = options.reasoning?.thinkingBudget ?? 0;
+  if (!budget || options.tools?.length) { return 0; }
+  if (options.messages.some(m => m.role === 'tool' || m.tool_calls?.length)) { return 0; }
+  return budget;
+}
+
+/**
+ * Split `<think>…</think>` reasoning (as DeepSeek-R1 style models put it
+ * into the answer) from the text that follows it.
+ */
+export function splitThinkTags(text: string): { content: string; reasoning?: string } {
+  const match = /^\s*<think>([\s\S]*?)(?:<\/think>|$)/.exec(text);
+  if (!match) { return { content: text }; }
+  const reasoning = match[1].trim();
+  return { content: text.slice(match[0].length).trimStart(), ...(reasoning ? { reasoning } : {}) };
+}
+
+const OPEN_THINK = '<think>';
+const CLOSE_THINK = '</think>';
+
+/** Length of the longest suffix of `text` that `tag` starts with. */
+function partialTagLength(text: string, tag: string): number {
+  for (let n = Math.min(tag.length - 1, text.length); n > 0; n--) {
+    if (tag.startsWith(text.slice(-n))) { return n; }
+  }
+  return 0;
+}
+
+/**
+ * `splitThinkTags` for a stream: feed it deltas as they arrive and it hands
+ * back the answer text each one adds, collecting the reasoning. Text that could still
+ * turn out to be part of a `<think>` or `</think>` tag is held until the
+ * next delta (or `end`) settles it.
+ */
+export class ThinkTagFilter {
+  private state: 'start' | 'thinking' | 'afterThinking' | 'answer' = 'start';
+  private pending = '';
+  private thought = '';
+
+  /** Everything the stream has put inside `<think>` so far, trimmed. */
+  get reasoning(): string | undefined {
+    return this.thought.trim() || undefined;
+  }
+
+  /** The answer text this delta completes (possibly empty). */
+  push(delta: string): string {
+    this.pending += delta;
+    let content = '';
+    for (;;) {
+      if (this.state === 'start') {
+        const text = this.pending.trimStart();
+        if (!text || (OPEN_THINK.startsWith(text) && text !== OPEN_THINK)) { return content; }
+        if (text.startsWith(OPEN_THINK)) {
+          this.pending = text.slice(OPEN_THINK.length);
+          this.state = 'thinking';
+        } else {
+          this.state = 'answer';
+        }
+      } else if (this.state === 'thinking') {
+        const close = this.pending.indexOf(CLOSE_THINK);
+        if (close < 0) {
+          const keep = partialTagLength(this.pending, CLOSE_THINK);
+          this.thought += this.pending.slice(0, this.pending.length - keep);
+          this.pending = this.pending.slice(this.pending.length - keep);
+          return content;
+        }
+        this.thought += this.pending.slice(0, close);
+        this.pending = this.pending.slice(close + CLOSE_THINK.length);
+        this.state = 'afterThinking';
+      } else if (this.state === 'afterThinking') {
+        this.pending = this.pending.trimStart();
+        if (!this.pending) { return content; }
+        this.state = 'answer';
+      } else {
+        content += this.pending;
+        this.pending = '';
+        return content;
+      }
+    }
+  }
+
+  /** The stream is over: whatever was held back is settled as it stands. */
+  end(): string {
+    const rest = this.pending;
+    this.pending = '';
+    if (this.state === 'thinking') {
+      this.thought += rest;
+      return '';
+    }
+    return this.state === 'afterThinking' ? '' : rest;
+  }
+}
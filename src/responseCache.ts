@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GroqToolCall } from './groqClient';
+import type { ReasoningSettings } from './reasoning';
+import { traceLog } from './traceLog';
+
+/** What a cache entry stores — enough to replay a completion or a stream. */
+export interface CachedCompletion {
+  content: string;
+  finishReason?: string;
+  toolCalls?: GroqToolCall[];
+}
+
+/** Everything that changes the model's output; the cache key is a hash of this. */
+export interface CacheKeyParts {
+  /** The adapter that sends the request — OpenRouter may serve another provider's model. */
+  provider: string;
+  /** Where the request goes, without credentials: a custom server, an Azure resource and deployment. */
+  endpoint: string;
+  model: string;
+  messages: unknown;
+  maxTokens: number;
+  temperature: number;
+  reasoning?: ReasoningSettings;
+}
+
+/** The `prompt2code.cache` settings, with sizes converted to ms / bytes. */
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  persist: boolean;
+  maxDiskBytes: number;
+  /** Whether requests with temperature > 0 are cached too. */
+  sampledRequests: boolean;
+}
+
+/** Read the cache settings. */
+export function getResponseCacheConfig(): ResponseCacheConfig {
+  const config = vscode.workspace.getConfiguration('prompt2code');
+  return {
+    enabled: config.get<boolean>('cache.enabled', true),
+    ttlMs: Math.max(config.get<number>('cache.ttlMinutes', 60), 0) * 60_000,
+    maxEntries: Math.max(config.get<number>('cache.maxEntries', 500), 0),
+    persist: config.get<boolean>('cache.persistToDisk', false),
+    maxDiskBytes: Math.max(config.get<number>('cache.maxDiskMB', 50), 0) * 1024 * 1024,
+    sampledRequests: config.get<boolean>('cache.sampledRequests', true),
+  };
+}
+
+interface CacheEntry {
+  value: CachedCompletion;
+  createdAt: number;
+}
+
+/**
+ * Content-addressed completion cache: an in-memory LRU in front of an
+ * optional one-file-per-entry store under the extension's global storage.
+ * Disk I/O never fails a request — errors only cost a cache miss.
+ */
+export class ResponseCache {
+  /** Map iteration order doubles as LRU order (oldest first). */
+  private memory = new Map<string, CacheEntry>();
+  private storageDir?: string;
+
+  /** Settings are read per call so edits apply without a reload. */
+  constructor(private readonly readConfig: () => ResponseCacheConfig = getResponseCacheConfig) {}
+
+  /** Point the disk store at a directory (called once the extension context is available). */
+  setStorageDir(dir: string): void {
+    this.storageDir = path.join(dir, 'response-cache');
+  }
+
+  /** Hash of provider, endpoint, model, messages, sampling and reasoning params. */
+  static keyFor(parts: CacheKeyParts): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify([parts.provider, parts.endpoint, parts.model, parts.messages, parts.maxTokens, parts.temperature, parts.reasoning ?? null]))
+      .digest('hex');
+  }
+
+  /** Whether a request at this temperature should use the cache at all. */
+  isEligible(temperature: number): boolean {
+    const config = this.readConfig();
+    if (!config.enabled || config.maxEntries === 0 || config.ttlMs === 0) { return false; }
+    return temperature <= 0 || config.sampledRequests;
+  }
+
+  async get(key: string): Promise<CachedCompletion | undefined> {
+    const config = this.readConfig();
+    const now = Date.now();
+
+    const hit = this.memory.get(key);
+    if (hit) {
+      this.memory.delete(key);
+      if (now - hit.createdAt <= config.ttlMs) {
+        this.memory.set(key, hit); // refresh LRU position
+        return hit.value;
+      }
+    }
+
+    if (!config.persist || !this.storageDir) { return undefined; }
+    const file = this.fileFor(key);
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(file, 'utf8')) as CacheEntry;
+      if (now - entry.createdAt > config.ttlMs || typeof entry.value?.content !== 'string') {
+        await fs.promises.unlink(file).catch(() => undefined);
+        return undefined;
+      }
+      this.remember(key, entry, config.maxEntries);
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: CachedCompletion): Promise<void> {
+    const config = this.readConfig();
+    const entry: CacheEntry = { value, createdAt: Date.now() };
+    this.remember(key, entry, config.maxEntries);
+
+    if (!config.persist || !this.storageDir) { return; }
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await fs.promises.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf8');
+      await this.pruneDisk(config);
+    } catch (error: any) {
+      traceLog.output.warn(`Response cache: could not write to disk (${error.message})`);
+    }
+  }
+
+  /** Drop every entry, in memory and on disk. */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    if (!this.storageDir) { return; }
+    await fs.promises.rm(this.storageDir, { recursive: true, force: true });
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.storageDir as string, `${key}.json`);
+  }
+
+  private remember(key: string, entry: CacheEntry, maxEntries: number): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    while (this.memory.size > maxEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  /** Remove expired files, then the oldest ones until the store fits `maxDiskBytes`. */
+  private async pruneDisk(config: ResponseCacheConfig): Promise<void> {
+    const dir = this.storageDir as string;
+    const now = Date.now();
+    const files: { file: string; size: number; mtime: number }[] = [];
+    for (const name of await fs.promises.readdir(dir)) {
+      const file = path.join(dir, name);
+      const stat = await fs.promises.stat(file).catch(() => undefined);
+      if (!stat) { continue; }
+      if (now - stat.mtimeMs > config.ttlMs) {
+        await fs.promises.unlink(file).catch(() => undefined);
+        continue;
+      }
+      files.push({ file, size: stat.size, mtime: stat.mtimeMs });
+    }
+
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    files.sort((a, b) => a.mtime - b.mtime);
+    for (const f of files) {
+      if (total <= config.maxDiskBytes) { break; }
+      await fs.promises.unlink(f.file).catch(() => undefined);
+      total -= f.size;
+    }
+  }
+}
+
+/** Memory-only until activation points it at the extension's global storage. */
+export const responseCache = new ResponseCache();
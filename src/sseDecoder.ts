@@ -0,0 +1,139 @@
+import { StringDecoder } from 'string_decoder';
+import type { ProviderAdapter, ProviderStreamEvent } from './providers/types';
+
+/** One dispatched server-sent event. */
+export interface SseEvent {
+  /** The `event:` field; `message` when the server sent none. */
+  event: string;
+  /** Every `data:` line of the event, joined with newlines. */
+  data: string;
+  id?: string;
+  /** Reconnection delay (ms) from a `retry:` field. */
+  retry?: number;
+}
+
+/**
+ * Incremental decoder for `text/event-stream` bodies, following the WHATWG
+ * parsing rules: UTF-8 decoded across chunk boundaries, a leading BOM
+ * dropped, lines ending in CRLF, LF or CR, comments (`:`) ignored,
+ * multi-line `data:` fields joined, and one event dispatched per blank line.
+ * Feed it raw chunks with `push` and call `end` when the body closes.
+ */
+export class SseDecoder {
+  private readonly utf8 = new StringDecoder('utf8');
+  private buffer = '';
+  private started = false;
+  /** A chunk ended in CR: a LF at the start of the next one belongs to the same line break. */
+  private pendingCr = false;
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId?: string;
+  private retry?: number;
+
+  /** Decode one chunk; returns the events it completed. */
+  push(chunk: Buffer | string): SseEvent[] {
+    return this.consume(typeof chunk === 'string' ? chunk : this.utf8.write(chunk), false);
+  }
+
+  /**
+   * Flush at end of stream. The spec drops an event that was never
+   * terminated by a blank line, but providers do close streams right after
+   * their last `data:` line (often the one carrying usage), so a pending
+   * event is dispatched instead.
+   */
+  end(): SseEvent[] {
+    const events = this.consume(this.utf8.end(), true);
+    const last = this.dispatch();
+    return last ? [...events, last] : events;
+  }
+
+  private consume(text: string, final: boolean): SseEvent[] {
+    if (!this.started && text) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) { text = text.slice(1); }
+    }
+    if (this.pendingCr && text.startsWith('\n')) { text = text.slice(1); }
+    this.pendingCr = false;
+    this.buffer += text;
+
+    const events: SseEvent[] = [];
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') { continue; }
+      const line = this.buffer.slice(start, i);
+      if (ch === '\r') {
+        if (i + 1 < this.buffer.length) {
+          if (this.buffer[i + 1] === '\n') { i++; }
+        } else {
+          this.pendingCr = true;
+        }
+      }
+      start = i + 1;
+      const event = this.processLine(line);
+      if (event) { events.push(event); }
+    }
+    this.buffer = this.buffer.slice(start);
+
+    if (final && this.buffer) {
+      const event = this.processLine(this.buffer);
+      this.buffer = '';
+      if (event) { events.push(event); }
+    }
+    return events;
+  }
+
+  /** Apply one line; a blank line dispatches the event collected so far. */
+  private processLine(line: string): SseEvent | undefined {
+    if (line === '') { return this.dispatch(); }
+    if (line.startsWith(':')) { return undefined; }
+
+    const colon = line.indexOf(':');
+    const field = colon < 0 ? line : line.slice(0, colon);
+    let value = colon < 0 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) { value = value.slice(1); }
+
+    switch (field) {
+      case 'event': this.eventType = value; break;
+      case 'data':  this.dataLines.push(value); break;
+      case 'id':    if (!value.includes('\0')) { this.lastEventId = value; } break;
+      case 'retry': if (/^\d+$/.test(value)) { this.retry = Number(value); } break;
+      default: break; // unknown fields are ignored
+    }
+    return undefined;
+  }
+
+  private dispatch(): SseEvent | undefined {
+    const dataLines = this.dataLines;
+    const eventType = this.eventType;
+    this.dataLines = [];
+    this.eventType = '';
+    // An event without data is not dispatched
+    if (dataLines.length === 0) { return undefined; }
+    const event: SseEvent = { event: eventType || 'message', data: dataLines.join('\n') };
+    if (this.lastEventId !== undefined) { event.id = this.lastEventId; }
+    if (this.retry !== undefined) { event.retry = this.retry; }
+    return event;
+  }
+}
+
+/**
+ * What one SSE event means to the adapter, or undefined for `[DONE]`.
+ * Throws on an error the stream reports (in its payload or as an `error`
+ * event) and on a payload that is not JSON — a broken stream is a failed
+ * request, not a shorter answer.
+ */
+export function decodeStreamEvent(adapter: ProviderAdapter, sse: SseEvent): ProviderStreamEvent | undefined {
+  if (sse.data === '[DONE]') { return undefined; }
+  let parsed: any;
+  try {
+    parsed = JSON.parse(sse.data);
+  } catch {
+    if (sse.event === 'error') { throw new Error(`${adapter.meta.name} API error (stream): ${sse.data}`); }
+    throw new Error(`${adapter.meta.name} sent a malformed stream event: ${sse.data.slice(0, 200)}`);
+  }
+  const event = adapter.parseStreamEvent(parsed);
+  const error = event.error ?? (sse.event === 'error' ? parsed?.error?.message ?? parsed?.message ?? sse.data : undefined);
+  if (error) { throw new Error(`${adapter.meta.name} API error (stream): ${error}`); }
+  return event;
+}
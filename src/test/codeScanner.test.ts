@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { lexTokens, looksTruncated } from '../codeScanner';
+
+describe('looksTruncated', () => {
+  it('ignores a brace inside a string', () => {
+    assert.strictEqual(looksTruncated('const open = "{";\nconst close = \'[\';', 'typescript').truncated, false);
+  });
+
+  it('ignores an apostrophe in JSX text', () => {
+    const code = 'export const Note = () => (\n  <p>Don\'t forget the {count} items</p>\n);';
+    assert.strictEqual(looksTruncated(code, 'typescriptreact').truncated, false);
+  });
+
+  it('flags an unclosed block', () => {
+    const report = looksTruncated('function total(items) {\n  return items.length;', 'javascript');
+    assert.strictEqual(report.truncated, true);
+  });
+
+  it('flags an unterminated string', () => {
+    assert.strictEqual(looksTruncated('const greeting = "hello', 'javascript').truncated, true);
+  });
+
+  it('flags a Python block header without a body', () => {
+    assert.strictEqual(looksTruncated('def main():', 'python').truncated, true);
+    assert.strictEqual(looksTruncated('def main():\n    pass', 'python').truncated, false);
+  });
+
+  it('never flags a language it does not scan', () => {
+    assert.strictEqual(looksTruncated('fn main() {', 'rust').truncated, false);
+  });
+
+  describe('multi-file output', () => {
+    it('flags an unclosed FILE, NEW_FILE or MODIFY_FILE block', () => {
+      for (const marker of ['FILE', 'NEW_FILE', 'MODIFY_FILE']) {
+        const report = looksTruncated(`===${marker}: src/a.ts===\nexport const a = {`, 'files');
+        assert.strictEqual(report.truncated, true, marker);
+        assert.match(report.reason ?? '', /src\/a\.ts/);
+      }
+    });
+
+    it('accepts blocks that end with ===END_FILE===', () => {
+      const text = '===NEW_FILE: src/a.ts===\nexport const a = 1;\n===END_FILE===\n'
+        + '===MODIFY_FILE: src/b.ts===\n<<<SEARCH>>>\nold\n<<<REPLACE>>>\nnew\n<<<END>>>\n===END_FILE===';
+      assert.strictEqual(looksTruncated(text, 'files').truncated, false);
+    });
+  });
+});
+
+describe('lexTokens', () => {
+  it('keeps a quoted string as one token', () => {
+    assert.deepStrictEqual(lexTokens('say("a { b")').map(t => t.text), ['say', '(', '"a { b"', ')']);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { continuationMessages, runWithContinuation, stitchContinuation, truncationReason } from '../continuation';
+
+describe('stitchContinuation', () => {
+  it('drops lines the model repeated from the end of the previous piece', () => {
+    const current = 'function area(r) {\n  const pi = Math.PI;\n  const squared = r * r;';
+    const addition = '  const squared = r * r;\n  return pi * squared;\n}';
+    assert.strictEqual(stitchContinuation(current, addition), 'function area(r) {\n  const pi = Math.PI;\n  const squared = r * r;\n  return pi * squared;\n}');
+  });
+
+  it('joins a restarted identifier without duplicating it', () => {
+    assert.strictEqual(stitchContinuation('const total = calculateTo', 'total = calculateTotal(items);'), 'const total = calculateTotal(items);');
+  });
+
+  it('does not treat a single matching brace as a repeat', () => {
+    assert.strictEqual(stitchContinuation('if (a) {\n  run();\n}', '}\n'), 'if (a) {\n  run();\n}}\n');
+  });
+
+  it('keeps two statements on separate lines', () => {
+    assert.strictEqual(stitchContinuation('const a = 1;', 'const b = 2;'), 'const a = 1;\nconst b = 2;');
+  });
+});
+
+describe('truncationReason', () => {
+  it('trusts a token-limit stop', () => {
+    assert.strictEqual(truncationReason('length', 'const a = 1;', 'typescript'), 'hit the token limit');
+  });
+
+  it('scans NEW_FILE and MODIFY_FILE output even when the provider reports a normal stop', () => {
+    assert.match(truncationReason('stop', '===NEW_FILE: src/app.ts===\nexport function app() {', 'typescript') ?? '', /src\/app\.ts/);
+    assert.match(truncationReason('stop', '===MODIFY_FILE: src/b.ts===\n<<<SEARCH>>>\nold', 'typescript') ?? '', /src\/b\.ts/);
+    assert.strictEqual(truncationReason('stop', '===NEW_FILE: src/app.ts===\nexport {};\n===END_FILE===', 'typescript'), undefined);
+  });
+});
+
+describe('continuationMessages', () => {
+  it('asks for the marker style the output already uses', () => {
+    const messages = continuationMessages([{ role: 'user', content: 'build it' }], '===NEW_FILE: src/a.ts===\nexport const a = {', 'files');
+    const prompt = String(messages[messages.length - 1].content);
+    assert.match(prompt, /===NEW_FILE: path===/);
+    assert.doesNotMatch(prompt, /same ===FILE: path===/);
+  });
+});
+
+describe('runWithContinuation', () => {
+  it('requests continuations until the output is complete', async () => {
+    const pieces = ['function f() {\n  return [1, 2,', ' 3];\n}'];
+    const attempts: number[] = [];
+    const output = await runWithContinuation({
+      language: 'javascript',
+      maxContinuations: 3,
+      label: 'Test',
+      request: async (attempt) => {
+        attempts.push(attempt);
+        return { content: pieces[attempt], finishReason: 'stop' };
+      },
+    });
+    assert.deepStrictEqual(attempts, [0, 1]);
+    assert.strictEqual(output, 'function f() {\n  return [1, 2, 3];\n}');
+  });
+});
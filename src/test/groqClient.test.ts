@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import { resetSettings, setSettings } from './setup';
+// groqClient first: the provider registry must load through it
+import { GroqClient, StructuredOutputError } from '../groqClient';
+import { JsonSchema } from '../jsonSchema';
+import { modelCatalog } from '../modelCatalog';
+import { fakeProvider } from '../providers/fake';
+
+/** The fake model and a second one on the same scripted provider, so Auto has somewhere to fall back to. */
+function useFakeModels(): void {
+  setSettings({
+    'fakeProvider.enabled': true,
+    'models': [{ id: 'fake-backup', provider: 'fake', label: 'Fake backup' }],
+    'autoRouting': { ask: ['fake', 'fake-backup'], multiFile: ['fake', 'fake-backup'] },
+    'cache.enabled': false,
+  });
+  modelCatalog.reload();
+}
+
+describe('GroqClient with the fake provider', () => {
+  let client: GroqClient;
+
+  beforeEach(() => {
+    useFakeModels();
+    fakeProvider.reset();
+    client = new GroqClient();
+  });
+
+  afterEach(() => {
+    resetSettings();
+    modelCatalog.reload();
+  });
+
+  describe('completeWithContinuation', () => {
+    it('continues NEW_FILE output that stopped mid-file without a token-limit stop', async () => {
+      client.setModelOverride('fake');
+      fakeProvider.enqueue(
+        { content: '===NEW_FILE: src/config.ts===\nexport const config = {\n  retries: 3,', finishReason: 'stop' },
+        { content: '  retries: 3,\n  timeoutMs: 500,\n};\n===END_FILE===' },
+      );
+
+      const output = await client.completeWithContinuation([{ role: 'user', content: 'write the config module' }]);
+
+      assert.strictEqual(output, '===NEW_FILE: src/config.ts===\nexport const config = {\n  retries: 3,\n  timeoutMs: 500,\n};\n===END_FILE===');
+      assert.strictEqual(fakeProvider.requests.length, 2);
+      const prompt = fakeProvider.requests[1].messages.at(-1).content as string;
+      assert.match(prompt, /===NEW_FILE: path===/);
+    });
+
+    it('continues after a token-limit stop', async () => {
+      client.setModelOverride('fake');
+      fakeProvider.enqueue(
+        { content: '===FILE: a.py===\nprint("a")', finishReason: 'length' },
+        { content: '\n===END_FILE===' },
+      );
+
+      const output = await client.completeWithContinuation([{ role: 'user', content: 'write a.py' }]);
+
+      assert.strictEqual(output, '===FILE: a.py===\nprint("a")\n===END_FILE===');
+    });
+  });
+
+  describe('streaming', () => {
+    it('keeps <think> text out of the deltas and the cache, and returns it as reasoning', async () => {
+      setSettings({ 'cache.enabled': true });
+      client.setModelOverride('fake');
+      const thinking = '<think>\nThe user wants a greeting; a constant will do.\n</think>\n\n';
+      fakeProvider.enqueue(
+        { content: `${thinking}export const greeting = 'hi';`, chunkDelayMs: 0 },
+        { content: 'a second request was sent', chunkDelayMs: 0 },
+      );
+      const ask = async () => {
+        const deltas: string[] = [];
+        const result = await client.completeWithTools([{ role: 'user', content: 'greet' }], [], { onDelta: d => deltas.push(d) });
+        return { ...result, streamed: deltas.join('') };
+      };
+
+      const first = await ask();
+      assert.strictEqual(first.streamed, "export const greeting = 'hi';");
+      assert.strictEqual(first.content, "export const greeting = 'hi';");
+      assert.strictEqual(first.reasoning, 'The user wants a greeting; a constant will do.');
+
+      const cached = await ask();
+      assert.strictEqual(cached.streamed, "export const greeting = 'hi';");
+      assert.strictEqual(fakeProvider.requests.length, 1);
+    });
+
+    it('does not answer from the cache once the reasoning settings change', async () => {
+      setSettings({ 'cache.enabled': true });
+      client.setModelOverride('fake');
+      fakeProvider.enqueue({ content: 'medium effort' }, { content: 'high effort' });
+      const messages = [{ role: 'user' as const, content: 'how hard should you think?' }];
+
+      assert.strictEqual(await client.complete(messages), 'medium effort');
+      assert.strictEqual(await client.complete(messages), 'medium effort');
+      setSettings({ 'reasoning.effort': 'high' });
+      assert.strictEqual(await client.complete(messages), 'high effort');
+      assert.strictEqual(fakeProvider.requests.length, 2);
+    });
+  });
+
+  describe('generateStructured', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['files'],
+      properties: { files: { type: 'array', items: { type: 'string' } } },
+    };
+
+    beforeEach(() => client.setModelOverride('fake'));
+
+    it('sends the validation errors back and returns the repaired value', async () => {
+      fakeProvider.enqueue(
+        { content: 'Sure! ```json\n{"files": "src/a.ts"}\n```' },
+        { content: '{"files": ["src/a.ts"]}' },
+      );
+
+      const value = await client.generateStructured<{ files: string[] }>([{ role: 'user', content: 'which files?' }], schema);
+
+      assert.deepStrictEqual(value, { files: ['src/a.ts'] });
+      assert.strictEqual(fakeProvider.requests.length, 2);
+      const repair = fakeProvider.requests[1].messages.at(-1).content as string;
+      assert.match(repair, /\$\.files: expected array, got string/);
+    });
+
+    it('gives up after maxRepairs with the last reply', async () => {
+      fakeProvider.enqueue({ content: 'no JSON here' }, { content: '{"files": [1]}' });
+
+      await assert.rejects(
+        client.generateStructured([{ role: 'user', content: 'which files?' }], schema, { maxRepairs: 1 }),
+        (err: unknown) => err instanceof StructuredOutputError
+          && err.raw === '{"files": [1]}'
+          && err.errors[0] === '$.files[0]: expected string, got integer'
+      );
+      assert.strictEqual(fakeProvider.requests.length, 2);
+    });
+  });
+
+  describe('Auto fallback', () => {
+    beforeEach(() => client.setModelOverride(GroqClient.AUTO_MODEL_ID));
+
+    it('moves on to the next model when the first fails', async () => {
+      fakeProvider.enqueue({ status: 503, error: 'Overloaded' }, { content: 'Answer from the backup' });
+
+      const answer = await client.complete([{ role: 'user', content: 'which model answers?' }], false, undefined, 'ask');
+
+      assert.strictEqual(answer, 'Answer from the backup');
+      assert.deepStrictEqual(fakeProvider.requests.map(r => r.model), ['fake', 'fake-backup']);
+      assert.strictEqual(client.getLastResolvedModel(), 'fake-backup');
+    });
+
+    it('does not fall back on an error it cannot recover from by switching models', async () => {
+      fakeProvider.enqueue({ status: 400, error: 'Bad request' }, { content: 'never sent' });
+
+      await assert.rejects(
+        client.complete([{ role: 'user', content: 'a malformed request' }], false, undefined, 'ask'),
+        /\(400\)/
+      );
+      assert.strictEqual(fakeProvider.requests.length, 1);
+    });
+  });
+});
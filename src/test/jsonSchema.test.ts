@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { JsonSchema, extractJson, validateJson } from '../jsonSchema';
+
+const planSchema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'steps'],
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['file', 'action'],
+        properties: {
+          file: { type: 'string', pattern: '^[\\w./-]+$' },
+          action: { enum: ['create', 'modify', 'delete'] },
+          lines: { type: 'integer', minimum: 0 },
+        },
+      },
+    },
+  },
+};
+
+describe('validateJson', () => {
+  it('accepts a value that matches the schema', () => {
+    const plan = { title: 'Add config', steps: [{ file: 'src/config.ts', action: 'create', lines: 12 }] };
+    assert.deepStrictEqual(validateJson(plan, planSchema), []);
+  });
+
+  it('reports each problem with its JSON path', () => {
+    const plan = { title: '', steps: [{ file: 'src/a b.ts', action: 'rename', lines: 1.5 }], extra: true };
+    assert.deepStrictEqual(validateJson(plan, planSchema), [
+      '$.title: must be at least 1 characters',
+      '$.steps[0].file: must match /^[\\w./-]+$/',
+      '$.steps[0].action: must be one of "create", "modify", "delete"',
+      '$.steps[0].lines: expected integer, got number',
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it('reports missing required properties and wrong types', () => {
+    assert.deepStrictEqual(validateJson({ steps: 'none' }, planSchema), [
+      '$: missing required property "title"',
+      '$.steps: expected array, got string',
+    ]);
+  });
+
+  it('accepts an integer where a number is expected', () => {
+    assert.deepStrictEqual(validateJson(3, { type: 'number' }), []);
+  });
+
+  it('checks anyOf and oneOf', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'integer' }] };
+    assert.deepStrictEqual(validateJson('a', schema), []);
+    assert.deepStrictEqual(validateJson(2, schema), ['$: must match exactly one of the allowed shapes']);
+    assert.deepStrictEqual(validateJson(null, { anyOf: [{ type: 'string' }] }), ['$: does not match any of the allowed shapes']);
+  });
+});
+
+describe('extractJson', () => {
+  it('parses a bare JSON reply', () => {
+    assert.deepStrictEqual(extractJson(' {"a": 1} '), { a: 1 });
+  });
+
+  it('strips a Markdown fence', () => {
+    assert.deepStrictEqual(extractJson('Here you go:\n```json\n[1, 2]\n```\nDone.'), [1, 2]);
+  });
+
+  it('finds the outermost object in surrounding prose', () => {
+    assert.deepStrictEqual(extractJson('The plan is {"steps": [{"file": "a.ts"}]} as requested.'), { steps: [{ file: 'a.ts' }] });
+  });
+
+  it('throws when the reply has no JSON', () => {
+    assert.throws(() => extractJson('I cannot help with that.'), SyntaxError);
+    assert.throws(() => extractJson('{"a": 1'), SyntaxError);
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import type * as vscode from 'vscode';
+import { resetSettings, setSettings } from './setup';
+// groqClient first: the provider registry must load through it
+import '../groqClient';
+import { ModelCatalog } from '../modelCatalog';
+import { trafficRecorder } from '../trafficRecorder';
+
+/** Global state as the extension context hands it over, kept in a plain object. */
+function memento(initial: Record<string, unknown> = {}): vscode.Memento {
+  const values = { ...initial };
+  return {
+    keys: () => Object.keys(values),
+    get: <T>(key: string, fallback?: T) => (key in values ? values[key] as T : fallback),
+    update: async (key: string, value: unknown) => { values[key] = value; },
+  };
+}
+
+describe('ModelCatalog', () => {
+  afterEach(() => resetSettings());
+
+  describe('against a stub /models server', () => {
+    let server: http.Server;
+    let listing: { status: number; body: unknown };
+
+    before(async () => {
+      server = http.createServer((req, res) => {
+        const found = req.url === '/v1/models';
+        res.writeHead(found ? listing.status : 404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(found ? listing.body : { error: 'not found' }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => {
+      setSettings({ 'customEndpoint.baseUrl': `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` });
+    });
+
+    it('adds what the server lists and records when it refreshed', async () => {
+      listing = { status: 200, body: { data: [{ id: 'qwen2.5-coder:7b', context_length: 32_768 }, { id: 'nomic-embed-text' }] } };
+      const catalog = new ModelCatalog();
+      catalog.attach(memento());
+
+      const results = await catalog.refresh(() => '');
+
+      assert.deepStrictEqual(results, [{ provider: 'custom', count: 1 }]);
+      assert.strictEqual(catalog.get('qwen2.5-coder:7b')?.provider, 'custom');
+      assert.strictEqual(catalog.windowOf('qwen2.5-coder:7b'), 32_768);
+      assert.strictEqual(catalog.get('nomic-embed-text'), undefined);
+      // Only the custom server could be listed; that still counts as today's refresh
+      assert.ok(Date.now() - catalog.lastRefreshed() < 60_000);
+    });
+
+    it('keeps the previous listing when the server fails', async () => {
+      const store = memento();
+      listing = { status: 200, body: { data: [{ id: 'qwen2.5-coder:7b' }] } };
+      const catalog = new ModelCatalog();
+      catalog.attach(store);
+      await catalog.refresh(() => '');
+
+      listing = { status: 500, body: { error: 'loading model' } };
+      const results = await catalog.refresh(() => '');
+
+      assert.deepStrictEqual(results, [{ provider: 'custom', error: 'HTTP 500' }]);
+      assert.strictEqual(catalog.get('qwen2.5-coder:7b')?.source, 'custom');
+
+      // …and across a reload, from global state
+      const reloaded = new ModelCatalog();
+      reloaded.attach(store);
+      assert.strictEqual(reloaded.get('qwen2.5-coder:7b')?.source, 'custom');
+      assert.strictEqual(reloaded.lastRefreshed(), catalog.lastRefreshed());
+    });
+  });
+
+  describe('merging provider listings', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p2c-catalog-'));
+      trafficRecorder.useMode('replay', dir);
+      trafficRecorder.save(
+        { method: 'GET', url: 'https://api.groq.com/openai/v1/models' },
+        {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          body: { data: [{ id: 'llama-3.3-70b-versatile', context_window: 131_072 }, { id: 'qwen/qwen3-32b', context_window: 131_072 }] },
+        }
+      );
+      trafficRecorder.save(
+        { method: 'GET', url: 'https://openrouter.ai/api/v1/models' },
+        { status: 200, headers: { 'content-type': 'application/json' }, body: { data: [{ id: 'openai/gpt-4o', context_length: 100_000 }, { id: 'mistralai/mistral-large' }] } }
+      );
+    });
+
+    afterEach(() => {
+      trafficRecorder.useMode(undefined);
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const keys: Record<string, string> = { groq: 'gsk_test', openrouter: 'sk-or-test' };
+
+    it('updates built-ins, retires unlisted ones and adds new models', async () => {
+      const catalog = new ModelCatalog();
+      await catalog.refresh(provider => keys[provider] ?? '');
+
+      assert.strictEqual(catalog.windowOf('llama-3.3-70b-versatile'), 131_072);
+      assert.strictEqual(catalog.get('llama-3.1-8b-instant')?.retired, true);
+      assert.ok(!catalog.list().some(m => m.id === 'llama-3.1-8b-instant'));
+      assert.strictEqual(catalog.get('qwen/qwen3-32b')?.source, 'provider');
+    });
+
+    it('takes context windows from OpenRouter for providers it could not list, without adding its models', async () => {
+      const catalog = new ModelCatalog();
+      await catalog.refresh(provider => keys[provider] ?? '');
+
+      assert.strictEqual(catalog.windowOf('gpt-4o'), 100_000);
+      assert.strictEqual(catalog.get('gpt-4o')?.retired, undefined);
+      assert.strictEqual(catalog.get('mistralai/mistral-large'), undefined);
+    });
+
+    it('lets user-declared models override what providers report', async () => {
+      setSettings({ models: [{ id: 'llama-3.3-70b-versatile', contextWindow: 64_000, label: 'Llama (capped)' }] });
+      const catalog = new ModelCatalog();
+      await catalog.refresh(provider => keys[provider] ?? '');
+
+      assert.strictEqual(catalog.windowOf('llama-3.3-70b-versatile'), 64_000);
+      assert.strictEqual(catalog.get('llama-3.3-70b-versatile')?.label, 'Llama (capped)');
+      assert.strictEqual(catalog.get('llama-3.3-70b-versatile')?.source, 'builtin');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { ModelHealthTracker, classifyModelError } from '../modelHealth';
+
+/** A provider error as the adapters map it, status in the message. */
+function failure(status: number): Error {
+  return new Error(`Provider error (${status}): failed`);
+}
+
+describe('ModelHealthTracker', () => {
+  const realNow = Date.now;
+  let now: number;
+  let health: ModelHealthTracker;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 0, 1);
+    Date.now = () => now;
+    health = new ModelHealthTracker();
+  });
+
+  afterEach(() => { Date.now = realNow; });
+
+  it('trips once an error class reaches its threshold', () => {
+    health.recordFailure('m', failure(500));
+    health.recordFailure('m', failure(500));
+    assert.strictEqual(health.isTripped('m'), false);
+    health.recordFailure('m', failure(500));
+    assert.strictEqual(health.isTripped('m'), true);
+    assert.strictEqual(health.get('m').state, 'open');
+
+    // A bad key does not fix itself: the first failure trips
+    health.recordFailure('auth', failure(401));
+    assert.strictEqual(health.get('auth').lastErrorClass, 'auth');
+    assert.strictEqual(health.isTripped('auth'), true);
+  });
+
+  it('doubles the cool-down every time the breaker re-opens', () => {
+    health.recordFailure('m', failure(429));
+    health.recordFailure('m', failure(429));
+    const cooldowns = [health.get('m').retryAt! - now];
+    // Each failed probe re-opens the breaker
+    for (let trip = 1; trip < 3; trip++) {
+      now = health.get('m').retryAt!;
+      health.beginAttempt('m');
+      health.recordFailure('m', failure(429));
+      cooldowns.push(health.get('m').retryAt! - now);
+    }
+    assert.deepStrictEqual(cooldowns, [30_000, 60_000, 120_000]);
+  });
+
+  it('lets a single probe through once the cool-down ends', () => {
+    health.recordFailure('m', failure(404));
+    now = health.get('m').retryAt!;
+
+    assert.strictEqual(health.get('m').state, 'halfOpen');
+    assert.strictEqual(health.isTripped('m'), false);
+    health.beginAttempt('m');
+    assert.strictEqual(health.isTripped('m'), true, 'a second request went out beside the probe');
+
+    // A failed probe re-opens the breaker at once
+    health.recordFailure('m', failure(404));
+    assert.strictEqual(health.get('m').state, 'open');
+    assert.strictEqual(health.get('m').trips, 2);
+  });
+
+  it('closes again and forgets the backoff when the probe succeeds', () => {
+    health.recordFailure('m', failure(402));
+    now = health.get('m').retryAt!;
+    health.beginAttempt('m');
+
+    health.recordSuccess('m');
+
+    const h = health.get('m');
+    assert.strictEqual(h.state, 'closed');
+    assert.strictEqual(h.consecutiveFailures, 0);
+    assert.strictEqual(h.trips, 0);
+    assert.strictEqual(health.isTripped('m'), false);
+  });
+
+  it('frees the probe slot of a cancelled request', () => {
+    health.recordFailure('m', failure(401));
+    now = health.get('m').retryAt!;
+    health.beginAttempt('m');
+    health.endAttempt('m');
+    assert.strictEqual(health.isTripped('m'), false);
+  });
+});
+
+describe('classifyModelError', () => {
+  it('sorts by status, socket code and message', () => {
+    assert.strictEqual(classifyModelError({ response: { status: 403 } }), 'auth');
+    assert.strictEqual(classifyModelError(failure(503)), 'server');
+    assert.strictEqual(classifyModelError({ code: 'ECONNREFUSED' }), 'network');
+    assert.strictEqual(classifyModelError(new Error('Insufficient credits on this account')), 'quota');
+    assert.strictEqual(classifyModelError(new Error('Something odd')), 'other');
+  });
+});
@@ -0,0 +1,260 @@
+import * as assert from 'assert';
+import { GroqMessage } from '../groqClient';
+import { ProviderRequestOptions } from '../providers/types';
+import { OpenAIAdapter } from '../providers/openai';
+import { AnthropicAdapter } from '../providers/anthropic';
+import { GeminiAdapter } from '../providers/gemini';
+import { CustomEndpointAdapter } from '../providers/custom';
+import { AzureOpenAIAdapter } from '../providers/azure';
+
+function requestOptions(overrides: Partial<ProviderRequestOptions> = {}): ProviderRequestOptions {
+  return {
+    model: 'test-model',
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi!' },
+      { role: 'user', content: 'Bye' },
+    ],
+    apiKey: 'test-key',
+    maxTokens: 256,
+    temperature: 0.2,
+    stream: false,
+    ...overrides,
+  };
+}
+
+/** A turn that called two tools in parallel, their results, and the question that led to them. */
+const toolTurns: GroqMessage[] = [
+  { role: 'system', content: 'Use the tools.' },
+  { role: 'user', content: 'What is in a.ts and b.ts?' },
+  {
+    role: 'assistant',
+    content: '',
+    tool_calls: [
+      { id: 'call_a', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } },
+    ],
+  },
+  { role: 'tool', tool_call_id: 'call_a', name: 'read_file', content: 'export const a = 1;' },
+  { role: 'tool', tool_call_id: 'call_b', name: 'read_file', content: 'export const b = 2;' },
+];
+
+const readFileTool = {
+  type: 'function' as const,
+  function: { name: 'read_file', description: 'Read a file', parameters: { type: 'object', properties: { path: { type: 'string' } }, additionalProperties: false } },
+};
+
+describe('OpenAIAdapter', () => {
+  const adapter = new OpenAIAdapter();
+
+  it('posts the messages unchanged to /chat/completions', () => {
+    const request = adapter.buildRequest(requestOptions());
+    assert.strictEqual(request.url, 'https://api.openai.com/v1/chat/completions');
+    assert.strictEqual(request.body?.messages.length, 4);
+  });
+
+  it('reads text deltas and the finish reason from stream events', () => {
+    assert.strictEqual(adapter.parseStreamEvent({ choices: [{ delta: { content: 'Hel' } }] }).delta, 'Hel');
+    assert.strictEqual(adapter.parseStreamEvent({ choices: [{ delta: {}, finish_reason: 'length' }] }).finishReason, 'length');
+  });
+
+  it('sends a tool-only assistant turn with null content and tool results without their name', () => {
+    const messages = adapter.buildRequest(requestOptions({ messages: toolTurns })).body!.messages;
+    assert.strictEqual(messages[2].content, null);
+    assert.strictEqual(messages[2].tool_calls.length, 2);
+    assert.deepStrictEqual(messages[3], { role: 'tool', tool_call_id: 'call_a', content: 'export const a = 1;' });
+  });
+
+  it('reads tool calls from a response, dropping malformed ones', () => {
+    const completion = adapter.parseResponse({
+      choices: [{
+        message: { content: null, tool_calls: [{ id: 'call_1', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }, { id: 'broken' }] },
+        finish_reason: 'tool_calls',
+      }],
+      usage: { prompt_tokens: 120, completion_tokens: 8, prompt_tokens_details: { cached_tokens: 100 } },
+    });
+    assert.deepStrictEqual(completion.toolCalls, [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]);
+    assert.deepStrictEqual(completion.usage, { inputTokens: 120, outputTokens: 8, cachedInputTokens: 100 });
+  });
+
+  it('reads tool call fragments by index from stream events', () => {
+    const event = adapter.parseStreamEvent({ choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: '{"pa' } }] } }] });
+    assert.deepStrictEqual(event.toolCalls, [{ index: 1, id: undefined, name: undefined, arguments: '{"pa' }]);
+  });
+});
+
+describe('AnthropicAdapter', () => {
+  const adapter = new AnthropicAdapter();
+
+  it('moves the system prompt out of the message list', () => {
+    const body = adapter.buildRequest(requestOptions()).body;
+    assert.ok(body?.system);
+    assert.deepStrictEqual(body?.messages.map((m: { role: string }) => m.role), ['user', 'assistant', 'user']);
+  });
+
+  it('reports a max_tokens stop as length', () => {
+    const completion = adapter.parseResponse({ content: [{ type: 'text', text: 'Hi' }], stop_reason: 'max_tokens' });
+    assert.strictEqual(completion.content, 'Hi');
+    assert.strictEqual(completion.finishReason, 'length');
+  });
+
+  it('splits the system prompt into blocks when it carries a cache breakpoint', () => {
+    const body = adapter.buildRequest(requestOptions({
+      messages: [{ role: 'system', content: 'Be brief.', cache: true }, { role: 'system', content: 'Project context' }, { role: 'user', content: 'Hello', cache: true }],
+    })).body!;
+    assert.deepStrictEqual(body.system, [
+      { type: 'text', text: 'Be brief.', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'Project context' },
+    ]);
+    assert.deepStrictEqual(body.messages[0].content, [{ type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } }]);
+  });
+
+  it('sends tool calls as tool_use blocks and parallel results in one user turn', () => {
+    const body = adapter.buildRequest(requestOptions({ messages: toolTurns, tools: [readFileTool], toolChoice: 'required' })).body!;
+    assert.strictEqual(body.system, 'Use the tools.');
+    assert.deepStrictEqual(body.messages[1], {
+      role: 'assistant',
+      content: [
+        { type: 'tool_use', id: 'call_a', name: 'read_file', input: { path: 'a.ts' } },
+        { type: 'tool_use', id: 'call_b', name: 'read_file', input: { path: 'b.ts' } },
+      ],
+    });
+    assert.deepStrictEqual(body.messages[2].content.map((b: { type: string; tool_use_id: string }) => [b.type, b.tool_use_id]), [['tool_result', 'call_a'], ['tool_result', 'call_b']]);
+    assert.strictEqual(body.messages.length, 3);
+    assert.deepStrictEqual(body.tools[0].input_schema, readFileTool.function.parameters);
+    assert.deepStrictEqual(body.tool_choice, { type: 'any' });
+  });
+
+  it('reads tool_use blocks and counts cached prompt tokens into the input', () => {
+    const completion = adapter.parseResponse({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.ts' } }],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 20, output_tokens: 9, cache_read_input_tokens: 1000, cache_creation_input_tokens: 0 },
+    });
+    assert.strictEqual(completion.finishReason, 'tool_calls');
+    assert.deepStrictEqual(completion.toolCalls, [{ id: 'toolu_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]);
+    assert.deepStrictEqual(completion.usage, { inputTokens: 1020, outputTokens: 9, cachedInputTokens: 1000, cacheWriteTokens: 0 });
+  });
+
+  it('streams a tool call as its opening block and JSON fragments', () => {
+    const start = adapter.parseStreamEvent({ type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'read_file' } });
+    const fragment = adapter.parseStreamEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } });
+    assert.deepStrictEqual(start.toolCalls, [{ index: 1, id: 'toolu_1', name: 'read_file' }]);
+    assert.deepStrictEqual(fragment.toolCalls, [{ index: 1, arguments: '{"path":' }]);
+  });
+});
+
+describe('GeminiAdapter', () => {
+  const adapter = new GeminiAdapter();
+
+  it('sends the conversation as contents with user and model roles', () => {
+    const body = adapter.buildRequest(requestOptions()).body;
+    assert.ok(body?.systemInstruction);
+    assert.deepStrictEqual(body?.contents.map((c: { role: string }) => c.role), ['user', 'model', 'user']);
+  });
+
+  it('joins the text of every part in a stream event', () => {
+    const event = adapter.parseStreamEvent({ candidates: [{ content: { parts: [{ text: 'a' }, { text: 'b' }] } }] });
+    assert.strictEqual(event.delta, 'ab');
+  });
+
+  it('joins system messages into one instruction and sends tool traffic as function parts', () => {
+    const body = adapter.buildRequest(requestOptions({
+      messages: [{ role: 'system', content: 'Project context' }, ...toolTurns],
+      tools: [readFileTool],
+      toolChoice: { type: 'function', function: { name: 'read_file' } },
+    })).body!;
+    assert.deepStrictEqual(body.systemInstruction, { parts: [{ text: 'Project context\n\nUse the tools.' }] });
+    assert.deepStrictEqual(body.contents[1], {
+      role: 'model',
+      parts: [{ functionCall: { name: 'read_file', args: { path: 'a.ts' } } }, { functionCall: { name: 'read_file', args: { path: 'b.ts' } } }],
+    });
+    // Results go back in one turn, matched by name
+    assert.deepStrictEqual(body.contents[2].parts.map((p: { functionResponse: { name: string } }) => p.functionResponse.name), ['read_file', 'read_file']);
+    assert.strictEqual(body.contents.length, 3);
+    // Gemini rejects additionalProperties in its schemas
+    assert.deepStrictEqual(body.tools[0].functionDeclarations[0].parameters, { type: 'object', properties: { path: { type: 'string' } } });
+    assert.deepStrictEqual(body.toolConfig, { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['read_file'] } });
+  });
+
+  it('reads function calls as tool calls and MAX_TOKENS as length', () => {
+    const called = adapter.parseResponse({
+      candidates: [{ content: { parts: [{ functionCall: { name: 'read_file', args: { path: 'a.ts' } } }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 40, candidatesTokenCount: 5 },
+    });
+    assert.strictEqual(called.finishReason, 'tool_calls');
+    assert.deepStrictEqual(called.toolCalls, [{ id: 'call_0_read_file', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]);
+    assert.deepStrictEqual(called.usage, { inputTokens: 40, outputTokens: 5 });
+
+    const cut = adapter.parseResponse({ candidates: [{ content: { parts: [{ text: 'par' }] }, finishReason: 'MAX_TOKENS' }] });
+    assert.strictEqual(cut.finishReason, 'length');
+  });
+
+  it('leaves streamed calls without an ID for the stream to number, so the same stream parses the same', () => {
+    const chunk = { candidates: [{ content: { parts: [{ functionCall: { name: 'read_file', args: { path: 'a.ts' } } }] } }] };
+    const first = adapter.parseStreamEvent(chunk);
+    assert.deepStrictEqual(first.toolCalls, [{ id: undefined, name: 'read_file', arguments: '{"path":"a.ts"}' }]);
+    assert.strictEqual(first.finishReason, 'tool_calls');
+    assert.deepStrictEqual(adapter.parseStreamEvent(chunk), first);
+  });
+});
+
+describe('AzureOpenAIAdapter', () => {
+  const adapter = new AzureOpenAIAdapter(() => ({
+    endpoint: 'https://contoso.openai.azure.com',
+    apiVersion: '2024-12-01-preview',
+    deployments: [{ name: 'o3-mini' }],
+  }));
+
+  it('addresses the deployment in the URL and authenticates with api-key', () => {
+    const request = adapter.buildRequest(requestOptions({ model: 'azure/team gpt-4o' }));
+    assert.strictEqual(request.url, 'https://contoso.openai.azure.com/openai/deployments/team%20gpt-4o/chat/completions?api-version=2024-12-01-preview');
+    assert.strictEqual(request.headers['api-key'], 'test-key');
+    assert.strictEqual(request.headers.Authorization, undefined);
+    assert.strictEqual(request.body?.model, 'team gpt-4o');
+  });
+
+  it('shapes a reasoning deployment like the model it serves', () => {
+    const body = adapter.buildRequest(requestOptions({ model: 'azure/o3-mini', reasoning: { effort: 'low', thinkingBudget: 0 } })).body;
+    assert.strictEqual(body?.max_tokens, undefined);
+    assert.strictEqual(body?.max_completion_tokens, 256 + 2048);
+    assert.strictEqual(body?.reasoning_effort, 'low');
+    assert.strictEqual(body?.temperature, undefined);
+  });
+});
+
+describe('CustomEndpointAdapter', () => {
+  const adapter = new CustomEndpointAdapter(() => ({ baseUrl: 'http://localhost:11434/v1', authHeader: 'Authorization', models: [] }));
+
+  it('sends a local gpt-oss model plain max_tokens and no reasoning effort', () => {
+    const body = adapter.buildRequest(requestOptions({ model: 'gpt-oss:20b', reasoning: { effort: 'high', thinkingBudget: 0 } })).body;
+    assert.strictEqual(body?.max_tokens, 256);
+    assert.strictEqual(body?.max_completion_tokens, undefined);
+    assert.strictEqual(body?.reasoning_effort, undefined);
+  });
+});
+
+describe('image content', () => {
+  const screenshot = requestOptions({
+    messages: [{
+      role: 'user',
+      content: [{ type: 'text', text: 'Recreate this' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } }],
+    }],
+  });
+
+  it('passes OpenAI image_url parts through', () => {
+    const [message] = new OpenAIAdapter().buildRequest(screenshot).body!.messages;
+    assert.deepStrictEqual(message.content[1], { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } });
+  });
+
+  it('turns a data URL into an Anthropic base64 image source', () => {
+    const [message] = new AnthropicAdapter().buildRequest(screenshot).body!.messages;
+    assert.deepStrictEqual(message.content[1], { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } });
+  });
+
+  it('turns a data URL into Gemini inlineData', () => {
+    const [content] = new GeminiAdapter().buildRequest(screenshot).body!.contents;
+    assert.deepStrictEqual(content.parts[1], { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } });
+  });
+});
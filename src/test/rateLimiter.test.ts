@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { RateLimitConfig, RateLimitWaitError, RateLimiter, parseResetMs, retryAfterMs } from '../rateLimiter';
+
+describe('RateLimiter', () => {
+  let config: RateLimitConfig;
+  let limiter: RateLimiter;
+  const key = RateLimiter.keyFor('test', 'test-key');
+
+  beforeEach(() => {
+    config = { requestsPerMinute: {}, maxWaitMs: 10_000 };
+    limiter = new RateLimiter(() => config);
+  });
+
+  afterEach(() => limiter.reset());
+
+  it('lets interactive requests out before background ones queued earlier', async () => {
+    limiter.penalize(key, { 'retry-after-ms': '50' });
+    const order: string[] = [];
+    await Promise.all([
+      limiter.acquire(key, { priority: 'background' }).then(() => order.push('background')),
+      limiter.acquire(key, { priority: 'interactive' }).then(() => order.push('interactive')),
+    ]);
+    assert.deepStrictEqual(order, ['interactive', 'background']);
+  });
+
+  it('fails a request that would wait longer than the maximum', async () => {
+    config.maxWaitMs = 1000;
+    limiter.penalize(key, { 'retry-after': '5' });
+    await assert.rejects(limiter.acquire(key), (err: Error) => err instanceof RateLimitWaitError && err.waitMs > 1000);
+  });
+
+  it('takes an aborted request out of the queue and lets the next one go', async () => {
+    limiter.penalize(key, { 'retry-after-ms': '50' });
+    const controller = new AbortController();
+    const waits: number[] = [];
+    const aborted = limiter.acquire(key, { signal: controller.signal, onWait: ({ waitMs }) => waits.push(waitMs) });
+    const next = limiter.acquire(key);
+
+    controller.abort();
+
+    await assert.rejects(aborted, { name: 'AbortError' });
+    await next;
+    // The aborted request was told its wait is over and heard nothing after that
+    assert.strictEqual(waits[waits.length - 1], 0);
+  });
+
+  it('goes straight out without a configured rate or a pause', () => {
+    assert.strictEqual(limiter.waitFor(key), 0);
+  });
+});
+
+describe('parseResetMs', () => {
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+  it('reads Go-style durations', () => {
+    assert.strictEqual(parseResetMs('1m30s', now), 90_000);
+    assert.strictEqual(parseResetMs('1m30.5s', now), 90_500);
+    assert.strictEqual(parseResetMs('250ms', now), 250);
+    assert.strictEqual(parseResetMs('2h', now), 7_200_000);
+  });
+
+  it('reads seconds and epoch milliseconds', () => {
+    assert.strictEqual(parseResetMs('12', now), 12_000);
+    assert.strictEqual(parseResetMs('0.5', now), 500);
+    assert.strictEqual(parseResetMs(String(now + 4000), now), 4000);
+  });
+
+  it('reads HTTP dates and ISO timestamps', () => {
+    assert.strictEqual(parseResetMs(new Date(now + 30_000).toUTCString(), now), 30_000);
+    assert.strictEqual(parseResetMs(new Date(now + 30_000).toISOString(), now), 30_000);
+    assert.strictEqual(parseResetMs(new Date(now - 30_000).toUTCString(), now), 0);
+  });
+
+  it('ignores empty and unreadable values', () => {
+    assert.strictEqual(parseResetMs(undefined, now), undefined);
+    assert.strictEqual(parseResetMs('', now), undefined);
+    assert.strictEqual(parseResetMs('soon', now), undefined);
+  });
+});
+
+describe('retryAfterMs', () => {
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+  it('prefers retry-after-ms, then retry-after', () => {
+    assert.strictEqual(retryAfterMs({ 'retry-after-ms': '1500', 'retry-after': '7' }, now), 1500);
+    assert.strictEqual(retryAfterMs({ 'retry-after': '7' }, now), 7000);
+    assert.strictEqual(retryAfterMs({ 'retry-after': new Date(now + 20_000).toUTCString() }, now), 20_000);
+  });
+
+  it('falls back to the reset of a used-up budget', () => {
+    assert.strictEqual(retryAfterMs({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '1m30s' }, now), 90_000);
+    assert.strictEqual(retryAfterMs({ 'x-ratelimit-remaining-requests': '3', 'x-ratelimit-reset-requests': '1m30s' }, now), undefined);
+    assert.strictEqual(retryAfterMs({ 'anthropic-ratelimit-requests-remaining': '0', 'anthropic-ratelimit-requests-reset': new Date(now + 5000).toISOString() }, now), 5000);
+  });
+});
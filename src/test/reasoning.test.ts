@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { ThinkTagFilter, splitThinkTags } from '../reasoning';
+
+/** Feed `deltas` through a filter; returns the answer it let through and the reasoning it kept. */
+function filter(deltas: string[]): { content: string; reasoning?: string } {
+  const thinkTags = new ThinkTagFilter();
+  const content = deltas.map(d => thinkTags.push(d)).join('') + thinkTags.end();
+  return { content, reasoning: thinkTags.reasoning };
+}
+
+describe('splitThinkTags', () => {
+  it('moves a leading think block out of the answer', () => {
+    assert.deepStrictEqual(splitThinkTags('<think>\nplan it\n</think>\n\nconst a = 1;'), { content: 'const a = 1;', reasoning: 'plan it' });
+  });
+
+  it('leaves think tags that are not at the start', () => {
+    assert.deepStrictEqual(splitThinkTags('Use <think> tags'), { content: 'Use <think> tags' });
+  });
+});
+
+describe('ThinkTagFilter', () => {
+  const text = '<think>\nplan it\n</think>\n\nconst a = 1;';
+
+  it('matches splitThinkTags however the text is split', () => {
+    for (let size = 1; size <= text.length; size++) {
+      const deltas: string[] = [];
+      for (let i = 0; i < text.length; i += size) { deltas.push(text.slice(i, i + size)); }
+      assert.deepStrictEqual(filter(deltas), splitThinkTags(text), `chunks of ${size}`);
+    }
+  });
+
+  it('lets an answer without think tags through as it arrives', () => {
+    const thinkTags = new ThinkTagFilter();
+    assert.strictEqual(thinkTags.push('Hello'), 'Hello');
+    assert.strictEqual(thinkTags.push(' <think>'), ' <think>');
+    assert.strictEqual(thinkTags.end(), '');
+    assert.strictEqual(thinkTags.reasoning, undefined);
+  });
+
+  it('holds a possible opening tag until it is settled', () => {
+    const thinkTags = new ThinkTagFilter();
+    assert.strictEqual(thinkTags.push('  <thi'), '');
+    assert.strictEqual(thinkTags.push('s'), '  <this');
+  });
+
+  it('keeps an unclosed think block out of the answer', () => {
+    assert.deepStrictEqual(filter(['<think>still going', ' </thi']), { content: '', reasoning: 'still going </thi' });
+  });
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheKeyParts, ResponseCache, ResponseCacheConfig } from '../responseCache';
+
+describe('ResponseCache', () => {
+  const realNow = Date.now;
+  let now: number;
+  let config: ResponseCacheConfig;
+  let dir: string;
+
+  beforeEach(() => {
+    now = Date.UTC(2026, 0, 1);
+    Date.now = () => now;
+    config = { enabled: true, ttlMs: 60_000, maxEntries: 2, persist: false, maxDiskBytes: 1024 * 1024, sampledRequests: false };
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p2c-cache-'));
+  });
+
+  afterEach(() => {
+    Date.now = realNow;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new ResponseCache(() => config);
+    await cache.set('a', { content: 'A' });
+    await cache.set('b', { content: 'B' });
+    await cache.get('a');
+    await cache.set('c', { content: 'C' });
+
+    assert.strictEqual((await cache.get('a'))?.content, 'A');
+    assert.strictEqual(await cache.get('b'), undefined);
+    assert.strictEqual((await cache.get('c'))?.content, 'C');
+  });
+
+  it('expires entries after the TTL', async () => {
+    const cache = new ResponseCache(() => config);
+    await cache.set('a', { content: 'A' });
+    now += 60_000;
+    assert.strictEqual((await cache.get('a'))?.content, 'A');
+    now += 1;
+    assert.strictEqual(await cache.get('a'), undefined);
+  });
+
+  it('keeps entries on disk across instances when persisting', async () => {
+    config.persist = true;
+    const writer = new ResponseCache(() => config);
+    writer.setStorageDir(dir);
+    await writer.set('a', { content: 'A', finishReason: 'stop' });
+
+    const reader = new ResponseCache(() => config);
+    reader.setStorageDir(dir);
+    assert.deepStrictEqual(await reader.get('a'), { content: 'A', finishReason: 'stop' });
+
+    // An expired file is removed on read
+    const later = new ResponseCache(() => config);
+    later.setStorageDir(dir);
+    now += 60_001;
+    assert.strictEqual(await later.get('a'), undefined);
+    assert.deepStrictEqual(fs.readdirSync(path.join(dir, 'response-cache')), []);
+  });
+
+  it('caches sampled requests only when allowed', () => {
+    const cache = new ResponseCache(() => config);
+    assert.strictEqual(cache.isEligible(0), true);
+    assert.strictEqual(cache.isEligible(0.7), false);
+    config.sampledRequests = true;
+    assert.strictEqual(cache.isEligible(0.7), true);
+    config.maxEntries = 0;
+    assert.strictEqual(cache.isEligible(0), false);
+  });
+
+  describe('keyFor', () => {
+    const base: CacheKeyParts = {
+      provider: 'custom',
+      endpoint: 'http://localhost:11434/v1/chat/completions',
+      model: 'qwen2.5-coder:7b',
+      messages: [{ role: 'user', content: 'Hello' }],
+      maxTokens: 1024,
+      temperature: 0,
+      reasoning: { effort: 'medium', thinkingBudget: 0 },
+    };
+
+    it('is stable for the same request', () => {
+      assert.strictEqual(ResponseCache.keyFor({ ...base }), ResponseCache.keyFor({ ...base }));
+    });
+
+    it('changes with every part that changes the answer', () => {
+      const variants: Partial<CacheKeyParts>[] = [
+        { provider: 'openrouter' },
+        { endpoint: 'http://gpu-box:8000/v1/chat/completions' },
+        { model: 'llama3.1:8b' },
+        { messages: [{ role: 'user', content: 'Hello!' }] },
+        { maxTokens: 2048 },
+        { temperature: 0.2 },
+        { reasoning: { effort: 'high', thinkingBudget: 0 } },
+        { reasoning: { effort: 'medium', thinkingBudget: 4096 } },
+      ];
+      const keys = new Set([base, ...variants.map(v => ({ ...base, ...v }))].map(ResponseCache.keyFor));
+      assert.strictEqual(keys.size, variants.length + 1);
+    });
+  });
+});
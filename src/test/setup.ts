@@ -0,0 +1,79 @@
+/**
+ * Loaded by mocha before any test (see .mocharc.json). Unit tests run in
+ * plain Node, outside the extension host, so `vscode` resolves to this
+ * stand-in: settings come from `setSettings`, everything else is inert.
+ */
+import Module = require('module');
+import * as fs from 'fs';
+
+const settings = new Map<string, unknown>();
+let workspaceRoot: string | undefined;
+
+/** Set `prompt2code.*` settings for the tests that follow; `undefined` removes one. */
+export function setSettings(values: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) { settings.delete(key); } else { settings.set(key, value); }
+  }
+}
+
+export function resetSettings(): void {
+  settings.clear();
+}
+
+/** Open `root` as the only workspace folder, or close the workspace with `undefined`. */
+export function setWorkspaceRoot(root: string | undefined): void {
+  workspaceRoot = root;
+}
+
+const fileUri = (value: string) => ({ scheme: 'file', fsPath: value, path: value, toString: () => value });
+
+class EventEmitter<T> {
+  private listeners: ((value: T) => void)[] = [];
+  event = (listener: (value: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+  };
+  fire(value: T): void {
+    this.listeners.forEach(l => l(value));
+  }
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+const noop = () => undefined;
+const disposable = { dispose: noop };
+
+const vscodeStub = {
+  workspace: {
+    getConfiguration: () => ({
+      get: <T>(key: string, fallback?: T) => (settings.has(key) ? settings.get(key) as T : fallback),
+      inspect: () => undefined,
+      update: async () => undefined,
+    }),
+    get workspaceFolders() {
+      return workspaceRoot ? [{ uri: fileUri(workspaceRoot), name: 'workspace', index: 0 }] : undefined;
+    },
+    fs: {
+      readFile: async (uri: { fsPath: string }) => fs.readFileSync(uri.fsPath),
+    },
+    onDidChangeConfiguration: () => disposable,
+  },
+  window: {
+    showErrorMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showInformationMessage: async () => undefined,
+    tabGroups: { all: [] },
+    createOutputChannel: () => ({ trace: noop, debug: noop, info: noop, warn: noop, error: noop, appendLine: noop, show: noop, dispose: noop }),
+  },
+  EventEmitter,
+  Disposable: class { dispose = noop; },
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+  Uri: { parse: (value: string) => value, file: fileUri },
+};
+
+const moduleLoader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+  return request === 'vscode' ? vscodeStub : load.call(this, request, ...rest);
+};
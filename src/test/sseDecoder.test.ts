@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import { SseDecoder, SseEvent, decodeStreamEvent } from '../sseDecoder';
+import { OpenAIAdapter } from '../providers/openai';
+import { AnthropicAdapter } from '../providers/anthropic';
+
+/** A stream body and the byte offsets where the network splits it into chunks. */
+interface StreamFixture {
+  name: string;
+  body: Buffer;
+  splits: number[];
+  events: SseEvent[];
+}
+
+/** Byte offset just inside the first occurrence of `char` (after its first byte). */
+function inside(body: string, char: string, bytesIn = 1): number {
+  return Buffer.byteLength(body.slice(0, body.indexOf(char))) + bytesIn;
+}
+
+function chunksOf(body: Buffer, splits: number[]): Buffer[] {
+  const chunks: Buffer[] = [];
+  let start = 0;
+  for (const split of [...splits, body.length]) {
+    chunks.push(body.subarray(start, split));
+    start = split;
+  }
+  return chunks;
+}
+
+function decode(chunks: Buffer[]): SseEvent[] {
+  const decoder = new SseDecoder();
+  return [...chunks.flatMap(chunk => decoder.push(chunk)), ...decoder.end()];
+}
+
+const twoByte = 'data: {"text":"café"}\n\n';
+const threeByte = 'data: {"text":"→ 日本"}\n\n';
+const fourByte = 'data: {"text":"ok 🚀"}\n\n';
+const crlf = 'data: one\r\n\r\ndata: two\r\n\r\n';
+const multiLine = ': keep-alive\nevent: error\ndata: first line\ndata: second line\nid: 7\n\n';
+
+const fixtures: StreamFixture[] = [
+  {
+    name: 'a 2-byte character split between chunks',
+    body: Buffer.from(twoByte),
+    splits: [inside(twoByte, 'é')],
+    events: [{ event: 'message', data: '{"text":"café"}' }],
+  },
+  {
+    name: '3-byte characters split after each of their bytes',
+    body: Buffer.from(threeByte),
+    splits: [inside(threeByte, '→'), inside(threeByte, '→', 2), inside(threeByte, '日', 2)],
+    events: [{ event: 'message', data: '{"text":"→ 日本"}' }],
+  },
+  {
+    name: 'a 4-byte character split in the middle',
+    body: Buffer.from(fourByte),
+    splits: [inside(fourByte, '🚀', 2)],
+    events: [{ event: 'message', data: '{"text":"ok 🚀"}' }],
+  },
+  {
+    name: 'CRLF line endings split between CR and LF',
+    body: Buffer.from(crlf),
+    splits: [crlf.indexOf('\r') + 1, crlf.lastIndexOf('\r') + 1],
+    events: [{ event: 'message', data: 'one' }, { event: 'message', data: 'two' }],
+  },
+  {
+    name: 'a leading BOM split from the first field',
+    body: Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('data: first\n\n')]),
+    splits: [2, 3],
+    events: [{ event: 'message', data: 'first' }],
+  },
+  {
+    name: 'a comment, multi-line data and an error event',
+    body: Buffer.from(multiLine),
+    splits: [5, 20, 40],
+    events: [{ event: 'error', data: 'first line\nsecond line', id: '7' }],
+  },
+  {
+    name: 'a final event without its closing blank line',
+    body: Buffer.from('data: {"a":1}\n\ndata: {"usage":{"prompt_tokens":3}}'),
+    splits: [10],
+    events: [{ event: 'message', data: '{"a":1}' }, { event: 'message', data: '{"usage":{"prompt_tokens":3}}' }],
+  },
+];
+
+describe('SseDecoder', () => {
+  for (const fixture of fixtures) {
+    it(`decodes ${fixture.name}`, () => {
+      assert.deepStrictEqual(decode(chunksOf(fixture.body, fixture.splits)), fixture.events);
+    });
+
+    it(`decodes ${fixture.name}, fed one byte at a time`, () => {
+      const bytes = [...fixture.body].map(b => Buffer.from([b]));
+      assert.deepStrictEqual(decode(bytes), fixture.events);
+    });
+  }
+
+  it('treats a lone CR as a line break', () => {
+    assert.deepStrictEqual(decode([Buffer.from('data: a\r\rdata: b\r\r')]), [
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+    ]);
+  });
+
+  it('does not dispatch an event without data', () => {
+    assert.deepStrictEqual(decode([Buffer.from('event: ping\n\nretry: 500\n\n')]), []);
+  });
+});
+
+describe('decodeStreamEvent', () => {
+  const openai = new OpenAIAdapter();
+
+  it('passes a JSON payload to the adapter', () => {
+    const event = decodeStreamEvent(openai, { event: 'message', data: '{"choices":[{"delta":{"content":"hi"}}]}' });
+    assert.strictEqual(event?.delta, 'hi');
+  });
+
+  it('returns undefined for [DONE]', () => {
+    assert.strictEqual(decodeStreamEvent(openai, { event: 'message', data: '[DONE]' }), undefined);
+  });
+
+  it('throws on malformed JSON', () => {
+    assert.throws(
+      () => decodeStreamEvent(openai, { event: 'message', data: '{"choices":[' }),
+      /OpenAI sent a malformed stream event: \{"choices":\[/
+    );
+  });
+
+  it('throws on an error object in the payload', () => {
+    assert.throws(
+      () => decodeStreamEvent(openai, { event: 'message', data: '{"error":{"message":"overloaded"}}' }),
+      /OpenAI API error \(stream\): overloaded/
+    );
+  });
+
+  it('throws on an error event, JSON or not', () => {
+    const anthropic = new AnthropicAdapter();
+    assert.throws(
+      () => decodeStreamEvent(anthropic, { event: 'error', data: '{"type":"error","error":{"message":"Overloaded"}}' }),
+      /Anthropic API error \(stream\): Overloaded/
+    );
+    assert.throws(() => decodeStreamEvent(openai, { event: 'error', data: 'upstream closed' }), /upstream closed/);
+  });
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { countTokens, truncateToTokens } from '../tokenizer';
+
+describe('truncateToTokens', () => {
+  it('returns text that fits unchanged', () => {
+    assert.strictEqual(truncateToTokens('const a = 1;', 100, 'cl100k'), 'const a = 1;');
+  });
+
+  it('applies the family scale to short text too', () => {
+    // One token per character: 19 characters are 23 Mistral tokens, over a cap of 20
+    const text = '1 2 3 4 5 6 7 8 9 0';
+    assert.strictEqual(countTokens(text, 'mistral'), 23);
+    const cut = truncateToTokens(text, 20, 'mistral');
+    assert.ok(countTokens(cut, 'mistral') <= 20, `"${cut}" is over the cap`);
+  });
+
+  it('returns nothing for a cap of zero', () => {
+    assert.strictEqual(truncateToTokens('text', 0, 'o200k'), '');
+  });
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { httpClient } from '../httpTransport';
+import { trafficRecorder } from '../trafficRecorder';
+import { SseDecoder, decodeStreamEvent } from '../sseDecoder';
+import { GroqAdapter } from '../providers/groq';
+
+const COMPLETIONS_URL = 'https://api.groq.com/openai/v1/chat/completions';
+
+/** Replay a recorded stream through the recorder and the shared decoder; resolves with the text. */
+function replayStream(body: Record<string, unknown>): Promise<string> {
+  const adapter = new GroqAdapter();
+  return new Promise((resolve, reject) => {
+    const req = trafficRecorder.request(new URL(COMPLETIONS_URL), { method: 'POST' }, (res) => {
+      const decoder = new SseDecoder();
+      let text = '';
+      const handle = (events: ReturnType<SseDecoder['push']>) => {
+        for (const sse of events) { text += decodeStreamEvent(adapter, sse)?.delta ?? ''; }
+      };
+      res.on('data', (chunk: Buffer | string) => handle(decoder.push(chunk)));
+      res.on('end', () => {
+        handle(decoder.end());
+        resolve(text);
+      });
+    });
+    req.on('error', reject);
+    req.write(JSON.stringify(body));
+    req.end();
+  });
+}
+
+describe('TrafficRecorder replay', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'p2c-fixtures-'));
+    trafficRecorder.useMode('replay', dir);
+    trafficRecorder.replayDelayScale = 0;
+  });
+
+  afterEach(() => {
+    trafficRecorder.useMode(undefined);
+    trafficRecorder.replayDelayScale = 1;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded stream chunk by chunk, without the recorded pauses', async () => {
+    const body = { model: 'llama-3.1-8b-instant', stream: true, messages: [{ role: 'user', content: 'hi' }] };
+    const delta = (text: string) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+    trafficRecorder.save(
+      { method: 'POST', url: COMPLETIONS_URL, body },
+      {
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        // One event split across two reads, as the network delivers it
+        chunks: [{ delayMs: 2000, data: delta('Hel').slice(0, 20) }, { delayMs: 2000, data: delta('Hel').slice(20) + delta('lo') }, { delayMs: 2000, data: 'data: [DONE]\n\n' }],
+      }
+    );
+
+    const started = Date.now();
+    assert.strictEqual(await replayStream(body), 'Hello');
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('replays a JSON response through the shared HTTP client, whatever the key order of the body', async () => {
+    trafficRecorder.save(
+      { method: 'POST', url: COMPLETIONS_URL, body: { model: 'm', messages: [] } },
+      { status: 200, headers: { 'content-type': 'application/json' }, body: { choices: [{ message: { content: 'recorded' } }] } }
+    );
+
+    const response = await httpClient.post(COMPLETIONS_URL, { messages: [], model: 'm' });
+
+    assert.strictEqual(response.data.choices[0].message.content, 'recorded');
+  });
+
+  it('fails a request that was never recorded instead of going to the network', async () => {
+    await assert.rejects(httpClient.post(COMPLETIONS_URL, { model: 'unrecorded' }), /No recorded response/);
+  });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import type * as vscode from 'vscode';
+import { UsageRecord, UsageTracker } from '../usageTracker';
+
+/** Global state shared by every window, kept in a plain object. */
+function sharedMemento(values: Record<string, unknown> = {}): vscode.Memento {
+  return {
+    keys: () => Object.keys(values),
+    get: <T>(key: string, fallback?: T) => (key in values ? values[key] as T : fallback),
+    update: async (key: string, value: unknown) => { values[key] = JSON.parse(JSON.stringify(value)); },
+  };
+}
+
+function usage(overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return { model: 'gpt-4o', mode: 'ask', inputTokens: 100, outputTokens: 50, costUsd: 0.01, estimated: false, ...overrides };
+}
+
+function dayKey(daysAgo: number): string {
+  const d = new Date(Date.now() - daysAgo * 86_400_000);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const everyModel = () => true;
+
+describe('UsageTracker', () => {
+  it('adds up records per model and session', () => {
+    const tracker = new UsageTracker();
+    tracker.record(usage({ sessionId: 's1', sessionTitle: 'Refactor' }));
+    tracker.record(usage({ sessionId: 's1', model: 'claude-sonnet-4-20250514', costUsd: 0.05 }));
+    tracker.record(usage({ mode: 'inline', cachedInputTokens: 80 }));
+
+    const totals = tracker.totals('daily', everyModel);
+    assert.strictEqual(totals.requests, 3);
+    assert.strictEqual(totals.inputTokens, 300);
+    assert.strictEqual(totals.cachedInputTokens, 80);
+    assert.strictEqual(tracker.totals('monthly', m => m === 'gpt-4o').requests, 2);
+
+    const summary = tracker.summary();
+    assert.strictEqual(summary.byModel[0].model, 'claude-sonnet-4-20250514');
+    assert.strictEqual(summary.topSessions.length, 1);
+    assert.strictEqual(summary.topSessions[0].title, 'Refactor');
+    assert.strictEqual(summary.topSessions[0].requests, 2);
+  });
+
+  it('counts a new day in a new bucket, and last month only in all-time totals', async () => {
+    const memento = sharedMemento();
+    const bucket = (day: string) => ({ day, workspace: 'w', model: 'gpt-4o', mode: 'ask', requests: 1, inputTokens: 10, outputTokens: 10, cachedInputTokens: 0, costUsd: 1 });
+    await memento.update('prompt2code.usage', { buckets: [bucket(dayKey(1)), bucket(dayKey(40)), bucket(dayKey(500))], sessions: [] });
+    const tracker = new UsageTracker();
+    tracker.attach(memento);
+
+    tracker.record(usage({ costUsd: 2 }));
+
+    assert.strictEqual(tracker.totals('daily', everyModel).costUsd, 2);
+    assert.ok(tracker.totals('monthly', everyModel).costUsd <= 3, 'a bucket from 40 days ago counted this month');
+    // Buckets past the retention period are dropped
+    assert.strictEqual(tracker.summary().allTime.costUsd, 4);
+  });
+
+  it('merges the usage of two windows instead of overwriting it', async () => {
+    const memento = sharedMemento();
+    const first = new UsageTracker();
+    const second = new UsageTracker();
+    first.attach(memento);
+    second.attach(memento);
+
+    first.record(usage({ sessionId: 's1', costUsd: 1 }));
+    second.record(usage({ sessionId: 's1', costUsd: 2 }));
+    second.record(usage({ costUsd: 4 }));
+    await first.flush();
+    await second.flush();
+
+    for (const tracker of [first, second, (() => { const t = new UsageTracker(); t.attach(memento); return t; })()]) {
+      assert.strictEqual(tracker.totals('daily', everyModel).costUsd, 7);
+      assert.strictEqual(tracker.summary().topSessions[0].costUsd, 3);
+    }
+  });
+
+  it('counts another window\'s saved usage towards budgets before its own save', async () => {
+    const memento = sharedMemento();
+    const other = new UsageTracker();
+    const tracker = new UsageTracker();
+    other.attach(memento);
+    tracker.attach(memento);
+
+    other.record(usage({ costUsd: 5 }));
+    await other.flush();
+    tracker.record(usage({ costUsd: 1 }));
+
+    assert.strictEqual(tracker.totals('monthly', everyModel).costUsd, 6);
+  });
+
+  it('saves once per burst of records', async () => {
+    let writes = 0;
+    const memento = sharedMemento();
+    const update = memento.update.bind(memento);
+    memento.update = async (key: string, value: unknown) => { writes++; await update(key, value); };
+    const tracker = new UsageTracker();
+    tracker.attach(memento);
+
+    for (let i = 0; i < 20; i++) { tracker.record(usage({ mode: 'inline' })); }
+    assert.strictEqual(writes, 0);
+    await tracker.flush();
+    assert.strictEqual(writes, 1);
+  });
+});
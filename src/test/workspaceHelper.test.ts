@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { setWorkspaceRoot } from './setup';
+import { gatherProjectContext, parseIntegrationResponse, parseMultiFileResponse } from '../workspaceHelper';
+import { runWithContinuation } from '../continuation';
+import { countTokens, truncateToTokens } from '../tokenizer';
+
+describe('gatherProjectContext', () => {
+  let root: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'p2c-workspace-'));
+    fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({ name: 'demo', dependencies: { react: '^18.0.0' } }, null, 2));
+    fs.mkdirSync(path.join(root, 'src'));
+    // Files near the 10,000-character per-file cap, each far over a small model's whole budget
+    for (let i = 0; i < 6; i++) {
+      const body = Array.from({ length: 300 }, (_, n) => `export const value${i}_${n} = ${n} * ${i};`).join('\n');
+      fs.writeFileSync(path.join(root, 'src', `module${i}.ts`), body.slice(0, 9_900));
+    }
+    setWorkspaceRoot(root);
+  });
+
+  after(() => {
+    setWorkspaceRoot(undefined);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('keeps files and the project tree within a small model\'s token budget', async () => {
+    const budget = 3_000;
+    const context = await gatherProjectContext({
+      languageId: 'typescript',
+      maxTokens: budget,
+      countTokens: (text) => countTokens(text, 'llama'),
+      truncateToTokens: (text, maxTokens) => truncateToTokens(text, maxTokens, 'llama'),
+    });
+
+    assert.ok(context.fileCount >= 2, `only ${context.fileCount} file(s) included`);
+    assert.match(context.text, /--- PROJECT STRUCTURE ---/);
+    const used = countTokens(context.text, 'llama');
+    assert.ok(used <= budget, `${used} tokens for a budget of ${budget}`);
+  });
+
+  it('keeps to a character budget', async () => {
+    const context = await gatherProjectContext({ languageId: 'typescript', maxChars: 5_000 });
+    assert.ok(context.text.length <= 5_000, `${context.text.length} characters`);
+  });
+});
+
+describe('parseMultiFileResponse', () => {
+  it('reads FILE blocks, including one cut short by the next block', () => {
+    const files = parseMultiFileResponse([
+      'Here you go:',
+      '===FILE: ./src/a.ts===',
+      'export const a = 1;',
+      '===FILE: src/b.ts===',
+      'export const b = 2;',
+      '===END_FILE===',
+      '===FILE: src/a.ts===',
+      'export const a = 3;',
+      '===END_FILE===',
+    ].join('\n'));
+
+    assert.deepStrictEqual(files, [
+      { path: 'src/a.ts', content: 'export const a = 1;' },
+      { path: 'src/b.ts', content: 'export const b = 2;' },
+    ]);
+  });
+
+  it('falls back to fenced blocks labelled with a path', () => {
+    const files = parseMultiFileResponse('```tsx:src/App.tsx\nexport default function App() {}\n```');
+    assert.deepStrictEqual(files, [{ path: 'src/App.tsx', content: 'export default function App() {}' }]);
+  });
+});
+
+describe('parseIntegrationResponse', () => {
+  const mixed = [
+    '===NEW_FILE: src/Sidebar.tsx===',
+    'export function Sidebar() { return null; }',
+    '===END_FILE===',
+    '',
+    '===MODIFY_FILE: src/App.tsx===',
+    '<<<SEARCH>>>',
+    "import { Header } from './Header';",
+    '<<<REPLACE>>>',
+    "import { Header } from './Header';",
+    "import { Sidebar } from './Sidebar';",
+    '<<<END>>>',
+    '<<<SEARCH>>>',
+    '      <Header />',
+    '<<<REPLACE>>>',
+    '      <Header />',
+    '      <Sidebar />',
+    '<<<END>>>',
+    '===END_FILE===',
+    '',
+    '===NEW_FILE: src/sidebar.css===',
+    '.sidebar { width: 240px; }',
+    '===END_FILE===',
+  ].join('\n');
+
+  it('separates new files from search/replace edits', () => {
+    const result = parseIntegrationResponse(mixed);
+
+    assert.deepStrictEqual(result.newFiles.map(f => f.path), ['src/Sidebar.tsx', 'src/sidebar.css']);
+    assert.strictEqual(result.modifications.length, 1);
+    assert.strictEqual(result.modifications[0].path, 'src/App.tsx');
+    assert.deepStrictEqual(result.modifications[0].operations[1], { search: '      <Header />', replace: '      <Header />\n      <Sidebar />' });
+  });
+
+  it('reads a block that a continuation finished', async () => {
+    // The first reply stops inside the MODIFY_FILE block; the second restates its last line
+    const cut = mixed.indexOf('<<<REPLACE>>>\n      <Header />');
+    const pieces = [mixed.slice(0, cut), mixed.slice(mixed.lastIndexOf('\n', cut - 2) + 1)];
+    const assembled = await runWithContinuation({
+      language: 'typescript',
+      maxContinuations: 2,
+      label: 'Test',
+      request: async (attempt) => ({ content: pieces[attempt], finishReason: attempt === 0 ? 'length' : 'stop' }),
+    });
+
+    assert.strictEqual(assembled, mixed);
+    assert.deepStrictEqual(parseIntegrationResponse(assembled), parseIntegrationResponse(mixed));
+  });
+
+  it('falls back to FILE blocks when there are no NEW_FILE or MODIFY_FILE markers', () => {
+    const result = parseIntegrationResponse('===FILE: src/a.ts===\nexport const a = 1;\n===END_FILE===');
+    assert.deepStrictEqual(result, { newFiles: [{ path: 'src/a.ts', content: 'export const a = 1;' }], modifications: [] });
+  });
+});
@@ -0,0 +1,89 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+/**
+ * Tokenizer families. Only the OpenAI BPE tables ship publicly, so the
+ * other families are counted with the closest table plus a correction
+ * factor measured on source code (rounded up — overcounting is safe,
+ * undercounting overflows the window).
+ */
+export type TokenizerFamily = 'o200k' | 'cl100k' | 'llama' | 'mistral' | 'claude' | 'gemini';
+
+const FAMILIES: Record<TokenizerFamily, { encoding: 'o200k_base' | 'cl100k_base'; scale: number }> = {
+  // GPT-4o, o1/o3, gpt-oss
+  o200k:   { encoding: 'o200k_base',  scale: 1 },
+  // GPT-4 / GPT-3.5
+  cl100k:  { encoding: 'cl100k_base', scale: 1 },
+  // Llama 3.x: 128K vocab = cl100k's 100K merges + 28K multilingual tokens
+  llama:   { encoding: 'cl100k_base', scale: 1 },
+  // Mixtral / Mistral: 32K SentencePiece vocab splits code more finely
+  mistral: { encoding: 'cl100k_base', scale: 1.2 },
+  // Claude 3+/4: private ~65K vocab, consistently ~10% above cl100k on code
+  claude:  { encoding: 'cl100k_base', scale: 1.1 },
+  // Gemini / Gemma: 256K SentencePiece vocab, closest to o200k
+  gemini:  { encoding: 'o200k_base',  scale: 1.05 },
+};
+
+/** Above this size exact BPE costs more than it's worth; fall back to the char ratio. */
+const MAX_EXACT_CHARS = 2_000_000;
+
+/** Rough chars-per-token ratio (≈ 3.5 for English code), used before any table loads. */
+const FALLBACK_CHARS_PER_TOKEN = 3.5;
+
+const encoders = new Map<string, Tiktoken>();
+
+/** BPE tables are large — build each encoder on first use and keep it. */
+function encoderFor(encoding: 'o200k_base' | 'cl100k_base'): Tiktoken {
+  let enc = encoders.get(encoding);
+  if (!enc) {
+    enc = getEncoding(encoding);
+    encoders.set(encoding, enc);
+  }
+  return enc;
+}
+
+/** Pick the tokenizer family for a model ID, using the provider when the ID is unfamiliar. */
+export function tokenizerFamilyForModel(modelId: string, provider?: string): TokenizerFamily {
+  const id = modelId.toLowerCase();
+  if (/^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)|gpt-oss/.test(id)) { return 'o200k'; }
+  if (/^gpt-(4|3\.5)/.test(id)) { return 'cl100k'; }
+  if (id.includes('claude')) { return 'claude'; }
+  if (/gemini|gemma/.test(id)) { return 'gemini'; }
+  if (/mixtral|mistral|codestral/.test(id)) { return 'mistral'; }
+  if (id.includes('llama')) { return 'llama'; }
+  switch (provider) {
+    case 'openai':    return 'o200k';
+    case 'anthropic': return 'claude';
+    case 'gemini':    return 'gemini';
+    default:          return 'llama';
+  }
+}
+
+/** Count tokens in `text` the way the given tokenizer family would. */
+export function countTokens(text: string, family: TokenizerFamily): number {
+  if (!text) { return 0; }
+  const { encoding, scale } = FAMILIES[family];
+  if (text.length > MAX_EXACT_CHARS) {
+    return Math.ceil((text.length / FALLBACK_CHARS_PER_TOKEN) * scale);
+  }
+  const tokens = encoderFor(encoding).encode(text, 'all').length;
+  return Math.ceil(tokens * scale);
+}
+
+/**
+ * Cut `text` to at most `maxTokens` tokens of the given family, on a token
+ * boundary. Returns the text unchanged when it already fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number, family: TokenizerFamily): string {
+  if (maxTokens <= 0) { return ''; }
+  const { encoding, scale } = FAMILIES[family];
+  // Cheap early exit: even at one char per (scaled) token it fits
+  if (text.length <= Math.floor(maxTokens / scale)) { return text; }
+  if (text.length > MAX_EXACT_CHARS) {
+    text = text.slice(0, Math.floor((maxTokens / scale) * FALLBACK_CHARS_PER_TOKEN));
+  }
+  const enc = encoderFor(encoding);
+  const tokens = enc.encode(text, 'all');
+  const limit = Math.floor(maxTokens / scale);
+  if (tokens.length <= limit) { return text; }
+  return enc.decode(tokens.slice(0, limit));
+}
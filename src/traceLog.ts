@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { apiKeyStore } from './apiKeyStore';
+import type { UsageMode } from './usageTracker';
+import type { ProviderUsage } from './providers/types';
+
+/** One adapter-level retry inside a provider call (e.g. a 429 backoff or a smaller max_tokens). */
+export interface TraceRetry {
+  status?: number;
+  error: string;
+  delayMs?: number;
+  maxTokens?: number;
+}
+
+/** Everything about one provider call, as shown by "Show Trace" and exported as JSONL. */
+export interface TraceEntry {
+  id: string;
+  /** Chat turn this call belongs to; unset for editor commands and inline completions. */
+  turnId?: string;
+  sessionId?: string;
+  sessionTitle?: string;
+  timestamp: string;
+  model: string;
+  provider: string;
+  mode: UsageMode;
+  stream: boolean;
+  /** True when Auto mode made this call as one of several candidates. */
+  autoFallback: boolean;
+  params: {
+    maxTokens: number;
+    temperature: number;
+    tools?: string[];
+    toolChoice?: unknown;
+    responseFormat?: string;
+  };
+  messages: unknown[];
+  retries: TraceRetry[];
+  latencyMs?: number;
+  cached?: boolean;
+  finishReason?: string;
+  usage?: ProviderUsage;
+  response?: { content: string; toolCalls?: unknown[] };
+  error?: string;
+}
+
+export type TraceStart = Omit<TraceEntry, 'id' | 'timestamp' | 'retries'>;
+
+/** A call in flight; finished exactly once with `succeed` or `fail`. */
+export interface TraceHandle {
+  retry(retry: TraceRetry): void;
+  succeed(result: Pick<TraceEntry, 'finishReason' | 'usage' | 'response' | 'cached'>): void;
+  /** `partial` is whatever streamed before the failure. */
+  fail(error: unknown, partial?: string): void;
+}
+
+/** Entries kept in memory — enough for a long session without growing unbounded. */
+const MAX_ENTRIES = 500;
+
+/** Key shapes redacted even when the key is not one of ours (pasted into a prompt, echoed back, …). */
+const BUILTIN_SECRET_PATTERNS = [
+  /\bsk-(?:or-|ant-|proj-)?[A-Za-z0-9_-]{16,}/g,
+  /\bgsk_[A-Za-z0-9]{16,}/g,
+  /\bAIza[0-9A-Za-z_-]{30,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+];
+
+const REDACTED = '[REDACTED]';
+
+/** Images are reduced to their size; the base64 payload says nothing useful in a trace. */
+function elideImages(text: string): string {
+  return text.replace(/data:([\w/+.-]+);base64,([A-Za-z0-9+/=]{64,})/g, (_m, mime: string, data: string) =>
+    `data:${mime};base64,<${Math.round(data.length * 0.75).toLocaleString()} bytes>`
+  );
+}
+
+/**
+ * Structured log of provider calls for debugging bad outputs: each call's
+ * model, parameters, final messages, retries, latency and response. Saved
+ * keys and secret-looking strings are redacted before anything is kept.
+ * Entries live in memory only; a one-line summary of each goes to the
+ * "Prompt2Code" output channel.
+ */
+export class TraceLog {
+  private entries: TraceEntry[] = [];
+  private channel?: vscode.LogOutputChannel;
+  private lastTurnId?: string;
+  private seq = 0;
+
+  /** The "Prompt2Code" output channel, created on first use. */
+  get output(): vscode.LogOutputChannel {
+    if (!this.channel) { this.channel = vscode.window.createOutputChannel('Prompt2Code', { log: true }); }
+    return this.channel;
+  }
+
+  private get enabled(): boolean {
+    return vscode.workspace.getConfiguration('prompt2code').get<boolean>('trace.enabled', true);
+  }
+
+  /** A fresh ID that groups the calls of one chat turn. */
+  newTurnId(): string {
+    return `turn-${Date.now().toString(36)}-${++this.seq}`;
+  }
+
+  /** Record the start of a provider call. */
+  start(call: TraceStart): TraceHandle {
+    const startedAt = Date.now();
+    const entry: TraceEntry = {
+      id: `call-${startedAt.toString(36)}-${++this.seq}`,
+      timestamp: new Date(startedAt).toISOString(),
+      retries: [],
+      ...call,
+    };
+    let done = false;
+    const finish = (patch: Partial<TraceEntry>) => {
+      if (done) { return; }
+      done = true;
+      this.add({ ...entry, ...patch, latencyMs: Date.now() - startedAt });
+    };
+    return {
+      retry: (retry) => {
+        entry.retries.push(retry);
+        this.output.warn(`${entry.model}: retrying after ${retry.status ?? 'error'}${retry.delayMs ? ` in ${retry.delayMs}ms` : ''} — ${this.redact(retry.error)}`);
+      },
+      succeed: (result) => finish(result),
+      fail: (error: any, partial?: string) => finish({
+        error: String(error?.message ?? error),
+        response: partial ? { content: partial } : undefined,
+      }),
+    };
+  }
+
+  private add(entry: TraceEntry): void {
+    if (!this.enabled) { return; }
+    const redacted = this.redactValue(entry) as TraceEntry;
+    this.entries.push(redacted);
+    if (this.entries.length > MAX_ENTRIES) { this.entries.splice(0, this.entries.length - MAX_ENTRIES); }
+    if (redacted.turnId) { this.lastTurnId = redacted.turnId; }
+
+    const usage = redacted.usage ? ` ${redacted.usage.inputTokens}→${redacted.usage.outputTokens} tok${this.cacheSummary(redacted.usage)}` : '';
+    const summary = `${redacted.mode} ${redacted.model}${redacted.stream ? ' (stream)' : ''}`
+      + ` ${redacted.latencyMs}ms${usage}${redacted.cached ? ' cached' : ''}`
+      + `${redacted.retries.length ? ` retries=${redacted.retries.length}` : ''}`;
+    if (redacted.error) {
+      this.output.error(`${summary} failed: ${redacted.error}`);
+    } else {
+      this.output.info(`${summary} finish=${redacted.finishReason ?? '?'}`);
+    }
+  }
+
+  /** Prompt-cache hits and misses, when the provider reported them. */
+  private cacheSummary(usage: ProviderUsage): string {
+    if (usage.cachedInputTokens === undefined) { return ''; }
+    const written = usage.cacheWriteTokens ? `, ${usage.cacheWriteTokens} written` : '';
+    return ` (cache: ${usage.cachedInputTokens} hit, ${usage.inputTokens - usage.cachedInputTokens} miss${written})`;
+  }
+
+  /** Replace saved keys, built-in key shapes and `prompt2code.trace.redactPatterns` matches. */
+  redact(text: string): string {
+    let out = text;
+    for (const key of apiKeyStore.values()) {
+      if (key.length >= 8) { out = out.split(key).join(REDACTED); }
+    }
+    for (const pattern of BUILTIN_SECRET_PATTERNS) { out = out.replace(pattern, REDACTED); }
+    const custom = vscode.workspace.getConfiguration('prompt2code').get<string[]>('trace.redactPatterns', []) ?? [];
+    for (const source of custom) {
+      try {
+        out = out.replace(new RegExp(source, 'g'), REDACTED);
+      } catch {
+        // An invalid pattern is skipped rather than breaking the trace
+      }
+    }
+    return out;
+  }
+
+  /** Redact every string inside a JSON-like value, leaving its shape intact. */
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') { return this.redact(elideImages(value)); }
+    if (Array.isArray(value)) { return value.map(v => this.redactValue(v)); }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactValue(v)]));
+    }
+    return value;
+  }
+
+  /** Calls of the most recent chat turn, oldest first. */
+  lastTurn(): TraceEntry[] {
+    return this.lastTurnId ? this.entries.filter(e => e.turnId === this.lastTurnId) : [];
+  }
+
+  /** Chat sessions with traced calls, most recent first. */
+  sessions(): { id: string; title: string; calls: number; lastAt: string }[] {
+    const byId = new Map<string, { id: string; title: string; calls: number; lastAt: string }>();
+    for (const e of this.entries) {
+      if (!e.sessionId) { continue; }
+      const s = byId.get(e.sessionId) ?? { id: e.sessionId, title: e.sessionTitle || 'Untitled chat', calls: 0, lastAt: e.timestamp };
+      s.calls++;
+      s.lastAt = e.timestamp;
+      byId.set(e.sessionId, s);
+    }
+    return [...byId.values()].sort((a, b) => b.lastAt.localeCompare(a.lastAt));
+  }
+
+  /** One JSON object per line — a session's calls, or every call when no session is given. */
+  toJsonl(sessionId?: string): string {
+    return this.entries
+      .filter(e => !sessionId || e.sessionId === sessionId)
+      .map(e => JSON.stringify(e))
+      .join('\n') + '\n';
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.lastTurnId = undefined;
+  }
+}
+
+/** Backs the Show Trace and Export Traces commands and the "Prompt2Code" output channel. */
+export const traceLog = new TraceLog();
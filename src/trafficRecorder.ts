@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as http from 'http';
+import * as https from 'https';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { fakeProvider } from './providers/fake';
+import { traceLog } from './traceLog';
+
+/** `record` saves every provider exchange as a fixture; `replay` answers only from fixtures. */
+export type TrafficMode = 'off' | 'record' | 'replay';
+
+/** One SSE read as it arrived: the text and the pause before it. */
+export interface RecordedChunk {
+  delayMs: number;
+  data: string;
+}
+
+/** A provider's answer: a JSON body, or the raw chunks of a stream. */
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+  chunks?: RecordedChunk[];
+}
+
+/** What a fixture file holds. Only the method, URL and body identify a request — never its headers. */
+export interface TrafficFixture {
+  hash: string;
+  recordedAt: string;
+  request: { method: string; url: string; body?: unknown };
+  response: RecordedResponse;
+}
+
+/** The subset of http.ClientRequest the streaming code uses. */
+export interface StreamingRequest {
+  on(event: 'error', listener: (err: NodeJS.ErrnoException) => void): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+  destroy(): unknown;
+}
+
+/** Response headers worth keeping in a fixture; the rest vary per request. */
+const KEPT_HEADERS = /^(content-type|retry-after|x-ratelimit-.*|anthropic-ratelimit-.*)$/i;
+
+/** Query parameters that carry credentials (Gemini sends its key as `?key=`). */
+const SECRET_PARAMS = ['key', 'api_key', 'apikey'];
+
+/** Key order must not change a hash, so objects are serialised with sorted keys. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) { return `[${value.map(stableStringify).join(',')}]`; }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function withoutSecrets(url: string): string {
+  const parsed = new URL(url);
+  for (const param of SECRET_PARAMS) { parsed.searchParams.delete(param); }
+  return parsed.toString();
+}
+
+/** Request bodies arrive as objects or JSON strings depending on the transport. */
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') { return body; }
+  try { return JSON.parse(body); } catch { return body; }
+}
+
+/** Fixture key for a request: a hash of its method, credential-free URL and body. */
+export function requestHash(method: string, url: string, body: unknown): string {
+  const canonical = `${method.toUpperCase()} ${withoutSecrets(url)}\n${stableStringify(parseBody(body) ?? null)}`;
+  return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 24);
+}
+
+function keptHeaders(headers: Record<string, unknown> | undefined): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (KEPT_HEADERS.test(name) && value !== undefined) { kept[name.toLowerCase()] = String(value); }
+  }
+  return kept;
+}
+
+/**
+ * Records provider HTTP exchanges (JSON bodies and SSE streams) to fixture
+ * files keyed by request hash, and replays them — streams with their
+ * recorded chunk timing — so chat and continuation flows run offline and
+ * deterministically. Requests to the fake provider are answered from its
+ * script in every mode.
+ */
+export class TrafficRecorder {
+  /** Set by tests to force a mode and fixture folder regardless of settings. */
+  private override?: { mode: TrafficMode; dir?: string };
+  /** Multiplier for recorded chunk delays on replay; 0 replays a stream instantly. */
+  replayDelayScale = 1;
+
+  get mode(): TrafficMode {
+    if (this.override) { return this.override.mode; }
+    const mode = vscode.workspace.getConfiguration('prompt2code').get<string>('traffic.mode', 'off');
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  /** Force a mode (and fixture folder); pass undefined to go back to the settings. */
+  useMode(mode: TrafficMode | undefined, dir?: string): void {
+    this.override = mode ? { mode, dir } : undefined;
+  }
+
+  /** `prompt2code.traffic.fixturesDir`, relative paths resolved against the first workspace folder. */
+  fixturesDir(): string {
+    const configured = this.override?.dir
+      ?? vscode.workspace.getConfiguration('prompt2code').get<string>('traffic.fixturesDir', '.prompt2code/fixtures')
+      ?? '.prompt2code/fixtures';
+    if (path.isAbsolute(configured)) { return configured; }
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+    return path.join(root, configured);
+  }
+
+  load(hash: string): TrafficFixture | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.fixturesDir(), `${hash}.json`), 'utf8')) as TrafficFixture;
+    } catch {
+      return undefined;
+    }
+  }
+
+  save(request: { method: string; url: string; body?: unknown }, response: RecordedResponse): void {
+    const hash = requestHash(request.method, request.url, request.body);
+    const fixture: TrafficFixture = {
+      hash,
+      recordedAt: new Date().toISOString(),
+      request: { method: request.method.toUpperCase(), url: withoutSecrets(request.url), body: parseBody(request.body) },
+      response,
+    };
+    try {
+      fs.mkdirSync(this.fixturesDir(), { recursive: true });
+      fs.writeFileSync(path.join(this.fixturesDir(), `${hash}.json`), JSON.stringify(fixture, null, 2));
+      traceLog.output.info(`Traffic recorder: recorded ${fixture.request.method} ${traceLog.redact(fixture.request.url)} → ${hash}`);
+    } catch (error: any) {
+      traceLog.output.warn(`Traffic recorder: could not save fixture ${hash} (${error.message})`);
+    }
+  }
+
+  /** The canned answer for a request in replay mode (or for the fake provider); throws when none is recorded. */
+  private cannedResponse(method: string, url: string, body: unknown): RecordedResponse {
+    if (fakeProvider.handles(url)) { return fakeProvider.respond(parseBody(body) as Record<string, any> | undefined); }
+    const hash = requestHash(method, url, body);
+    const fixture = this.load(hash);
+    if (!fixture) {
+      const err: NodeJS.ErrnoException = new Error(
+        `No recorded response for ${method.toUpperCase()} ${withoutSecrets(url)} (fixture ${hash}) in ${this.fixturesDir()}. `
+        + 'Record it first with prompt2code.traffic.mode set to "record".'
+      );
+      err.code = 'ENOFIXTURE';
+      throw err;
+    }
+    return fixture.response;
+  }
+
+  /** Whether a request is answered locally instead of going to the network. */
+  private servesLocally(url: string): boolean {
+    return this.mode === 'replay' || fakeProvider.handles(url);
+  }
+
+  /**
+   * Hook the recorder into an axios instance: replayed and fake requests get
+   * an adapter that answers from the fixture, recorded ones are saved after
+   * the response arrives.
+   */
+  install(client: { interceptors: { request: any; response: any } }): void {
+    client.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+      if (config.url && this.servesLocally(config.url)) {
+        config.adapter = (cfg: InternalAxiosRequestConfig) => this.replayAxios(cfg);
+      }
+      return config;
+    });
+    client.interceptors.response.use(
+      (response: AxiosResponse) => {
+        this.recordAxios(response);
+        return response;
+      },
+      (error: any) => {
+        if (error?.response) { this.recordAxios(error.response); }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private recordAxios(response: AxiosResponse): void {
+    const { config } = response;
+    if (this.mode !== 'record' || !config?.url || fakeProvider.handles(config.url)) { return; }
+    this.save(
+      { method: config.method ?? 'get', url: config.url, body: config.data },
+      { status: response.status, headers: keptHeaders(response.headers as Record<string, unknown>), body: response.data }
+    );
+  }
+
+  private async replayAxios(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const method = config.method ?? 'get';
+    const canned = this.cannedResponse(method, config.url ?? '', config.data);
+    const response: AxiosResponse = {
+      data: canned.body ?? canned.chunks?.map(c => c.data).join(''),
+      status: canned.status,
+      statusText: canned.status < 400 ? 'OK' : 'Error',
+      headers: canned.headers,
+      config,
+      request: {},
+    };
+    const valid = config.validateStatus ? config.validateStatus(canned.status) : canned.status < 400;
+    if (!valid) {
+      throw new AxiosError(`Request failed with status code ${canned.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+    }
+    return response;
+  }
+
+  /**
+   * Send a streaming request. Live requests go through Node's http/https
+   * (recorded chunk by chunk in record mode); replayed and fake ones are
+   * played back from their chunks with the recorded pauses.
+   */
+  request(
+    url: URL,
+    options: http.RequestOptions & { signal?: AbortSignal },
+    callback: (res: http.IncomingMessage) => void
+  ): StreamingRequest {
+    if (this.servesLocally(url.toString())) { return this.replayStream(url, options, callback); }
+    const send = url.protocol === 'http:' ? http.request : https.request;
+    if (this.mode !== 'record') { return send(options, callback); }
+
+    let body = '';
+    const req = send(options, (res) => {
+      const chunks: RecordedChunk[] = [];
+      // A character split across reads is saved whole, in the chunk that completes it
+      const utf8 = new StringDecoder('utf8');
+      let last = Date.now();
+      res.on('data', (chunk: Buffer) => {
+        const now = Date.now();
+        chunks.push({ delayMs: now - last, data: utf8.write(chunk) });
+        last = now;
+      });
+      res.on('end', () => {
+        const rest = utf8.end();
+        if (rest) { chunks.push({ delayMs: 0, data: rest }); }
+        this.save(
+          { method: options.method ?? 'GET', url: url.toString(), body },
+          { status: res.statusCode ?? 200, headers: keptHeaders(res.headers), chunks }
+        );
+      });
+      callback(res);
+    });
+    const write = req.write.bind(req);
+    return Object.assign(req, {
+      write: (chunk: string) => {
+        body += chunk;
+        return write(chunk);
+      },
+    });
+  }
+
+  private replayStream(
+    url: URL,
+    options: http.RequestOptions & { signal?: AbortSignal },
+    callback: (res: http.IncomingMessage) => void
+  ): StreamingRequest {
+    const emitter = new EventEmitter();
+    const timers: NodeJS.Timeout[] = [];
+    let body = '';
+    let res: PassThrough | undefined;
+    const destroy = () => {
+      timers.forEach(clearTimeout);
+      res?.destroy();
+    };
+    const fail = (err: Error) => {
+      destroy();
+      // Let the caller attach its error listener first, as with a real request
+      setImmediate(() => emitter.emit('error', err));
+    };
+    options.signal?.addEventListener('abort', () => {
+      const err = new Error('The operation was aborted');
+      err.name = 'AbortError';
+      fail(err);
+    }, { once: true });
+
+    const req: StreamingRequest = {
+      on: (event, listener) => emitter.on(event, listener),
+      write: (chunk) => { body += chunk; return true; },
+      destroy,
+      end: () => {
+        let canned: RecordedResponse;
+        try {
+          canned = this.cannedResponse(options.method ?? 'GET', url.toString(), body);
+        } catch (err: any) {
+          fail(err);
+          return;
+        }
+        const stream = new PassThrough();
+        res = stream;
+        const message = Object.assign(stream, { statusCode: canned.status, headers: canned.headers }) as unknown as http.IncomingMessage;
+        const chunks = canned.chunks ?? [{ delayMs: 0, data: JSON.stringify(canned.body ?? '') }];
+        setImmediate(() => {
+          callback(message);
+          let at = 0;
+          for (const chunk of chunks) {
+            at += chunk.delayMs * this.replayDelayScale;
+            timers.push(setTimeout(() => stream.write(chunk.data), at));
+          }
+          timers.push(setTimeout(() => stream.end(), at));
+        });
+      },
+    };
+    return req;
+  }
+}
+
+/** Shared so the axios client and the streaming path record to (and replay from) the same fixtures. */
+export const trafficRecorder = new TrafficRecorder();
@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import { traceLog } from './traceLog';
+
+/** What a request was made for — chat modes plus inline completions and editor commands. */
+export type UsageMode = 'ask' | 'agent' | 'plan' | 'inline' | 'command';
+
+/** One request's usage, as reported by GroqClient. */
+export interface UsageRecord {
+  model: string;
+  mode: UsageMode;
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens the provider served from its prompt cache. */
+  cachedInputTokens?: number;
+  costUsd: number;
+  /** True when the provider sent no usage and the tokenizer estimate was used. */
+  estimated: boolean;
+  sessionId?: string;
+  sessionTitle?: string;
+}
+
+/** Aggregated usage for one (day, workspace, model, mode). */
+export interface UsageBucket {
+  day: string;
+  workspace: string;
+  model: string;
+  mode: UsageMode;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  costUsd: number;
+}
+
+/** Aggregated usage for one chat session. */
+export interface UsageSession {
+  id: string;
+  title: string;
+  workspace: string;
+  startedAt: number;
+  lastAt: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedInputTokens?: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt-cache hits; the other input tokens were misses. Absent from usage stored before caching was tracked. */
+  cachedInputTokens?: number;
+  costUsd: number;
+}
+
+/** What the usage view shows. */
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  allTime: UsageTotals;
+  /** This month, most expensive first. */
+  byModel: (UsageTotals & { model: string })[];
+  byMode: (UsageTotals & { mode: UsageMode })[];
+  topSessions: UsageSession[];
+}
+
+interface StoredUsage {
+  buckets: UsageBucket[];
+  sessions: UsageSession[];
+}
+
+const STORAGE_KEY = 'prompt2code.usage';
+/** Daily buckets older than this are dropped. */
+const RETENTION_DAYS = 400;
+const MAX_SESSIONS = 200;
+/** Usage recorded within this long is written in one go (inline completions come in bursts). */
+const SAVE_DELAY_MS = 2_000;
+
+/** Local calendar day as YYYY-MM-DD. */
+function dayKey(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, costUsd: 0 };
+}
+
+function addTo(totals: UsageTotals, b: UsageTotals): void {
+  totals.requests += b.requests;
+  totals.inputTokens += b.inputTokens;
+  totals.outputTokens += b.outputTokens;
+  totals.cachedInputTokens = (totals.cachedInputTokens ?? 0) + (b.cachedInputTokens ?? 0);
+  totals.costUsd += b.costUsd;
+}
+
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Persistent token and cost accounting, kept in the extension's global state
+ * so totals span workspaces. Usage is aggregated per day, workspace, model
+ * and mode, plus per chat session for the "most expensive sessions" list.
+ *
+ * Every VS Code window has its own tracker over the same global state, so a
+ * window never writes back a snapshot: new usage is held as a delta, and
+ * each (debounced) save re-reads the stored totals and adds the delta to them.
+ */
+export class UsageTracker {
+  /** Usage as last read from (or written to) global state. */
+  private buckets = new Map<string, UsageBucket>();
+  private sessions = new Map<string, UsageSession>();
+  /** Usage this window recorded since its last save. */
+  private pendingBuckets = new Map<string, UsageBucket>();
+  private pendingSessions = new Map<string, UsageSession>();
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private memento?: vscode.Memento;
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  /** Load stored usage (called once the extension context is available). */
+  attach(memento: vscode.Memento): void {
+    this.memento = memento;
+    this.load();
+  }
+
+  record(record: UsageRecord): void {
+    const workspace = vscode.workspace.name ?? '(no workspace)';
+    const day = dayKey();
+    const now = Date.now();
+    const delta: UsageTotals = {
+      requests: 1,
+      inputTokens: record.inputTokens,
+      outputTokens: record.outputTokens,
+      cachedInputTokens: record.cachedInputTokens ?? 0,
+      costUsd: record.costUsd,
+    };
+    const bucket: UsageBucket = { day, workspace, model: record.model, mode: record.mode, ...delta };
+    mergeBucket(this.pendingBuckets, this.bucketKey(bucket), bucket);
+
+    if (record.sessionId) {
+      mergeSession(this.pendingSessions, {
+        ...delta,
+        id: record.sessionId,
+        title: record.sessionTitle || 'Untitled chat',
+        workspace,
+        startedAt: now,
+        lastAt: now,
+      });
+    }
+
+    this.scheduleSave();
+    this._onDidChange.fire();
+  }
+
+  summary(): UsageSummary {
+    const { buckets, sessions } = this.current();
+    const today = dayKey();
+    const month = today.slice(0, 7);
+    const summary: UsageSummary = {
+      today: emptyTotals(),
+      month: emptyTotals(),
+      allTime: emptyTotals(),
+      byModel: [],
+      byMode: [],
+      topSessions: [],
+    };
+    const byModel = new Map<string, UsageTotals & { model: string }>();
+    const byMode = new Map<UsageMode, UsageTotals & { mode: UsageMode }>();
+
+    for (const b of buckets.values()) {
+      addTo(summary.allTime, b);
+      if (b.day === today) { addTo(summary.today, b); }
+      if (!b.day.startsWith(month)) { continue; }
+      addTo(summary.month, b);
+      if (!byModel.has(b.model)) { byModel.set(b.model, { model: b.model, ...emptyTotals() }); }
+      addTo(byModel.get(b.model) as UsageTotals, b);
+      if (!byMode.has(b.mode)) { byMode.set(b.mode, { mode: b.mode, ...emptyTotals() }); }
+      addTo(byMode.get(b.mode) as UsageTotals, b);
+    }
+
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens);
+    summary.byModel = [...byModel.values()].sort(byCost);
+    summary.byMode = [...byMode.values()].sort(byCost);
+    summary.topSessions = [...sessions.values()].sort(byCost).slice(0, 5);
+    return summary;
+  }
+
+  /** Usage so far today or this calendar month, over the models that `match` accepts (other windows' saved usage included). */
+  totals(period: 'daily' | 'monthly', match: (model: string) => boolean): UsageTotals {
+    const today = dayKey();
+    const prefix = period === 'daily' ? today : today.slice(0, 7);
+    const totals = emptyTotals();
+    for (const b of this.current().buckets.values()) {
+      if (b.day.startsWith(prefix) && match(b.model)) { addTo(totals, b); }
+    }
+    return totals;
+  }
+
+  /** Every daily bucket as CSV, oldest day first. */
+  toCsv(): string {
+    const header = ['day', 'workspace', 'model', 'mode', 'requests', 'input_tokens', 'cached_input_tokens', 'output_tokens', 'cost_usd'];
+    const rows = [...this.current().buckets.values()]
+      .sort((a, b) => a.day.localeCompare(b.day) || a.workspace.localeCompare(b.workspace) || a.model.localeCompare(b.model))
+      .map(b => [b.day, b.workspace, b.model, b.mode, b.requests, b.inputTokens, b.cachedInputTokens ?? 0, b.outputTokens, b.costUsd.toFixed(6)]);
+    return [header, ...rows].map(r => r.map(csvField).join(',')).join('\n') + '\n';
+  }
+
+  async reset(): Promise<void> {
+    this.pendingBuckets.clear();
+    this.pendingSessions.clear();
+    this.buckets.clear();
+    this.sessions.clear();
+    await this.write();
+    this._onDidChange.fire();
+  }
+
+  /** Write pending usage now (on deactivation, and by tests) instead of after the save delay. */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.memento || (!this.pendingBuckets.size && !this.pendingSessions.size)) { return; }
+    const { buckets, sessions } = this.current();
+    this.buckets = buckets;
+    this.sessions = sessions;
+    this.pendingBuckets.clear();
+    this.pendingSessions.clear();
+    await this.write();
+  }
+
+  private bucketKey(b: Pick<UsageBucket, 'day' | 'workspace' | 'model' | 'mode'>): string {
+    return [b.day, b.workspace, b.model, b.mode].join('\u0000');
+  }
+
+  /** Re-read what every window has saved. */
+  private load(): void {
+    if (!this.memento) { return; }
+    const stored = this.memento.get<StoredUsage>(STORAGE_KEY);
+    this.buckets = new Map((stored?.buckets ?? []).map(b => [this.bucketKey(b), b]));
+    this.sessions = new Map((stored?.sessions ?? []).map(s => [s.id, s]));
+  }
+
+  /** Saved usage plus this window's pending usage, pruned; the stored objects are not modified. */
+  private current(): { buckets: Map<string, UsageBucket>; sessions: Map<string, UsageSession> } {
+    this.load();
+    const buckets = new Map([...this.buckets].map(([key, b]) => [key, { ...b }]));
+    const sessions = new Map([...this.sessions].map(([id, s]) => [id, { ...s }]));
+    for (const [key, b] of this.pendingBuckets) { mergeBucket(buckets, key, b); }
+    for (const s of this.pendingSessions.values()) { mergeSession(sessions, s); }
+
+    const cutoff = dayKey(new Date(Date.now() - RETENTION_DAYS * 86_400_000));
+    for (const [key, b] of buckets) {
+      if (b.day < cutoff) { buckets.delete(key); }
+    }
+    if (sessions.size > MAX_SESSIONS) {
+      const oldest = [...sessions.values()].sort((a, b) => a.lastAt - b.lastAt);
+      for (const s of oldest.slice(0, sessions.size - MAX_SESSIONS)) { sessions.delete(s.id); }
+    }
+    return { buckets, sessions };
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer || !this.memento) { return; }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async write(): Promise<void> {
+    if (!this.memento) { return; }
+    const stored: StoredUsage = { buckets: [...this.buckets.values()], sessions: [...this.sessions.values()] };
+    try {
+      await this.memento.update(STORAGE_KEY, stored);
+    } catch (error: any) {
+      traceLog.output.warn(`Usage tracker: could not save usage (${error.message})`);
+    }
+  }
+}
+
+/** Add a bucket's totals to the one under `key`, or store a copy. */
+function mergeBucket(buckets: Map<string, UsageBucket>, key: string, bucket: UsageBucket): void {
+  const existing = buckets.get(key);
+  if (existing) { addTo(existing, bucket); } else { buckets.set(key, { ...bucket }); }
+}
+
+/** Add a session's totals to the stored one, keeping its first start and latest activity. */
+function mergeSession(sessions: Map<string, UsageSession>, session: UsageSession): void {
+  const existing = sessions.get(session.id);
+  if (!existing) {
+    sessions.set(session.id, { ...session });
+    return;
+  }
+  addTo(existing, session);
+  existing.startedAt = Math.min(existing.startedAt, session.startedAt);
+  existing.lastAt = Math.max(existing.lastAt, session.lastAt);
+}
+
+/** Attached to global state on activation and flushed on deactivation, so the last burst of records is saved. */
+export const usageTracker = new UsageTracker();
@@ -148,7 +148,7 @@ export function parseMultiFileResponse(response: string): { path: string; conten
   let match: RegExpExecArray | null;
   while ((match = pattern1.exec(response))) {
     const filePath = cleanFilePath(match[1]);
-    let content = match[2].replace(/===\s*END_FILE\s*===\s*$/, '').trimEnd();
+    const content = match[2].replace(/===\s*END_FILE\s*===\s*$/, '').trimEnd();
     if (filePath && content && !seen.has(filePath)) {
       seen.add(filePath);
       files.push({ path: filePath, content });
@@ -307,6 +307,12 @@ interface GatherOptions {
   currentFilePath?: string;
   /** Max total characters across all returned files. Default 50 000. */
   maxChars?: number;
+  /** Max total tokens across all returned files. Takes precedence over maxChars when countTokens is given. */
+  maxTokens?: number;
+  /** Tokenizer of the target model, used to measure against maxTokens. */
+  countTokens?: (text: string) => number;
+  /** Cut text to at most `maxTokens` tokens of the target model, marker included. Used with maxTokens. */
+  truncateToTokens?: (text: string, maxTokens: number) => string;
   /** Max files to include. Default 15. */
   maxFiles?: number;
   /** Max characters for any single file. Default 10 000. */
@@ -333,20 +339,42 @@ export async function gatherProjectContext(opts: GatherOptions = {}): Promise<Pr
   const root = getWorkspaceRoot();
   if (!root) { return { text: '', fileCount: 0 }; }
 
-  const maxChars     = opts.maxChars  ?? 50_000;
+  const useTokens    = opts.maxTokens !== undefined && !!opts.countTokens;
+  const budget       = useTokens ? (opts.maxTokens as number) : (opts.maxChars ?? 50_000);
+  const measure      = useTokens ? (opts.countTokens as (text: string) => number) : (text: string) => text.length;
   const maxFiles     = opts.maxFiles  ?? 15;
   const maxPerFile   = opts.maxPerFile ?? 10_000;
   const currentAbs   = opts.currentFilePath ? path.resolve(opts.currentFilePath) : '';
   const langExts     = opts.languageId ? (LANG_EXTENSIONS[opts.languageId] ?? []) : [];
 
+  const truncated    = '\n/* ...truncated... */\n';
+  const truncate     = useTokens && opts.truncateToTokens
+    ? opts.truncateToTokens
+    : (text: string, max: number) => {
+      if (text.length <= max) { return text; }
+      return max > truncated.length ? text.slice(0, max - truncated.length) + truncated : '';
+    };
+
   const sections: string[] = [];
   const included = new Set<string>();
-  let totalChars = 0;
+  let used = 0;
+
+  /** Add a section, cutting its body to what is left of the budget (headers and separators count too). Returns where it went. */
+  const addSection = (header: string, body: string, at = sections.length): boolean => {
+    const overhead = measure(`--- ${header} ---\n`) + (sections.length ? measure('\n\n') : 0);
+    const room = budget - used - overhead;
+    if (room <= 0) { return false; }
+    const fitted = measure(body) <= room ? body : truncate(body, room);
+    if (!fitted.trim()) { return false; }
+    sections.splice(at, 0, `--- ${header} ---\n${fitted}`);
+    used += overhead + measure(fitted);
+    return true;
+  };
 
   const addFile = async (relPath: string, label?: string): Promise<boolean> => {
     const key = relPath.replace(/\\/g, '/');
     if (included.has(key)) { return false; }
-    if (included.size >= maxFiles || totalChars >= maxChars) { return false; }
+    if (included.size >= maxFiles || used >= budget) { return false; }
 
     const absPath = path.resolve(root, relPath);
     if (absPath === currentAbs) { return false; }
@@ -355,26 +383,24 @@ export async function gatherProjectContext(opts: GatherOptions = {}): Promise<Pr
     if (!content) { return false; }
 
     const clipped = content.length > maxPerFile
-      ? content.slice(0, maxPerFile) + '\n/* ...truncated... */\n'
+      ? content.slice(0, maxPerFile) + truncated
       : content;
 
+    if (!addSection(label ?? ('FILE: ' + key), clipped)) { return false; }
     included.add(key);
-    sections.push(`--- ${label ?? ('FILE: ' + key)} ---\n${clipped}`);
-    totalChars += clipped.length;
     return true;
   };
 
   // ── 1. Config / manifest files (small but high-signal) ──
   for (const cfg of CONFIG_FILES) {
-    if (totalChars >= maxChars) { break; }
+    if (used >= budget) { break; }
     await addFile(cfg, `CONFIG: ${cfg}`);
   }
 
   // ── 2. Project tree (lightweight overview) ──
   const tree = await buildProjectTree();
   if (tree) {
-    sections.splice(included.size, 0, `--- PROJECT STRUCTURE ---\n${tree}`);
-    totalChars += tree.length;
+    addSection('PROJECT STRUCTURE', tree, included.size);
   }
 
   // ── 3. Same-language sibling files (sorted by directory proximity) ──
@@ -398,14 +424,14 @@ export async function gatherProjectContext(opts: GatherOptions = {}): Promise<Pr
       .sort((a, b) => a.depth - b.depth);
 
     for (const { file } of scored) {
-      if (totalChars >= maxChars || included.size >= maxFiles) { break; }
+      if (used >= budget || included.size >= maxFiles) { break; }
       await addFile(file);
     }
   }
 
   // ── 4. Currently open editors (different language files the user may care about) ──
   for (const tab of vscode.window.tabGroups.all.flatMap(g => g.tabs)) {
-    if (totalChars >= maxChars || included.size >= maxFiles) { break; }
+    if (used >= budget || included.size >= maxFiles) { break; }
     const input = tab.input as { uri?: vscode.Uri } | undefined;
     if (!input?.uri || input.uri.scheme !== 'file') { continue; }
     const abs = input.uri.fsPath;